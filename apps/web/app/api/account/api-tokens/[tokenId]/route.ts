@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { revokeApiToken } from "@/lib/server/domain";
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 20 token changes per 10 minutes per user.
+    await checkRateLimit(session, "api-token-write", 20, 10 * 60_000);
+    const { tokenId } = await context.params;
+
+    const revoked = await revokeApiToken(session.user.id, tokenId);
+    if (!revoked) {
+      return NextResponse.json({ error: "API token not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revoked: true });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { apiTokenCreateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { createApiToken, listApiTokens } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession(request);
+    const apiTokens = await listApiTokens(session.user.id);
+
+    return NextResponse.json({ apiTokens });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request);
+    // 20 token changes per 10 minutes per user.
+    await checkRateLimit(session, "api-token-write", 20, 10 * 60_000);
+    const body = await parseJsonBody(request, apiTokenCreateSchema);
+
+    const created = await createApiToken({
+      userId: session.user.id,
+      name: body.name,
+      scopes: body.scopes,
+      expiresInDays: body.expiresInDays
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { projectInvitationResponseSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { respondToProjectInvitation } from "@/lib/server/domain";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ invitationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 invitation responses per 10 minutes per user.
+    await checkRateLimit(session, "project-invitation-respond", 30, 10 * 60_000);
+    const { invitationId } = await context.params;
+
+    const body = await parseJsonBody(request, projectInvitationResponseSchema);
+    const result = await respondToProjectInvitation({
+      invitationId,
+      user: session.user,
+      action: body.action
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ invitation: result });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
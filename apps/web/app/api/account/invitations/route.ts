@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { listUserProjectInvitations } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession(request);
+    const invitations = await listUserProjectInvitations(session.user);
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
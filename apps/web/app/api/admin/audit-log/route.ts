@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import {
+  AUDIT_LOG_CSV_MAX_ROWS,
+  auditLogQuerySchema,
+  formatAuditLogCsv
+} from "@ton-audit/shared";
+
+import { requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { listAuditLogEntries } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    await requireAdminSession(request);
+    const query = auditLogQuerySchema.safeParse(
+      Object.fromEntries(new URL(request.url).searchParams)
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        { error: query.error.issues.map((issue) => issue.message).join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const { format, limit, ...filters } = query.data;
+    // CSV exports ignore `limit` and return up to AUDIT_LOG_CSV_MAX_ROWS, newest first.
+    const entries = await listAuditLogEntries({
+      ...filters,
+      limit: format === "csv" ? AUDIT_LOG_CSV_MAX_ROWS : limit
+    });
+
+    if (format === "csv") {
+      return new NextResponse(formatAuditLogCsv(entries), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      entries
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
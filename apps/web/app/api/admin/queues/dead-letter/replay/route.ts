@@ -4,6 +4,7 @@ import { z } from "zod";
 import { jobStepSchema } from "@ton-audit/shared";
 
 import { parseJsonBody, requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { recordAuditLog } from "@/lib/server/domain";
 import { replayDeadLetterJob } from "@/lib/server/queues";
 
 const replaySchema = z.object({
@@ -13,9 +14,15 @@ const replaySchema = z.object({
 
 export async function POST(request: Request) {
   try {
-    await requireAdminSession(request);
+    const session = await requireAdminSession(request);
     const body = await parseJsonBody(request, replaySchema);
     const replay = await replayDeadLetterJob(body.queue, body.jobId);
+    await recordAuditLog(session, {
+      action: "dead_letter.replayed",
+      targetType: "job",
+      targetId: body.jobId,
+      summary: { queue: body.queue }
+    });
 
     return NextResponse.json({
       replay
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { eq } from "drizzle-orm";
+
+import {
+  LLM_PROVIDER_REGISTRY_SETTING_KEY,
+  llmProviderRegistrySchema,
+  summarizeFieldChanges,
+  systemSettings
+} from "@ton-audit/shared";
+
+import { parseJsonBody, requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { db } from "@/lib/server/db";
+import { recordAuditLog } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    await requireAdminSession(request);
+
+    const existing = await db.query.systemSettings.findFirst({
+      where: eq(systemSettings.key, LLM_PROVIDER_REGISTRY_SETTING_KEY)
+    });
+
+    const registry = llmProviderRegistrySchema.parse(
+      (existing?.value as Record<string, unknown> | undefined) ?? {}
+    );
+
+    return NextResponse.json({
+      key: LLM_PROVIDER_REGISTRY_SETTING_KEY,
+      registry,
+      updatedAt: existing?.updatedAt?.toISOString() ?? null
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await requireAdminSession(request);
+
+    const registry = await parseJsonBody(request, llmProviderRegistrySchema);
+    const existing = await db.query.systemSettings.findFirst({
+      where: eq(systemSettings.key, LLM_PROVIDER_REGISTRY_SETTING_KEY)
+    });
+
+    const [updated] = await db
+      .insert(systemSettings)
+      .values({
+        key: LLM_PROVIDER_REGISTRY_SETTING_KEY,
+        value: registry,
+        updatedAt: new Date()
+      })
+      .onConflictDoUpdate({
+        target: systemSettings.key,
+        set: {
+          value: registry,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    await recordAuditLog(session, {
+      action: "llm_providers.updated",
+      targetType: "system_setting",
+      targetId: LLM_PROVIDER_REGISTRY_SETTING_KEY,
+      summary: {
+        changes: summarizeFieldChanges(
+          (existing?.value as Record<string, unknown> | undefined) ?? null,
+          registry
+        )
+      }
+    });
+
+    return NextResponse.json({
+      key: LLM_PROVIDER_REGISTRY_SETTING_KEY,
+      registry,
+      updatedAt: updated?.updatedAt?.toISOString() ?? new Date().toISOString()
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -2,10 +2,11 @@ import { NextResponse } from "next/server";
 
 import { eq } from "drizzle-orm";
 
-import { reportBrandingSchema, systemSettings } from "@ton-audit/shared";
+import { reportBrandingSchema, summarizeFieldChanges, systemSettings } from "@ton-audit/shared";
 
 import { parseJsonBody, requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
 import { db } from "@/lib/server/db";
+import { recordAuditLog } from "@/lib/server/domain";
 
 const PDF_BRANDING_SETTING_KEY = "pdf_report_branding";
 
@@ -33,9 +34,12 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
-    await requireAdminSession(request);
+    const session = await requireAdminSession(request);
 
     const branding = await parseJsonBody(request, reportBrandingSchema);
+    const existing = await db.query.systemSettings.findFirst({
+      where: eq(systemSettings.key, PDF_BRANDING_SETTING_KEY)
+    });
 
     const [updated] = await db
       .insert(systemSettings)
@@ -52,6 +56,17 @@ export async function POST(request: Request) {
         }
       })
       .returning();
+    await recordAuditLog(session, {
+      action: "report_branding.updated",
+      targetType: "system_setting",
+      targetId: PDF_BRANDING_SETTING_KEY,
+      summary: {
+        changes: summarizeFieldChanges(
+          (existing?.value as Record<string, unknown> | undefined) ?? null,
+          branding
+        )
+      }
+    });
 
     return NextResponse.json({
       key: PDF_BRANDING_SETTING_KEY,
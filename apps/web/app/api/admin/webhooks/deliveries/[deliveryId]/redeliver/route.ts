@@ -0,0 +1,46 @@
+import { randomUUID } from "node:crypto";
+
+import { NextResponse } from "next/server";
+
+import { requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { getWebhookDeliveryDetail, resetWebhookDeliveryForRedelivery } from "@/lib/server/domain";
+import { enqueueJob } from "@/lib/server/queues";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    await requireAdminSession(request);
+    const { deliveryId } = await context.params;
+
+    const delivery = await getWebhookDeliveryDetail(deliveryId);
+    if (!delivery) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    if (delivery.status !== "failed") {
+      return NextResponse.json(
+        { error: "Only failed deliveries can be redelivered" },
+        { status: 409 }
+      );
+    }
+
+    await resetWebhookDeliveryForRedelivery(delivery.id);
+    // The original job id is still held by BullMQ, so each redelivery gets its own.
+    const job = await enqueueJob(
+      "webhook-delivery",
+      { projectId: delivery.projectId, deliveryId: delivery.id },
+      `webhook-delivery:${delivery.id}:${randomUUID()}`
+    );
+
+    return NextResponse.json({
+      redelivery: {
+        deliveryId: delivery.id,
+        jobId: job.id ?? null
+      }
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { getWebhookDeliveryDetail } from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ deliveryId: string }> }
+) {
+  try {
+    await requireAdminSession(request);
+    const { deliveryId } = await context.params;
+
+    const delivery = await getWebhookDeliveryDetail(deliveryId);
+    if (!delivery) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      delivery
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
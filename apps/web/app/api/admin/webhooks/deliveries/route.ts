@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { webhookDeliveryStatusSchema } from "@ton-audit/shared";
+
+import { requireAdminSession, toApiErrorResponse } from "@/lib/server/api";
+import { listWebhookDeliveries } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    await requireAdminSession(request);
+    const searchParams = new URL(request.url).searchParams;
+    const status = webhookDeliveryStatusSchema.safeParse(searchParams.get("status") ?? "failed");
+    if (!status.success) {
+      return NextResponse.json(
+        { error: "Delivery status must be one of pending, succeeded or failed" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Number(searchParams.get("limit") ?? "50");
+    const deliveries = await listWebhookDeliveries({
+      status: status.data,
+      projectId: searchParams.get("projectId") ?? undefined,
+      limit: Number.isFinite(limit) ? Math.max(1, Math.min(limit, 200)) : 50
+    });
+
+    return NextResponse.json({
+      deliveries
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+
+import { organizationMemberUpdateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureOrganizationAccess,
+  removeOrganizationMember,
+  updateOrganizationMemberRole
+} from "@/lib/server/domain";
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ organizationId: string; userId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "organization-member-write", 30, 10 * 60_000);
+    const { organizationId, userId } = await context.params;
+
+    const access = await ensureOrganizationAccess(organizationId, session.user.id, "manage");
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, organizationMemberUpdateSchema);
+    const member = await updateOrganizationMemberRole({
+      organizationId,
+      actorRole: access.role,
+      userId,
+      role: body.role
+    });
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ member });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ organizationId: string; userId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "organization-member-write", 30, 10 * 60_000);
+    const { organizationId, userId } = await context.params;
+
+    // Any member may leave an organization; removing someone else requires an admin or owner.
+    const isLeaving = userId === session.user.id;
+    const access = await ensureOrganizationAccess(
+      organizationId,
+      session.user.id,
+      isLeaving ? "read" : "manage"
+    );
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const removed = await removeOrganizationMember({
+      organizationId,
+      actorRole: access.role,
+      userId,
+      isSelf: isLeaving
+    });
+    if (!removed) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
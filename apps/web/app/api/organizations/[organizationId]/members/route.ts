@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { organizationMemberAddSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  addOrganizationMember,
+  ensureOrganizationAccess,
+  listOrganizationMembers
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ organizationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { organizationId } = await context.params;
+
+    const access = await ensureOrganizationAccess(organizationId, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const members = await listOrganizationMembers(organizationId);
+
+    return NextResponse.json({
+      currentUserId: session.user.id,
+      currentUserRole: access.role,
+      members
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ organizationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "organization-member-write", 30, 10 * 60_000);
+    const { organizationId } = await context.params;
+
+    const access = await ensureOrganizationAccess(organizationId, session.user.id, "manage");
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, organizationMemberAddSchema);
+    const member = await addOrganizationMember({
+      organizationId,
+      actorRole: access.role,
+      email: body.email,
+      role: body.role
+    });
+
+    return NextResponse.json({ member }, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
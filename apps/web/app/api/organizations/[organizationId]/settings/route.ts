@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { organizationSettingsUpdateSchema, summarizeFieldChanges } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureOrganizationAccess,
+  getOrganizationSettings,
+  recordAuditLog,
+  updateOrganizationSettings
+} from "@/lib/server/domain";
+import {
+  assertAllowedModel,
+  getAuditModelAllowlist,
+  invalidateAuditModelAllowlist
+} from "@/lib/server/model-allowlist";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ organizationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { organizationId } = await context.params;
+
+    const access = await ensureOrganizationAccess(organizationId, session.user.id);
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const settings = await getOrganizationSettings(organizationId);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ organizationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 settings updates per 10 minutes per user.
+    await checkRateLimit(session, "organization-settings-write", 30, 10 * 60_000);
+    const { organizationId } = await context.params;
+
+    const access = await ensureOrganizationAccess(organizationId, session.user.id, "manage");
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, organizationSettingsUpdateSchema);
+    if (body.modelAllowlist) {
+      // Overrides narrow the operator's allowlist; they cannot add models to it.
+      const systemAllowlist = await getAuditModelAllowlist();
+      for (const modelId of body.modelAllowlist.models) {
+        assertAllowedModel(modelId, systemAllowlist);
+      }
+    }
+    const previous = await getOrganizationSettings(organizationId);
+    const settings = await updateOrganizationSettings(organizationId, body);
+    invalidateAuditModelAllowlist(organizationId);
+    await recordAuditLog(session, {
+      action: "organization_settings.updated",
+      targetType: "organization",
+      targetId: organizationId,
+      summary: { changes: summarizeFieldChanges(previous, settings) }
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
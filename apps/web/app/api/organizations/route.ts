@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { organizationCreateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { createOrganization, listUserOrganizations } from "@/lib/server/domain";
+
+export async function GET(request: Request) {
+  try {
+    const session = await requireSession(request);
+    const organizations = await listUserOrganizations(session.user.id);
+
+    return NextResponse.json({ organizations });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await requireSession(request);
+    // 10 organization creations per 10 minutes per user.
+    await checkRateLimit(session, "create-organization", 10, 10 * 60_000);
+    const body = await parseJsonBody(request, organizationCreateSchema);
+
+    const organization = await createOrganization({
+      name: body.name,
+      slug: body.slug,
+      createdByUserId: session.user.id
+    });
+
+    return NextResponse.json({ organization }, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
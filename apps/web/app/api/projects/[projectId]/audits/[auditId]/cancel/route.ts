@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  cancelAuditRun,
+  ensureProjectAccess,
+  findAuditRunWithProject,
+  recordAuditLog
+} from "@/lib/server/domain";
+import { removePendingAuditRunJobs } from "@/lib/server/queues";
+
+const CANCELLABLE_AUDIT_STATUSES = new Set(["queued", "running"]);
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string; auditId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 20 cancellations per 10 minutes per user.
+    await checkRateLimit(session, "cancel-audit", 20, 10 * 60_000);
+    const { projectId, auditId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "run-audit");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const audit = await findAuditRunWithProject(projectId, auditId);
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (!CANCELLABLE_AUDIT_STATUSES.has(audit.status)) {
+      return NextResponse.json(
+        {
+          error: `Audit cannot be cancelled while status is '${audit.status}'.`
+        },
+        { status: 409 }
+      );
+    }
+
+    const cancelledAudit = await cancelAuditRun(projectId, auditId);
+    if (!cancelledAudit) {
+      return NextResponse.json(
+        {
+          error: "Audit finished before it could be cancelled."
+        },
+        { status: 409 }
+      );
+    }
+
+    const removedJobIds = await removePendingAuditRunJobs(projectId, auditId);
+    await recordAuditLog(session, {
+      action: "audit.cancelled",
+      projectId,
+      targetType: "audit_run",
+      targetId: auditId,
+      summary: { previousStatus: audit.status, removedJobCount: removedJobIds.length }
+    });
+
+    return NextResponse.json({
+      audit: cancelledAudit,
+      removedJobIds
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
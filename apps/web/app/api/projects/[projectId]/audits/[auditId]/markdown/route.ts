@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { pdfExportRequestSchema, renderReportMarkdown } from "@ton-audit/shared";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  findAuditRunWithProject,
+  getAuditReportRenderParams
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; auditId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 20 export requests per 10 minutes per user.
+    await checkRateLimit(session, "export-markdown", 20, 10 * 60_000);
+    const { projectId, auditId } = await context.params;
+
+    // Same `?variant=client|internal` as the PDF export; internal stays the default.
+    const parsedVariant = pdfExportRequestSchema.safeParse({
+      variant: new URL(request.url).searchParams.get("variant") ?? undefined
+    });
+    if (!parsedVariant.success) {
+      return NextResponse.json(
+        { error: "Report variant must be either client or internal" },
+        { status: 400 }
+      );
+    }
+    const variant = parsedVariant.data.variant;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const audit = await findAuditRunWithProject(projectId, auditId);
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const renderParams =
+      audit.status === "completed" ? await getAuditReportRenderParams(audit, variant) : null;
+    if (!renderParams) {
+      return NextResponse.json(
+        {
+          error:
+            "Audit report is not ready yet. Wait for a completed audit before exporting Markdown."
+        },
+        { status: 409 }
+      );
+    }
+
+    return new NextResponse(renderReportMarkdown(renderParams), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-${audit.id}${variant === "client" ? "-client" : ""}.md"`
+      }
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
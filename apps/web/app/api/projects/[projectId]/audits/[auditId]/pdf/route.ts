@@ -1,22 +1,35 @@
 import { NextResponse } from "next/server";
 
-import { type PdfExportVariant } from "@ton-audit/shared";
+import { pdfExportRequestSchema, type PdfExportVariant } from "@ton-audit/shared";
 
 import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
 import {
   createPdfExport,
   ensureProjectAccess,
   findAuditRunWithProject,
-  getPdfExportByAudit
+  getPdfExportByAudit,
+  recordAuditLog
 } from "@/lib/server/domain";
 import { enqueueJob, queues } from "@/lib/server/queues";
 import { getObjectSignedUrl } from "@/lib/server/s3";
 
 const PDF_ENQUEUE_COOLDOWN_MS = 30_000;
 const PDF_IN_FLIGHT_SCAN_LIMIT = 256;
-const FINAL_PDF_VARIANT: PdfExportVariant = "internal";
 
-async function findInFlightPdfJob(projectId: string, auditRunId: string) {
+// The variant comes from `?variant=client|internal`; internal stays the default.
+function parsePdfVariant(request: Request): PdfExportVariant | null {
+  const parsed = pdfExportRequestSchema.safeParse({
+    variant: new URL(request.url).searchParams.get("variant") ?? undefined
+  });
+
+  return parsed.success ? parsed.data.variant : null;
+}
+
+async function findInFlightPdfJob(
+  projectId: string,
+  auditRunId: string,
+  variant: PdfExportVariant
+) {
   const jobs = await queues.pdf.getJobs(
     ["active", "waiting", "delayed", "prioritized", "waiting-children"],
     0,
@@ -26,7 +39,11 @@ async function findInFlightPdfJob(projectId: string, auditRunId: string) {
 
   return (
     jobs.find((job) => {
-      return job.data.projectId === projectId && job.data.auditRunId === auditRunId;
+      return (
+        job.data.projectId === projectId &&
+        job.data.auditRunId === auditRunId &&
+        (job.data.variant ?? "internal") === variant
+      );
     }) ?? null
   );
 }
@@ -36,12 +53,19 @@ export async function POST(
   context: { params: Promise<{ projectId: string; auditId: string }> }
 ) {
   try {
-    const variant = FINAL_PDF_VARIANT;
     const session = await requireSession(request);
     // 20 export requests per 10 minutes per user.
-    await checkRateLimit(session.user.id, "export-pdf", 20, 10 * 60_000);
+    await checkRateLimit(session, "export-pdf", 20, 10 * 60_000);
     const { projectId, auditId } = await context.params;
 
+    const variant = parsePdfVariant(request);
+    if (!variant) {
+      return NextResponse.json(
+        { error: "PDF variant must be either client or internal" },
+        { status: 400 }
+      );
+    }
+
     const project = await ensureProjectAccess(projectId, session.user.id);
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
@@ -78,7 +102,7 @@ export async function POST(
     const lastUpdatedAt =
       existingPdf?.updatedAt instanceof Date ? existingPdf.updatedAt.getTime() : 0;
     const ageMs = lastUpdatedAt ? now - lastUpdatedAt : Number.POSITIVE_INFINITY;
-    const inFlightJob = await findInFlightPdfJob(projectId, audit.id);
+    const inFlightJob = await findInFlightPdfJob(projectId, audit.id, variant);
 
     if (inFlightJob) {
       return NextResponse.json(
@@ -129,6 +153,13 @@ export async function POST(
     }
 
     await createPdfExport(audit.id, variant);
+    await recordAuditLog(session, {
+      action: "pdf.export_requested",
+      projectId,
+      targetType: "audit_run",
+      targetId: audit.id,
+      summary: { variant }
+    });
 
     const uniqueJobId = `pdf:${projectId}:${audit.id}:${variant}:${crypto.randomUUID()}`;
     const job = await enqueueJob(
@@ -161,10 +192,17 @@ export async function GET(
   context: { params: Promise<{ projectId: string; auditId: string }> }
 ) {
   try {
-    const variant = FINAL_PDF_VARIANT;
     const session = await requireSession(request);
     const { projectId, auditId } = await context.params;
 
+    const variant = parsePdfVariant(request);
+    if (!variant) {
+      return NextResponse.json(
+        { error: "PDF variant must be either client or internal" },
+        { status: 400 }
+      );
+    }
+
     const project = await ensureProjectAccess(projectId, session.user.id);
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
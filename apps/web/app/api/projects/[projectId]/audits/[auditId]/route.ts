@@ -5,7 +5,12 @@ import { eq } from "drizzle-orm";
 import { findingInstances, normalizeAuditReport } from "@ton-audit/shared";
 
 import { requireSession, toApiErrorResponse } from "@/lib/server/api";
-import { ensureProjectAccess, findAuditRunWithProject } from "@/lib/server/domain";
+import {
+  countFindingComments,
+  ensureProjectAccess,
+  findAuditRunWithProject,
+  listFindingTriages
+} from "@/lib/server/domain";
 import { db } from "@/lib/server/db";
 
 export async function GET(
@@ -26,10 +31,21 @@ export async function GET(
       return NextResponse.json({ error: "Audit not found" }, { status: 404 });
     }
 
-    const findings = await db
+    const instances = await db
       .select()
       .from(findingInstances)
       .where(eq(findingInstances.auditRunId, auditId));
+    const findingIds = instances.map((instance) => instance.findingId);
+    const [triages, commentCounts] = await Promise.all([
+      listFindingTriages(findingIds),
+      countFindingComments(findingIds)
+    ]);
+    const triageByFindingId = new Map(triages.map((triage) => [triage.findingId, triage]));
+    const findings = instances.map((instance) => ({
+      ...instance,
+      triage: triageByFindingId.get(instance.findingId) ?? null,
+      commentCount: commentCounts.get(instance.findingId) ?? 0
+    }));
 
     const normalizedReport = audit.reportJson ? normalizeAuditReport(audit.reportJson) : null;
 
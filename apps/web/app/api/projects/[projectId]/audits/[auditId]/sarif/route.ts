@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { buildSarifLog } from "@ton-audit/shared";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  findAuditRunWithProject,
+  listAuditSarifFindings
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; auditId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 20 export requests per 10 minutes per user.
+    await checkRateLimit(session, "export-sarif", 20, 10 * 60_000);
+    const { projectId, auditId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const audit = await findAuditRunWithProject(projectId, auditId);
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    if (audit.status !== "completed") {
+      return NextResponse.json(
+        {
+          error: "Audit report is not ready yet. Wait for a completed audit before exporting SARIF."
+        },
+        { status: 409 }
+      );
+    }
+
+    const sarifLog = buildSarifLog({
+      auditRunId: audit.id,
+      projectId,
+      revisionId: audit.revisionId,
+      engineVersion: audit.engineVersion,
+      findings: await listAuditSarifFindings(audit.id)
+    });
+
+    return new NextResponse(JSON.stringify(sarifLog, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/sarif+json",
+        "Content-Disposition": `attachment; filename="audit-${audit.id}.sarif"`
+      }
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
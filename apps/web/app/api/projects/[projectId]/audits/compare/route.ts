@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 
+import { auditCompareDiffQuerySchema } from "@ton-audit/shared";
+
 import { requireSession, toApiErrorResponse } from "@/lib/server/api";
 import { ensureProjectAccess, getAuditComparison } from "@/lib/server/domain";
 
@@ -34,10 +36,19 @@ export async function GET(
       );
     }
 
+    const diffQuery = auditCompareDiffQuerySchema.safeParse(Object.fromEntries(search));
+    if (!diffQuery.success) {
+      return NextResponse.json(
+        { error: diffQuery.error.issues.map((issue) => issue.message).join("; ") },
+        { status: 400 }
+      );
+    }
+
     const result = await getAuditComparison({
       projectId,
       fromAuditId,
-      toAuditId
+      toAuditId,
+      ...diffQuery.data
     });
 
     if (result.kind === "not-found") {
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+
+import { projectAuditBudgetUpdateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  ensureProjectOwnerAccess,
+  queryProjectAuditSpend,
+  recordAuditLog,
+  updateProjectAuditBudget
+} from "@/lib/server/domain";
+import {
+  assertPricedModels,
+  getAuditModelAllowlist,
+  getAuditModelPrices
+} from "@/lib/server/model-allowlist";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const spend = await queryProjectAuditSpend(projectId);
+
+    return NextResponse.json({ budget: project.auditBudget ?? null, spend });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 budget updates per 10 minutes per user.
+    await checkRateLimit(session, "project-budget-write", 30, 10 * 60_000);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, projectAuditBudgetUpdateSchema);
+    // Every run inherits the project budget, so any allowlisted model may spend against it.
+    if (body.budget?.maxCostUsd !== undefined) {
+      const [modelAllowlist, prices] = await Promise.all([
+        getAuditModelAllowlist(project.organizationId),
+        getAuditModelPrices(project.organizationId)
+      ]);
+      assertPricedModels(modelAllowlist, prices);
+    }
+    const budget = await updateProjectAuditBudget(projectId, body.budget);
+    await recordAuditLog(session, {
+      action: "project.budget_updated",
+      projectId,
+      targetType: "project",
+      targetId: projectId,
+      summary: { previous: project.auditBudget ?? null, budget }
+    });
+    const spend = await queryProjectAuditSpend(projectId);
+
+    return NextResponse.json({ budget, spend });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+
+import { findingCommentSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  deleteFindingComment,
+  ensureProjectAccess,
+  findFindingComment,
+  findProjectFinding,
+  updateFindingComment
+} from "@/lib/server/domain";
+
+type RouteContext = {
+  params: Promise<{ projectId: string; findingId: string; commentId: string }>;
+};
+
+async function resolveComment(projectId: string, findingId: string, commentId: string, userId: string) {
+  const project = await ensureProjectAccess(projectId, userId, "comment");
+  if (!project) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  const finding = await findProjectFinding(projectId, findingId);
+  if (!finding) {
+    return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+  }
+
+  const comment = await findFindingComment(finding.id, commentId);
+  if (!comment) {
+    return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+  }
+
+  // Comments are only ever changed by the person who wrote them.
+  if (comment.authorUserId !== userId) {
+    return NextResponse.json(
+      { error: "Only the comment author can change this comment" },
+      { status: 403 }
+    );
+  }
+
+  return comment;
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  try {
+    const session = await requireSession(request);
+    // 30 comment edits per 10 minutes per user.
+    await checkRateLimit(session, "finding-comment-edit", 30, 10 * 60_000);
+    const { projectId, findingId, commentId } = await context.params;
+
+    const comment = await resolveComment(projectId, findingId, commentId, session.user.id);
+    if (comment instanceof NextResponse) {
+      return comment;
+    }
+
+    const body = await parseJsonBody(request, findingCommentSchema);
+    if (body.body === comment.body) {
+      return NextResponse.json({ comment });
+    }
+
+    const updatedComment = await updateFindingComment({
+      commentId: comment.id,
+      body: body.body
+    });
+    if (!updatedComment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ comment: updatedComment });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, context: RouteContext) {
+  try {
+    const session = await requireSession(request);
+    // 30 comment edits per 10 minutes per user.
+    await checkRateLimit(session, "finding-comment-edit", 30, 10 * 60_000);
+    const { projectId, findingId, commentId } = await context.params;
+
+    const comment = await resolveComment(projectId, findingId, commentId, session.user.id);
+    if (comment instanceof NextResponse) {
+      return comment;
+    }
+
+    const deletedComment = await deleteFindingComment(comment.id);
+
+    return NextResponse.json({ deleted: deletedComment !== null });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
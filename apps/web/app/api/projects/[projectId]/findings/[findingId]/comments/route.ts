@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { findingCommentSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  createFindingComment,
+  ensureProjectAccess,
+  findProjectFinding,
+  listFindingComments
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; findingId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId, findingId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const finding = await findProjectFinding(projectId, findingId);
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const comments = await listFindingComments(finding.id);
+
+    return NextResponse.json({
+      comments: comments.map((comment) => ({
+        ...comment,
+        canEdit: comment.authorUserId === session.user.id
+      }))
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string; findingId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 comments per 10 minutes per user.
+    await checkRateLimit(session, "finding-comment", 30, 10 * 60_000);
+    const { projectId, findingId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "comment");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const finding = await findProjectFinding(projectId, findingId);
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, findingCommentSchema);
+    const comment = await createFindingComment({
+      findingId: finding.id,
+      authorUserId: session.user.id,
+      body: body.body
+    });
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { findingTriageSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  clearFindingTriage,
+  ensureProjectAccess,
+  findProjectFinding,
+  listFindingTriages,
+  upsertFindingTriage
+} from "@/lib/server/domain";
+
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ projectId: string; findingId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 60 triage updates per 10 minutes per user.
+    await checkRateLimit(session, "finding-triage", 60, 10 * 60_000);
+    const { projectId, findingId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "triage");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const finding = await findProjectFinding(projectId, findingId);
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, findingTriageSchema);
+
+    await upsertFindingTriage({
+      findingId: finding.id,
+      status: body.status,
+      justification: body.justification,
+      authorUserId: session.user.id
+    });
+    const [triage] = await listFindingTriages([finding.id]);
+
+    return NextResponse.json({ triage: triage ?? null });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ projectId: string; findingId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 60 triage updates per 10 minutes per user.
+    await checkRateLimit(session, "finding-triage", 60, 10 * 60_000);
+    const { projectId, findingId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "triage");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const finding = await findProjectFinding(projectId, findingId);
+    if (!finding) {
+      return NextResponse.json({ error: "Finding not found" }, { status: 404 });
+    }
+
+    const cleared = await clearFindingTriage(finding.id);
+
+    return NextResponse.json({ cleared: cleared !== null });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
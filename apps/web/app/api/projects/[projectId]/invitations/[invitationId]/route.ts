@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { ensureProjectAccess, revokeProjectInvitation } from "@/lib/server/domain";
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ projectId: string; invitationId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "project-member-write", 30, 10 * 60_000);
+    const { projectId, invitationId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "manage");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const revoked = await revokeProjectInvitation(project.id, invitationId);
+    if (!revoked) {
+      return NextResponse.json({ error: "Invitation not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revoked: true });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { projectInvitationCreateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { createProjectInvitation, ensureProjectAccess } from "@/lib/server/domain";
+import { resolveGitHubUser } from "@/lib/server/github";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "project-member-write", 30, 10 * 60_000);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "manage");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, projectInvitationCreateSchema);
+
+    let github: Awaited<ReturnType<typeof resolveGitHubUser>> = null;
+    if (body.githubLogin) {
+      github = await resolveGitHubUser(body.githubLogin);
+      if (!github) {
+        return NextResponse.json({ error: "GitHub user not found" }, { status: 404 });
+      }
+    }
+
+    const invitation = await createProjectInvitation({
+      project,
+      role: body.role,
+      invitedByUserId: session.user.id,
+      email: body.email ?? null,
+      github
+    });
+
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { projectMemberUpdateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  removeProjectMember,
+  updateProjectMemberRole
+} from "@/lib/server/domain";
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ projectId: string; userId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "project-member-write", 30, 10 * 60_000);
+    const { projectId, userId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "manage");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, projectMemberUpdateSchema);
+    const member = await updateProjectMemberRole(project, userId, body.role);
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ member });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ projectId: string; userId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 membership changes per 10 minutes per user.
+    await checkRateLimit(session, "project-member-write", 30, 10 * 60_000);
+    const { projectId, userId } = await context.params;
+
+    // Any member may leave a project; removing someone else requires the owner.
+    const isLeaving = userId === session.user.id;
+    const project = await ensureProjectAccess(
+      projectId,
+      session.user.id,
+      isLeaving ? "read" : "manage"
+    );
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const removed = await removeProjectMember(project, userId);
+    if (!removed) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
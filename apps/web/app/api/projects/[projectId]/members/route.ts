@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  getProjectMemberRole,
+  listProjectInvitations,
+  listProjectMembers
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const currentUserRole = await getProjectMemberRole(project.id, session.user.id);
+    const members = await listProjectMembers(project);
+    // Invitee addresses are only shown to the owner, who is the only one who can act on them.
+    const invitations = currentUserRole === "owner" ? await listProjectInvitations(project.id) : [];
+
+    return NextResponse.json({
+      currentUserId: session.user.id,
+      currentUserRole,
+      members,
+      invitations
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
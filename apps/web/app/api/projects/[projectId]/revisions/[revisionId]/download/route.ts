@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { createRevisionArchive, ensureProjectAccess } from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; revisionId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 10 source downloads per 10 minutes per user.
+    await checkRateLimit(session, "download-source", 10, 10 * 60_000);
+    const { projectId, revisionId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const archive = await createRevisionArchive({ projectId, revisionId });
+    if (!archive) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return new NextResponse(archive.stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${project.slug}-revision-${archive.revision.id.slice(0, 8)}.zip"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
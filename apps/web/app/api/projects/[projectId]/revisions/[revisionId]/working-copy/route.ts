@@ -16,7 +16,7 @@ export async function POST(
     const session = await requireSession(request);
     const { projectId, revisionId } = await context.params;
 
-    const project = await ensureProjectAccess(projectId, session.user.id);
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
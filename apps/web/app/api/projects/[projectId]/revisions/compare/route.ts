@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import { auditCompareDiffQuerySchema } from "@ton-audit/shared";
+
+import { requireSession, toApiErrorResponse } from "@/lib/server/api";
+import { compareProjectRevisions, ensureProjectAccess } from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const search = new URL(request.url).searchParams;
+    const fromRevisionId = search.get("fromRevisionId")?.trim() ?? "";
+    const toRevisionId = search.get("toRevisionId")?.trim() ?? "";
+
+    if (!fromRevisionId || !toRevisionId) {
+      return NextResponse.json(
+        { error: "Both fromRevisionId and toRevisionId query parameters are required." },
+        { status: 400 }
+      );
+    }
+
+    if (fromRevisionId === toRevisionId) {
+      return NextResponse.json(
+        { error: "fromRevisionId and toRevisionId must be different revisions." },
+        { status: 400 }
+      );
+    }
+
+    const diffQuery = auditCompareDiffQuerySchema.safeParse(Object.fromEntries(search));
+    if (!diffQuery.success) {
+      return NextResponse.json(
+        { error: diffQuery.error.issues.map((issue) => issue.message).join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await compareProjectRevisions({
+      projectId,
+      fromRevisionId,
+      toRevisionId,
+      ...diffQuery.data
+    });
+    if (!comparison) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
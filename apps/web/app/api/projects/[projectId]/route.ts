@@ -4,6 +4,7 @@ import {
   ensureProjectAccess,
   ensureProjectOwnerAccess,
   getLatestProjectState,
+  recordAuditLog,
   softDeleteProject
 } from "@/lib/server/domain";
 import { requireSession, toApiErrorResponse } from "@/lib/server/api";
@@ -46,6 +47,13 @@ export async function DELETE(
     }
 
     const deleted = await softDeleteProject({ projectId: project.id });
+    await recordAuditLog(session, {
+      action: "project.deleted",
+      projectId: project.id,
+      targetType: "project",
+      targetId: project.id,
+      summary: { name: project.name, slug: project.slug }
+    });
     return NextResponse.json({ project: deleted });
   } catch (error) {
     return toApiErrorResponse(error);
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { projectTransferSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureOrganizationAccess,
+  ensureProjectOwnerAccess,
+  recordAuditLog,
+  transferProjectToOrganization
+} from "@/lib/server/domain";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 10 transfers per 10 minutes per user.
+    await checkRateLimit(session, "project-transfer", 10, 10 * 60_000);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, projectTransferSchema);
+    // Moving a project in is the same as creating it there.
+    const access = await ensureOrganizationAccess(
+      body.organizationId,
+      session.user.id,
+      "create-project"
+    );
+    if (!access) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const transferred = await transferProjectToOrganization({
+      projectId: project.id,
+      organizationId: access.organization.id
+    });
+    await recordAuditLog(session, {
+      action: "project.transferred",
+      projectId: project.id,
+      targetType: "project",
+      targetId: project.id,
+      summary: { organizationId: access.organization.id, organizationName: access.organization.name }
+    });
+
+    return NextResponse.json({ project: transferred });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
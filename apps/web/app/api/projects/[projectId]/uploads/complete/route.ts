@@ -5,7 +5,7 @@ import { and, eq } from "drizzle-orm";
 import { uploadCompleteSchema, uploads } from "@ton-audit/shared";
 
 import { parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
-import { ensureProjectAccess } from "@/lib/server/domain";
+import { ensureProjectAccess, recordAuditLog } from "@/lib/server/domain";
 import { db } from "@/lib/server/db";
 import { completeMultipartUpload, objectExists, putObject } from "@/lib/server/s3";
 
@@ -17,7 +17,7 @@ export async function POST(
     const session = await requireSession(request);
     const { projectId } = await context.params;
 
-    const project = await ensureProjectAccess(projectId, session.user.id);
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
@@ -114,6 +114,18 @@ export async function POST(
       })
       .where(eq(uploads.id, upload.id))
       .returning();
+    await recordAuditLog(session, {
+      action: "upload.completed",
+      projectId,
+      targetType: "upload",
+      targetId: upload.id,
+      summary: {
+        type: upload.type,
+        originalFilename: upload.originalFilename,
+        sizeBytes: upload.sizeBytes,
+        fileCount: upload.type === "file-set" ? body.completedFiles.length : null
+      }
+    });
 
     return NextResponse.json({ upload: updated });
   } catch (error) {
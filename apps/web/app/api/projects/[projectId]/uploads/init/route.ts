@@ -24,9 +24,9 @@ export async function POST(
     const session = await requireSession(request);
     const { projectId } = await context.params;
     // 20 upload initiations per minute per user.
-    await checkRateLimit(session.user.id, "upload-init", 20, 60_000);
+    await checkRateLimit(session, "upload-init", 20, 60_000);
 
-    const project = await ensureProjectAccess(projectId, session.user.id);
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { webhookSubscriptionUpdateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  deleteWebhookSubscription,
+  ensureProjectOwnerAccess,
+  findWebhookSubscription,
+  updateWebhookSubscription
+} from "@/lib/server/domain";
+
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ projectId: string; webhookId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 webhook changes per 10 minutes per user.
+    await checkRateLimit(session, "webhook-write", 30, 10 * 60_000);
+    const { projectId, webhookId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const existing = await findWebhookSubscription(projectId, webhookId);
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, webhookSubscriptionUpdateSchema);
+    const webhook = await updateWebhookSubscription(existing.id, body);
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ projectId: string; webhookId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 webhook changes per 10 minutes per user.
+    await checkRateLimit(session, "webhook-write", 30, 10 * 60_000);
+    const { projectId, webhookId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const existing = await findWebhookSubscription(projectId, webhookId);
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const deleted = await deleteWebhookSubscription(existing.id);
+
+    return NextResponse.json({ deleted: deleted !== null });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import { webhookSubscriptionCreateSchema } from "@ton-audit/shared";
+
+import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  createWebhookSubscription,
+  ensureProjectOwnerAccess,
+  listWebhookSubscriptions
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const webhooks = await listWebhookSubscriptions(projectId);
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // 30 webhook changes per 10 minutes per user.
+    await checkRateLimit(session, "webhook-write", 30, 10 * 60_000);
+    const { projectId } = await context.params;
+
+    const project = await ensureProjectOwnerAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const body = await parseJsonBody(request, webhookSubscriptionCreateSchema);
+    const webhook = await createWebhookSubscription({
+      projectId,
+      url: body.url,
+      secret: body.secret,
+      events: body.events,
+      enabled: body.enabled,
+      createdByUserId: session.user.id
+    });
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+
+import { requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  ensureWorkingCopyAccess,
+  getWorkingCopyChanges
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; workingCopyId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId, workingCopyId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const workingCopy = await ensureWorkingCopyAccess(workingCopyId, session.user.id, projectId);
+    if (!workingCopy) {
+      return NextResponse.json({ error: "Working copy not found" }, { status: 404 });
+    }
+
+    const changes = await getWorkingCopyChanges(workingCopy);
+
+    return NextResponse.json(changes);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { checkRateLimit, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  createWorkingCopyArchive,
+  ensureProjectAccess,
+  ensureWorkingCopyAccess
+} from "@/lib/server/domain";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string; workingCopyId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    // Shares the revision download budget: 10 source downloads per 10 minutes per user.
+    await checkRateLimit(session, "download-source", 10, 10 * 60_000);
+    const { projectId, workingCopyId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const workingCopy = await ensureWorkingCopyAccess(workingCopyId, session.user.id, projectId);
+    if (!workingCopy) {
+      return NextResponse.json({ error: "Working copy not found" }, { status: 404 });
+    }
+
+    const archive = await createWorkingCopyArchive(workingCopy);
+
+    return new NextResponse(archive.stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${project.slug}-working-copy-${workingCopy.id.slice(0, 8)}.zip"`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
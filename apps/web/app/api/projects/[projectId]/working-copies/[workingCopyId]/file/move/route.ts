@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { workingCopyMovePathSchema } from "@ton-audit/shared";
+
+import { parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
+import {
+  ensureProjectAccess,
+  ensureWorkingCopyAccess,
+  findActiveAuditRun,
+  moveWorkingCopyPath,
+  recordAuditLog
+} from "@/lib/server/domain";
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string; workingCopyId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId, workingCopyId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const workingCopy = await ensureWorkingCopyAccess(workingCopyId, session.user.id, projectId);
+    if (!workingCopy) {
+      return NextResponse.json({ error: "Working copy not found" }, { status: 404 });
+    }
+
+    const activeAuditRun = await findActiveAuditRun(projectId);
+    if (activeAuditRun) {
+      return NextResponse.json(
+        {
+          error: "Cannot modify files while an audit is running for this project.",
+          activeAuditRunId: activeAuditRun.id
+        },
+        { status: 409 }
+      );
+    }
+
+    const body = await parseJsonBody(request, workingCopyMovePathSchema);
+
+    const result = await moveWorkingCopyPath({
+      workingCopyId,
+      fromPath: body.fromPath,
+      toPath: body.toPath
+    });
+    await recordAuditLog(session, {
+      action: "working_copy.path_moved",
+      projectId,
+      targetType: "working_copy",
+      targetId: workingCopyId,
+      summary: {
+        fromPath: result.fromPath,
+        toPath: result.toPath,
+        fileCount: result.moved.length
+      }
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return toApiErrorResponse(error);
+  }
+}
@@ -2,17 +2,43 @@ import { NextResponse } from "next/server";
 
 import { and, eq } from "drizzle-orm";
 
-import { normalizePath, workingCopyFiles, workingCopyPatchFileSchema } from "@ton-audit/shared";
+import {
+  createContentFingerprint,
+  normalizePath,
+  summarizeLineChanges,
+  workingCopyFiles,
+  workingCopyPatchFileSchema
+} from "@ton-audit/shared";
 
 import { parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
 import {
+  deleteWorkingCopyPath,
   ensureProjectAccess,
   ensureWorkingCopyAccess,
   findActiveAuditRun,
-  saveWorkingCopyFile
+  recordAuditLog,
+  saveWorkingCopyFile,
+  WorkingCopyFileConflictError
 } from "@/lib/server/domain";
 import { db } from "@/lib/server/db";
 
+/**
+ * Reads the save precondition: `If-Match` carries the version from a previous GET (or `*` for
+ * any existing file) and `If-None-Match: *` creates a file that must not exist yet.
+ */
+function readExpectedVersion(request: Request): string | null | undefined {
+  const ifMatch = request.headers.get("if-match")?.trim();
+  if (ifMatch) {
+    return ifMatch === "*" ? ifMatch : ifMatch.replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+  }
+
+  if (request.headers.get("if-none-match")?.trim() === "*") {
+    return null;
+  }
+
+  return undefined;
+}
+
 export async function GET(
   request: Request,
   context: { params: Promise<{ projectId: string; workingCopyId: string }> }
@@ -56,7 +82,11 @@ export async function GET(
       return NextResponse.json({ error: "File not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ file });
+    const version = createContentFingerprint(file.content);
+    return NextResponse.json(
+      { file: { ...file, version } },
+      { headers: { ETag: `"${version}"` } }
+    );
   } catch (error) {
     return toApiErrorResponse(error);
   }
@@ -70,7 +100,7 @@ export async function PATCH(
     const session = await requireSession(request);
     const { projectId, workingCopyId } = await context.params;
 
-    const project = await ensureProjectAccess(projectId, session.user.id);
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
@@ -91,17 +121,95 @@ export async function PATCH(
       );
     }
 
+    const expectedVersion = readExpectedVersion(request);
+    if (expectedVersion === undefined) {
+      return NextResponse.json(
+        { error: "Saving a file requires an If-Match or If-None-Match: * header." },
+        { status: 428 }
+      );
+    }
+
     const body = await parseJsonBody(request, workingCopyPatchFileSchema);
 
-    const file = await saveWorkingCopyFile({
+    const { file, previousContent } = await saveWorkingCopyFile({
       workingCopyId,
       path: body.path,
       content: body.content,
+      expectedVersion,
       language: body.language,
       isTestFile: body.isTestFile
     });
+    await recordAuditLog(session, {
+      action: "working_copy.file_saved",
+      projectId,
+      targetType: "working_copy",
+      targetId: workingCopyId,
+      summary: {
+        path: normalizePath(body.path),
+        ...summarizeLineChanges(previousContent, body.content)
+      }
+    });
+
+    return NextResponse.json({ file }, { headers: { ETag: `"${file.version}"` } });
+  } catch (error) {
+    if (error instanceof WorkingCopyFileConflictError) {
+      return NextResponse.json(
+        { error: error.message, file: error.current },
+        { status: 409 }
+      );
+    }
+
+    return toApiErrorResponse(error);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ projectId: string; workingCopyId: string }> }
+) {
+  try {
+    const session = await requireSession(request);
+    const { projectId, workingCopyId } = await context.params;
+
+    const project = await ensureProjectAccess(projectId, session.user.id, "write");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const workingCopy = await ensureWorkingCopyAccess(workingCopyId, session.user.id, projectId);
+    if (!workingCopy) {
+      return NextResponse.json({ error: "Working copy not found" }, { status: 404 });
+    }
+
+    const activeAuditRun = await findActiveAuditRun(projectId);
+    if (activeAuditRun) {
+      return NextResponse.json(
+        {
+          error: "Cannot modify files while an audit is running for this project.",
+          activeAuditRunId: activeAuditRun.id
+        },
+        { status: 409 }
+      );
+    }
+
+    const path = normalizePath(new URL(request.url).searchParams.get("path") ?? "");
+    if (!path) {
+      return NextResponse.json({ error: "Missing file path" }, { status: 400 });
+    }
+
+    const result = await deleteWorkingCopyPath(workingCopyId, path);
+    await recordAuditLog(session, {
+      action: "working_copy.path_deleted",
+      projectId,
+      targetType: "working_copy",
+      targetId: workingCopyId,
+      summary: {
+        path: result.path,
+        deletedPaths: result.deletedPaths
+      }
+    });
 
-    return NextResponse.json({ file });
+    return NextResponse.json(result);
   } catch (error) {
     return toApiErrorResponse(error);
   }
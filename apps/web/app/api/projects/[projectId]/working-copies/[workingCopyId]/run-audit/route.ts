@@ -1,15 +1,25 @@
 import { NextResponse } from "next/server";
 
-import { runAuditSchema } from "@ton-audit/shared";
+import {
+  resolveAuditPassModels,
+  resolveConsensusModelIds,
+  runAuditSchema
+} from "@ton-audit/shared";
 
 import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
 import {
   ActiveAuditRunConflictError,
   ensureProjectAccess,
   findActiveAuditRun,
+  recordAuditLog,
   snapshotWorkingCopyAndCreateAuditRun
 } from "@/lib/server/domain";
-import { assertAllowedModel, getAuditModelAllowlist } from "@/lib/server/model-allowlist";
+import {
+  assertAllowedModel,
+  assertPricedModels,
+  getAuditModelAllowlist,
+  getAuditModelPrices
+} from "@/lib/server/model-allowlist";
 import { enqueueJob } from "@/lib/server/queues";
 
 const AUDIT_REQUESTABLE_PROJECT_STATES = new Set(["draft", "changes_pending", "ready"]);
@@ -22,9 +32,9 @@ export async function POST(
     const session = await requireSession(request);
     const { projectId, workingCopyId } = await context.params;
     // 10 audit runs per 10 minutes per user.
-    await checkRateLimit(session.user.id, "run-audit", 10, 10 * 60_000);
+    await checkRateLimit(session, "run-audit", 10, 10 * 60_000);
 
-    const project = await ensureProjectAccess(projectId, session.user.id);
+    const project = await ensureProjectAccess(projectId, session.user.id, "run-audit");
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
@@ -49,9 +59,32 @@ export async function POST(
     }
 
     const body = await parseJsonBody(request, runAuditSchema);
-    const modelAllowlist = await getAuditModelAllowlist();
+    const modelAllowlist = await getAuditModelAllowlist(project.organizationId);
     assertAllowedModel(body.primaryModelId, modelAllowlist);
     assertAllowedModel(body.fallbackModelId, modelAllowlist);
+    const passModels = resolveAuditPassModels(body);
+    for (const route of Object.values(passModels)) {
+      assertAllowedModel(route.primary, modelAllowlist);
+      assertAllowedModel(route.fallback, modelAllowlist);
+    }
+    const consensusModelIds = resolveConsensusModelIds({
+      profile: body.profile,
+      consensusModelIds: body.consensusModelIds,
+      passModels
+    });
+    for (const modelId of consensusModelIds) {
+      assertAllowedModel(modelId, modelAllowlist);
+    }
+    const budget = body.budget ?? project.auditBudget ?? null;
+    if (budget?.maxCostUsd !== undefined) {
+      assertPricedModels(
+        [
+          ...Object.values(passModels).flatMap((route) => [route.primary, route.fallback]),
+          ...consensusModelIds
+        ],
+        await getAuditModelPrices(project.organizationId)
+      );
+    }
 
     const { revision, auditRun } = await snapshotWorkingCopyAndCreateAuditRun({
       projectId,
@@ -59,7 +92,11 @@ export async function POST(
       userId: session.user.id,
       primaryModelId: body.primaryModelId,
       fallbackModelId: body.fallbackModelId,
-      profile: body.profile
+      passModels,
+      consensusModelIds,
+      budget,
+      profile: body.profile,
+      mode: body.mode
     });
 
     const verifyJob = await enqueueJob(
@@ -69,10 +106,28 @@ export async function POST(
         revisionId: revision.id,
         auditRunId: auditRun.id,
         profile: body.profile,
+        mode: body.mode,
         includeDocsFallbackFetch: body.includeDocsFallbackFetch
       },
       `verify:${projectId}:${auditRun.id}`
     );
+    await recordAuditLog(session, {
+      action: "audit.requested",
+      projectId,
+      targetType: "audit_run",
+      targetId: auditRun.id,
+      summary: {
+        workingCopyId,
+        revisionId: revision.id,
+        profile: body.profile,
+        mode: body.mode,
+        primaryModelId: body.primaryModelId,
+        fallbackModelId: body.fallbackModelId,
+        passModels,
+        ...(consensusModelIds.length ? { consensusModelIds } : {}),
+        ...(budget ? { budget } : {})
+      }
+    });
 
     return NextResponse.json({
       revision,
@@ -2,22 +2,52 @@ import { NextResponse } from "next/server";
 
 import { createProjectSchema } from "@ton-audit/shared";
 
-import { createProject, createScaffoldRevision, softDeleteProject } from "@/lib/server/domain";
+import {
+  createProject,
+  createScaffoldRevision,
+  ensureOrganizationAccess,
+  recordAuditLog,
+  softDeleteProject
+} from "@/lib/server/domain";
 import { checkRateLimit, parseJsonBody, requireSession, toApiErrorResponse } from "@/lib/server/api";
 
 export async function POST(request: Request) {
   try {
     const session = await requireSession(request);
     // 5 project creations per minute per user.
-    await checkRateLimit(session.user.id, "create-project", 5, 60_000);
+    await checkRateLimit(session, "create-project", 5, 60_000);
     const body = await parseJsonBody(request, createProjectSchema);
 
+    if (body.organizationId) {
+      const organization = await ensureOrganizationAccess(
+        body.organizationId,
+        session.user.id,
+        "create-project"
+      );
+      if (!organization) {
+        return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+      }
+    }
+
     const project = await createProject({
       ownerUserId: session.user.id,
+      ...(body.organizationId ? { organizationId: body.organizationId } : {}),
       name: body.name,
       slug: body.slug,
       lifecycleState: body.initialization.mode === "upload" ? "initializing" : "ready"
     });
+    await recordAuditLog(session, {
+      action: "project.created",
+      projectId: project.id,
+      targetType: "project",
+      targetId: project.id,
+      summary: {
+        name: body.name,
+        slug: body.slug,
+        organizationId: body.organizationId ?? null,
+        initialization: body.initialization.mode
+      }
+    });
 
     if (body.initialization.mode === "scaffold") {
       try {
@@ -1,13 +1,23 @@
-import { and, desc, eq, isNull } from "drizzle-orm";
-import { Activity, Clock3, FolderKanban, Sparkles } from "lucide-react";
+import Link from "next/link";
+import { and, desc, eq, getTableColumns, isNotNull, isNull, or } from "drizzle-orm";
+import { Activity, Building2, Clock3, FolderKanban, KeyRound, Sparkles } from "lucide-react";
 
-import { projects } from "@ton-audit/shared";
+import {
+  highestProjectRole,
+  organizationMembers,
+  projectMembers,
+  projects,
+  toOrganizationProjectRole
+} from "@ton-audit/shared";
 
 import { SignOutButton } from "@/components/auth/sign-out-button";
 import { ProjectCreateForm } from "@/components/dashboard/project-create-form";
+import { ProjectInvitationList } from "@/components/dashboard/project-invitation-list";
 import { ProjectList } from "@/components/dashboard/project-list";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { db } from "@/lib/server/db";
+import { listUserOrganizations, listUserProjectInvitations } from "@/lib/server/domain";
 import { requireServerSession } from "@/lib/server/session";
 
 export const dynamic = "force-dynamic";
@@ -26,20 +36,72 @@ function formatDate(value: string | Date) {
   });
 }
 
-export default async function DashboardPage() {
+const PERSONAL_SCOPE = "personal";
+
+export default async function DashboardPage({
+  searchParams
+}: {
+  searchParams: Promise<{ org?: string }>;
+}) {
   const session = await requireServerSession();
+  const { org: requestedScope } = await searchParams;
+  const organizations = await listUserOrganizations(session.user.id);
+  const activeOrganization =
+    organizations.find((organization) => organization.id === requestedScope) ?? null;
+  const scope = activeOrganization
+    ? activeOrganization.id
+    : requestedScope === PERSONAL_SCOPE
+      ? PERSONAL_SCOPE
+      : null;
 
-  const projectRows = await db
-    .select()
+  const memberProjectRows = await db
+    .select({
+      ...getTableColumns(projects),
+      memberRole: projectMembers.role,
+      organizationRole: organizationMembers.role
+    })
     .from(projects)
+    .leftJoin(
+      projectMembers,
+      and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, session.user.id))
+    )
+    .leftJoin(
+      organizationMembers,
+      and(
+        eq(organizationMembers.organizationId, projects.organizationId),
+        eq(organizationMembers.userId, session.user.id)
+      )
+    )
     .where(
       and(
-        eq(projects.ownerUserId, session.user.id),
+        or(
+          and(isNull(projects.organizationId), eq(projects.ownerUserId, session.user.id)),
+          isNotNull(projectMembers.userId),
+          isNotNull(organizationMembers.userId)
+        ),
+        scope === PERSONAL_SCOPE
+          ? isNull(projects.organizationId)
+          : scope
+            ? eq(projects.organizationId, scope)
+            : undefined,
         eq(projects.lifecycleState, "ready"),
         isNull(projects.deletedAt)
       )
     )
     .orderBy(desc(projects.createdAt));
+  const projectRows = memberProjectRows.map(({ organizationRole, ...project }) => ({
+    ...project,
+    memberRole: project.organizationId
+      ? (highestProjectRole([
+          organizationRole ? toOrganizationProjectRole(organizationRole) : null,
+          project.memberRole
+        ]) ?? "viewer")
+      : project.ownerUserId === session.user.id
+        ? ("owner" as const)
+        : (project.memberRole ?? "viewer")
+  }));
+  const creatableOrganizations = organizations.map(({ id, name }) => ({ id, name }));
+  const invitations = await listUserProjectInvitations(session.user);
 
   const newestCreatedAt = projectRows.length > 0 ? toEpoch(projectRows[0]!.createdAt) : null;
   const oldestCreatedAt =
@@ -94,7 +156,22 @@ export default async function DashboardPage() {
             </div>
 
             <div className="flex flex-wrap items-center gap-2 lg:justify-end">
-              <ProjectCreateForm />
+              <ProjectCreateForm
+                organizations={creatableOrganizations}
+                defaultOrganizationId={activeOrganization?.id ?? null}
+              />
+              <Button asChild variant="outline">
+                <Link href="/settings/organizations">
+                  <Building2 className="size-3.5" />
+                  Organizations
+                </Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/settings/api-tokens">
+                  <KeyRound className="size-3.5" />
+                  API tokens
+                </Link>
+              </Button>
               <SignOutButton />
             </div>
           </div>
@@ -150,7 +227,30 @@ export default async function DashboardPage() {
           </article>
         </section>
 
-        <ProjectList projects={projectRows} />
+        <ProjectInvitationList invitations={invitations} />
+
+        {organizations.length > 0 ? (
+          <nav aria-label="Project owner" className="flex flex-wrap items-center gap-2">
+            <Button asChild size="sm" variant={scope === null ? "default" : "outline"}>
+              <Link href="/dashboard">All projects</Link>
+            </Button>
+            <Button asChild size="sm" variant={scope === PERSONAL_SCOPE ? "default" : "outline"}>
+              <Link href={`/dashboard?org=${PERSONAL_SCOPE}`}>Personal</Link>
+            </Button>
+            {organizations.map((organization) => (
+              <Button
+                key={organization.id}
+                asChild
+                size="sm"
+                variant={scope === organization.id ? "default" : "outline"}
+              >
+                <Link href={`/dashboard?org=${organization.id}`}>{organization.name}</Link>
+              </Button>
+            ))}
+          </nav>
+        ) : null}
+
+        <ProjectList projects={projectRows} organizations={creatableOrganizations} />
 
         <div className="text-muted-foreground text-xs">
           Tip: Use &quot;Create project&quot; with &quot;Upload Smart Contracts&quot; to import an existing repository.
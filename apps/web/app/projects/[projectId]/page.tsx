@@ -1,7 +1,11 @@
 import { notFound } from "next/navigation";
 
 import { ProjectWorkspace } from "@/components/projects/project-workspace";
-import { ensureProjectAccess, getLatestProjectState } from "@/lib/server/domain";
+import {
+  ensureProjectAccess,
+  getLatestProjectState,
+  getProjectMemberRole
+} from "@/lib/server/domain";
 import { getAuditModelAllowlist } from "@/lib/server/model-allowlist";
 import { requireServerSession } from "@/lib/server/session";
 import { isUuid } from "@/lib/uuid";
@@ -22,8 +26,9 @@ export default async function ProjectPage(props: {
     notFound();
   }
 
+  const projectRole = (await getProjectMemberRole(project.id, session.user.id)) ?? "viewer";
   const latest = await getLatestProjectState(project.id, session.user.id);
-  const modelAllowlist = await getAuditModelAllowlist();
+  const modelAllowlist = await getAuditModelAllowlist(project.organizationId);
 
   return (
     <main className="bg-background text-foreground h-dvh w-screen min-h-0 min-w-0 overflow-hidden">
@@ -35,6 +40,7 @@ export default async function ProjectPage(props: {
           initialAuditId={latest.latestAudit?.id ?? null}
           initialWorkingCopyId={latest.activeWorkingCopy?.id ?? null}
           modelAllowlist={modelAllowlist}
+          projectRole={projectRole}
         />
       </div>
     </main>
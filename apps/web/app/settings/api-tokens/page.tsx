@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { ApiTokenManager } from "@/components/settings/api-token-manager";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { listApiTokens } from "@/lib/server/domain";
+import { requireServerSession } from "@/lib/server/session";
+
+export const dynamic = "force-dynamic";
+
+export default async function ApiTokensPage() {
+  const session = await requireServerSession();
+  const apiTokens = await listApiTokens(session.user.id);
+
+  return (
+    <main className="bg-background text-foreground relative min-h-screen overflow-hidden">
+      <div className="mx-auto grid max-w-5xl gap-4 px-4 py-5 sm:gap-6 sm:px-6 sm:py-8 lg:px-8">
+        <header className="flex flex-wrap items-start justify-between gap-4 rounded-2xl border border-border/70 bg-card/80 p-4 shadow-sm backdrop-blur sm:rounded-3xl sm:p-6">
+          <div className="space-y-3">
+            <Badge variant="outline" className="bg-background/70">
+              Settings
+            </Badge>
+            <div>
+              <h1 className="text-2xl font-semibold tracking-tight">API tokens</h1>
+              <p className="text-muted-foreground mt-2 text-xs sm:text-sm">
+                Use tokens as <code>Authorization: Bearer &lt;token&gt;</code> to script uploads,
+                audits and report downloads from CI.
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline">
+            <Link href="/dashboard">
+              <ArrowLeft className="size-3.5" />
+              Dashboard
+            </Link>
+          </Button>
+        </header>
+
+        <ApiTokenManager initialTokens={apiTokens} />
+      </div>
+    </main>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { CalendarClock, ExternalLink, Timer, Trash2 } from "lucide-react";
+import { Building2, CalendarClock, ExternalLink, Timer, Trash2 } from "lucide-react";
 
 import {
   AlertDialog,
@@ -36,11 +36,21 @@ export type DashboardProject = {
   createdAt: string | Date;
   updatedAt?: string | Date;
   lifecycleState: string;
+  /** The viewer's role in the project; only owners can delete it. */
+  memberRole?: "owner" | "auditor" | "developer" | "viewer";
+  organizationId?: string | null;
+};
+
+export type DashboardOrganization = {
+  id: string;
+  name: string;
 };
 
 type ProjectCardProps = {
   project: DashboardProject;
   variant?: "grid" | "list";
+  /** Organizations the viewer can move their personal projects into. */
+  organizations?: DashboardOrganization[];
 };
 
 function toEpoch(value: string | Date) {
@@ -64,9 +74,13 @@ function shortProjectId(projectId: string) {
   return `${projectId.slice(0, 8)}..${projectId.slice(-4)}`;
 }
 
-export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
+export function ProjectCard({ project, variant = "grid", organizations = [] }: ProjectCardProps) {
   const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [transferOrganizationId, setTransferOrganizationId] = useState(
+    organizations[0]?.id ?? ""
+  );
   const [error, setError] = useState<string | null>(null);
   const projectHref = isUuid(project.id) ? `/projects/${project.id}` : null;
 
@@ -92,12 +106,88 @@ export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
     }
   }
 
+  async function onTransfer() {
+    if (!projectHref || !transferOrganizationId) {
+      return;
+    }
+
+    setError(null);
+    setIsTransferring(true);
+    try {
+      const response = await fetch(`/api/projects/${project.id}/transfer`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ organizationId: transferOrganizationId })
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Failed to move project");
+      }
+      router.refresh();
+    } catch (transferError) {
+      setError(transferError instanceof Error ? transferError.message : "Failed to move project");
+    } finally {
+      setIsTransferring(false);
+    }
+  }
+
   const createdAtLabel = formatCalendarDate(project.createdAt);
   const updatedAtTimestamp = toEpoch(project.updatedAt ?? project.createdAt);
   const updatedAtLabel = formatCalendarDate(project.updatedAt ?? project.createdAt);
   const isFreshProject = updatedAtTimestamp - toEpoch(project.createdAt) <= dayMs;
+  const isSharedProject = Boolean(project.memberRole && project.memberRole !== "owner");
+
+  function renderTransferAction(buttonSize: "xs" | "sm" = "sm") {
+    if (isSharedProject || project.organizationId || organizations.length === 0) {
+      return null;
+    }
+
+    return (
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size={buttonSize} disabled={isTransferring || !projectHref}>
+            <Building2 className="size-3.5" />
+            {isTransferring ? "Moving..." : "Move"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move project to an organization?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Organization admins will manage this project and its members. You stay an owner
+              until they change your role.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <select
+            aria-label="Organization"
+            className="border-input bg-background h-9 rounded-md border px-3 text-sm"
+            value={transferOrganizationId}
+            onChange={(event) => setTransferOrganizationId(event.target.value)}
+          >
+            {organizations.map((organization) => (
+              <option key={organization.id} value={organization.id}>
+                {organization.name}
+              </option>
+            ))}
+          </select>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isTransferring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isTransferring} onClick={onTransfer}>
+              Move Project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    );
+  }
 
   function renderDeleteAction(buttonSize: "xs" | "sm" = "sm") {
+    if (isSharedProject) {
+      return null;
+    }
+
     return (
       <AlertDialog>
         <AlertDialogTrigger asChild>
@@ -136,6 +226,11 @@ export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
                 {project.lifecycleState}
               </Badge>
               {isFreshProject ? <Badge variant="secondary">Fresh</Badge> : null}
+              {isSharedProject ? (
+                <Badge variant="secondary" className="capitalize">
+                  Shared · {project.memberRole}
+                </Badge>
+              ) : null}
             </div>
 
             <p className="text-muted-foreground font-mono text-xs">{project.slug}</p>
@@ -169,6 +264,7 @@ export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
                 <ExternalLink className="size-3.5" />
               </Button>
             )}
+            {renderTransferAction("xs")}
             {renderDeleteAction("xs")}
           </div>
         </div>
@@ -190,6 +286,11 @@ export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
         <p className="text-muted-foreground font-mono text-xs">{project.slug}</p>
         <div className="flex flex-wrap gap-2">
           {isFreshProject ? <Badge variant="secondary">Fresh</Badge> : null}
+          {isSharedProject ? (
+            <Badge variant="secondary" className="capitalize">
+              Shared · {project.memberRole}
+            </Badge>
+          ) : null}
           <Badge variant="ghost">Updated {updatedAtLabel}</Badge>
         </div>
       </CardHeader>
@@ -218,7 +319,10 @@ export function ProjectCard({ project, variant = "grid" }: ProjectCardProps) {
           </Button>
         )}
 
-        {renderDeleteAction("sm")}
+        <div className="flex items-center gap-2">
+          {renderTransferAction("sm")}
+          {renderDeleteAction("sm")}
+        </div>
       </CardFooter>
     </Card>
   );
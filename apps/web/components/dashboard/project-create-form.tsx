@@ -56,7 +56,20 @@ function slugify(value: string) {
     .slice(0, 140);
 }
 
-export function ProjectCreateForm() {
+export type ProjectCreateOrganization = {
+  id: string;
+  name: string;
+};
+
+type ProjectCreateFormProps = {
+  organizations?: ProjectCreateOrganization[];
+  defaultOrganizationId?: string | null;
+};
+
+export function ProjectCreateForm({
+  organizations = [],
+  defaultOrganizationId = null
+}: ProjectCreateFormProps) {
   const router = useRouter();
   const [open, setOpen] = useState(false);
   const [step, setStep] = useState<CreateStep>("details");
@@ -67,6 +80,7 @@ export function ProjectCreateForm() {
   const [phase, setPhase] = useState<CreatePhase>("idle");
   const [name, setName] = useState("");
   const [slugInput, setSlugInput] = useState("");
+  const [organizationId, setOrganizationId] = useState(defaultOrganizationId ?? "");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -83,6 +97,7 @@ export function ProjectCreateForm() {
     setPhase("idle");
     setName("");
     setSlugInput("");
+    setOrganizationId(defaultOrganizationId ?? "");
     setError(null);
     setIsSubmitting(false);
   }
@@ -261,6 +276,7 @@ export function ProjectCreateForm() {
         body: JSON.stringify({
           name,
           slug,
+          ...(organizationId ? { organizationId } : {}),
           initialization:
             mode === "scaffold"
               ? {
@@ -405,6 +421,24 @@ export function ProjectCreateForm() {
                   onChange={(event) => setSlugInput(event.target.value)}
                 />
               </div>
+              {organizations.length > 0 ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="project-owner">Owner</Label>
+                  <select
+                    id="project-owner"
+                    className="border-input bg-background h-9 rounded-md border px-3 text-sm"
+                    value={organizationId}
+                    onChange={(event) => setOrganizationId(event.target.value)}
+                  >
+                    <option value="">Personal project</option>
+                    {organizations.map((organization) => (
+                      <option key={organization.id} value={organization.id}>
+                        {organization.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
               <div className="grid gap-2">
                 <Label>Initialization mode</Label>
                 <RadioGroup
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Check, MailOpen, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export type DashboardProjectInvitation = {
+  id: string;
+  projectName: string;
+  role: string;
+  invitedByName: string | null;
+  expiresAt: string;
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric"
+  });
+}
+
+export function ProjectInvitationList({
+  invitations
+}: {
+  invitations: DashboardProjectInvitation[];
+}) {
+  const router = useRouter();
+  const [pendingInvitations, setPendingInvitations] = useState(invitations);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function respond(invitationId: string, action: "accept" | "decline") {
+    setError(null);
+    setRespondingId(invitationId);
+
+    try {
+      const response = await fetch(`/api/account/invitations/${invitationId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action })
+      });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Failed to respond to invitation");
+      }
+
+      setPendingInvitations((current) => current.filter((entry) => entry.id !== invitationId));
+      if (action === "accept") {
+        router.refresh();
+      }
+    } catch (respondError) {
+      setError(
+        respondError instanceof Error ? respondError.message : "Failed to respond to invitation"
+      );
+    } finally {
+      setRespondingId(null);
+    }
+  }
+
+  if (pendingInvitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-card/80 border-border/70">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+          <MailOpen className="size-4" />
+          Project invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-2">
+        {error ? <p className="text-destructive text-xs">{error}</p> : null}
+        {pendingInvitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3"
+          >
+            <div className="grid gap-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{invitation.projectName}</span>
+                <Badge variant="outline" className="capitalize">
+                  {invitation.role}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                Invited by {invitation.invitedByName ?? "a project owner"} · Expires{" "}
+                {formatDate(invitation.expiresAt)}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                disabled={respondingId === invitation.id}
+                onClick={() => void respond(invitation.id, "accept")}
+              >
+                <Check className="size-3.5" />
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={respondingId === invitation.id}
+                onClick={() => void respond(invitation.id, "decline")}
+              >
+                <X className="size-3.5" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
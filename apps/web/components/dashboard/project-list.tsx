@@ -3,7 +3,11 @@
 import { useDeferredValue, useMemo, useState } from "react";
 import { ArrowDownAZ, CalendarClock, LayoutGrid, List, Search } from "lucide-react";
 
-import { type DashboardProject, ProjectCard } from "@/components/dashboard/project-card";
+import {
+  type DashboardOrganization,
+  type DashboardProject,
+  ProjectCard
+} from "@/components/dashboard/project-card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -51,7 +55,13 @@ function matchesActivityFilter(
   return ageDays > staleWindowDays;
 }
 
-export function ProjectList({ projects }: { projects: DashboardProject[] }) {
+export function ProjectList({
+  projects,
+  organizations = []
+}: {
+  projects: DashboardProject[];
+  organizations?: DashboardOrganization[];
+}) {
   const [query, setQuery] = useState("");
   const [sortMode, setSortMode] = useState<SortMode>("newest");
   const [activityFilter, setActivityFilter] = useState<ActivityFilter>("all");
@@ -234,13 +244,23 @@ export function ProjectList({ projects }: { projects: DashboardProject[] }) {
         ) : viewMode === "grid" ? (
           <div className="grid gap-3 sm:grid-cols-2 sm:gap-4 xl:grid-cols-3">
             {filteredProjects.map((project) => (
-              <ProjectCard key={project.id} project={project} variant="grid" />
+              <ProjectCard
+                key={project.id}
+                project={project}
+                variant="grid"
+                organizations={organizations}
+              />
             ))}
           </div>
         ) : (
           <div className="grid gap-3">
             {filteredProjects.map((project) => (
-              <ProjectCard key={project.id} project={project} variant="list" />
+              <ProjectCard
+                key={project.id}
+                project={project}
+                variant="list"
+                organizations={organizations}
+              />
             ))}
           </div>
         )}
@@ -0,0 +1,350 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Trash2, UserPlus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type ProjectMemberRole = "owner" | "auditor" | "developer" | "viewer";
+type InvitableRole = Exclude<ProjectMemberRole, "owner">;
+
+type ProjectMember = {
+  userId: string;
+  name: string;
+  email: string;
+  role: ProjectMemberRole;
+  joinedAt: string;
+};
+
+type ProjectInvitation = {
+  id: string;
+  role: ProjectMemberRole;
+  inviteeEmail: string | null;
+  inviteeGithubLogin: string | null;
+  invitedByName: string | null;
+  expiresAt: string;
+};
+
+type MembersResponse = {
+  currentUserId?: string;
+  currentUserRole?: ProjectMemberRole | null;
+  members?: ProjectMember[];
+  invitations?: ProjectInvitation[];
+  error?: string;
+};
+
+const roleOptions: Array<{ value: InvitableRole; description: string }> = [
+  { value: "auditor", description: "Edit, run audits and triage findings" },
+  { value: "developer", description: "Edit, run audits and comment" },
+  { value: "viewer", description: "Read files, findings and reports" }
+];
+
+const selectClassName = "border-input bg-background h-9 rounded-md border px-3 text-sm";
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric"
+  });
+}
+
+async function readError(response: Response, fallback: string) {
+  const payload = (await response.json().catch(() => ({}))) as { error?: string };
+  return payload.error ?? fallback;
+}
+
+type ProjectMembersDialogProps = {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function ProjectMembersDialog({ projectId, open, onOpenChange }: ProjectMembersDialogProps) {
+  const router = useRouter();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [currentUserRole, setCurrentUserRole] = useState<ProjectMemberRole | null>(null);
+  const [inviteKind, setInviteKind] = useState<"email" | "github">("email");
+  const [invitee, setInvitee] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("developer");
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = currentUserRole === "owner";
+
+  const loadMembers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`);
+      const payload = (await response.json()) as MembersResponse;
+      if (!response.ok) {
+        throw new Error(payload.error ?? "Failed to load project members");
+      }
+
+      setMembers(payload.members ?? []);
+      setInvitations(payload.invitations ?? []);
+      setCurrentUserId(payload.currentUserId ?? null);
+      setCurrentUserRole(payload.currentUserRole ?? null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load project members");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) {
+      void loadMembers();
+    }
+  }, [loadMembers, open]);
+
+  async function runAction(actionKey: string, action: () => Promise<void>) {
+    setError(null);
+    setPendingAction(actionKey);
+
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
+  async function onInvite(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction("invite", async () => {
+      const response = await fetch(`/api/projects/${projectId}/invitations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          role: inviteRole,
+          ...(inviteKind === "email" ? { email: invitee } : { githubLogin: invitee })
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to send invitation"));
+      }
+
+      setInvitee("");
+      await loadMembers();
+    });
+  }
+
+  async function onRevokeInvitation(invitationId: string) {
+    await runAction(`invitation:${invitationId}`, async () => {
+      const response = await fetch(`/api/projects/${projectId}/invitations/${invitationId}`, {
+        method: "DELETE"
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to revoke invitation"));
+      }
+
+      setInvitations((current) => current.filter((entry) => entry.id !== invitationId));
+    });
+  }
+
+  async function onChangeRole(userId: string, role: InvitableRole) {
+    await runAction(`member:${userId}`, async () => {
+      const response = await fetch(`/api/projects/${projectId}/members/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to update member role"));
+      }
+
+      setMembers((current) =>
+        current.map((member) => (member.userId === userId ? { ...member, role } : member))
+      );
+    });
+  }
+
+  async function onRemoveMember(userId: string) {
+    await runAction(`member:${userId}`, async () => {
+      const response = await fetch(`/api/projects/${projectId}/members/${userId}`, {
+        method: "DELETE"
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to remove member"));
+      }
+
+      if (userId === currentUserId) {
+        router.push("/dashboard");
+        return;
+      }
+
+      setMembers((current) => current.filter((member) => member.userId !== userId));
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Project members</DialogTitle>
+          <DialogDescription>
+            Owners manage membership. Auditors can triage findings, developers can edit and run
+            audits, and viewers have read-only access to files and reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid max-h-[60vh] gap-4 overflow-y-auto">
+          {isLoading && members.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Loading members...</p>
+          ) : null}
+
+          <div className="grid gap-2">
+            {members.map((member) => {
+              const isSelf = member.userId === currentUserId;
+              const isBusy = pendingAction === `member:${member.userId}`;
+
+              return (
+                <div
+                  key={member.userId}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3"
+                >
+                  <div className="grid min-w-0 gap-0.5">
+                    <span className="truncate text-sm font-medium">
+                      {member.name}
+                      {isSelf ? <span className="text-muted-foreground"> (you)</span> : null}
+                    </span>
+                    <span className="text-muted-foreground truncate text-xs">{member.email}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner && member.role !== "owner" ? (
+                      <select
+                        aria-label={`Role for ${member.name}`}
+                        className={selectClassName}
+                        value={member.role}
+                        disabled={isBusy}
+                        onChange={(event) =>
+                          void onChangeRole(member.userId, event.target.value as InvitableRole)
+                        }
+                      >
+                        {roleOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.value}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Badge variant="outline" className="capitalize">
+                        {member.role}
+                      </Badge>
+                    )}
+                    {member.role !== "owner" && (isOwner || isSelf) ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isBusy}
+                        onClick={() => void onRemoveMember(member.userId)}
+                      >
+                        <Trash2 className="size-3.5" />
+                        {isSelf ? "Leave" : "Remove"}
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {isOwner ? (
+            <form className="grid gap-3 rounded-lg border p-3" onSubmit={onInvite}>
+              <Label htmlFor="project-invitee">Invite a member</Label>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  aria-label="Invite by"
+                  className={selectClassName}
+                  value={inviteKind}
+                  onChange={(event) => setInviteKind(event.target.value as "email" | "github")}
+                >
+                  <option value="email">Email</option>
+                  <option value="github">GitHub login</option>
+                </select>
+                <Input
+                  id="project-invitee"
+                  required
+                  className="min-w-0 flex-1"
+                  type={inviteKind === "email" ? "email" : "text"}
+                  placeholder={inviteKind === "email" ? "reviewer@example.com" : "octocat"}
+                  value={invitee}
+                  onChange={(event) => setInvitee(event.target.value)}
+                />
+                <select
+                  aria-label="Role"
+                  className={selectClassName}
+                  value={inviteRole}
+                  onChange={(event) => setInviteRole(event.target.value as InvitableRole)}
+                >
+                  {roleOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.value}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {roleOptions.find((option) => option.value === inviteRole)?.description}
+              </p>
+              <Button type="submit" disabled={pendingAction === "invite" || !invitee.trim()}>
+                <UserPlus className="size-3.5" />
+                {pendingAction === "invite" ? "Inviting..." : "Send invitation"}
+              </Button>
+            </form>
+          ) : null}
+
+          {isOwner && invitations.length > 0 ? (
+            <div className="grid gap-2">
+              <span className="text-sm font-medium">Pending invitations</span>
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-dashed p-3"
+                >
+                  <div className="grid min-w-0 gap-0.5">
+                    <span className="truncate text-sm">
+                      {invitation.inviteeEmail ?? `@${invitation.inviteeGithubLogin ?? "unknown"}`}
+                    </span>
+                    <span className="text-muted-foreground text-xs">
+                      <span className="capitalize">{invitation.role}</span> · Expires{" "}
+                      {formatDate(invitation.expiresAt)}
+                    </span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={pendingAction === `invitation:${invitation.id}`}
+                    onClick={() => void onRevokeInvitation(invitation.id)}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import type { ProjectMemberRole } from "@ton-audit/shared";
+
 import { TonWorkbench } from "@/components/workbench/ton-workbench";
 
 type ProjectWorkspaceProps = {
@@ -9,6 +11,7 @@ type ProjectWorkspaceProps = {
   initialAuditId: string | null;
   initialWorkingCopyId: string | null;
   modelAllowlist: string[];
+  projectRole: ProjectMemberRole;
 };
 
 export function ProjectWorkspace({
@@ -17,7 +20,8 @@ export function ProjectWorkspace({
   initialRevisionId,
   initialAuditId,
   initialWorkingCopyId,
-  modelAllowlist
+  modelAllowlist,
+  projectRole
 }: ProjectWorkspaceProps) {
   return (
     <TonWorkbench
@@ -28,6 +32,7 @@ export function ProjectWorkspace({
       initialAuditId={initialAuditId}
       initialWorkingCopyId={initialWorkingCopyId}
       modelAllowlist={modelAllowlist}
+      projectRole={projectRole}
     />
   );
 }
@@ -0,0 +1,247 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export type ApiTokenScopeOption = "projects:read" | "projects:write" | "audits:run" | "reports:read" | "admin";
+
+export type ApiTokenListItem = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScopeOption[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+const scopeOptions: Array<{ value: ApiTokenScopeOption; description: string }> = [
+  { value: "projects:read", description: "Read projects, revisions, files and audit results" },
+  { value: "projects:write", description: "Create projects, upload sources and edit working copies" },
+  { value: "audits:run", description: "Start and cancel audits" },
+  { value: "reports:read", description: "Download PDF, SARIF, Markdown and HTML reports" },
+  { value: "admin", description: "Admin endpoints (only effective for admin accounts)" }
+];
+
+const expiryOptions = [7, 30, 90, 365];
+
+function formatDate(value: string | null) {
+  if (!value) {
+    return "Never";
+  }
+
+  return new Date(value).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric"
+  });
+}
+
+type ApiTokenManagerProps = {
+  initialTokens: ApiTokenListItem[];
+};
+
+export function ApiTokenManager({ initialTokens }: ApiTokenManagerProps) {
+  const [tokens, setTokens] = useState(initialTokens);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScopeOption[]>(["projects:read"]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingTokenId, setRevokingTokenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleScope(scope: ApiTokenScopeOption) {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((entry) => entry !== scope) : [...current, scope]
+    );
+  }
+
+  async function onCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setCreatedToken(null);
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/account/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expiresInDays })
+      });
+      const payload = (await response.json()) as {
+        apiToken?: ApiTokenListItem;
+        token?: string;
+        error?: string;
+      };
+      if (!response.ok || !payload.apiToken || !payload.token) {
+        throw new Error(payload.error ?? "Failed to create API token");
+      }
+
+      setTokens((current) => [payload.apiToken!, ...current]);
+      setCreatedToken(payload.token);
+      setName("");
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : "Failed to create API token");
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function onRevoke(tokenId: string) {
+    setError(null);
+    setRevokingTokenId(tokenId);
+
+    try {
+      const response = await fetch(`/api/account/api-tokens/${tokenId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Failed to revoke API token");
+      }
+
+      setTokens((current) => current.filter((token) => token.id !== tokenId));
+    } catch (revokeError) {
+      setError(revokeError instanceof Error ? revokeError.message : "Failed to revoke API token");
+    } finally {
+      setRevokingTokenId(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,22rem)_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle>New token</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form className="grid gap-4" onSubmit={onCreate}>
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                required
+                maxLength={80}
+                placeholder="CI pipeline"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label>Scopes</Label>
+              {scopeOptions.map((option) => (
+                <Label
+                  key={option.value}
+                  className="flex cursor-pointer items-start gap-3 rounded-lg border p-3"
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={scopes.includes(option.value)}
+                    onChange={() => toggleScope(option.value)}
+                  />
+                  <div className="grid gap-1">
+                    <span className="font-mono text-xs">{option.value}</span>
+                    <span className="text-muted-foreground text-xs">{option.description}</span>
+                  </div>
+                </Label>
+              ))}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-expiry">Expires after</Label>
+              <select
+                id="api-token-expiry"
+                className="border-input bg-background h-9 rounded-md border px-3 text-sm"
+                value={expiresInDays}
+                onChange={(event) => setExpiresInDays(Number(event.target.value))}
+              >
+                {expiryOptions.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <Button type="submit" disabled={isCreating || scopes.length === 0 || !name.trim()}>
+              <KeyRound className="size-3.5" />
+              {isCreating ? "Creating..." : "Create token"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid content-start gap-3">
+        {createdToken ? (
+          <div className="rounded-lg border border-emerald-500/40 bg-emerald-500/10 p-3 text-sm">
+            <p className="font-medium">Copy this token now. It will not be shown again.</p>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="bg-background min-w-0 flex-1 truncate rounded border px-2 py-1 text-xs">
+                {createdToken}
+              </code>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => void navigator.clipboard.writeText(createdToken)}
+              >
+                <Copy className="size-3.5" />
+                Copy
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+        {tokens.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No API tokens yet.</p>
+        ) : (
+          tokens.map((token) => {
+            const isExpired = new Date(token.expiresAt).getTime() <= Date.now();
+
+            return (
+              <Card key={token.id}>
+                <CardContent className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="grid gap-1.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{token.name}</span>
+                      <code className="text-muted-foreground text-xs">{token.tokenPrefix}…</code>
+                      {isExpired ? <Badge variant="destructive">Expired</Badge> : null}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      Created {formatDate(token.createdAt)} · Expires {formatDate(token.expiresAt)} ·
+                      Last used {formatDate(token.lastUsedAt)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={revokingTokenId === token.id}
+                    onClick={() => void onRevoke(token.id)}
+                  >
+                    <Trash2 className="size-3.5" />
+                    {revokingTokenId === token.id ? "Revoking..." : "Revoke"}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
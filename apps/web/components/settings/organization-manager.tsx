@@ -0,0 +1,544 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { Building2, Trash2, UserPlus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type OrganizationRole = "owner" | "admin" | "member";
+
+export type OrganizationListItem = {
+  id: string;
+  name: string;
+  slug: string;
+  role: OrganizationRole;
+  createdAt: string;
+};
+
+type OrganizationMember = {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+};
+
+type ReportBrandingOverride = {
+  reportTitle: string;
+  issuerName: string;
+  issuerLogoUrl?: string;
+  primaryColor: string;
+  accentColor: string;
+};
+
+type OrganizationSettings = {
+  reportBranding: ReportBrandingOverride | null;
+  modelAllowlist: { models: string[] } | null;
+};
+
+const roleOptions: Array<{ value: OrganizationRole; description: string }> = [
+  { value: "owner", description: "Full control, including other owners" },
+  { value: "admin", description: "Manage members, settings and every project" },
+  { value: "member", description: "Create projects and work on them as a developer" }
+];
+
+const selectClassName = "border-input bg-background h-9 rounded-md border px-3 text-sm";
+
+const defaultBranding: ReportBrandingOverride = {
+  reportTitle: "TON Smart Contract Security Audit",
+  issuerName: "TON Audit Platform",
+  primaryColor: "#0f172a",
+  accentColor: "#0ea5e9"
+};
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 140);
+}
+
+async function readError(response: Response, fallback: string) {
+  const payload = (await response.json().catch(() => ({}))) as { error?: string };
+  return payload.error ?? fallback;
+}
+
+type OrganizationManagerProps = {
+  currentUserId: string;
+  initialOrganizations: OrganizationListItem[];
+};
+
+export function OrganizationManager({
+  currentUserId,
+  initialOrganizations
+}: OrganizationManagerProps) {
+  const [organizations, setOrganizations] = useState(initialOrganizations);
+  const [selectedId, setSelectedId] = useState<string | null>(initialOrganizations[0]?.id ?? null);
+  const [name, setName] = useState("");
+  const [slugInput, setSlugInput] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const slug = slugInput || slugify(name);
+  const selected = organizations.find((organization) => organization.id === selectedId) ?? null;
+
+  async function onCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsCreating(true);
+
+    try {
+      const response = await fetch("/api/organizations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, slug })
+      });
+      const payload = (await response.json()) as {
+        organization?: Omit<OrganizationListItem, "role">;
+        error?: string;
+      };
+      if (!response.ok || !payload.organization) {
+        throw new Error(payload.error ?? "Failed to create organization");
+      }
+
+      const created: OrganizationListItem = { ...payload.organization, role: "owner" };
+      setOrganizations((current) => [...current, created]);
+      setSelectedId(created.id);
+      setName("");
+      setSlugInput("");
+    } catch (createError) {
+      setError(
+        createError instanceof Error ? createError.message : "Failed to create organization"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  function onLeft(organizationId: string) {
+    setOrganizations((current) => current.filter((entry) => entry.id !== organizationId));
+    setSelectedId((current) => (current === organizationId ? null : current));
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,22rem)_1fr]">
+      <div className="grid content-start gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>New organization</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4" onSubmit={onCreate}>
+              <div className="grid gap-2">
+                <Label htmlFor="organization-name">Name</Label>
+                <Input
+                  id="organization-name"
+                  required
+                  maxLength={120}
+                  placeholder="Acme Security"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="organization-slug">Slug</Label>
+                <Input
+                  id="organization-slug"
+                  required
+                  pattern="^[a-z0-9-]+$"
+                  placeholder="acme-security"
+                  value={slug}
+                  onChange={(event) => setSlugInput(event.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={isCreating || !name.trim() || !slug}>
+                <Building2 className="size-3.5" />
+                {isCreating ? "Creating..." : "Create organization"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+        <div className="grid gap-2">
+          {organizations.length === 0 ? (
+            <p className="text-muted-foreground text-sm">You are not in any organization yet.</p>
+          ) : (
+            organizations.map((organization) => (
+              <Button
+                key={organization.id}
+                variant={organization.id === selectedId ? "default" : "outline"}
+                className="justify-between"
+                onClick={() => setSelectedId(organization.id)}
+              >
+                <span className="truncate">{organization.name}</span>
+                <span className="text-xs capitalize opacity-80">{organization.role}</span>
+              </Button>
+            ))
+          )}
+        </div>
+      </div>
+
+      {selected ? (
+        <OrganizationDetails
+          key={selected.id}
+          organization={selected}
+          currentUserId={currentUserId}
+          onLeft={onLeft}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+type OrganizationDetailsProps = {
+  organization: OrganizationListItem;
+  currentUserId: string;
+  onLeft: (organizationId: string) => void;
+};
+
+function OrganizationDetails({ organization, currentUserId, onLeft }: OrganizationDetailsProps) {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrganizationRole>("member");
+  const [brandingOverride, setBrandingOverride] = useState<ReportBrandingOverride | null>(null);
+  const [allowlistInput, setAllowlistInput] = useState("");
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canManage = organization.role === "owner" || organization.role === "admin";
+  const isOwner = organization.role === "owner";
+  const basePath = `/api/organizations/${organization.id}`;
+
+  const load = useCallback(async () => {
+    setError(null);
+
+    try {
+      const [membersResponse, settingsResponse] = await Promise.all([
+        fetch(`${basePath}/members`),
+        fetch(`${basePath}/settings`)
+      ]);
+      if (!membersResponse.ok) {
+        throw new Error(await readError(membersResponse, "Failed to load members"));
+      }
+      if (!settingsResponse.ok) {
+        throw new Error(await readError(settingsResponse, "Failed to load settings"));
+      }
+
+      const membersPayload = (await membersResponse.json()) as { members: OrganizationMember[] };
+      const settingsPayload = (await settingsResponse.json()) as {
+        settings: OrganizationSettings;
+      };
+      setMembers(membersPayload.members);
+      setBrandingOverride(settingsPayload.settings.reportBranding);
+      setAllowlistInput(settingsPayload.settings.modelAllowlist?.models.join(", ") ?? "");
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load organization");
+    }
+  }, [basePath]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function runAction(actionKey: string, action: () => Promise<void>) {
+    setError(null);
+    setPendingAction(actionKey);
+
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : "Request failed");
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
+  async function onAddMember(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction("add", async () => {
+      const response = await fetch(`${basePath}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to add member"));
+      }
+
+      setEmail("");
+      await load();
+    });
+  }
+
+  async function onChangeRole(userId: string, nextRole: OrganizationRole) {
+    await runAction(`member:${userId}`, async () => {
+      const response = await fetch(`${basePath}/members/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role: nextRole })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to update member role"));
+      }
+
+      setMembers((current) =>
+        current.map((member) => (member.userId === userId ? { ...member, role: nextRole } : member))
+      );
+    });
+  }
+
+  async function onRemoveMember(userId: string) {
+    await runAction(`member:${userId}`, async () => {
+      const response = await fetch(`${basePath}/members/${userId}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to remove member"));
+      }
+
+      if (userId === currentUserId) {
+        onLeft(organization.id);
+        return;
+      }
+
+      setMembers((current) => current.filter((member) => member.userId !== userId));
+    });
+  }
+
+  async function onSaveSettings(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const models = allowlistInput
+      .split(",")
+      .map((model) => model.trim())
+      .filter(Boolean);
+
+    await runAction("settings", async () => {
+      const response = await fetch(`${basePath}/settings`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reportBranding: brandingOverride,
+          modelAllowlist: models.length > 0 ? { models } : null
+        })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Failed to save settings"));
+      }
+    });
+  }
+
+  function updateBranding(field: keyof ReportBrandingOverride, value: string) {
+    setBrandingOverride((current) => ({
+      ...(current ?? defaultBranding),
+      [field]: field === "issuerLogoUrl" && !value ? undefined : value
+    }));
+  }
+
+  return (
+    <div className="grid content-start gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {organization.name}
+            <Badge variant="outline" className="font-mono">
+              {organization.slug}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2">
+          {members.map((member) => {
+            const isSelf = member.userId === currentUserId;
+            const isBusy = pendingAction === `member:${member.userId}`;
+            const canChange = canManage && (isOwner || member.role !== "owner");
+
+            return (
+              <div
+                key={member.userId}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3"
+              >
+                <div className="grid min-w-0 gap-0.5">
+                  <span className="truncate text-sm font-medium">
+                    {member.name}
+                    {isSelf ? <span className="text-muted-foreground"> (you)</span> : null}
+                  </span>
+                  <span className="text-muted-foreground truncate text-xs">{member.email}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canChange && !isSelf ? (
+                    <select
+                      aria-label={`Role for ${member.name}`}
+                      className={selectClassName}
+                      value={member.role}
+                      disabled={isBusy}
+                      onChange={(event) =>
+                        void onChangeRole(member.userId, event.target.value as OrganizationRole)
+                      }
+                    >
+                      {roleOptions
+                        .filter((option) => isOwner || option.value !== "owner")
+                        .map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.value}
+                          </option>
+                        ))}
+                    </select>
+                  ) : (
+                    <Badge variant="outline" className="capitalize">
+                      {member.role}
+                    </Badge>
+                  )}
+                  {canChange || isSelf ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isBusy}
+                      onClick={() => void onRemoveMember(member.userId)}
+                    >
+                      <Trash2 className="size-3.5" />
+                      {isSelf ? "Leave" : "Remove"}
+                    </Button>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+
+          {canManage ? (
+            <form className="grid gap-3 rounded-lg border p-3" onSubmit={onAddMember}>
+              <Label htmlFor="organization-member-email">Add a member</Label>
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  id="organization-member-email"
+                  required
+                  type="email"
+                  className="min-w-0 flex-1"
+                  placeholder="reviewer@example.com"
+                  value={email}
+                  onChange={(event) => setEmail(event.target.value)}
+                />
+                <select
+                  aria-label="Role"
+                  className={selectClassName}
+                  value={role}
+                  onChange={(event) => setRole(event.target.value as OrganizationRole)}
+                >
+                  {roleOptions
+                    .filter((option) => isOwner || option.value !== "owner")
+                    .map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.value}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <p className="text-muted-foreground text-xs">
+                {roleOptions.find((option) => option.value === role)?.description}. Members must
+                have signed in once.
+              </p>
+              <Button type="submit" disabled={pendingAction === "add" || !email.trim()}>
+                <UserPlus className="size-3.5" />
+                {pendingAction === "add" ? "Adding..." : "Add member"}
+              </Button>
+            </form>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {canManage ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Setting overrides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4" onSubmit={onSaveSettings}>
+              <div className="grid gap-2">
+                <Label htmlFor="organization-model-allowlist">Audit model allowlist</Label>
+                <Input
+                  id="organization-model-allowlist"
+                  placeholder="Inherit the system allowlist"
+                  value={allowlistInput}
+                  onChange={(event) => setAllowlistInput(event.target.value)}
+                />
+                <p className="text-muted-foreground text-xs">
+                  Comma-separated model ids. Leave empty to inherit.
+                </p>
+              </div>
+
+              <Label className="flex cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={brandingOverride !== null}
+                  onChange={(event) =>
+                    setBrandingOverride(event.target.checked ? defaultBranding : null)
+                  }
+                />
+                Override report branding
+              </Label>
+
+              {brandingOverride ? (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="grid gap-2">
+                    <Label htmlFor="organization-report-title">Report title</Label>
+                    <Input
+                      id="organization-report-title"
+                      required
+                      value={brandingOverride.reportTitle}
+                      onChange={(event) => updateBranding("reportTitle", event.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="organization-issuer-name">Issuer name</Label>
+                    <Input
+                      id="organization-issuer-name"
+                      required
+                      value={brandingOverride.issuerName}
+                      onChange={(event) => updateBranding("issuerName", event.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2 sm:col-span-2">
+                    <Label htmlFor="organization-issuer-logo">Logo URL</Label>
+                    <Input
+                      id="organization-issuer-logo"
+                      type="url"
+                      value={brandingOverride.issuerLogoUrl ?? ""}
+                      onChange={(event) => updateBranding("issuerLogoUrl", event.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="organization-primary-color">Primary color</Label>
+                    <Input
+                      id="organization-primary-color"
+                      required
+                      value={brandingOverride.primaryColor}
+                      onChange={(event) => updateBranding("primaryColor", event.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="organization-accent-color">Accent color</Label>
+                    <Input
+                      id="organization-accent-color"
+                      required
+                      value={brandingOverride.accentColor}
+                      onChange={(event) => updateBranding("accentColor", event.target.value)}
+                    />
+                  </div>
+                </div>
+              ) : null}
+
+              <Button type="submit" disabled={pendingAction === "settings"}>
+                {pendingAction === "settings" ? "Saving..." : "Save overrides"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import {
   CircleAlert,
+  GitBranch,
+  GitCompare,
   RefreshCcw,
   Shield,
   TerminalSquare,
@@ -64,7 +66,9 @@ export const bottomPanelTabConfig = [
 
 export const rightPanelTabConfig = [
   { id: "findings", label: "Findings", icon: Shield },
+  { id: "changes", label: "Changes", icon: GitCompare },
   { id: "audit-history", label: "Audit History", icon: RefreshCcw },
+  { id: "revisions", label: "Revisions", icon: GitBranch },
 ] as const satisfies ReadonlyArray<{
   id: RightPanelTab;
   label: string;
@@ -14,17 +14,23 @@ import type { OnMount } from "@monaco-editor/react";
 import type * as Monaco from "monaco-editor";
 import { useTheme } from "next-themes";
 import {
+  Download,
   FileCode2,
   FilePlus2,
   FolderTree,
   MoreHorizontal,
+  Pencil,
   RefreshCcw,
   Shield,
   TerminalSquare,
+  Trash2,
   Upload,
   X,
 } from "lucide-react";
 
+import { hasProjectPermission } from "@ton-audit/shared";
+
+import { ProjectMembersDialog } from "@/components/projects/project-members-dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -61,11 +67,18 @@ import {
 } from "@/lib/editor/ton-lsp-client";
 import { cn } from "@/lib/utils";
 import {
+  AUDIT_PASSES,
+  describeProjectAuditSpend,
   filterWorkbenchTree,
   resolveMonacoTheme,
+  toAuditPassLabel,
 } from "@/components/workbench/workbench-ui-utils";
 import { WorkbenchExecutionTracker } from "@/components/workbench/workbench-execution-tracker";
 import { WorkbenchAuditHistoryList } from "@/components/workbench/workbench-audit-history-list";
+import {
+  WorkbenchAuditCompareDiffs,
+  WorkbenchDiffHunk,
+} from "@/components/workbench/workbench-audit-compare-diffs";
 import { WorkbenchTopToolbar } from "@/components/workbench/workbench-top-toolbar";
 import { WorkbenchFindingsPanel } from "@/components/workbench/workbench-findings-panel";
 import {
@@ -104,9 +117,17 @@ import {
 import { MonacoEditor } from "@/components/workbench/workbench-monaco-editor";
 import { RailToggleButton } from "@/components/workbench/workbench-rail-toggle-button";
 import { TreeView } from "@/components/workbench/workbench-tree-view";
+import { WorkbenchPathActionDialog } from "@/components/workbench/workbench-path-action-dialog";
+import { WorkbenchFileConflictDialog } from "@/components/workbench/workbench-file-conflict-dialog";
+import { WorkbenchChangesPanel } from "@/components/workbench/workbench-changes-panel";
+import { WorkbenchChangeDiffDialog } from "@/components/workbench/workbench-change-diff-dialog";
+import { WorkbenchRunAuditDialog } from "@/components/workbench/workbench-run-audit-dialog";
+import { WorkbenchRevisionHistoryPanel } from "@/components/workbench/workbench-revision-history-panel";
 import { useWorkbenchFiles } from "@/components/workbench/use-workbench-files";
 import { useWorkbenchAudit } from "@/components/workbench/use-workbench-audit";
 import { useWorkbenchEvents } from "@/components/workbench/use-workbench-events";
+import { useWorkbenchChanges } from "@/components/workbench/use-workbench-changes";
+import { useWorkbenchRevisions } from "@/components/workbench/use-workbench-revisions";
 import type {
   AuditFindingInstance,
   AuditPipelineStatus,
@@ -116,6 +137,8 @@ import type {
   TonWorkbenchProps,
   WorkbenchLogEntry,
   WorkbenchLogLevel,
+  WorkbenchPathAction,
+  WorkingCopyChangedFile,
 } from "@/components/workbench/ton-workbench.types";
 
 export function TonWorkbench(props: TonWorkbenchProps) {
@@ -126,6 +149,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     initialAuditId,
     initialWorkingCopyId,
     modelAllowlist,
+    projectRole,
   } = props;
   const router = useRouter();
   const { resolvedTheme } = useTheme();
@@ -152,9 +176,16 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     path: string;
     type: "file" | "directory";
   } | null>(null);
+  const [pathAction, setPathAction] = useState<WorkbenchPathAction | null>(
+    null,
+  );
+  const [changeDiffFile, setChangeDiffFile] =
+    useState<WorkingCopyChangedFile | null>(null);
+  const [isRunAuditDialogOpen, setIsRunAuditDialogOpen] = useState(false);
   const [explorerQuery, setExplorerQuery] = useState("");
   const [isExplorerVisible, setIsExplorerVisible] = useState(true);
   const [isBottomPanelVisible, setIsBottomPanelVisible] = useState(true);
+  const [isMembersDialogOpen, setIsMembersDialogOpen] = useState(false);
   const [isFindingsVisible, setIsFindingsVisible] = useState(true);
   const [prefersDark, setPrefersDark] = useState(false);
   const [cursorPosition, setCursorPosition] = useState({ line: 1, column: 1 });
@@ -209,6 +240,11 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     cancelInlineNewFile,
     submitInlineNewFile: submitInlineNewFileInternal,
     uploadFilesToWorkingCopy: uploadFilesToWorkingCopyInternal,
+    fileConflict,
+    setFileConflict,
+    resolveFileConflict,
+    deletePath: deletePathInternal,
+    movePath: movePathInternal,
     refreshFiles,
   } = useWorkbenchFiles({
     projectId,
@@ -226,6 +262,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     findings,
     auditHistory,
     isAuditHistoryLoading,
+    projectSpend,
     findingsQuery,
     setFindingsQuery,
     findingsSeverityFilter,
@@ -236,12 +273,19 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     setToCompareAuditId,
     auditCompareResult,
     isAuditCompareLoading,
+    isAuditCompareDiffsLoading,
     primaryModelId,
     setPrimaryModelId,
     fallbackModelId,
     setFallbackModelId,
+    passModelOverrides,
+    setPassModelOverride,
+    consensusModelIds,
+    toggleConsensusModelId,
     auditProfile,
     setAuditProfile,
+    auditMode,
+    setAuditMode,
     auditStatus,
     setAuditStatus,
     verifyProgress,
@@ -257,8 +301,12 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     loadAudit,
     loadAuditHistory,
     viewAuditFromHistory,
+    openRevision,
     runAuditComparison,
+    loadMoreAuditCompareDiffs,
     runAudit: runAuditInternal,
+    cancelAudit: cancelAuditInternal,
+    triageFinding,
     exportPdfForAudit,
   } = useWorkbenchAudit({
     projectId,
@@ -298,9 +346,30 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     onLog: pushWorkbenchLog,
   });
 
+  const { changes, isChangesLoading, loadChanges } = useWorkbenchChanges({
+    projectId,
+    workingCopyId,
+    onError: setLastError,
+  });
+  const {
+    revisionGraph,
+    isRevisionGraphLoading,
+    loadRevisionGraph,
+    revisionCompare,
+    isRevisionCompareLoading,
+    compareRevisions,
+    loadMoreRevisionCompareDiffs,
+  } = useWorkbenchRevisions({
+    projectId,
+    onError: setLastError,
+  });
+
   const isBusy = isFilesBusy || isAuditBusy || isEditModeBusy;
   const isAuditWriteLocked = isAuditInProgress || jobState === "queuing";
+  const canWriteProject = hasProjectPermission(projectRole, "write");
+  const canRunAudits = hasProjectPermission(projectRole, "run-audit");
   const auditStatusLabel = toAuditStatusLabel(auditStatus);
+  const projectSpendLabel = describeProjectAuditSpend(projectSpend);
 
   const expandedDirectorySet = useMemo(
     () => new Set(expandedDirectories),
@@ -492,11 +561,32 @@ export function TonWorkbench(props: TonWorkbenchProps) {
   }, [auditStatus, lastError, lspProblemMessage]);
 
   const handleRightPanelTabChange = useCallback((nextTab: string) => {
-    if (nextTab === "findings" || nextTab === "audit-history") {
+    if (
+      nextTab === "findings" ||
+      nextTab === "changes" ||
+      nextTab === "audit-history" ||
+      nextTab === "revisions"
+    ) {
       setRightPanelTab(nextTab);
     }
   }, []);
 
+  useEffect(() => {
+    if (rightPanelTab !== "changes") {
+      return;
+    }
+
+    void loadChanges();
+  }, [dirtyPaths.length, loadChanges, rightPanelTab, tree]);
+
+  useEffect(() => {
+    if (rightPanelTab !== "revisions") {
+      return;
+    }
+
+    void loadRevisionGraph();
+  }, [auditHistory.length, loadRevisionGraph, rightPanelTab]);
+
   const revealFindingInEditor = useCallback(
     (finding: AuditFindingInstance) => {
       const path = finding.payloadJson?.evidence?.filePath;
@@ -529,6 +619,25 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     })();
   }, [auditId, loadAudit, loadAuditHistory, refreshFiles]);
 
+  const downloadSourceArchive = useCallback(() => {
+    const url = workingCopyId
+      ? `/api/projects/${projectId}/working-copies/${workingCopyId}/download`
+      : revisionId
+        ? `/api/projects/${projectId}/revisions/${revisionId}/download`
+        : null;
+    if (!url) {
+      return;
+    }
+
+    if (workingCopyId && dirtyPaths.length) {
+      pushWorkbenchLog(
+        "warn",
+        `Downloading the working copy without ${dirtyPaths.length} unsaved file(s).`,
+      );
+    }
+    window.open(url, "_blank", "noopener,noreferrer");
+  }, [dirtyPaths.length, projectId, pushWorkbenchLog, revisionId, workingCopyId]);
+
   const saveCurrentFile = useCallback(
     async (options?: { withoutBusy?: boolean }) => {
       if (isAuditWriteLocked || !isEditable) {
@@ -541,6 +650,11 @@ export function TonWorkbench(props: TonWorkbenchProps) {
   );
 
   async function enableEditing() {
+    if (!canWriteProject) {
+      setLastError("Your project role does not allow editing.");
+      return;
+    }
+
     if (isAuditWriteLocked) {
       setLastError("Editing is disabled while an audit is queued or running.");
       pushWorkbenchLog(
@@ -585,7 +699,28 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     await enableEditing();
   }
 
+  function requestRunAudit() {
+    if (!canRunAudits) {
+      setLastError("Your project role does not allow running audits.");
+      return;
+    }
+
+    if (isAuditWriteLocked) {
+      setLastError("Audit is already queued or running for this project.");
+      return;
+    }
+
+    setIsRunAuditDialogOpen(true);
+    void loadChanges();
+  }
+
   async function runAudit() {
+    setIsRunAuditDialogOpen(false);
+    if (!canRunAudits) {
+      setLastError("Your project role does not allow running audits.");
+      return;
+    }
+
     if (isAuditWriteLocked) {
       setLastError("Audit is already queued or running for this project.");
       return;
@@ -606,6 +741,13 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     setJobState(queued.verifyJobId);
   }
 
+  async function cancelAudit() {
+    const cancelled = await cancelAuditInternal();
+    if (cancelled) {
+      setJobState("idle");
+    }
+  }
+
   function startInlineNewFile(parentPath?: string | null) {
     if (isAuditWriteLocked) {
       setLastError("Cannot create files while an audit is queued or running.");
@@ -644,6 +786,41 @@ export function TonWorkbench(props: TonWorkbenchProps) {
     await uploadFilesToWorkingCopyInternal(event);
   }
 
+  function openPathAction(kind: WorkbenchPathAction["kind"]) {
+    if (!contextMenuTargetNode) {
+      return;
+    }
+
+    if (isAuditWriteLocked) {
+      setLastError("Cannot modify files while an audit is queued or running.");
+      return;
+    }
+
+    setPathAction({ kind, ...contextMenuTargetNode });
+  }
+
+  async function moveWorkingCopyPath(fromPath: string, toPath: string) {
+    if (isAuditWriteLocked) {
+      setLastError("Cannot modify files while an audit is queued or running.");
+      return;
+    }
+
+    if (await movePathInternal(fromPath, toPath)) {
+      setPathAction(null);
+    }
+  }
+
+  async function deleteWorkingCopyPath(path: string) {
+    if (isAuditWriteLocked) {
+      setLastError("Cannot modify files while an audit is queued or running.");
+      return;
+    }
+
+    if (await deletePathInternal(path)) {
+      setPathAction(null);
+    }
+  }
+
   const onEditorMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
     registerTonLanguages(monaco);
@@ -798,6 +975,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
       dropdownLabel: "New file",
       contextLabel: "New File",
       icon: FilePlus2,
+      requiresWrite: true,
       onDropdownSelect: () => {
         startInlineNewFile();
       },
@@ -810,6 +988,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
       dropdownLabel: "Upload files",
       contextLabel: "Upload Files",
       icon: Upload,
+      requiresWrite: true,
       onDropdownSelect: openUploadPicker,
       onContextSelect: openUploadPicker,
     },
@@ -818,9 +997,45 @@ export function TonWorkbench(props: TonWorkbenchProps) {
       dropdownLabel: "Refresh explorer",
       contextLabel: "Refresh Explorer",
       icon: RefreshCcw,
+      requiresWrite: false,
       onDropdownSelect: refreshWorkbenchData,
       onContextSelect: refreshWorkbenchData,
     },
+    {
+      id: "download-source",
+      dropdownLabel: workingCopyId
+        ? "Download working copy (.zip)"
+        : "Download revision (.zip)",
+      contextLabel: workingCopyId
+        ? "Download Working Copy (.zip)"
+        : "Download Revision (.zip)",
+      icon: Download,
+      requiresWrite: false,
+      onDropdownSelect: downloadSourceArchive,
+      onContextSelect: downloadSourceArchive,
+    },
+    {
+      id: "move-path",
+      dropdownLabel: "Rename or move",
+      contextLabel: "Rename / Move...",
+      icon: Pencil,
+      requiresWrite: true,
+      requiresContextNode: true,
+      onContextSelect: () => {
+        openPathAction("move");
+      },
+    },
+    {
+      id: "delete-path",
+      dropdownLabel: "Delete",
+      contextLabel: "Delete...",
+      icon: Trash2,
+      requiresWrite: true,
+      requiresContextNode: true,
+      onContextSelect: () => {
+        openPathAction("delete");
+      },
+    },
   ];
 
   const railToggles: RailToggleConfig[] = [
@@ -871,6 +1086,16 @@ export function TonWorkbench(props: TonWorkbenchProps) {
       onValueChange: setFallbackModelId,
     },
   ] as const;
+  const passModelSelectors = AUDIT_PASSES.map((pass) => ({
+    id: `${pass}-model`,
+    label: `${toAuditPassLabel(pass)} model`,
+    modelId: passModelOverrides[pass].modelId,
+    fallbackModelId: passModelOverrides[pass].fallbackModelId,
+    onModelChange: (value: string) =>
+      setPassModelOverride(pass, "modelId", value),
+    onFallbackModelChange: (value: string) =>
+      setPassModelOverride(pass, "fallbackModelId", value),
+  }));
   return (
     <TooltipProvider delayDuration={150}>
       <Input
@@ -932,13 +1157,14 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                       <DropdownMenuContent align="start" className="w-56">
                         <DropdownMenuLabel>Project</DropdownMenuLabel>
                         {explorerActions.map((action) => {
+                          if (action.requiresContextNode) {
+                            return null;
+                          }
+
                           const Icon = action.icon;
-                          const isWriteExplorerAction =
-                            action.id === "new-file" ||
-                            action.id === "upload-files";
                           const actionDisabled =
-                            isWriteExplorerAction &&
-                            (isAuditWriteLocked || isBusy);
+                            action.requiresWrite &&
+                            (isAuditWriteLocked || isBusy || !canWriteProject);
                           return (
                             <DropdownMenuItem
                               key={`dropdown-${action.id}`}
@@ -1025,11 +1251,14 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                 <ContextMenuLabel>Explorer Actions</ContextMenuLabel>
                 <ContextMenuSeparator />
                 {explorerActions.map((action) => {
+                  if (action.requiresContextNode && !contextMenuTargetNode) {
+                    return null;
+                  }
+
                   const Icon = action.icon;
-                  const isWriteExplorerAction =
-                    action.id === "new-file" || action.id === "upload-files";
                   const actionDisabled =
-                    isWriteExplorerAction && (isAuditWriteLocked || isBusy);
+                    action.requiresWrite &&
+                    (isAuditWriteLocked || isBusy || !canWriteProject);
                   return (
                     <ContextMenuItem
                       key={`context-${action.id}`}
@@ -1118,6 +1347,8 @@ export function TonWorkbench(props: TonWorkbenchProps) {
 
                 <WorkbenchTopToolbar
                   isAuditWriteLocked={isAuditWriteLocked}
+                  canWrite={canWriteProject}
+                  canRunAudit={canRunAudits}
                   isBusy={isBusy}
                   isEditable={isEditable}
                   revisionId={revisionId}
@@ -1132,8 +1363,12 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                     void saveCurrentFile();
                   }}
                   auditProfile={auditProfile}
+                  auditMode={auditMode}
                   toProfileLabel={toProfileLabel}
-                  onRunAudit={runAudit}
+                  onRunAudit={requestRunAudit}
+                  onCancelAudit={() => {
+                    void cancelAudit();
+                  }}
                   auditId={auditId}
                   canExportFinalPdf={
                     Boolean(auditId) &&
@@ -1151,6 +1386,24 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                     }
                     void exportPdfForAudit(auditId);
                   }}
+                  onExportClientPdf={() => {
+                    if (!auditId) {
+                      return;
+                    }
+                    void exportPdfForAudit(auditId, "client");
+                  }}
+                  canDownloadExports={auditStatus === "completed"}
+                  onDownloadExport={(format, variant) => {
+                    if (!auditId) {
+                      return;
+                    }
+                    const query = variant ? `?variant=${variant}` : "";
+                    window.open(
+                      `/api/projects/${projectId}/audits/${auditId}/${format}${query}`,
+                      "_blank",
+                      "noopener,noreferrer",
+                    );
+                  }}
                   onRefreshWorkbench={refreshWorkbenchData}
                   isBottomPanelVisible={isBottomPanelVisible}
                   onToggleBottomPanel={() => {
@@ -1163,9 +1416,16 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                   onBackToDashboard={() => {
                     router.push("/dashboard");
                   }}
+                  onOpenMembers={() => {
+                    setIsMembersDialogOpen(true);
+                  }}
                   modelSelectors={modelSelectors}
+                  passModelSelectors={passModelSelectors}
+                  consensusModelIds={consensusModelIds}
+                  onToggleConsensusModel={toggleConsensusModelId}
                   modelAllowlist={normalizedModelAllowlist}
                   onAuditProfileChange={setAuditProfile}
+                  onAuditModeChange={setAuditMode}
                   lspStatus={lspStatus}
                   jobState={jobState}
                   shortId={shortId}
@@ -1198,6 +1458,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                       [selectedPath]: {
                         content: value ?? "",
                         language: current[selectedPath]?.language ?? "unknown",
+                        version: current[selectedPath]?.version ?? null,
                       },
                     }));
                     setDirtyPaths((current) =>
@@ -1355,11 +1616,17 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                     </Badge>
                   </div>
 
-                  <TabsList className="mt-3 grid h-8 w-full grid-cols-2">
+                  <TabsList className="mt-3 grid h-8 w-full grid-cols-4">
                     {rightPanelTabConfig.map((tab) => {
                       const Icon = tab.icon;
                       const count =
-                        tab.id === "findings" ? findings.length : auditHistory.length;
+                        tab.id === "findings"
+                          ? findings.length
+                          : tab.id === "changes"
+                            ? (changes?.files.length ?? 0)
+                            : tab.id === "revisions"
+                              ? revisionGraph.length
+                              : auditHistory.length;
 
                       return (
                         <TabsTrigger
@@ -1383,6 +1650,7 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                   className="mt-0 min-h-0 min-w-0 flex-1 overflow-hidden"
                 >
                   <WorkbenchFindingsPanel
+                    projectId={projectId}
                     findingsQuery={findingsQuery}
                     findingsSeverityFilter={findingsSeverityFilter}
                     findingFilterOptions={findingFilterOptions}
@@ -1401,12 +1669,30 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                     onRevealFinding={(item) => {
                       revealFindingInEditor(item as AuditFindingInstance);
                     }}
+                    onTriageFinding={triageFinding}
+                    canTriage={hasProjectPermission(projectRole, "triage")}
+                    canComment={hasProjectPermission(projectRole, "comment")}
                     severityBadgeClass={severityBadgeClass}
                     formatSeverityLabel={formatSeverityLabel}
                     lastError={lastError}
                   />
                 </TabsContent>
 
+                <TabsContent
+                  value="changes"
+                  className="mt-0 min-h-0 min-w-0 flex-1 overflow-hidden"
+                >
+                  <WorkbenchChangesPanel
+                    hasWorkingCopy={Boolean(workingCopyId)}
+                    changes={changes}
+                    isLoading={isChangesLoading}
+                    onRefresh={() => {
+                      void loadChanges();
+                    }}
+                    onOpenDiff={setChangeDiffFile}
+                  />
+                </TabsContent>
+
                 <TabsContent
                   value="audit-history"
                   className="mt-0 min-h-0 min-w-0 flex-1 overflow-hidden"
@@ -1555,6 +1841,15 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                                     >
                                       {item.severity} · {item.title} · {item.filePath}:
                                       {item.startLine}
+                                      {item.changedHunk ? (
+                                        <details className="mt-1">
+                                          <summary className="cursor-pointer text-amber-600 dark:text-amber-400">
+                                            Changed in hunk{" "}
+                                            {item.changedHunk.index + 1}
+                                          </summary>
+                                          <WorkbenchDiffHunk hunk={item.changedHunk} />
+                                        </details>
+                                      ) : null}
                                     </div>
                                   ))
                               ) : (
@@ -1602,6 +1897,15 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                                       {item.title}
                                       {" · "}
                                       {item.filePath}:{item.startLine}
+                                      {item.changedHunk ? (
+                                        <details className="mt-1">
+                                          <summary className="cursor-pointer text-amber-600 dark:text-amber-400">
+                                            Changed in hunk{" "}
+                                            {item.changedHunk.index + 1}
+                                          </summary>
+                                          <WorkbenchDiffHunk hunk={item.changedHunk} />
+                                        </details>
+                                      ) : null}
                                     </div>
                                   ))
                               ) : (
@@ -1614,25 +1918,18 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                               <div className="text-muted-foreground break-words">
                                 Added {auditCompareResult.summary.files.addedCount} ·
                                 Removed {auditCompareResult.summary.files.removedCount} ·
+                                Modified{" "}
+                                {auditCompareResult.summary.files.modifiedCount} ·
                                 Unchanged{" "}
                                 {auditCompareResult.summary.files.unchangedCount}
                               </div>
-                              {auditCompareResult.files.added.length ? (
-                                <div className="text-muted-foreground break-words">
-                                  Added:{" "}
-                                  {auditCompareResult.files.added
-                                    .slice(0, 5)
-                                    .join(", ")}
-                                </div>
-                              ) : null}
-                              {auditCompareResult.files.removed.length ? (
-                                <div className="text-muted-foreground break-words">
-                                  Removed:{" "}
-                                  {auditCompareResult.files.removed
-                                    .slice(0, 5)
-                                    .join(", ")}
-                                </div>
-                              ) : null}
+                              <WorkbenchAuditCompareDiffs
+                                diffs={auditCompareResult.diffs}
+                                isLoading={isAuditCompareDiffsLoading}
+                                onLoadMore={() => {
+                                  void loadMoreAuditCompareDiffs();
+                                }}
+                              />
                             </div>
                           </div>
                         ) : null}
@@ -1649,6 +1946,11 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                             </span>
                           ) : null}
                         </div>
+                        {projectSpendLabel ? (
+                          <div className="text-muted-foreground text-[11px]">
+                            project spend {projectSpendLabel}
+                          </div>
+                        ) : null}
                         {isAuditHistoryLoading && auditHistory.length === 0 ? (
                           <div className="text-muted-foreground text-xs">
                             Loading audit history...
@@ -1683,6 +1985,40 @@ export function TonWorkbench(props: TonWorkbenchProps) {
                     </div>
                   </div>
                 </TabsContent>
+                <TabsContent
+                  value="revisions"
+                  className="mt-0 min-h-0 min-w-0 flex-1 overflow-hidden"
+                >
+                  <WorkbenchRevisionHistoryPanel
+                    revisions={revisionGraph}
+                    isLoading={isRevisionGraphLoading}
+                    currentRevisionId={revisionId}
+                    compare={revisionCompare}
+                    isCompareLoading={isRevisionCompareLoading}
+                    onRefresh={() => {
+                      void loadRevisionGraph();
+                    }}
+                    onOpenRevision={(revision) => {
+                      openRevision({
+                        id: revision.id,
+                        latestAudit: revision.audits[0] ?? null,
+                      });
+                    }}
+                    onDownloadRevision={(revision) => {
+                      window.open(
+                        `/api/projects/${projectId}/revisions/${revision.id}/download`,
+                        "_blank",
+                        "noopener,noreferrer",
+                      );
+                    }}
+                    onCompare={(fromRevisionId, toRevisionId) => {
+                      void compareRevisions(fromRevisionId, toRevisionId);
+                    }}
+                    onLoadMoreDiffs={() => {
+                      void loadMoreRevisionCompareDiffs();
+                    }}
+                  />
+                </TabsContent>
               </Tabs>
             </aside>
           ) : null}
@@ -1713,6 +2049,65 @@ export function TonWorkbench(props: TonWorkbenchProps) {
           </span>
         </footer>
       </div>
+      <ProjectMembersDialog
+        projectId={projectId}
+        open={isMembersDialogOpen}
+        onOpenChange={setIsMembersDialogOpen}
+      />
+      <WorkbenchRunAuditDialog
+        open={isRunAuditDialogOpen}
+        profileLabel={toProfileLabel(auditProfile)}
+        changes={workingCopyId ? changes : null}
+        isChangesLoading={isChangesLoading}
+        unsavedCount={dirtyPaths.length}
+        isBusy={isBusy}
+        onOpenChange={setIsRunAuditDialogOpen}
+        onConfirm={() => {
+          void runAudit();
+        }}
+      />
+      <WorkbenchChangeDiffDialog
+        key={changeDiffFile?.path ?? "closed"}
+        projectId={projectId}
+        workingCopyId={workingCopyId}
+        baseRevisionId={changes?.baseRevisionId ?? null}
+        file={changeDiffFile}
+        theme={monacoTheme}
+        onClose={() => setChangeDiffFile(null)}
+      />
+      <WorkbenchFileConflictDialog
+        conflict={fileConflict}
+        theme={monacoTheme}
+        isBusy={isBusy}
+        onDismiss={() => setFileConflict(null)}
+        onKeepLocal={(mergedContent) => {
+          if (isAuditWriteLocked) {
+            setLastError("Cannot modify files while an audit is queued or running.");
+            return;
+          }
+
+          void resolveFileConflict("keep-local", mergedContent);
+        }}
+        onUseServer={() => {
+          void resolveFileConflict("use-server");
+        }}
+      />
+      <WorkbenchPathActionDialog
+        key={pathAction ? `${pathAction.kind}:${pathAction.path}` : "closed"}
+        action={pathAction}
+        isBusy={isBusy}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPathAction(null);
+          }
+        }}
+        onMove={(fromPath, toPath) => {
+          void moveWorkingCopyPath(fromPath, toPath);
+        }}
+        onDelete={(path) => {
+          void deleteWorkingCopyPath(path);
+        }}
+      />
     </TooltipProvider>
   );
 }
@@ -1,6 +1,6 @@
 import type { LucideIcon } from "lucide-react";
 
-import type { Language } from "@ton-audit/shared";
+import type { Language, ProjectMemberRole } from "@ton-audit/shared";
 import type { WorkbenchTreeNode } from "@/components/workbench/workbench-ui-utils";
 
 export type TreeNode = WorkbenchTreeNode;
@@ -40,10 +40,41 @@ export type FindingPayload = {
   };
 };
 
+export type FindingTriageStatus =
+  | "false_positive"
+  | "accepted_risk"
+  | "wont_fix"
+  | "confirmed"
+  | "internal_only";
+
+export type FindingTriage = {
+  findingId: string;
+  status: FindingTriageStatus;
+  justification: string;
+  authorUserId: string;
+  authorName: string | null;
+  updatedAt: string;
+};
+
 export type AuditFindingInstance = {
   id: string;
+  findingId: string;
   payloadJson: FindingPayload;
   severity: string;
+  triage?: FindingTriage | null;
+  commentCount?: number;
+};
+
+export type FindingComment = {
+  id: string;
+  findingId: string;
+  body: string;
+  authorUserId: string;
+  authorName: string | null;
+  editHistory: Array<{ body: string; editedAt: string }>;
+  editedAt: string | null;
+  createdAt: string;
+  canEdit: boolean;
 };
 
 export type PdfExportStatus =
@@ -53,7 +84,25 @@ export type PdfExportStatus =
   | "completed"
   | "failed";
 
-export type AuditProfile = "fast" | "deep";
+export type PdfExportVariant = "client" | "internal";
+
+export type AuditProfile = "fast" | "deep" | "consensus";
+
+export type AuditMode = "full" | "incremental";
+
+export type AuditPass = "discovery" | "validation" | "synthesis";
+
+export type AuditPassModelRoute = {
+  primary: string;
+  fallback: string;
+  used: string | null;
+};
+
+/** Empty strings inherit the run-wide primary or fallback model. */
+export type AuditPassModelOverride = {
+  modelId: string;
+  fallbackModelId: string;
+};
 
 export type AuditHistoryItem = {
   id: string;
@@ -65,10 +114,16 @@ export type AuditHistoryItem = {
   startedAt: string | null;
   finishedAt: string | null;
   profile: AuditProfile;
+  mode?: AuditMode;
   engineVersion: string;
   reportSchemaVersion: number;
   primaryModelId: string;
   fallbackModelId: string;
+  passModels?: Record<AuditPass, AuditPassModelRoute> | null;
+  consensusModelIds?: string[] | null;
+  budget?: { maxTokens?: number; maxCostUsd?: number } | null;
+  tokenUsage?: { totalTokens: number } | null;
+  costUsd?: number | null;
   findingCount: number;
   pdfStatus: PdfExportStatus;
   pdfStatusByVariant?: {
@@ -77,12 +132,50 @@ export type AuditHistoryItem = {
   };
 };
 
+/** Totals over every audit of the project, as returned by `GET /api/projects/:id/budget`. */
+export type ProjectAuditSpend = {
+  auditCount: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  unpricedAuditCount: number;
+};
+
 export type AuditCompareItem = {
   findingId: string;
   title: string;
   severity: string;
   filePath: string;
   startLine: number;
+  endLine: number;
+};
+
+export type AuditCompareHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+};
+
+export type AuditCompareHunkLink = AuditCompareHunk & {
+  index: number;
+};
+
+export type AuditCompareFileDiff = {
+  path: string;
+  status: "added" | "removed" | "modified";
+  linesAdded: number;
+  linesRemoved: number;
+  hunks: AuditCompareHunk[];
+  truncated: boolean;
+};
+
+export type FileDiffPage = {
+  offset: number;
+  limit: number;
+  total: number;
+  nextOffset: number | null;
+  files: AuditCompareFileDiff[];
 };
 
 export type AuditCompareResponse = {
@@ -110,24 +203,73 @@ export type AuditCompareResponse = {
     files: {
       addedCount: number;
       removedCount: number;
+      modifiedCount: number;
       unchangedCount: number;
     };
   };
   findings: {
-    newlyDetected: AuditCompareItem[];
+    newlyDetected: Array<
+      AuditCompareItem & { changedHunk: AuditCompareHunkLink | null }
+    >;
     resolved: AuditCompareItem[];
     persisting: Array<
       Omit<AuditCompareItem, "severity"> & {
         fromSeverity: string;
         toSeverity: string;
+        changedHunk: AuditCompareHunkLink | null;
       }
     >;
   };
   files: {
     added: string[];
     removed: string[];
+    modified: string[];
     unchanged: string[];
   };
+  diffs: FileDiffPage;
+};
+
+export type RevisionGraphNode = {
+  id: string;
+  parentRevisionId: string | null;
+  source: "upload" | "working-copy";
+  description: string | null;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string | null;
+    image: string | null;
+  };
+  audits: Array<{
+    id: string;
+    status: AuditHistoryItem["status"];
+    profile: AuditProfile;
+    createdAt: string;
+  }>;
+};
+
+export type RevisionCompareSide = Pick<
+  RevisionGraphNode,
+  "id" | "source" | "description" | "createdAt"
+>;
+
+export type RevisionCompareResponse = {
+  fromRevision: RevisionCompareSide;
+  toRevision: RevisionCompareSide;
+  summary: {
+    addedCount: number;
+    removedCount: number;
+    modifiedCount: number;
+    unchangedCount: number;
+    description: string;
+  };
+  files: {
+    added: string[];
+    removed: string[];
+    modified: string[];
+    unchanged: string[];
+  };
+  diffs: FileDiffPage;
 };
 
 export type WorkbenchLogLevel = "info" | "warn" | "error";
@@ -142,6 +284,14 @@ export type WorkbenchLogEntry = {
 export type WorkbenchFileEntry = {
   content: string;
   language: Language;
+  /** Server content hash the local copy is based on; null until the file exists on the server. */
+  version: string | null;
+};
+
+export type WorkbenchFileConflict = {
+  path: string;
+  localContent: string;
+  server: { content: string; language: Language; version: string } | null;
 };
 
 export type VerifyProgressStepStatus =
@@ -241,6 +391,7 @@ export type TonWorkbenchProps = {
   initialAuditId: string | null;
   initialWorkingCopyId: string | null;
   modelAllowlist: string[];
+  projectRole: ProjectMemberRole;
 };
 
 export type ExplorerActionConfig = {
@@ -248,10 +399,19 @@ export type ExplorerActionConfig = {
   dropdownLabel: string;
   contextLabel: string;
   icon: LucideIcon;
-  onDropdownSelect: () => void;
+  requiresWrite: boolean;
+  /** Only offered from the context menu of a specific tree node, never from the dropdown. */
+  requiresContextNode?: boolean;
+  onDropdownSelect?: () => void;
   onContextSelect: () => void;
 };
 
+export type WorkbenchPathAction = {
+  kind: "move" | "delete";
+  path: string;
+  type: "file" | "directory";
+};
+
 export type RailToggleConfig = {
   id: string;
   active: boolean;
@@ -261,7 +421,35 @@ export type RailToggleConfig = {
   onClick: () => void;
 };
 
-export type RightPanelTab = "findings" | "audit-history";
+export type RightPanelTab =
+  | "findings"
+  | "changes"
+  | "audit-history"
+  | "revisions";
+
+export type WorkingCopyChangedFile = {
+  path: string;
+  status: "added" | "removed" | "modified";
+  language: Language;
+  linesAdded: number;
+  linesRemoved: number;
+  patch: string | null;
+  truncated: boolean;
+};
+
+export type WorkingCopyChanges = {
+  baseRevisionId: string;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+    linesAdded: number;
+    linesRemoved: number;
+    description: string;
+  };
+  files: WorkingCopyChangedFile[];
+};
 
 export type BottomPanelTab = "audit-log" | "problems";
 
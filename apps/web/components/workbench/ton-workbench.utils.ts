@@ -296,7 +296,7 @@ export function pdfStatusBadgeClass(status: string) {
 }
 
 export function toProfileLabel(profile: string) {
-  return profile === "fast" ? "FAST" : "DEEP";
+  return profile === "fast" ? "FAST" : profile === "consensus" ? "CONSENSUS" : "DEEP";
 }
 
 export function resolveAuditPdfStatus(
@@ -341,7 +341,9 @@ export function createIdleVerifyProgress(): VerifyProgressState {
 }
 
 export function normalizeAuditProfile(value: unknown): AuditProfile | null {
-  return value === "fast" || value === "deep" ? value : null;
+  return value === "fast" || value === "deep" || value === "consensus"
+    ? value
+    : null;
 }
 
 function createAuditPipelineStageMap(
@@ -653,6 +655,51 @@ export function parseVerifyProgressSteps(raw: unknown): VerifyProgressStep[] {
     .filter((step): step is VerifyProgressStep => Boolean(step));
 }
 
+function readCount(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.max(0, Math.trunc(value))
+    : null;
+}
+
+export function describeDiscoveryShardProgress(
+  phase: "agent-discovery-shard" | "agent-discovery-merge",
+  payload: Record<string, unknown>,
+) {
+  const shardCount = readCount(payload.shardCount);
+  const candidateCount = readCount(payload.candidateCount);
+
+  if (phase === "agent-discovery-merge") {
+    return `Merging ${candidateCount ?? 0} candidate(s) from ${shardCount ?? 0} shard(s).`;
+  }
+
+  const shardIndex = readCount(payload.shardIndex);
+  const shardLabel = `Shard ${(shardIndex ?? 0) + 1}/${shardCount ?? "?"}`;
+  return payload.status === "completed"
+    ? `${shardLabel} completed with ${candidateCount ?? 0} candidate(s).`
+    : `${shardLabel} running on ${readCount(payload.fileCount) ?? 0} file(s).`;
+}
+
+export function describeConsensusDiscoveryProgress(
+  phase: "agent-discovery-consensus" | "agent-discovery-cluster",
+  payload: Record<string, unknown>,
+) {
+  const modelCount = readCount(payload.modelCount);
+  const candidateCount = readCount(payload.candidateCount);
+
+  if (phase === "agent-discovery-cluster") {
+    return `Clustered ${candidateCount ?? 0} candidate(s) from ${modelCount ?? 0} model(s) into ${readCount(payload.clusterCount) ?? 0}; ${readCount(payload.agreedCount) ?? 0} found by more than one model.`;
+  }
+
+  const modelLabel = `Model ${(readCount(payload.modelIndex) ?? 0) + 1}/${modelCount ?? "?"} (${typeof payload.modelId === "string" ? payload.modelId : "unknown"})`;
+  if (payload.status === "failed") {
+    return `${modelLabel} failed: ${typeof payload.error === "string" ? payload.error : "unknown error"}`;
+  }
+
+  return payload.status === "completed"
+    ? `${modelLabel} completed with ${candidateCount ?? 0} candidate(s).`
+    : `${modelLabel} discovering.`;
+}
+
 export function summarizeVerifyProgress(steps: VerifyProgressStep[]) {
   return {
     completed: steps.filter((step) => step.status === "completed").length,
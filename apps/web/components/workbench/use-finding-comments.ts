@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import type { FindingComment } from "@/components/workbench/ton-workbench.types";
+
+type UseFindingCommentsParams = {
+  projectId: string;
+  findingId: string;
+};
+
+async function readErrorMessage(response: Response, fallback: string) {
+  const payload = (await response.json().catch(() => null)) as {
+    error?: string;
+  } | null;
+  return payload?.error ?? fallback;
+}
+
+export function useFindingComments(params: UseFindingCommentsParams) {
+  const { projectId, findingId } = params;
+  const commentsUrl = `/api/projects/${projectId}/findings/${findingId}/comments`;
+
+  const [comments, setComments] = useState<FindingComment[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(commentsUrl, { cache: "no-store" });
+      if (!response.ok) {
+        throw new Error(
+          await readErrorMessage(response, "Failed to load comments"),
+        );
+      }
+
+      const payload = (await response.json()) as {
+        comments: FindingComment[];
+      };
+      setComments(payload.comments ?? []);
+      setHasLoaded(true);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Failed to load comments",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [commentsUrl]);
+
+  const mutateComment = useCallback(
+    async (
+      url: string,
+      init: RequestInit,
+      fallbackError: string,
+    ): Promise<boolean> => {
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+          throw new Error(await readErrorMessage(response, fallbackError));
+        }
+
+        await loadComments();
+        return true;
+      } catch (mutationError) {
+        setError(
+          mutationError instanceof Error ? mutationError.message : fallbackError,
+        );
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [loadComments],
+  );
+
+  const addComment = useCallback(
+    (body: string) =>
+      mutateComment(
+        commentsUrl,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ body }),
+        },
+        "Failed to post comment",
+      ),
+    [commentsUrl, mutateComment],
+  );
+
+  const editComment = useCallback(
+    (commentId: string, body: string) =>
+      mutateComment(
+        `${commentsUrl}/${commentId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ body }),
+        },
+        "Failed to edit comment",
+      ),
+    [commentsUrl, mutateComment],
+  );
+
+  const deleteComment = useCallback(
+    (commentId: string) =>
+      mutateComment(
+        `${commentsUrl}/${commentId}`,
+        {
+          method: "DELETE",
+        },
+        "Failed to delete comment",
+      ),
+    [commentsUrl, mutateComment],
+  );
+
+  return {
+    comments,
+    hasLoaded,
+    isLoading,
+    isSaving,
+    error,
+    loadComments,
+    addComment,
+    editComment,
+    deleteComment,
+  };
+}
@@ -8,18 +8,33 @@ import {
   createIdleAuditPipeline,
   createIdleVerifyProgress,
   createQueuedAuditPipeline,
+  finalizeAuditPipeline,
+  normalizeAuditProfile,
   resolveAuditPdfStatus,
   shortId,
   toBullMqJobId,
   toFindingSeverityBucket,
 } from "@/components/workbench/ton-workbench.utils";
+import {
+  buildPassModelsRequest,
+  createEmptyPassModelOverrides,
+  sanitizePassModelOverrides,
+  toggleConsensusModel,
+} from "@/components/workbench/workbench-ui-utils";
 import type {
   AuditCompareResponse,
   AuditFindingInstance,
   AuditHistoryItem,
   AuditPipelineState,
+  AuditMode,
+  AuditPass,
+  AuditPassModelOverride,
   AuditProfile,
   FindingSeverityFilter,
+  FindingTriage,
+  FindingTriageStatus,
+  PdfExportVariant,
+  ProjectAuditSpend,
   VerifyProgressState,
   WorkbenchLogLevel,
 } from "@/components/workbench/ton-workbench.types";
@@ -83,6 +98,9 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
   const [findings, setFindings] = useState<AuditFindingInstance[]>([]);
   const [auditHistory, setAuditHistory] = useState<AuditHistoryItem[]>([]);
   const [isAuditHistoryLoading, setIsAuditHistoryLoading] = useState(false);
+  const [projectSpend, setProjectSpend] = useState<ProjectAuditSpend | null>(
+    null,
+  );
   const [findingsQuery, setFindingsQuery] = useState("");
   const [findingsSeverityFilter, setFindingsSeverityFilter] =
     useState<FindingSeverityFilter>("all");
@@ -91,6 +109,8 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
   const [auditCompareResult, setAuditCompareResult] =
     useState<AuditCompareResponse | null>(null);
   const [isAuditCompareLoading, setIsAuditCompareLoading] = useState(false);
+  const [isAuditCompareDiffsLoading, setIsAuditCompareDiffsLoading] =
+    useState(false);
   const [primaryModelId, setPrimaryModelId] = useState(
     () => normalizedModelAllowlist[0] ?? DEFAULT_MODEL_ID,
   );
@@ -100,7 +120,13 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       normalizedModelAllowlist[0] ??
       DEFAULT_MODEL_ID,
   );
+  const [passModelOverrides, setPassModelOverrides] = useState<
+    Record<AuditPass, AuditPassModelOverride>
+  >(createEmptyPassModelOverrides);
+  // Empty until the user picks; the server then uses the discovery primary and fallback models.
+  const [consensusModelIds, setConsensusModelIds] = useState<string[]>([]);
   const [auditProfile, setAuditProfile] = useState<AuditProfile>("deep");
+  const [auditMode, setAuditMode] = useState<AuditMode>("full");
   const [auditStatus, setAuditStatus] = useState<string>("idle");
   const [verifyProgress, setVerifyProgress] = useState<VerifyProgressState>(
     createIdleVerifyProgress(),
@@ -223,6 +249,8 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
           );
         } else if (nextStatus === "failed") {
           onLog("error", `Audit ${shortId(targetAuditId)} failed.`);
+        } else if (nextStatus === "cancelled") {
+          onLog("warn", `Audit ${shortId(targetAuditId)} cancelled.`);
         }
         lastAuditStatusRef.current = nextStatus;
       }
@@ -231,6 +259,8 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
         onActivity(`Audit completed: ${payload.findings?.length ?? 0} finding(s).`);
       } else if (nextStatus === "failed") {
         onActivity("Audit failed. Check audit log for details.");
+      } else if (nextStatus === "cancelled") {
+        onActivity("Audit was cancelled.");
       } else if (nextStatus === "running") {
         onActivity("Audit is running.");
       } else if (nextStatus === "queued") {
@@ -244,13 +274,24 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     setIsAuditHistoryLoading(true);
 
     try {
-      const response = await fetch(`/api/projects/${projectId}/audits`, {
-        cache: "no-store",
-      });
+      const [response, budgetResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/audits`, { cache: "no-store" }),
+        // The spend total is informational, so a failed lookup keeps the history usable.
+        fetch(`/api/projects/${projectId}/budget`, { cache: "no-store" }).catch(
+          () => null,
+        ),
+      ]);
       if (!response.ok) {
         throw new Error("Failed to fetch audit history");
       }
 
+      if (budgetResponse?.ok) {
+        const budgetPayload = (await budgetResponse.json()) as {
+          spend?: ProjectAuditSpend;
+        };
+        setProjectSpend(budgetPayload.spend ?? null);
+      }
+
       const payload = (await response.json()) as {
         audits?: AuditHistoryItem[];
       };
@@ -262,7 +303,8 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
           "not_requested";
         return {
           ...item,
-          profile: item.profile === "fast" ? "fast" : "deep",
+          profile: normalizeAuditProfile(item.profile) ?? "deep",
+          mode: item.mode === "incremental" ? "incremental" : "full",
           engineVersion: item.engineVersion ?? "legacy-engine",
           reportSchemaVersion:
             typeof item.reportSchemaVersion === "number" &&
@@ -330,6 +372,38 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     ],
   );
 
+  const openRevision = useCallback(
+    (revision: {
+      id: string;
+      latestAudit: { id: string; status: string } | null;
+    }) => {
+      setRevisionId(revision.id);
+      setAuditId(revision.latestAudit?.id ?? "");
+      setAuditStatus(revision.latestAudit?.status ?? "idle");
+      if (!revision.latestAudit) {
+        setFindings([]);
+      }
+      setWorkingCopyId(null);
+      setIsEditable(false);
+      setDirtyPaths([]);
+      onActivity(`Opened revision ${shortId(revision.id)} read-only.`);
+      onLog(
+        "info",
+        revision.latestAudit
+          ? `Opened revision ${shortId(revision.id)} read-only with audit ${shortId(revision.latestAudit.id)}.`
+          : `Opened revision ${shortId(revision.id)} read-only; it has no audits.`,
+      );
+    },
+    [
+      onActivity,
+      onLog,
+      setDirtyPaths,
+      setIsEditable,
+      setRevisionId,
+      setWorkingCopyId,
+    ],
+  );
+
   const runAuditComparison = useCallback(async () => {
     if (!fromCompareAuditId || !toCompareAuditId) {
       onError("Select two completed audits to compare.");
@@ -388,6 +462,60 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     toCompareAuditId,
   ]);
 
+  const loadMoreAuditCompareDiffs = useCallback(async () => {
+    const nextOffset = auditCompareResult?.diffs.nextOffset ?? null;
+    if (!auditCompareResult || nextOffset === null) {
+      return;
+    }
+
+    setIsAuditCompareDiffsLoading(true);
+    onClearError();
+
+    try {
+      const search = new URLSearchParams({
+        fromAuditId: auditCompareResult.fromAudit.id,
+        toAuditId: auditCompareResult.toAudit.id,
+        diffOffset: String(nextOffset),
+        diffLimit: String(auditCompareResult.diffs.limit),
+      }).toString();
+
+      const response = await fetch(
+        `/api/projects/${projectId}/audits/compare?${search}`,
+        {
+          cache: "no-store",
+        },
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(payload?.error ?? "Failed to load file diffs");
+      }
+
+      const payload = (await response.json()) as AuditCompareResponse;
+      setAuditCompareResult((current) =>
+        current &&
+        current.fromAudit.id === payload.fromAudit.id &&
+        current.toAudit.id === payload.toAudit.id
+          ? {
+              ...current,
+              diffs: {
+                ...payload.diffs,
+                offset: current.diffs.offset,
+                files: [...current.diffs.files, ...payload.diffs.files],
+              },
+            }
+          : current,
+      );
+    } catch (error) {
+      onError(
+        error instanceof Error ? error.message : "Failed to load file diffs",
+      );
+    } finally {
+      setIsAuditCompareDiffsLoading(false);
+    }
+  }, [auditCompareResult, onClearError, onError, projectId]);
+
   const runAudit = useCallback(
     async (isAuditWriteLocked: boolean): Promise<RunAuditQueuedJobs | null> => {
       if (isAuditWriteLocked) {
@@ -434,7 +562,15 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
             body: JSON.stringify({
               primaryModelId,
               fallbackModelId,
+              passModels: buildPassModelsRequest(
+                passModelOverrides,
+                primaryModelId,
+              ),
+              ...(auditProfile === "consensus" && consensusModelIds.length >= 2
+                ? { consensusModelIds }
+                : {}),
               profile: auditProfile,
+              mode: auditMode,
               includeDocsFallbackFetch: true,
             }),
           },
@@ -489,7 +625,9 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       }
     },
     [
+      auditMode,
       auditProfile,
+      consensusModelIds,
       dirtyPaths,
       ensureWorkingCopy,
       fallbackModelId,
@@ -499,6 +637,7 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       onClearError,
       onError,
       onLog,
+      passModelOverrides,
       primaryModelId,
       projectId,
       saveFilePath,
@@ -511,12 +650,64 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     ],
   );
 
+  const cancelAudit = useCallback(async (): Promise<boolean> => {
+    if (!auditId) {
+      return false;
+    }
+
+    setIsBusy(true);
+    onClearError();
+    onActivity(`Cancelling audit ${shortId(auditId)}...`);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/audits/${auditId}/cancel`,
+        {
+          method: "POST",
+        },
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(payload?.error ?? "Failed to cancel audit");
+      }
+
+      setAuditStatus("cancelled");
+      lastAuditStatusRef.current = "cancelled";
+      setAuditPipeline((current) =>
+        finalizeAuditPipeline(current, "failed", "Audit cancelled."),
+      );
+      onActivity(`Audit ${shortId(auditId)} cancelled.`);
+      onLog("warn", `Audit ${shortId(auditId)} cancelled.`);
+      loadAuditHistory().catch(() => undefined);
+      return true;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to cancel audit");
+      onLog("error", error instanceof Error ? error.message : "Failed to cancel audit");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [
+    auditId,
+    loadAuditHistory,
+    onActivity,
+    onClearError,
+    onError,
+    onLog,
+    projectId,
+  ]);
+
   const exportPdfForAudit = useCallback(
-    async (targetAuditId: string) => {
+    async (targetAuditId: string, variant: PdfExportVariant = "internal") => {
       if (!targetAuditId) {
         return;
       }
 
+      const pdfUrl = `/api/projects/${projectId}/audits/${targetAuditId}/pdf?variant=${variant}`;
+      const pdfLabel = variant === "client" ? "client audit PDF" : "final audit PDF";
+
       const targetAudit = auditHistory.find((item) => item.id === targetAuditId);
       const targetPdfStatus = targetAudit ? resolveAuditPdfStatus(targetAudit) : null;
       const isCompleted =
@@ -535,14 +726,14 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
 
       setIsBusy(true);
       onClearError();
-      onActivity("Preparing final audit PDF export...");
+      onActivity(`Preparing ${pdfLabel} export...`);
       onLog(
         "info",
-        `Preparing final audit PDF export for audit ${shortId(targetAuditId)}.`,
+        `Preparing ${pdfLabel} export for audit ${shortId(targetAuditId)}.`,
       );
       try {
         const existingStatusResponse = await fetch(
-          `/api/projects/${projectId}/audits/${targetAuditId}/pdf`,
+          pdfUrl,
           {
             cache: "no-store",
           },
@@ -554,10 +745,10 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
           };
           if (existingStatusPayload.url) {
             window.open(existingStatusPayload.url, "_blank", "noopener,noreferrer");
-            onActivity("Final audit PDF is ready and opened in a new tab.");
+            onActivity(`The ${pdfLabel} is ready and opened in a new tab.`);
             onLog(
               "info",
-              `Opened existing final audit PDF for audit ${shortId(targetAuditId)}.`,
+              `Opened existing ${pdfLabel} for audit ${shortId(targetAuditId)}.`,
             );
             return;
           }
@@ -569,13 +760,13 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
           );
         }
 
-        onActivity("Queueing final audit PDF export...");
+        onActivity(`Queueing ${pdfLabel} export...`);
         onLog(
           "info",
-          `Queueing final audit PDF export for audit ${shortId(targetAuditId)}.`,
+          `Queueing ${pdfLabel} export for audit ${shortId(targetAuditId)}.`,
         );
         const start = await fetch(
-          `/api/projects/${projectId}/audits/${targetAuditId}/pdf`,
+          pdfUrl,
           {
             method: "POST",
           },
@@ -593,7 +784,7 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
         for (let attempt = 0; attempt < 60; attempt += 1) {
           await new Promise((resolve) => setTimeout(resolve, 1000));
           const statusResponse = await fetch(
-            `/api/projects/${projectId}/audits/${targetAuditId}/pdf`,
+            pdfUrl,
             {
               cache: "no-store",
             },
@@ -618,7 +809,7 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
           }
 
           if (statusPayload.status === "failed") {
-            throw new Error("Final audit PDF generation failed on the worker.");
+            throw new Error(`The ${pdfLabel} generation failed on the worker.`);
           }
         }
 
@@ -631,10 +822,10 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
         }
 
         window.open(url, "_blank", "noopener,noreferrer");
-        onActivity("Final audit PDF is ready and opened in a new tab.");
+        onActivity(`The ${pdfLabel} is ready and opened in a new tab.`);
         onLog(
           "info",
-          `Final audit PDF export for audit ${shortId(targetAuditId)} completed.`,
+          `The ${pdfLabel} export for audit ${shortId(targetAuditId)} completed.`,
         );
       } catch (error) {
         onError(
@@ -714,6 +905,12 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
             normalizedModelAllowlist[0] ??
             DEFAULT_MODEL_ID),
     );
+    setPassModelOverrides((current) =>
+      sanitizePassModelOverrides(current, normalizedModelAllowlist),
+    );
+    setConsensusModelIds((current) =>
+      current.filter((modelId) => normalizedModelAllowlist.includes(modelId)),
+    );
   }, [normalizedModelAllowlist]);
 
   useEffect(() => {
@@ -726,7 +923,10 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       const parsed = JSON.parse(persisted) as {
         primaryModelId?: string;
         fallbackModelId?: string;
+        passModelOverrides?: Record<string, Partial<AuditPassModelOverride>>;
+        consensusModelIds?: unknown;
         auditProfile?: string;
+        auditMode?: string;
       };
 
       if (
@@ -741,8 +941,29 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       ) {
         setFallbackModelId(parsed.fallbackModelId);
       }
-      if (parsed.auditProfile === "fast" || parsed.auditProfile === "deep") {
-        setAuditProfile(parsed.auditProfile);
+      setPassModelOverrides(
+        sanitizePassModelOverrides(
+          parsed.passModelOverrides,
+          normalizedModelAllowlist,
+        ),
+      );
+      if (Array.isArray(parsed.consensusModelIds)) {
+        setConsensusModelIds(
+          parsed.consensusModelIds
+            .filter(
+              (modelId): modelId is string =>
+                typeof modelId === "string" &&
+                normalizedModelAllowlist.includes(modelId),
+            )
+            .reduce<string[]>(toggleConsensusModel, []),
+        );
+      }
+      const persistedProfile = normalizeAuditProfile(parsed.auditProfile);
+      if (persistedProfile) {
+        setAuditProfile(persistedProfile);
+      }
+      if (parsed.auditMode === "full" || parsed.auditMode === "incremental") {
+        setAuditMode(parsed.auditMode);
       }
     } catch {
       window.localStorage.removeItem(modelStorageKey);
@@ -755,10 +976,35 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
       JSON.stringify({
         primaryModelId,
         fallbackModelId,
+        passModelOverrides,
+        consensusModelIds,
         auditProfile,
+        auditMode,
       }),
     );
-  }, [auditProfile, fallbackModelId, modelStorageKey, primaryModelId]);
+  }, [
+    auditMode,
+    auditProfile,
+    consensusModelIds,
+    fallbackModelId,
+    modelStorageKey,
+    passModelOverrides,
+    primaryModelId,
+  ]);
+
+  const setPassModelOverride = useCallback(
+    (pass: AuditPass, field: keyof AuditPassModelOverride, modelId: string) => {
+      setPassModelOverrides((current) => ({
+        ...current,
+        [pass]: { ...current[pass], [field]: modelId },
+      }));
+    },
+    [],
+  );
+
+  const toggleConsensusModelId = useCallback((modelId: string) => {
+    setConsensusModelIds((current) => toggleConsensusModel(current, modelId));
+  }, []);
 
   const isAuditInProgress = auditStatus === "queued" || auditStatus === "running";
   const isAuditCompareActionDisabled =
@@ -767,6 +1013,62 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     !toCompareAuditId ||
     fromCompareAuditId === toCompareAuditId;
 
+  const triageFinding = useCallback(
+    async (
+      findingId: string,
+      triage: { status: FindingTriageStatus; justification: string } | null,
+    ): Promise<boolean> => {
+      onClearError();
+
+      try {
+        const response = await fetch(
+          `/api/projects/${projectId}/findings/${findingId}/triage`,
+          triage
+            ? {
+                method: "PUT",
+                headers: {
+                  "Content-Type": "application/json",
+                },
+                body: JSON.stringify(triage),
+              }
+            : {
+                method: "DELETE",
+              },
+        );
+        const payload = (await response.json().catch(() => null)) as {
+          triage?: FindingTriage | null;
+          error?: string;
+        } | null;
+        if (!response.ok) {
+          throw new Error(payload?.error ?? "Failed to update finding triage");
+        }
+
+        const nextTriage = triage ? (payload?.triage ?? null) : null;
+        setFindings((current) =>
+          current.map((finding) =>
+            finding.findingId === findingId
+              ? { ...finding, triage: nextTriage }
+              : finding,
+          ),
+        );
+        onLog(
+          "info",
+          triage
+            ? `Finding ${shortId(findingId)} triaged as ${triage.status.replaceAll("_", " ")}.`
+            : `Triage cleared for finding ${shortId(findingId)}.`,
+        );
+        return true;
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update finding triage";
+        onError(message);
+        onLog("error", message);
+        return false;
+      }
+    },
+    [onClearError, onError, onLog, projectId],
+  );
+
   return {
     auditId,
     setAuditId,
@@ -774,6 +1076,7 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     findings,
     auditHistory,
     isAuditHistoryLoading,
+    projectSpend,
     findingsQuery,
     setFindingsQuery,
     findingsSeverityFilter,
@@ -784,12 +1087,19 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     setToCompareAuditId,
     auditCompareResult,
     isAuditCompareLoading,
+    isAuditCompareDiffsLoading,
     primaryModelId,
     setPrimaryModelId,
     fallbackModelId,
     setFallbackModelId,
+    passModelOverrides,
+    setPassModelOverride,
+    consensusModelIds,
+    toggleConsensusModelId,
     auditProfile,
     setAuditProfile,
+    auditMode,
+    setAuditMode,
     auditStatus,
     setAuditStatus,
     verifyProgress,
@@ -805,8 +1115,12 @@ export function useWorkbenchAudit(params: UseWorkbenchAuditParams) {
     loadAudit,
     loadAuditHistory,
     viewAuditFromHistory,
+    openRevision,
     runAuditComparison,
+    loadMoreAuditCompareDiffs,
     runAudit,
+    cancelAudit,
+    triageFinding,
     exportPdfForAudit,
   };
 }
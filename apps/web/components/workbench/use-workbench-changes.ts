@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import type { WorkingCopyChanges } from "@/components/workbench/ton-workbench.types";
+
+type UseWorkbenchChangesParams = {
+  projectId: string;
+  workingCopyId: string | null;
+  onError: (message: string) => void;
+};
+
+export function useWorkbenchChanges(params: UseWorkbenchChangesParams) {
+  const { projectId, workingCopyId, onError } = params;
+
+  const [changes, setChanges] = useState<WorkingCopyChanges | null>(null);
+  const [isChangesLoading, setIsChangesLoading] = useState(false);
+
+  const loadChanges = useCallback(async () => {
+    if (!workingCopyId) {
+      setChanges(null);
+      return null;
+    }
+
+    setIsChangesLoading(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/working-copies/${workingCopyId}/changes`,
+        {
+          cache: "no-store",
+        },
+      );
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? "Failed to load working copy changes");
+      }
+
+      const payload = (await response.json()) as WorkingCopyChanges;
+      setChanges(payload);
+      return payload;
+    } catch (error) {
+      onError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load working copy changes",
+      );
+      return null;
+    } finally {
+      setIsChangesLoading(false);
+    }
+  }, [onError, projectId, workingCopyId]);
+
+  useEffect(() => {
+    setChanges(null);
+  }, [workingCopyId]);
+
+  return {
+    changes,
+    isChangesLoading,
+    loadChanges,
+  };
+}
@@ -11,6 +11,8 @@ import {
 } from "react";
 
 import {
+  describeConsensusDiscoveryProgress,
+  describeDiscoveryShardProgress,
   finalizeAuditPipeline,
   normalizeAuditProfile,
   parseVerifyProgressStep,
@@ -103,7 +105,8 @@ export function useWorkbenchEvents(params: UseWorkbenchEventsParams) {
       eventName === "worker-completed" ||
       eventName === "failed" ||
       eventName === "worker-failed" ||
-      eventName === "timeout"
+      eventName === "timeout" ||
+      eventName === "cancelled"
     );
   }, []);
 
@@ -158,6 +161,25 @@ export function useWorkbenchEvents(params: UseWorkbenchEventsParams) {
           );
         }
 
+        const isCancelledRunEvent =
+          (payload.queue === "verify" || payload.queue === "audit") &&
+          (payload.event === "cancelled" || payload.payload?.cancelled === true);
+        if (isCancelledRunEvent) {
+          setAuditStatus("cancelled");
+          onActivity("Audit was cancelled.");
+          setVerifyProgress((current) => ({
+            ...current,
+            currentStepId: null,
+          }));
+          setAuditPipeline((current) =>
+            current.status === "failed"
+              ? current
+              : finalizeAuditPipeline(current, "failed", "Audit cancelled."),
+          );
+          loadAuditHistory().catch(() => undefined);
+          return;
+        }
+
         if (payload.queue === "verify") {
           const verifyPayload =
             payload.payload && typeof payload.payload === "object"
@@ -700,6 +722,16 @@ export function useWorkbenchEvents(params: UseWorkbenchEventsParams) {
                 typeof auditPayload.modelId === "string"
                   ? auditPayload.modelId
                   : null;
+              const shardCount =
+                typeof auditPayload.shardCount === "number" &&
+                auditPayload.shardCount > 1
+                  ? auditPayload.shardCount
+                  : null;
+              const consensusModelCount = Array.isArray(
+                auditPayload.consensusModelIds,
+              )
+                ? auditPayload.consensusModelIds.length
+                : null;
               setAuditPipeline((current) =>
                 updateAuditPipelineStage(
                   auditProfilePayload
@@ -708,13 +740,81 @@ export function useWorkbenchEvents(params: UseWorkbenchEventsParams) {
                   {
                     stageId: "agent-discovery",
                     status: "running",
-                    detail: modelId
-                      ? `Model ${modelId}`
-                      : "ToolLoop discovery pass is running.",
+                    detail: consensusModelCount
+                      ? `Consensus of ${consensusModelCount} models${shardCount ? ` across ${shardCount} shards` : ""}`
+                      : modelId
+                        ? `Model ${modelId}${shardCount ? ` across ${shardCount} shards` : ""}`
+                        : "ToolLoop discovery pass is running.",
+                  },
+                ),
+              );
+              onActivity(
+                consensusModelCount
+                  ? `Audit consensus discovery is running on ${consensusModelCount} models.`
+                  : shardCount
+                    ? `Audit discovery pass is running across ${shardCount} shards.`
+                    : "Audit discovery pass is running.",
+              );
+              return;
+            }
+
+            if (
+              auditPhase === "agent-discovery-shard" ||
+              auditPhase === "agent-discovery-merge" ||
+              auditPhase === "agent-discovery-consensus" ||
+              auditPhase === "agent-discovery-cluster"
+            ) {
+              const detail =
+                auditPhase === "agent-discovery-consensus" ||
+                auditPhase === "agent-discovery-cluster"
+                  ? describeConsensusDiscoveryProgress(auditPhase, auditPayload)
+                  : describeDiscoveryShardProgress(auditPhase, auditPayload);
+              setAuditPipeline((current) =>
+                updateAuditPipelineStage(
+                  auditProfilePayload
+                    ? withAuditPipelineProfile(current, auditProfilePayload)
+                    : current,
+                  {
+                    stageId: "agent-discovery",
+                    status: "running",
+                    detail,
                   },
                 ),
               );
-              onActivity("Audit discovery pass is running.");
+              onActivity(detail);
+              return;
+            }
+
+            if (auditPhase === "agent-pass-fallback") {
+              const pass = auditPayload.pass;
+              if (
+                pass === "discovery" ||
+                pass === "validation" ||
+                pass === "synthesis"
+              ) {
+                const detail = `Model ${String(auditPayload.modelId ?? "unknown")} failed; retrying on ${String(auditPayload.fallbackModelId ?? "fallback")}.`;
+                setAuditPipeline((current) =>
+                  updateAuditPipelineStage(current, {
+                    stageId: `agent-${pass}`,
+                    status: "running",
+                    detail,
+                  }),
+                );
+                onActivity(`Audit ${pass} pass: ${detail}`);
+              }
+              return;
+            }
+
+            if (auditPhase === "agent-budget-exhausted") {
+              const detail = `Budget exhausted during ${String(auditPayload.exhaustedDuring ?? "unknown")} pass; synthesizing from current candidates.`;
+              setAuditPipeline((current) =>
+                updateAuditPipelineStage(current, {
+                  stageId: "agent-synthesis",
+                  status: "running",
+                  detail,
+                }),
+              );
+              onActivity(`Audit ${detail}`);
               return;
             }
 
@@ -2,11 +2,26 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
 
-import { detectLanguageFromPath, normalizePath, type Language } from "@ton-audit/shared";
+import {
+  detectLanguageFromPath,
+  normalizePath,
+  rebasePath,
+  type Language,
+} from "@ton-audit/shared";
 
 import { DEFAULT_NEW_FILE_NAME } from "@/components/workbench/ton-workbench.constants";
 import { buildTreeFromPaths, getParentDirectories, treeFiles } from "@/components/workbench/ton-workbench.utils";
-import type { TreeNode, WorkbenchFileEntry, WorkbenchLogLevel } from "@/components/workbench/ton-workbench.types";
+import type {
+  TreeNode,
+  WorkbenchFileConflict,
+  WorkbenchFileEntry,
+  WorkbenchLogLevel,
+} from "@/components/workbench/ton-workbench.types";
+
+/** Conditional-save headers for a cached file version; null versions may only create. */
+function versionHeaders(version: string | null): Record<string, string> {
+  return version ? { "If-Match": `"${version}"` } : { "If-None-Match": "*" };
+}
 
 type UseWorkbenchFilesParams = {
   projectId: string;
@@ -43,6 +58,9 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
   const [fileCache, setFileCache] = useState<Record<string, WorkbenchFileEntry>>(
     {},
   );
+  const [fileConflict, setFileConflict] = useState<WorkbenchFileConflict | null>(
+    null,
+  );
   const [isInlineNewFile, setIsInlineNewFile] = useState(false);
   const [inlineNewFileName, setInlineNewFileName] = useState(
     DEFAULT_NEW_FILE_NAME,
@@ -142,7 +160,12 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
         throw new Error("Failed to fetch file");
       }
       const payload = (await response.json()) as {
-        file: { path: string; content: string; language: Language };
+        file: {
+          path: string;
+          content: string;
+          language: Language;
+          version?: string;
+        };
       };
 
       setFileCache((current) => ({
@@ -150,6 +173,7 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
         [payload.file.path]: {
           content: payload.file.content,
           language: payload.file.language,
+          version: payload.file.version ?? null,
         },
       }));
     },
@@ -311,8 +335,11 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
   }, [projectId, revisionId, workingCopyId]);
 
   const saveFilePath = useCallback(
-    async (path: string, options?: { withoutBusy?: boolean }) => {
-      const fileEntry = fileCache[path];
+    async (
+      path: string,
+      options?: { withoutBusy?: boolean; entry?: WorkbenchFileEntry },
+    ) => {
+      const fileEntry = options?.entry ?? fileCache[path];
       if (!fileEntry) {
         return false;
       }
@@ -335,6 +362,7 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
             method: "PATCH",
             headers: {
               "Content-Type": "application/json",
+              ...versionHeaders(fileEntry.version),
             },
             body: JSON.stringify({
               path,
@@ -342,11 +370,37 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
             }),
           },
         );
+        if (response.status === 409) {
+          const payload = (await response.json()) as {
+            error?: string;
+            file?: WorkbenchFileConflict["server"];
+          };
+          if (payload.file !== undefined) {
+            setFileConflict({
+              path,
+              localContent: fileEntry.content,
+              server: payload.file,
+            });
+          }
+          throw new Error(payload.error ?? "Save failed");
+        }
         if (!response.ok) {
           const payload = (await response.json()) as { error?: string };
           throw new Error(payload.error ?? "Save failed");
         }
 
+        const payload = (await response.json()) as {
+          file: { version: string };
+        };
+        setFileCache((current) => ({
+          ...current,
+          [path]: {
+            ...fileEntry,
+            ...current[path],
+            ...(options?.entry ? { content: options.entry.content } : {}),
+            version: payload.file.version,
+          },
+        }));
         setDirtyPaths((current) => current.filter((entry) => entry !== path));
         if (!options?.withoutBusy) {
           onActivity(`Saved ${path.split("/").pop() ?? path}.`);
@@ -405,6 +459,7 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
             method: "PATCH",
             headers: {
               "Content-Type": "application/json",
+              ...versionHeaders(null),
             },
             body: JSON.stringify({
               path: normalized,
@@ -414,15 +469,23 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
         );
         if (!response.ok) {
           const payload = (await response.json()) as { error?: string };
-          throw new Error(payload.error ?? "Failed to create file");
+          throw new Error(
+            response.status === 409
+              ? `${normalized} already exists.`
+              : (payload.error ?? "Failed to create file"),
+          );
         }
 
+        const payload = (await response.json()) as {
+          file: { version: string };
+        };
         setIsEditable(true);
         setFileCache((current) => ({
           ...current,
           [normalized]: {
             content: "",
             language: detectLanguageFromPath(normalized),
+            version: payload.file.version,
           },
         }));
         setTree((current) =>
@@ -498,6 +561,7 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
       onClearError();
       try {
         const activeWorkingCopyId = await ensureWorkingCopy();
+        const existingPaths = new Set(allFiles);
         const uploadedPaths: string[] = [];
 
         for (const file of selectedFiles) {
@@ -513,6 +577,10 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
               method: "PATCH",
               headers: {
                 "Content-Type": "application/json",
+                // Uploading over an existing file is an explicit overwrite.
+                ...(existingPaths.has(uploadPath)
+                  ? { "If-Match": "*" }
+                  : versionHeaders(null)),
               },
               body: JSON.stringify({
                 path: uploadPath,
@@ -525,12 +593,16 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
             throw new Error(payload.error ?? `Failed to upload ${uploadPath}`);
           }
 
+          const payload = (await response.json()) as {
+            file: { version: string };
+          };
           uploadedPaths.push(uploadPath);
           setFileCache((current) => ({
             ...current,
             [uploadPath]: {
               content,
               language: detectLanguageFromPath(uploadPath),
+              version: payload.file.version,
             },
           }));
         }
@@ -550,7 +622,195 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
         setIsBusy(false);
       }
     },
-    [ensureWorkingCopy, onClearError, onError, openFileInEditor, projectId],
+    [
+      allFiles,
+      ensureWorkingCopy,
+      onClearError,
+      onError,
+      openFileInEditor,
+      projectId,
+    ],
+  );
+
+  const resolveFileConflict = useCallback(
+    async (resolution: "keep-local" | "use-server", mergedContent?: string) => {
+      if (!fileConflict) {
+        return;
+      }
+
+      const { path, server } = fileConflict;
+      if (resolution === "use-server") {
+        if (server) {
+          setFileCache((current) => ({
+            ...current,
+            [path]: {
+              content: server.content,
+              language: server.language,
+              version: server.version,
+            },
+          }));
+        } else {
+          setTree((current) =>
+            buildTreeFromPaths(treeFiles(current).filter((entry) => entry !== path)),
+          );
+        }
+        setDirtyPaths((current) => current.filter((entry) => entry !== path));
+        setFileConflict(null);
+        onActivity(`Reloaded ${path.split("/").pop() ?? path} from the server.`);
+        return;
+      }
+
+      const saved = await saveFilePath(path, {
+        entry: {
+          content: mergedContent ?? fileConflict.localContent,
+          language:
+            server?.language ??
+            fileCacheRef.current[path]?.language ??
+            detectLanguageFromPath(path),
+          version: server?.version ?? null,
+        },
+      });
+      if (saved) {
+        setFileConflict((current) => (current?.path === path ? null : current));
+      }
+    },
+    [fileConflict, onActivity, saveFilePath],
+  );
+
+  const deletePath = useCallback(
+    async (pathInput: string) => {
+      const path = normalizePath(pathInput);
+      if (!path) {
+        return false;
+      }
+
+      setIsBusy(true);
+      onClearError();
+      try {
+        const activeWorkingCopyId = await ensureWorkingCopy();
+        const search = new URLSearchParams({ path }).toString();
+        const response = await fetch(
+          `/api/projects/${projectId}/working-copies/${activeWorkingCopyId}/file?${search}`,
+          {
+            method: "DELETE",
+          },
+        );
+        if (!response.ok) {
+          const payload = (await response.json()) as { error?: string };
+          throw new Error(payload.error ?? `Failed to delete ${path}`);
+        }
+
+        const payload = (await response.json()) as { deletedPaths: string[] };
+        const deletedPaths = new Set(payload.deletedPaths);
+        setIsEditable(true);
+        setTree((current) =>
+          buildTreeFromPaths(
+            treeFiles(current).filter((entry) => !deletedPaths.has(entry)),
+          ),
+        );
+        setFileCache((current) =>
+          Object.fromEntries(
+            Object.entries(current).filter(([entry]) => !deletedPaths.has(entry)),
+          ),
+        );
+        onActivity(`Deleted ${path.split("/").pop() ?? path}.`);
+        onLog("info", `Deleted ${path} (${deletedPaths.size} file(s)).`);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Delete failed";
+        onError(message);
+        onLog("error", message);
+        return false;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [ensureWorkingCopy, onActivity, onClearError, onError, onLog, projectId],
+  );
+
+  const movePath = useCallback(
+    async (fromPathInput: string, toPathInput: string) => {
+      const fromPath = normalizePath(fromPathInput);
+      const toPath = normalizePath(toPathInput);
+      if (!toPath || toPath.includes("..")) {
+        onError("Provide a valid relative file path.");
+        return false;
+      }
+      if (fromPath === toPath) {
+        return true;
+      }
+
+      setIsBusy(true);
+      onClearError();
+      try {
+        const activeWorkingCopyId = await ensureWorkingCopy();
+        const response = await fetch(
+          `/api/projects/${projectId}/working-copies/${activeWorkingCopyId}/file/move`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ fromPath, toPath }),
+          },
+        );
+        if (!response.ok) {
+          const payload = (await response.json()) as { error?: string };
+          throw new Error(payload.error ?? `Failed to move ${fromPath}`);
+        }
+
+        const payload = (await response.json()) as {
+          fromPath: string;
+          toPath: string;
+          moved: Array<{ fromPath: string; toPath: string }>;
+        };
+        const targets = new Map(
+          payload.moved.map((entry) => [entry.fromPath, entry.toPath]),
+        );
+        const remap = (path: string) => targets.get(path) ?? path;
+
+        setIsEditable(true);
+        setTree((current) => buildTreeFromPaths(treeFiles(current).map(remap)));
+        setFileCache((current) =>
+          Object.fromEntries(
+            Object.entries(current).map(([path, entry]) => {
+              const nextPath = remap(path);
+              const language =
+                entry.language === detectLanguageFromPath(path)
+                  ? detectLanguageFromPath(nextPath)
+                  : entry.language;
+              return [nextPath, { ...entry, language }];
+            }),
+          ),
+        );
+        setOpenTabs((current) => current.map(remap));
+        setDirtyPaths((current) => current.map(remap));
+        setSelectedPath((current) => (current ? remap(current) : current));
+        setExpandedDirectories((current) => [
+          ...new Set([
+            ...current.map(
+              (entry) =>
+                rebasePath(entry, payload.fromPath, payload.toPath) ?? entry,
+            ),
+            ...getParentDirectories(payload.toPath),
+          ]),
+        ]);
+        onActivity(`Moved ${payload.fromPath} to ${payload.toPath}.`);
+        onLog(
+          "info",
+          `Moved ${payload.fromPath} to ${payload.toPath} (${payload.moved.length} file(s)).`,
+        );
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Move failed";
+        onError(message);
+        onLog("error", message);
+        return false;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [ensureWorkingCopy, onActivity, onClearError, onError, onLog, projectId],
   );
 
   const refreshFiles = useCallback(async () => {
@@ -639,6 +899,11 @@ export function useWorkbenchFiles(params: UseWorkbenchFilesParams) {
     cancelInlineNewFile,
     submitInlineNewFile,
     uploadFilesToWorkingCopy,
+    fileConflict,
+    setFileConflict,
+    resolveFileConflict,
+    deletePath,
+    movePath,
     refreshFiles,
   };
 }
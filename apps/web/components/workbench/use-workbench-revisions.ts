@@ -0,0 +1,146 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import type {
+  RevisionCompareResponse,
+  RevisionGraphNode,
+} from "@/components/workbench/ton-workbench.types";
+
+type UseWorkbenchRevisionsParams = {
+  projectId: string;
+  onError: (message: string) => void;
+};
+
+async function fetchRevisionComparison(
+  projectId: string,
+  search: Record<string, string>,
+) {
+  const response = await fetch(
+    `/api/projects/${projectId}/revisions/compare?${new URLSearchParams(search).toString()}`,
+    {
+      cache: "no-store",
+    },
+  );
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => null)) as {
+      error?: string;
+    } | null;
+    throw new Error(payload?.error ?? "Failed to compare revisions");
+  }
+
+  return (await response.json()) as RevisionCompareResponse;
+}
+
+export function useWorkbenchRevisions(params: UseWorkbenchRevisionsParams) {
+  const { projectId, onError } = params;
+
+  const [revisionGraph, setRevisionGraph] = useState<RevisionGraphNode[]>([]);
+  const [isRevisionGraphLoading, setIsRevisionGraphLoading] = useState(false);
+  const [revisionCompare, setRevisionCompare] =
+    useState<RevisionCompareResponse | null>(null);
+  const [isRevisionCompareLoading, setIsRevisionCompareLoading] =
+    useState(false);
+
+  const loadRevisionGraph = useCallback(async () => {
+    setIsRevisionGraphLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/revisions`, {
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(payload?.error ?? "Failed to load revision history");
+      }
+
+      const payload = (await response.json()) as {
+        revisions: RevisionGraphNode[];
+      };
+      setRevisionGraph(payload.revisions);
+    } catch (error) {
+      onError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load revision history",
+      );
+    } finally {
+      setIsRevisionGraphLoading(false);
+    }
+  }, [onError, projectId]);
+
+  const compareRevisions = useCallback(
+    async (fromRevisionId: string, toRevisionId: string) => {
+      setIsRevisionCompareLoading(true);
+      try {
+        setRevisionCompare(
+          await fetchRevisionComparison(projectId, {
+            fromRevisionId,
+            toRevisionId,
+          }),
+        );
+      } catch (error) {
+        onError(
+          error instanceof Error ? error.message : "Failed to compare revisions",
+        );
+        setRevisionCompare(null);
+      } finally {
+        setIsRevisionCompareLoading(false);
+      }
+    },
+    [onError, projectId],
+  );
+
+  const loadMoreRevisionCompareDiffs = useCallback(async () => {
+    const nextOffset = revisionCompare?.diffs.nextOffset ?? null;
+    if (!revisionCompare || nextOffset === null) {
+      return;
+    }
+
+    setIsRevisionCompareLoading(true);
+    try {
+      const payload = await fetchRevisionComparison(projectId, {
+        fromRevisionId: revisionCompare.fromRevision.id,
+        toRevisionId: revisionCompare.toRevision.id,
+        diffOffset: String(nextOffset),
+        diffLimit: String(revisionCompare.diffs.limit),
+      });
+      setRevisionCompare((current) =>
+        current &&
+        current.fromRevision.id === payload.fromRevision.id &&
+        current.toRevision.id === payload.toRevision.id
+          ? {
+              ...current,
+              diffs: {
+                ...payload.diffs,
+                offset: current.diffs.offset,
+                files: [...current.diffs.files, ...payload.diffs.files],
+              },
+            }
+          : current,
+      );
+    } catch (error) {
+      onError(
+        error instanceof Error ? error.message : "Failed to load file diffs",
+      );
+    } finally {
+      setIsRevisionCompareLoading(false);
+    }
+  }, [onError, projectId, revisionCompare]);
+
+  const clearRevisionCompare = useCallback(() => {
+    setRevisionCompare(null);
+  }, []);
+
+  return {
+    revisionGraph,
+    isRevisionGraphLoading,
+    loadRevisionGraph,
+    revisionCompare,
+    isRevisionCompareLoading,
+    compareRevisions,
+    loadMoreRevisionCompareDiffs,
+    clearRevisionCompare,
+  };
+}
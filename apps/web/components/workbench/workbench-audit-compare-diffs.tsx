@@ -0,0 +1,121 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type {
+  AuditCompareFileDiff,
+  AuditCompareHunk,
+  FileDiffPage,
+} from "@/components/workbench/ton-workbench.types";
+
+const statusBadgeClass: Record<AuditCompareFileDiff["status"], string> = {
+  added: "border-emerald-500/40 text-emerald-600 dark:text-emerald-400",
+  modified: "border-amber-500/40 text-amber-600 dark:text-amber-400",
+  removed: "border-red-500/40 text-red-600 dark:text-red-400",
+};
+
+function lineClass(line: string) {
+  if (line.startsWith("+")) {
+    return "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300";
+  }
+  if (line.startsWith("-")) {
+    return "bg-red-500/10 text-red-700 dark:text-red-300";
+  }
+  return "text-muted-foreground";
+}
+
+export function WorkbenchDiffHunk({ hunk }: { hunk: AuditCompareHunk }) {
+  return (
+    <pre className="bg-muted/40 overflow-x-auto rounded-md border border-border py-1 font-mono text-[10px] leading-4">
+      <div className="text-muted-foreground px-2">
+        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+      </div>
+      {hunk.lines.map((line, index) => (
+        <div key={index} className={cn("px-2", lineClass(line))}>
+          {line || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+type WorkbenchAuditCompareDiffsProps = {
+  diffs: FileDiffPage;
+  isLoading: boolean;
+  onLoadMore: () => void;
+};
+
+export function WorkbenchAuditCompareDiffs(
+  props: WorkbenchAuditCompareDiffsProps,
+) {
+  if (!props.diffs.total) {
+    return <div className="text-muted-foreground">No file changes</div>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {props.diffs.files.map((file) => (
+        <details
+          key={file.path}
+          className="min-w-0 rounded-md border border-border"
+        >
+          <summary className="hover:bg-accent/60 flex min-w-0 cursor-pointer items-center gap-2 px-2 py-1.5">
+            <Badge
+              variant="outline"
+              className={cn(
+                "h-5 px-1.5 text-[10px] capitalize",
+                statusBadgeClass[file.status],
+              )}
+            >
+              {file.status}
+            </Badge>
+            <span className="min-w-0 flex-1 truncate font-mono">
+              {file.path}
+            </span>
+            {file.truncated ? (
+              <span className="text-muted-foreground text-[10px]">
+                too large
+              </span>
+            ) : (
+              <span className="shrink-0 font-mono text-[10px]">
+                <span className="text-emerald-600 dark:text-emerald-400">
+                  +{file.linesAdded}
+                </span>{" "}
+                <span className="text-red-600 dark:text-red-400">
+                  -{file.linesRemoved}
+                </span>
+              </span>
+            )}
+          </summary>
+          <div className="space-y-1 p-1.5">
+            {file.truncated ? (
+              <p className="text-muted-foreground text-[10px]">
+                This file is too large or changed too much to diff here.
+              </p>
+            ) : (
+              file.hunks.map((hunk, index) => (
+                <WorkbenchDiffHunk key={index} hunk={hunk} />
+              ))
+            )}
+          </div>
+        </details>
+      ))}
+
+      {props.diffs.nextOffset !== null ? (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 w-full text-[11px]"
+          disabled={props.isLoading}
+          onClick={props.onLoadMore}
+        >
+          {props.isLoading
+            ? "Loading..."
+            : `Load more diffs (${props.diffs.files.length} of ${props.diffs.total})`}
+        </Button>
+      ) : null}
+    </div>
+  );
+}
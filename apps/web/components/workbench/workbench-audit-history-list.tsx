@@ -3,15 +3,25 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import {
+  describeAuditPassModels,
+  describeAuditSpend,
+} from "@/components/workbench/workbench-ui-utils";
 
 type AuditHistoryListItemBase = {
   id: string;
   revisionId: string;
   createdAt: string;
   status: string;
-  profile: "fast" | "deep";
+  profile: "fast" | "deep" | "consensus";
   findingCount: number;
   primaryModelId: string;
+  passModels?: Partial<
+    Record<string, { primary: string; used: string | null }>
+  > | null;
+  budget?: { maxTokens?: number; maxCostUsd?: number } | null;
+  tokenUsage?: { totalTokens: number } | null;
+  costUsd?: number | null;
 };
 
 type WorkbenchAuditHistoryListProps<TItem extends AuditHistoryListItemBase> = {
@@ -23,7 +33,7 @@ type WorkbenchAuditHistoryListProps<TItem extends AuditHistoryListItemBase> = {
   auditStatusBadgeClass: (status: string) => string;
   toPdfStatusLabel: (status: string) => string;
   pdfStatusBadgeClass: (status: string) => string;
-  toProfileLabel: (profile: "fast" | "deep") => string;
+  toProfileLabel: (profile: "fast" | "deep" | "consensus") => string;
   getPdfStatus: (item: TItem) => string;
   canExportPdf: (
     auditStatus?: string | null,
@@ -48,6 +58,11 @@ export function WorkbenchAuditHistoryList<
     <div className="space-y-2 [content-visibility:auto]">
       {props.items.map((item) => {
         const pdfStatus = props.getPdfStatus(item);
+        const passModelsLabel = describeAuditPassModels(
+          item.passModels,
+          item.primaryModelId,
+        );
+        const spendLabel = describeAuditSpend(item);
         return (
           <div
             key={item.id}
@@ -93,6 +108,16 @@ export function WorkbenchAuditHistoryList<
               findings {item.findingCount} · {item.primaryModelId} (
               {props.toProfileLabel(item.profile ?? "deep")})
             </div>
+            {passModelsLabel ? (
+              <div className="text-muted-foreground truncate text-[11px]">
+                {passModelsLabel}
+              </div>
+            ) : null}
+            {spendLabel ? (
+              <div className="text-muted-foreground truncate text-[11px]">
+                spend {spendLabel}
+              </div>
+            ) : null}
             <div className="mt-2 flex items-center gap-1.5">
               {item.id !== props.selectedAuditId ? (
                 <Button
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { resolveMonacoLanguage } from "@/components/workbench/ton-workbench.utils";
+import { MonacoDiffEditor } from "@/components/workbench/workbench-monaco-editor";
+import type { WorkingCopyChangedFile } from "@/components/workbench/ton-workbench.types";
+
+type WorkbenchChangeDiffDialogProps = {
+  projectId: string;
+  workingCopyId: string | null;
+  baseRevisionId: string | null;
+  file: WorkingCopyChangedFile | null;
+  theme: string;
+  onClose: () => void;
+};
+
+async function fetchFileContent(url: string) {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    throw new Error(payload.error ?? "Failed to fetch file");
+  }
+
+  const payload = (await response.json()) as { file: { content: string } };
+  return payload.file.content;
+}
+
+export function WorkbenchChangeDiffDialog({
+  projectId,
+  workingCopyId,
+  baseRevisionId,
+  file,
+  theme,
+  onClose,
+}: WorkbenchChangeDiffDialogProps) {
+  const [contents, setContents] = useState<{
+    original: string;
+    modified: string;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !workingCopyId || !baseRevisionId) {
+      return;
+    }
+
+    let cancelled = false;
+    const search = new URLSearchParams({ path: file.path }).toString();
+    void Promise.all([
+      file.status === "added"
+        ? ""
+        : fetchFileContent(
+            `/api/projects/${projectId}/revisions/${baseRevisionId}/file?${search}`,
+          ),
+      file.status === "removed"
+        ? ""
+        : fetchFileContent(
+            `/api/projects/${projectId}/working-copies/${workingCopyId}/file?${search}`,
+          ),
+    ])
+      .then(([original, modified]) => {
+        if (!cancelled) {
+          setContents({ original, modified });
+        }
+      })
+      .catch((fetchError: unknown) => {
+        if (!cancelled) {
+          setError(
+            fetchError instanceof Error
+              ? fetchError.message
+              : "Failed to load diff",
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseRevisionId, file, projectId, workingCopyId]);
+
+  return (
+    <Dialog
+      open={file !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-sm">{file?.path}</DialogTitle>
+          <DialogDescription>
+            Base revision on the left, working copy on the right
+            {file && !file.truncated
+              ? ` (+${file.linesAdded} -${file.linesRemoved})`
+              : ""}
+            .
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[65vh] overflow-hidden rounded-md border">
+          {error ? (
+            <p className="text-destructive p-3 text-xs">{error}</p>
+          ) : contents && file ? (
+            <MonacoDiffEditor
+              original={contents.original}
+              modified={contents.modified}
+              language={resolveMonacoLanguage({
+                filePath: file.path,
+                language: file.language,
+              })}
+              theme={theme}
+              options={{
+                readOnly: true,
+                originalEditable: false,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                automaticLayout: true,
+              }}
+            />
+          ) : (
+            <div className="text-muted-foreground grid h-full place-items-center text-sm">
+              Loading diff...
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { RefreshCcw } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type {
+  WorkingCopyChangedFile,
+  WorkingCopyChanges,
+} from "@/components/workbench/ton-workbench.types";
+
+const statusBadgeClass: Record<WorkingCopyChangedFile["status"], string> = {
+  added: "border-emerald-500/40 text-emerald-600 dark:text-emerald-400",
+  modified: "border-amber-500/40 text-amber-600 dark:text-amber-400",
+  removed: "border-red-500/40 text-red-600 dark:text-red-400",
+};
+
+type WorkbenchChangesPanelProps = {
+  hasWorkingCopy: boolean;
+  changes: WorkingCopyChanges | null;
+  isLoading: boolean;
+  onRefresh: () => void;
+  onOpenDiff: (file: WorkingCopyChangedFile) => void;
+};
+
+export function WorkbenchChangesPanel(props: WorkbenchChangesPanelProps) {
+  if (!props.hasWorkingCopy) {
+    return (
+      <div className="text-muted-foreground px-3 py-3 text-xs">
+        Enable editing to start a working copy; its changes against the base
+        revision will be listed here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full min-w-0 overflow-y-auto overflow-x-hidden px-3 py-3">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <p className="text-muted-foreground min-w-0 truncate text-[11px]">
+          {props.changes
+            ? props.changes.summary.description
+            : "Changes against the base revision"}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          className="size-6"
+          disabled={props.isLoading}
+          onClick={props.onRefresh}
+          aria-label="Refresh changes"
+        >
+          <RefreshCcw
+            className={cn("size-3.5", props.isLoading ? "animate-spin" : "")}
+          />
+        </Button>
+      </div>
+
+      {props.changes && props.changes.files.length ? (
+        <div className="space-y-1 [content-visibility:auto]">
+          {props.changes.files.map((file) => (
+            <button
+              key={file.path}
+              type="button"
+              className="hover:bg-accent/60 flex w-full min-w-0 items-center gap-2 rounded-md border border-border px-2 py-1.5 text-left text-xs"
+              onClick={() => props.onOpenDiff(file)}
+            >
+              <Badge
+                variant="outline"
+                className={cn(
+                  "h-5 px-1.5 text-[10px] capitalize",
+                  statusBadgeClass[file.status],
+                )}
+              >
+                {file.status}
+              </Badge>
+              <span className="min-w-0 flex-1 truncate font-mono">
+                {file.path}
+              </span>
+              {file.truncated ? (
+                <span className="text-muted-foreground text-[10px]">
+                  too large
+                </span>
+              ) : (
+                <span className="shrink-0 font-mono text-[10px]">
+                  <span className="text-emerald-600 dark:text-emerald-400">
+                    +{file.linesAdded}
+                  </span>{" "}
+                  <span className="text-red-600 dark:text-red-400">
+                    -{file.linesRemoved}
+                  </span>
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-xs">
+          {props.isLoading
+            ? "Loading changes..."
+            : "No changes against the base revision."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useRef } from "react";
+import type { DiffOnMount } from "@monaco-editor/react";
+import type * as Monaco from "monaco-editor";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { resolveMonacoLanguage } from "@/components/workbench/ton-workbench.utils";
+import { MonacoDiffEditor } from "@/components/workbench/workbench-monaco-editor";
+import type { WorkbenchFileConflict } from "@/components/workbench/ton-workbench.types";
+
+type WorkbenchFileConflictDialogProps = {
+  conflict: WorkbenchFileConflict | null;
+  theme: string;
+  isBusy: boolean;
+  onDismiss: () => void;
+  onKeepLocal: (mergedContent: string) => void;
+  onUseServer: () => void;
+};
+
+export function WorkbenchFileConflictDialog({
+  conflict,
+  theme,
+  isBusy,
+  onDismiss,
+  onKeepLocal,
+  onUseServer,
+}: WorkbenchFileConflictDialogProps) {
+  const diffEditorRef = useRef<Monaco.editor.IStandaloneDiffEditor | null>(
+    null,
+  );
+
+  const onDiffMount: DiffOnMount = (editor) => {
+    diffEditorRef.current = editor;
+  };
+
+  const serverDeleted = conflict !== null && conflict.server === null;
+
+  return (
+    <Dialog
+      open={conflict !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          onDismiss();
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Resolve conflict in {conflict?.path}</DialogTitle>
+          <DialogDescription>
+            {serverDeleted
+              ? "This file was deleted from the working copy after you opened it. Save your version to recreate it, or discard your changes."
+              : "Someone saved this file after you opened it. The left side is the saved version; edit the right side to merge, then save it over theirs or discard yours."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[60vh] overflow-hidden rounded-md border">
+          {conflict ? (
+            <MonacoDiffEditor
+              key={`${conflict.path}:${conflict.server?.version ?? "deleted"}`}
+              original={conflict.server?.content ?? ""}
+              modified={conflict.localContent}
+              language={resolveMonacoLanguage({
+                filePath: conflict.path,
+                language: conflict.server?.language,
+              })}
+              theme={theme}
+              options={{
+                originalEditable: false,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                automaticLayout: true,
+              }}
+              onMount={onDiffMount}
+            />
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isBusy}
+            onClick={onUseServer}
+          >
+            {serverDeleted ? "Discard my changes" : "Use saved version"}
+          </Button>
+          <Button
+            type="button"
+            disabled={isBusy || !conflict}
+            onClick={() => {
+              const merged =
+                diffEditorRef.current?.getModifiedEditor().getValue() ??
+                conflict?.localContent ??
+                "";
+              onKeepLocal(merged);
+            }}
+          >
+            {serverDeleted ? "Recreate with my version" : "Save my version"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useFindingComments } from "@/components/workbench/use-finding-comments";
+import type { FindingComment } from "@/components/workbench/ton-workbench.types";
+
+type WorkbenchFindingCommentsProps = {
+  projectId: string;
+  findingId: string;
+  commentCount: number;
+  canComment: boolean;
+};
+
+function formatCommentTimestamp(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function FindingCommentItem(props: {
+  comment: FindingComment;
+  isSaving: boolean;
+  onEdit: (commentId: string, body: string) => Promise<boolean>;
+  onDelete: (commentId: string) => Promise<boolean>;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(props.comment.body);
+  const [showHistory, setShowHistory] = useState(false);
+  const { comment } = props;
+
+  return (
+    <div className="rounded border border-border bg-muted/20 px-2 py-1.5">
+      <div className="text-muted-foreground flex items-center justify-between gap-2 text-[10px]">
+        <span className="truncate">
+          {comment.authorName ?? "Unknown user"} ·{" "}
+          {formatCommentTimestamp(comment.createdAt)}
+          {comment.editedAt ? " · edited" : ""}
+        </span>
+        {comment.canEdit && !isEditing ? (
+          <span className="flex shrink-0 items-center gap-1">
+            <Button
+              type="button"
+              size="xs"
+              variant="ghost"
+              className="h-5 px-1 text-[10px]"
+              disabled={props.isSaving}
+              onClick={() => {
+                setDraft(comment.body);
+                setIsEditing(true);
+              }}
+            >
+              Edit
+            </Button>
+            <Button
+              type="button"
+              size="xs"
+              variant="ghost"
+              className="text-destructive h-5 px-1 text-[10px]"
+              disabled={props.isSaving}
+              onClick={() => {
+                void props.onDelete(comment.id);
+              }}
+            >
+              Delete
+            </Button>
+          </span>
+        ) : null}
+      </div>
+      {isEditing ? (
+        <div className="mt-1 space-y-1">
+          <Textarea
+            value={draft}
+            onChange={(event) => {
+              setDraft(event.target.value);
+            }}
+            className="min-h-14 text-[11px] md:text-[11px]"
+          />
+          <div className="flex justify-end gap-1">
+            <Button
+              type="button"
+              size="xs"
+              variant="ghost"
+              className="h-6 px-2 text-[10px]"
+              disabled={props.isSaving}
+              onClick={() => {
+                setIsEditing(false);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="xs"
+              variant="outline"
+              className="h-6 px-2 text-[10px]"
+              disabled={props.isSaving || !draft.trim()}
+              onClick={() => {
+                void props.onEdit(comment.id, draft.trim()).then((saved) => {
+                  if (saved) {
+                    setIsEditing(false);
+                  }
+                });
+              }}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-foreground mt-1 whitespace-pre-wrap break-words font-mono text-[11px] leading-4">
+          {comment.body}
+        </div>
+      )}
+      {comment.editHistory.length ? (
+        <div className="mt-1">
+          <button
+            type="button"
+            className="text-muted-foreground text-[10px] underline-offset-2 hover:underline"
+            onClick={() => {
+              setShowHistory((current) => !current);
+            }}
+          >
+            {showHistory
+              ? "Hide edit history"
+              : `Show edit history (${comment.editHistory.length})`}
+          </button>
+          {showHistory ? (
+            <div className="mt-1 space-y-1 border-l border-border pl-2">
+              {[...comment.editHistory].reverse().map((entry, index) => (
+                <div key={`${comment.id}-history-${index}`}>
+                  <div className="text-muted-foreground text-[10px]">
+                    Replaced {formatCommentTimestamp(entry.editedAt)}
+                  </div>
+                  <div className="text-muted-foreground whitespace-pre-wrap break-words font-mono text-[10px] leading-4">
+                    {entry.body}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function WorkbenchFindingComments(props: WorkbenchFindingCommentsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const {
+    comments,
+    hasLoaded,
+    isLoading,
+    isSaving,
+    error,
+    loadComments,
+    addComment,
+    editComment,
+    deleteComment,
+  } = useFindingComments({
+    projectId: props.projectId,
+    findingId: props.findingId,
+  });
+  const commentCount = hasLoaded ? comments.length : props.commentCount;
+
+  return (
+    <div className="mt-1.5">
+      <Button
+        type="button"
+        size="xs"
+        variant="ghost"
+        className="h-5 px-1.5 text-[10px]"
+        onClick={() => {
+          const nextOpen = !isOpen;
+          setIsOpen(nextOpen);
+          if (nextOpen && !hasLoaded) {
+            void loadComments();
+          }
+        }}
+      >
+        {isOpen ? "Hide comments" : `Comments (${commentCount})`}
+      </Button>
+      {isOpen ? (
+        <div className="mt-1 space-y-1.5">
+          {isLoading && !hasLoaded ? (
+            <div className="text-muted-foreground text-[10px]">Loading comments...</div>
+          ) : null}
+          {hasLoaded && comments.length === 0 ? (
+            <div className="text-muted-foreground text-[10px]">
+              {props.canComment
+                ? "No comments yet. Start the discussion below."
+                : "No comments yet."}
+            </div>
+          ) : null}
+          {comments.map((comment) => (
+            <FindingCommentItem
+              key={`${comment.id}-${comment.editedAt ?? "original"}`}
+              comment={comment}
+              isSaving={isSaving}
+              onEdit={editComment}
+              onDelete={deleteComment}
+            />
+          ))}
+          {props.canComment ? (
+            <>
+              <Textarea
+                value={draft}
+                onChange={(event) => {
+                  setDraft(event.target.value);
+                }}
+                className="min-h-14 text-[11px] md:text-[11px]"
+                placeholder="Add a comment (markdown)"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  size="xs"
+                  variant="outline"
+                  className="h-6 px-2 text-[10px]"
+                  disabled={isSaving || !draft.trim()}
+                  onClick={() => {
+                    void addComment(draft.trim()).then((saved) => {
+                      if (saved) {
+                        setDraft("");
+                      }
+                    });
+                  }}
+                >
+                  Comment
+                </Button>
+              </div>
+            </>
+          ) : null}
+          {error ? <p className="text-destructive text-[10px]">{error}</p> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
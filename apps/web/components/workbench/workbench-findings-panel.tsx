@@ -1,5 +1,7 @@
 "use client";
 
+import { useState } from "react";
+
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,6 +12,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { WorkbenchFindingComments } from "@/components/workbench/workbench-finding-comments";
 import { cn } from "@/lib/utils";
 
 type FindingTaxonomyTag = {
@@ -30,6 +33,7 @@ type FindingPayload = {
   technicalImpact?: string;
   confidence?: number;
   fixPriority?: string;
+  discoveredBy?: string[];
   taxonomy?: FindingTaxonomyTag[];
   cvssV31?: FindingCvss;
   evidence?: {
@@ -38,10 +42,27 @@ type FindingPayload = {
   };
 };
 
+type FindingTriageStatus =
+  | "false_positive"
+  | "accepted_risk"
+  | "wont_fix"
+  | "confirmed"
+  | "internal_only";
+
+type FindingTriage = {
+  status: FindingTriageStatus;
+  justification: string;
+  authorName: string | null;
+  updatedAt: string;
+};
+
 type FindingItem = {
   id: string;
+  findingId?: string;
   severity?: string;
   payloadJson?: FindingPayload;
+  triage?: FindingTriage | null;
+  commentCount?: number;
 };
 
 type FindingFilterOption = {
@@ -51,6 +72,7 @@ type FindingFilterOption = {
 };
 
 type WorkbenchFindingsPanelProps = {
+  projectId: string;
   findingsQuery: string;
   findingsSeverityFilter: string;
   findingFilterOptions: FindingFilterOption[];
@@ -60,11 +82,181 @@ type WorkbenchFindingsPanelProps = {
   onFindingsSeverityFilterChange: (value: string) => void;
   onClearFindingsFilters: () => void;
   onRevealFinding: (item: FindingItem) => void;
+  onTriageFinding: (
+    findingId: string,
+    triage: { status: FindingTriageStatus; justification: string } | null,
+  ) => Promise<boolean>;
+  canTriage: boolean;
+  canComment: boolean;
   severityBadgeClass: (severity: string) => string;
   formatSeverityLabel: (severity: string) => string;
   lastError: string | null;
 };
 
+const triageStatusOptions: Array<{ id: FindingTriageStatus; label: string }> = [
+  { id: "confirmed", label: "Confirmed" },
+  { id: "false_positive", label: "False positive" },
+  { id: "accepted_risk", label: "Accepted risk" },
+  { id: "wont_fix", label: "Won't fix" },
+  { id: "internal_only", label: "Internal only" },
+];
+
+function formatTriageStatus(status: FindingTriageStatus) {
+  return (
+    triageStatusOptions.find((option) => option.id === status)?.label ?? status
+  );
+}
+
+function triageBadgeClass(status: FindingTriageStatus) {
+  if (status === "false_positive") {
+    return "border-muted-foreground/40 text-muted-foreground";
+  }
+  if (status === "confirmed") {
+    return "border-destructive/40 text-destructive";
+  }
+  return "border-amber-500/40 text-amber-600 dark:text-amber-400";
+}
+
+function FindingTriageControl(props: {
+  findingId: string;
+  triage: FindingTriage | null;
+  onTriageFinding: WorkbenchFindingsPanelProps["onTriageFinding"];
+  canTriage: boolean;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<FindingTriageStatus>(
+    props.triage?.status ?? "confirmed",
+  );
+  const [justification, setJustification] = useState(
+    props.triage?.justification ?? "",
+  );
+
+  async function submit(
+    triage: { status: FindingTriageStatus; justification: string } | null,
+  ) {
+    setIsSaving(true);
+    const saved = await props.onTriageFinding(props.findingId, triage);
+    setIsSaving(false);
+    if (saved) {
+      setIsEditing(false);
+    }
+  }
+
+  if (!isEditing) {
+    return (
+      <div className="mt-1.5 flex min-w-0 items-start justify-between gap-2">
+        {props.triage ? (
+          <div className="text-muted-foreground min-w-0 text-[10px] leading-4">
+            <Badge
+              variant="outline"
+              className={cn(
+                "mr-1 h-4 border px-1 text-[10px] font-medium",
+                triageBadgeClass(props.triage.status),
+              )}
+            >
+              {formatTriageStatus(props.triage.status)}
+            </Badge>
+            <span className="break-words">{props.triage.justification}</span>
+            {props.triage.authorName ? (
+              <span> ({props.triage.authorName})</span>
+            ) : null}
+          </div>
+        ) : (
+          <span className="text-muted-foreground text-[10px] leading-5">
+            Not triaged
+          </span>
+        )}
+        {props.canTriage ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-5 shrink-0 px-1.5 text-[10px]"
+            onClick={() => {
+              setStatus(props.triage?.status ?? "confirmed");
+              setJustification(props.triage?.justification ?? "");
+              setIsEditing(true);
+            }}
+          >
+            {props.triage ? "Edit triage" : "Triage"}
+          </Button>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1.5 space-y-1.5">
+      <Select
+        value={status}
+        onValueChange={(value) => {
+          setStatus(value as FindingTriageStatus);
+        }}
+      >
+        <SelectTrigger className="h-7 w-full min-w-0 text-[11px]" aria-label="Triage status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent align="start">
+          {triageStatusOptions.map((option) => (
+            <SelectItem key={option.id} value={option.id} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={justification}
+        onChange={(event) => {
+          setJustification(event.target.value);
+        }}
+        className="h-7 text-[11px]"
+        placeholder="Justification (required)"
+      />
+      <div className="flex items-center justify-end gap-1">
+        {props.triage ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-[10px]"
+            disabled={isSaving}
+            onClick={() => {
+              void submit(null);
+            }}
+          >
+            Clear
+          </Button>
+        ) : null}
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-[10px]"
+          disabled={isSaving}
+          onClick={() => {
+            setIsEditing(false);
+          }}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-[10px]"
+          disabled={isSaving || !justification.trim()}
+          onClick={() => {
+            void submit({ status, justification: justification.trim() });
+          }}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function WorkbenchFindingsPanel(props: WorkbenchFindingsPanelProps) {
   return (
     <div className="h-full min-w-0 overflow-y-auto overflow-x-hidden px-3 py-3">
@@ -130,89 +322,123 @@ export function WorkbenchFindingsPanel(props: WorkbenchFindingsPanelProps) {
                   ? `${Math.round(item.payloadJson.confidence * 100)}%`
                   : null;
               const fixPriority = item.payloadJson?.fixPriority?.toUpperCase() ?? null;
+              const discoveredBy = item.payloadJson?.discoveredBy ?? [];
               const remediation = item.payloadJson?.remediation;
               const businessImpact = item.payloadJson?.businessImpact;
               const technicalImpact = item.payloadJson?.technicalImpact;
 
               return (
-                <Button
+                <div
                   key={item.id}
-                  type="button"
-                  variant="ghost"
-                  className="bg-card h-auto w-full min-w-0 justify-start whitespace-normal rounded-md border border-border p-2.5 text-left hover:bg-accent/35"
-                  onClick={() => {
-                    props.onRevealFinding(item);
-                  }}
+                  className={cn(
+                    "bg-card min-w-0 rounded-md border border-border",
+                    item.triage?.status === "false_positive" ? "opacity-70" : null,
+                  )}
                 >
-                  <div className="w-full min-w-0">
-                    <div className="flex items-start justify-between gap-2">
-                      <Badge
-                        variant="outline"
-                        className={cn(
-                          "h-5 border px-1.5 text-[10px] font-medium",
-                          props.severityBadgeClass(severity),
-                        )}
-                      >
-                        {props.formatSeverityLabel(severity)}
-                      </Badge>
-                      {filePath ? (
-                        <span className="text-muted-foreground max-w-[65%] truncate text-[10px] leading-5">
-                          {filePath}
-                          {line ? `:${line}` : ""}
-                        </span>
-                      ) : null}
-                    </div>
-                    <div className="text-foreground mt-1.5 break-words text-xs font-medium leading-4">
-                      {title}
-                    </div>
-                    {summary ? (
-                      <div className="text-muted-foreground mt-1 line-clamp-2 break-words text-[11px] leading-4">
-                        {summary}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="h-auto w-full min-w-0 justify-start whitespace-normal rounded-md p-2.5 text-left hover:bg-accent/35"
+                    onClick={() => {
+                      props.onRevealFinding(item);
+                    }}
+                  >
+                    <div className="w-full min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "h-5 border px-1.5 text-[10px] font-medium",
+                            props.severityBadgeClass(severity),
+                          )}
+                        >
+                          {props.formatSeverityLabel(severity)}
+                        </Badge>
+                        {filePath ? (
+                          <span className="text-muted-foreground max-w-[65%] truncate text-[10px] leading-5">
+                            {filePath}
+                            {line ? `:${line}` : ""}
+                          </span>
+                        ) : null}
                       </div>
-                    ) : null}
-                    <div className="text-muted-foreground mt-1.5 flex flex-wrap items-center gap-1 text-[10px]">
-                      {cvss?.baseScore !== undefined ? (
-                        <span className="rounded border border-border px-1.5 py-0.5">
-                          CVSS {cvss.baseScore.toFixed(1)}
-                        </span>
-                      ) : null}
-                      {confidence ? (
-                        <span className="rounded border border-border px-1.5 py-0.5">
-                          Confidence {confidence}
-                        </span>
-                      ) : null}
-                      {fixPriority ? (
-                        <span className="rounded border border-border px-1.5 py-0.5">
-                          {fixPriority}
-                        </span>
+                      <div className="text-foreground mt-1.5 break-words text-xs font-medium leading-4">
+                        {title}
+                      </div>
+                      {summary ? (
+                        <div className="text-muted-foreground mt-1 line-clamp-2 break-words text-[11px] leading-4">
+                          {summary}
+                        </div>
                       ) : null}
-                    </div>
-                    {taxonomy.length ? (
-                      <div className="mt-1.5 flex flex-wrap gap-1">
-                        {taxonomy.slice(0, 4).map((tag) => (
+                      <div className="text-muted-foreground mt-1.5 flex flex-wrap items-center gap-1 text-[10px]">
+                        {cvss?.baseScore !== undefined ? (
+                          <span className="rounded border border-border px-1.5 py-0.5">
+                            CVSS {cvss.baseScore.toFixed(1)}
+                          </span>
+                        ) : null}
+                        {confidence ? (
+                          <span className="rounded border border-border px-1.5 py-0.5">
+                            Confidence {confidence}
+                          </span>
+                        ) : null}
+                        {fixPriority ? (
+                          <span className="rounded border border-border px-1.5 py-0.5">
+                            {fixPriority}
+                          </span>
+                        ) : null}
+                        {discoveredBy.length ? (
                           <span
-                            key={`${item.id}-${tag.standard}-${tag.id}`}
-                            className="text-muted-foreground rounded border border-border bg-muted/40 px-1.5 py-0.5 text-[10px]"
+                            className="rounded border border-border px-1.5 py-0.5"
+                            title={discoveredBy.join(", ")}
                           >
-                            {tag.standard.toUpperCase()} {tag.id}
+                            Found by {discoveredBy.length} model
+                            {discoveredBy.length === 1 ? "" : "s"}
                           </span>
-                        ))}
-                      </div>
-                    ) : null}
-                    {businessImpact || technicalImpact ? (
-                      <div className="text-muted-foreground mt-1.5 line-clamp-2 text-[10px] leading-4">
-                        {businessImpact ? `Business: ${businessImpact}` : ""}
-                        {businessImpact && technicalImpact ? " | " : ""}
-                        {technicalImpact ? `Technical: ${technicalImpact}` : ""}
+                        ) : null}
                       </div>
-                    ) : null}
-                    {remediation ? (
-                      <div className="text-muted-foreground mt-1.5 line-clamp-2 text-[10px] leading-4">
-                        Fix: {remediation}
-                      </div>
-                    ) : null}
-                  </div>
-                </Button>
+                      {taxonomy.length ? (
+                        <div className="mt-1.5 flex flex-wrap gap-1">
+                          {taxonomy.slice(0, 4).map((tag) => (
+                            <span
+                              key={`${item.id}-${tag.standard}-${tag.id}`}
+                              className="text-muted-foreground rounded border border-border bg-muted/40 px-1.5 py-0.5 text-[10px]"
+                            >
+                              {tag.standard.toUpperCase()} {tag.id}
+                            </span>
+                          ))}
+                        </div>
+                      ) : null}
+                      {businessImpact || technicalImpact ? (
+                        <div className="text-muted-foreground mt-1.5 line-clamp-2 text-[10px] leading-4">
+                          {businessImpact ? `Business: ${businessImpact}` : ""}
+                          {businessImpact && technicalImpact ? " | " : ""}
+                          {technicalImpact ? `Technical: ${technicalImpact}` : ""}
+                        </div>
+                      ) : null}
+                      {remediation ? (
+                        <div className="text-muted-foreground mt-1.5 line-clamp-2 text-[10px] leading-4">
+                          Fix: {remediation}
+                        </div>
+                      ) : null}
+                    </div>
+                  </Button>
+                  {item.findingId ? (
+                    <div className="border-t border-border px-2.5 pb-2">
+                      <FindingTriageControl
+                        key={`${item.findingId}-${item.triage?.updatedAt ?? "none"}`}
+                        findingId={item.findingId}
+                        triage={item.triage ?? null}
+                        onTriageFinding={props.onTriageFinding}
+                        canTriage={props.canTriage}
+                      />
+                      <WorkbenchFindingComments
+                        projectId={props.projectId}
+                        findingId={item.findingId}
+                        commentCount={item.commentCount ?? 0}
+                        canComment={props.canComment}
+                      />
+                    </div>
+                  ) : null}
+                </div>
               );
             })}
           </div>
@@ -20,3 +20,24 @@ export const MonacoEditor = dynamic(
     ),
   },
 );
+
+export const MonacoDiffEditor = dynamic(
+  async () => {
+    const [monacoReactModule, monacoModule] = await Promise.all([
+      import("@monaco-editor/react"),
+      import("monaco-editor"),
+    ]);
+
+    monacoReactModule.loader.config({ monaco: monacoModule });
+
+    return monacoReactModule.DiffEditor;
+  },
+  {
+    ssr: false,
+    loading: () => (
+      <div className="text-muted-foreground grid h-full place-items-center text-sm">
+        Loading diff...
+      </div>
+    ),
+  },
+);
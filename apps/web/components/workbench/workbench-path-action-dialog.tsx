@@ -0,0 +1,102 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { WorkbenchPathAction } from "@/components/workbench/ton-workbench.types";
+
+type WorkbenchPathActionDialogProps = {
+  action: WorkbenchPathAction | null;
+  isBusy: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMove: (fromPath: string, toPath: string) => void;
+  onDelete: (path: string) => void;
+};
+
+export function WorkbenchPathActionDialog({
+  action,
+  isBusy,
+  onOpenChange,
+  onMove,
+  onDelete,
+}: WorkbenchPathActionDialogProps) {
+  const [targetPath, setTargetPath] = useState(action?.path ?? "");
+
+  const label = action?.type === "directory" ? "folder" : "file";
+
+  function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!action) {
+      return;
+    }
+
+    if (action.kind === "delete") {
+      onDelete(action.path);
+      return;
+    }
+
+    onMove(action.path, targetPath);
+  }
+
+  return (
+    <Dialog open={action !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form className="grid gap-4" onSubmit={onSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {action?.kind === "delete" ? `Delete ${label}` : `Rename or move ${label}`}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.kind === "delete"
+                ? action.type === "directory"
+                  ? `Delete ${action.path} and every file inside it from this working copy?`
+                  : `Delete ${action.path} from this working copy?`
+                : "Enter the new path relative to the project root. Folders are moved with all of their files."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action?.kind === "move" ? (
+            <Input
+              autoFocus
+              aria-label="New path"
+              value={targetPath}
+              onChange={(event) => setTargetPath(event.target.value)}
+              className="font-mono text-xs"
+            />
+          ) : null}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={action?.kind === "delete" ? "destructive" : "default"}
+              disabled={
+                isBusy ||
+                (action?.kind === "move" &&
+                  (!targetPath.trim() || targetPath.trim() === action.path))
+              }
+            >
+              {action?.kind === "delete" ? "Delete" : "Move"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
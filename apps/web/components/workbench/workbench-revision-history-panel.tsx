@@ -0,0 +1,300 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Download, RefreshCcw } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type {
+  RevisionCompareResponse,
+  RevisionGraphNode,
+} from "@/components/workbench/ton-workbench.types";
+import {
+  auditStatusBadgeClass,
+  shortId,
+  toAuditStatusLabel,
+} from "@/components/workbench/ton-workbench.utils";
+import { WorkbenchAuditCompareDiffs } from "@/components/workbench/workbench-audit-compare-diffs";
+import { layoutRevisionGraph } from "@/components/workbench/workbench-ui-utils";
+
+const LANE_WIDTH = 12;
+
+type WorkbenchRevisionHistoryPanelProps = {
+  revisions: RevisionGraphNode[];
+  isLoading: boolean;
+  currentRevisionId: string | null;
+  compare: RevisionCompareResponse | null;
+  isCompareLoading: boolean;
+  onRefresh: () => void;
+  onOpenRevision: (revision: RevisionGraphNode) => void;
+  onDownloadRevision: (revision: RevisionGraphNode) => void;
+  onCompare: (fromRevisionId: string, toRevisionId: string) => void;
+  onLoadMoreDiffs: () => void;
+};
+
+function RevisionGraphGutter(props: {
+  lane: number;
+  above: boolean[];
+  below: boolean[];
+  width: number;
+  isCurrent: boolean;
+}) {
+  return (
+    <div
+      className="relative shrink-0 self-stretch"
+      style={{ width: props.width * LANE_WIDTH }}
+      aria-hidden
+    >
+      {Array.from({ length: props.width }, (_, index) => (
+        <div
+          key={index}
+          className="absolute inset-y-0"
+          style={{ left: index * LANE_WIDTH + LANE_WIDTH / 2 - 1 }}
+        >
+          {props.above[index] ? (
+            <div className="bg-border absolute top-0 h-1/2 w-0.5" />
+          ) : null}
+          {props.below[index] ? (
+            <div className="bg-border absolute bottom-0 h-1/2 w-0.5" />
+          ) : null}
+        </div>
+      ))}
+      <div
+        className={cn(
+          "absolute top-1/2 size-2.5 -translate-y-1/2 rounded-full border-2",
+          props.isCurrent
+            ? "border-primary bg-primary"
+            : "border-muted-foreground bg-background",
+        )}
+        style={{ left: props.lane * LANE_WIDTH + LANE_WIDTH / 2 - 5 }}
+      />
+    </div>
+  );
+}
+
+export function WorkbenchRevisionHistoryPanel(
+  props: WorkbenchRevisionHistoryPanelProps,
+) {
+  const [fromRevisionId, setFromRevisionId] = useState("");
+  const [toRevisionId, setToRevisionId] = useState("");
+  const graph = useMemo(
+    () => layoutRevisionGraph(props.revisions),
+    [props.revisions],
+  );
+
+  // Until the user picks, compare the newest revision against its parent.
+  const newest = props.revisions[0] ?? null;
+  const effectiveToId = toRevisionId || newest?.id || "";
+  const effectiveFromId =
+    fromRevisionId ||
+    props.revisions.find((revision) => revision.id === effectiveToId)
+      ?.parentRevisionId ||
+    props.revisions.find((revision) => revision.id !== effectiveToId)?.id ||
+    "";
+  const canCompare =
+    Boolean(effectiveFromId && effectiveToId) &&
+    effectiveFromId !== effectiveToId &&
+    !props.isCompareLoading;
+
+  return (
+    <div className="h-full min-w-0 overflow-y-auto overflow-x-hidden px-3 py-3">
+      <div className="min-w-0 space-y-3 pb-3">
+        <div className="bg-card min-w-0 overflow-hidden rounded-lg border border-border p-3">
+          <h4 className="text-foreground mb-2 text-xs font-semibold">
+            Compare Revisions
+          </h4>
+          {props.revisions.length < 2 ? (
+            <p className="text-muted-foreground text-[11px]">
+              At least two revisions are required to compare.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                {(
+                  [
+                    ["From", effectiveFromId, setFromRevisionId],
+                    ["To", effectiveToId, setToRevisionId],
+                  ] as const
+                ).map(([label, value, onChange]) => (
+                  <label
+                    key={label}
+                    className="text-foreground min-w-0 text-[11px]"
+                  >
+                    {label}
+                    <Select value={value} onValueChange={onChange}>
+                      <SelectTrigger className="mt-1 h-8 w-full min-w-0 text-[11px]">
+                        <SelectValue placeholder="Select revision" />
+                      </SelectTrigger>
+                      <SelectContent
+                        position="popper"
+                        align="start"
+                        className="w-[var(--radix-select-trigger-width)] min-w-[var(--radix-select-trigger-width)]"
+                      >
+                        {props.revisions.map((revision) => (
+                          <SelectItem
+                            key={`${label}-${revision.id}`}
+                            value={revision.id}
+                          >
+                            rev {shortId(revision.id)} ·{" "}
+                            {new Date(revision.createdAt).toLocaleDateString()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </label>
+                ))}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                className="h-8 w-full text-xs"
+                disabled={!canCompare}
+                onClick={() => props.onCompare(effectiveFromId, effectiveToId)}
+              >
+                {props.isCompareLoading ? "Comparing..." : "Compare Revisions"}
+              </Button>
+            </div>
+          )}
+
+          {props.compare ? (
+            <div className="mt-3 min-w-0 space-y-2 text-[11px]">
+              <div className="text-muted-foreground break-words">
+                rev {shortId(props.compare.fromRevision.id)} {" -> "} rev{" "}
+                {shortId(props.compare.toRevision.id)}:{" "}
+                {props.compare.summary.description}
+              </div>
+              <WorkbenchAuditCompareDiffs
+                diffs={props.compare.diffs}
+                isLoading={props.isCompareLoading}
+                onLoadMore={props.onLoadMoreDiffs}
+              />
+            </div>
+          ) : null}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-foreground text-xs font-semibold">Revisions</h4>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              className="size-6"
+              disabled={props.isLoading}
+              onClick={props.onRefresh}
+              aria-label="Refresh revisions"
+            >
+              <RefreshCcw
+                className={cn("size-3.5", props.isLoading ? "animate-spin" : "")}
+              />
+            </Button>
+          </div>
+
+          {props.revisions.length ? (
+            <div className="[content-visibility:auto]">
+              {props.revisions.map((revision, index) => {
+                const row = graph.rows[index]!;
+                const latestAudit = revision.audits[0] ?? null;
+                const isCurrent = revision.id === props.currentRevisionId;
+
+                return (
+                  <div key={revision.id} className="flex min-w-0 gap-2">
+                    <RevisionGraphGutter
+                      lane={row.lane}
+                      above={row.above}
+                      below={row.below}
+                      width={graph.width}
+                      isCurrent={isCurrent}
+                    />
+                    <div
+                      className={cn(
+                        "bg-card my-1 min-w-0 flex-1 rounded-md border border-border px-2.5 py-2",
+                        isCurrent ? "border-primary/50 shadow-sm" : "",
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="text-foreground truncate text-xs font-medium">
+                            rev {shortId(revision.id)} ·{" "}
+                            {revision.source === "upload"
+                              ? "upload"
+                              : "working copy"}
+                          </div>
+                          <div className="text-muted-foreground truncate text-[11px]">
+                            {revision.description ?? "No description"}
+                          </div>
+                          <div className="text-muted-foreground text-[11px]">
+                            {revision.createdBy.name ?? "Unknown user"} ·{" "}
+                            {new Date(revision.createdAt).toLocaleString()}
+                          </div>
+                        </div>
+                        <div className="flex shrink-0 flex-col items-end gap-1">
+                          {latestAudit ? (
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                "h-5 border px-1.5 text-[10px] font-medium",
+                                auditStatusBadgeClass(latestAudit.status),
+                              )}
+                            >
+                              {toAuditStatusLabel(latestAudit.status)}
+                            </Badge>
+                          ) : (
+                            <Badge
+                              variant="outline"
+                              className="text-muted-foreground h-5 px-1.5 text-[10px]"
+                            >
+                              Not audited
+                            </Badge>
+                          )}
+                          <div className="flex items-center gap-1">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon-sm"
+                              className="size-6"
+                              onClick={() => props.onDownloadRevision(revision)}
+                              aria-label={`Download revision ${shortId(revision.id)} as zip`}
+                            >
+                              <Download className="size-3.5" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-6 px-2 text-[10px]"
+                              onClick={() => props.onOpenRevision(revision)}
+                            >
+                              {isCurrent ? "Reopen" : "Open"}
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                      {revision.audits.length > 1 ? (
+                        <div className="text-muted-foreground mt-1 text-[10px]">
+                          {revision.audits.length} audits on this revision
+                        </div>
+                      ) : null}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-xs">
+              {props.isLoading ? "Loading revisions..." : "No revisions yet."}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
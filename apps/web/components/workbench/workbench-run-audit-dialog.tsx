@@ -0,0 +1,85 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { WorkingCopyChanges } from "@/components/workbench/ton-workbench.types";
+
+type WorkbenchRunAuditDialogProps = {
+  open: boolean;
+  profileLabel: string;
+  changes: WorkingCopyChanges | null;
+  isChangesLoading: boolean;
+  unsavedCount: number;
+  isBusy: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+};
+
+export function WorkbenchRunAuditDialog(props: WorkbenchRunAuditDialogProps) {
+  const summary = props.changes?.summary ?? null;
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Run {props.profileLabel} audit</DialogTitle>
+          <DialogDescription>
+            The working copy is snapshotted into a new revision and audited.
+            Review what changed against the base revision first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2 text-sm">
+          {props.isChangesLoading ? (
+            <p className="text-muted-foreground text-xs">Loading changes...</p>
+          ) : summary ? (
+            <>
+              <p className="font-medium">{summary.description}</p>
+              <p className="text-muted-foreground text-xs">
+                {summary.modified} modified · {summary.added} added ·{" "}
+                {summary.removed} removed · {summary.unchanged} unchanged ·{" "}
+                <span className="font-mono">
+                  +{summary.linesAdded} -{summary.linesRemoved}
+                </span>
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground text-xs">
+              Change summary unavailable.
+            </p>
+          )}
+          {props.unsavedCount ? (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {props.unsavedCount} unsaved file(s) will be saved before the
+              snapshot and are not reflected above.
+            </p>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => props.onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={props.isBusy}
+            onClick={props.onConfirm}
+          >
+            Run audit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
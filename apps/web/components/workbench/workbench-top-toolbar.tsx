@@ -2,6 +2,7 @@
 
 import { type ReactNode } from "react";
 import {
+  Check,
   FileDown,
   Lock,
   MoreHorizontal,
@@ -9,6 +10,7 @@ import {
   Play,
   RefreshCcw,
   Save,
+  Square,
   TerminalSquare,
   type LucideIcon,
 } from "lucide-react";
@@ -29,6 +31,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { MAX_CONSENSUS_MODELS } from "@/components/workbench/workbench-ui-utils";
 
 type WorkbenchTopToolbarModelSelector = {
   id: string;
@@ -38,8 +41,19 @@ type WorkbenchTopToolbarModelSelector = {
   onValueChange: (value: string) => void;
 };
 
+type WorkbenchTopToolbarPassModelSelector = {
+  id: string;
+  label: string;
+  modelId: string;
+  fallbackModelId: string;
+  onModelChange: (value: string) => void;
+  onFallbackModelChange: (value: string) => void;
+};
+
 type WorkbenchTopToolbarProps = {
   isAuditWriteLocked: boolean;
+  canWrite: boolean;
+  canRunAudit: boolean;
   isBusy: boolean;
   isEditable: boolean;
   revisionId: string | null;
@@ -47,12 +61,20 @@ type WorkbenchTopToolbarProps = {
   isSelectedPathDirty: boolean;
   onToggleEditMode: () => void;
   onSaveFile: () => void;
-  auditProfile: "fast" | "deep";
+  auditProfile: "fast" | "deep" | "consensus";
+  auditMode: "full" | "incremental";
   toProfileLabel: (profile: string) => string;
   onRunAudit: () => void;
+  onCancelAudit: () => void;
   auditId: string | null;
   canExportFinalPdf: boolean;
   onExportFinalPdf: () => void;
+  onExportClientPdf: () => void;
+  canDownloadExports: boolean;
+  onDownloadExport: (
+    format: "sarif" | "markdown" | "html",
+    variant?: "client" | "internal"
+  ) => void;
   onRefreshWorkbench: () => void;
   isBottomPanelVisible: boolean;
   onToggleBottomPanel: () => void;
@@ -61,9 +83,14 @@ type WorkbenchTopToolbarProps = {
   isAuditInProgress: boolean;
   dirtyPathCount: number;
   onBackToDashboard: () => void;
+  onOpenMembers: () => void;
   modelSelectors: readonly WorkbenchTopToolbarModelSelector[];
+  passModelSelectors: readonly WorkbenchTopToolbarPassModelSelector[];
+  consensusModelIds: string[];
+  onToggleConsensusModel: (modelId: string) => void;
   modelAllowlist: string[];
-  onAuditProfileChange: (profile: "fast" | "deep") => void;
+  onAuditProfileChange: (profile: "fast" | "deep" | "consensus") => void;
+  onAuditModeChange: (mode: "full" | "incremental") => void;
   lspStatus: string;
   jobState: string;
   shortId: (value: string | null, size?: number) => string;
@@ -130,6 +157,89 @@ function ModelSelectorSubmenu(props: {
   );
 }
 
+function PassModelSelectorSubmenu(props: {
+  selector: WorkbenchTopToolbarPassModelSelector;
+  modelAllowlist: string[];
+}) {
+  const modelOptions = normalizeModelAllowlist(props.modelAllowlist);
+  const groups = [
+    {
+      label: "Model",
+      inheritLabel: "Use primary model",
+      value: props.selector.modelId,
+      onValueChange: props.selector.onModelChange,
+    },
+    {
+      label: "Fallback",
+      inheritLabel: "Use fallback model",
+      value: props.selector.fallbackModelId,
+      onValueChange: props.selector.onFallbackModelChange,
+    },
+  ];
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>{props.selector.label}</DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-64">
+        {groups.map((group, index) => (
+          <div key={group.label}>
+            {index > 0 ? <DropdownMenuSeparator /> : null}
+            <DropdownMenuLabel>{group.label}</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={group.value} onValueChange={group.onValueChange}>
+              <DropdownMenuRadioItem value="">{group.inheritLabel}</DropdownMenuRadioItem>
+              {modelOptions.map((model) => (
+                <DropdownMenuRadioItem
+                  key={`${props.selector.id}-${group.label}-${model}`}
+                  value={model}
+                >
+                  {model}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </div>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
+function ConsensusModelSubmenu(props: {
+  selected: string[];
+  modelAllowlist: string[];
+  onToggle: (modelId: string) => void;
+}) {
+  const modelOptions = normalizeModelAllowlist(props.modelAllowlist);
+
+  return (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        Consensus models ({props.selected.length || "default"})
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-64">
+        <DropdownMenuLabel className="text-muted-foreground text-[11px] font-normal">
+          Pick 2-3 models; defaults to the discovery primary and fallback.
+        </DropdownMenuLabel>
+        {modelOptions.map((model) => {
+          const isSelected = props.selected.includes(model);
+          return (
+            <DropdownMenuItem
+              key={`toolbar-consensus-${model}`}
+              disabled={!isSelected && props.selected.length >= MAX_CONSENSUS_MODELS}
+              onSelect={(event) => {
+                event.preventDefault();
+                props.onToggle(model);
+              }}
+            >
+              <Check className={cn("size-3.5", isSelected ? "opacity-100" : "opacity-0")} />
+              {model}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
+
 export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
   const modeIcon: LucideIcon = props.isEditable ? Lock : Pencil;
   const ModeIcon = modeIcon;
@@ -138,11 +248,13 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
     <div className="bg-card/80 flex shrink-0 items-center gap-0.5 border-l border-border px-1">
       <WorkbenchToolbarTooltip
         content={
-          props.isAuditWriteLocked
-            ? "Editing locked while audit is running"
-            : props.isEditable
-              ? "Read-only"
-              : "Edit"
+          !props.canWrite
+            ? "Your project role is read-only"
+            : props.isAuditWriteLocked
+              ? "Editing locked while audit is running"
+              : props.isEditable
+                ? "Read-only"
+                : "Edit"
         }
       >
         <Button
@@ -150,7 +262,12 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
           size="icon-sm"
           variant="ghost"
           className="size-6 rounded-sm"
-          disabled={props.isAuditWriteLocked || props.isBusy || (!props.isEditable && !props.revisionId)}
+          disabled={
+            !props.canWrite ||
+            props.isAuditWriteLocked ||
+            props.isBusy ||
+            (!props.isEditable && !props.revisionId)
+          }
           onClick={props.onToggleEditMode}
           aria-label={props.isEditable ? "Read-only" : "Edit"}
         >
@@ -184,7 +301,9 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
           size="icon-sm"
           variant="ghost"
           className="size-6 rounded-sm"
-          disabled={props.isAuditWriteLocked || !props.isEditable || props.isBusy}
+          disabled={
+            !props.canRunAudit || props.isAuditWriteLocked || !props.isEditable || props.isBusy
+          }
           onClick={props.onRunAudit}
           aria-label="Run Audit"
         >
@@ -192,6 +311,22 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
         </Button>
       </WorkbenchToolbarTooltip>
 
+      {props.isAuditInProgress ? (
+        <WorkbenchToolbarTooltip content="Cancel running audit">
+          <Button
+            type="button"
+            size="icon-sm"
+            variant="ghost"
+            className="size-6 rounded-sm"
+            disabled={!props.canRunAudit || !props.auditId || props.isBusy}
+            onClick={props.onCancelAudit}
+            aria-label="Cancel Audit"
+          >
+            <Square className="size-3" />
+          </Button>
+        </WorkbenchToolbarTooltip>
+      ) : null}
+
       <WorkbenchToolbarTooltip content="Export Final Audit PDF">
         <Button
           type="button"
@@ -271,6 +406,7 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
         <DropdownMenuContent align="end" className="w-56">
           <DropdownMenuLabel>Workbench</DropdownMenuLabel>
           <DropdownMenuItem onClick={props.onBackToDashboard}>Back to dashboard</DropdownMenuItem>
+          <DropdownMenuItem onClick={props.onOpenMembers}>Project members</DropdownMenuItem>
           <DropdownMenuSeparator />
           {props.modelSelectors.map((selector) => (
             <ModelSelectorSubmenu
@@ -282,6 +418,13 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
               onValueChange={selector.onValueChange}
             />
           ))}
+          {props.passModelSelectors.map((selector) => (
+            <PassModelSelectorSubmenu
+              key={selector.id}
+              selector={selector}
+              modelAllowlist={props.modelAllowlist}
+            />
+          ))}
           <DropdownMenuSub>
             <DropdownMenuSubTrigger>
               Audit profile ({props.toProfileLabel(props.auditProfile)})
@@ -290,16 +433,81 @@ export function WorkbenchTopToolbar(props: WorkbenchTopToolbarProps) {
               <DropdownMenuRadioGroup
                 value={props.auditProfile}
                 onValueChange={(value) => {
-                  if (value === "fast" || value === "deep") {
+                  if (value === "fast" || value === "deep" || value === "consensus") {
                     props.onAuditProfileChange(value);
                   }
                 }}
               >
                 <DropdownMenuRadioItem value="deep">Deep (recommended)</DropdownMenuRadioItem>
                 <DropdownMenuRadioItem value="fast">Fast</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="consensus">Consensus (2-3 models)</DropdownMenuRadioItem>
               </DropdownMenuRadioGroup>
             </DropdownMenuSubContent>
           </DropdownMenuSub>
+          {props.auditProfile === "consensus" ? (
+            <ConsensusModelSubmenu
+              selected={props.consensusModelIds}
+              modelAllowlist={props.modelAllowlist}
+              onToggle={props.onToggleConsensusModel}
+            />
+          ) : null}
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              Audit mode ({props.auditMode === "incremental" ? "Incremental" : "Full"})
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup
+                value={props.auditMode}
+                onValueChange={(value) => {
+                  if (value === "full" || value === "incremental") {
+                    props.onAuditModeChange(value);
+                  }
+                }}
+              >
+                <DropdownMenuRadioItem value="full">Full</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="incremental">
+                  Incremental (changed files)
+                </DropdownMenuRadioItem>
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!props.auditId || props.isBusy || !props.canExportFinalPdf}
+            onClick={props.onExportClientPdf}
+          >
+            Export client PDF
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!props.auditId || !props.canDownloadExports}
+            onClick={() => props.onDownloadExport("sarif")}
+          >
+            Download SARIF
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!props.auditId || !props.canDownloadExports}
+            onClick={() => props.onDownloadExport("markdown")}
+          >
+            Download Markdown report
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!props.auditId || !props.canDownloadExports}
+            onClick={() => props.onDownloadExport("html")}
+          >
+            Download HTML report
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!props.auditId || !props.canDownloadExports}
+            onClick={() => props.onDownloadExport("markdown", "client")}
+          >
+            Download client Markdown report
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={!props.auditId || !props.canDownloadExports}
+            onClick={() => props.onDownloadExport("html", "client")}
+          >
+            Download client HTML report
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuLabel className="text-[11px]">
             rev {props.shortId(props.revisionId)} · audit {props.shortId(props.auditId)} · LSP{" "}
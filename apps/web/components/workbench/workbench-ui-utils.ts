@@ -59,3 +59,210 @@ function filterNode(node: WorkbenchTreeNode, query: string): WorkbenchTreeNode |
     children: filteredChildren
   };
 }
+
+export type RevisionGraphRow = {
+  id: string;
+  lane: number;
+  /** Lanes with a line entering the row from above / leaving it below. */
+  above: boolean[];
+  below: boolean[];
+};
+
+/**
+ * Assigns revisions, listed newest first, to columns so that every parent link can be drawn as
+ * a vertical lane. A lane stays open until the revision it is waiting for appears.
+ */
+export function layoutRevisionGraph(
+  nodes: Array<{ id: string; parentRevisionId: string | null }>
+): { rows: RevisionGraphRow[]; width: number } {
+  const lanes: Array<string | null> = [];
+  const rows = nodes.map((node) => {
+    const above = lanes.map((waitingFor) => waitingFor !== null);
+    let lane = lanes.indexOf(node.id);
+    if (lane < 0) {
+      lane = lanes.indexOf(null);
+    }
+    if (lane < 0) {
+      lane = lanes.length;
+      lanes.push(null);
+    }
+
+    lanes.forEach((waitingFor, index) => {
+      if (waitingFor === node.id && index !== lane) {
+        lanes[index] = null;
+      }
+    });
+    lanes[lane] = node.parentRevisionId;
+    while (lanes.length && lanes[lanes.length - 1] === null) {
+      lanes.pop();
+    }
+
+    return { id: node.id, lane, above, below: lanes.map((waitingFor) => waitingFor !== null) };
+  });
+
+  return {
+    rows,
+    width: Math.max(
+      1,
+      ...rows.map((row) => Math.max(row.lane + 1, row.above.length, row.below.length))
+    )
+  };
+}
+
+export const AUDIT_PASSES = ["discovery", "validation", "synthesis"] as const;
+
+type AuditPassName = (typeof AUDIT_PASSES)[number];
+type PassModelOverride = { modelId: string; fallbackModelId: string };
+
+export function toAuditPassLabel(pass: string) {
+  return pass.charAt(0).toUpperCase() + pass.slice(1);
+}
+
+export function createEmptyPassModelOverrides(): Record<AuditPassName, PassModelOverride> {
+  return {
+    discovery: { modelId: "", fallbackModelId: "" },
+    validation: { modelId: "", fallbackModelId: "" },
+    synthesis: { modelId: "", fallbackModelId: "" },
+  };
+}
+
+/**
+ * Builds the `passModels` field of a run-audit request. Only passes with an override are sent;
+ * a pass that only overrides its fallback keeps the run-wide primary model.
+ */
+export function buildPassModelsRequest(
+  overrides: Record<AuditPassName, PassModelOverride>,
+  primaryModelId: string,
+) {
+  const passModels: Partial<Record<AuditPassName, { modelId: string; fallbackModelId?: string }>> = {};
+
+  for (const pass of AUDIT_PASSES) {
+    const override = overrides[pass];
+    if (!override.modelId && !override.fallbackModelId) {
+      continue;
+    }
+
+    passModels[pass] = {
+      modelId: override.modelId || primaryModelId,
+      ...(override.fallbackModelId ? { fallbackModelId: override.fallbackModelId } : {}),
+    };
+  }
+
+  return passModels;
+}
+
+/** Drops overrides that point at models no longer on the allowlist. */
+export function sanitizePassModelOverrides(
+  overrides: Partial<Record<string, Partial<PassModelOverride>>> | null | undefined,
+  modelAllowlist: string[],
+): Record<AuditPassName, PassModelOverride> {
+  const allowed = new Set(modelAllowlist);
+  const keep = (value: unknown) =>
+    typeof value === "string" && allowed.has(value) ? value : "";
+
+  return Object.fromEntries(
+    AUDIT_PASSES.map((pass) => [
+      pass,
+      {
+        modelId: keep(overrides?.[pass]?.modelId),
+        fallbackModelId: keep(overrides?.[pass]?.fallbackModelId),
+      },
+    ]),
+  ) as Record<AuditPassName, PassModelOverride>;
+}
+
+/**
+ * Lists the passes of an audit that ran on a model other than the run's primary model, or null
+ * when every pass used it.
+ */
+export function describeAuditPassModels(
+  passModels:
+    | Partial<Record<string, { primary: string; used: string | null }>>
+    | null
+    | undefined,
+  primaryModelId: string,
+) {
+  const parts = AUDIT_PASSES.flatMap((pass) => {
+    const route = passModels?.[pass];
+    const modelId = route?.used ?? route?.primary;
+    if (!modelId || modelId === primaryModelId) {
+      return [];
+    }
+
+    return [`${pass} ${modelId}`];
+  });
+
+  return parts.length ? parts.join(" · ") : null;
+}
+
+function formatTokenCount(value: number) {
+  if (value >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M`;
+  }
+
+  return value >= 1_000 ? `${(value / 1_000).toFixed(1)}k` : String(value);
+}
+
+/**
+ * Summarizes what an audit spent against its budget, e.g. "$0.42 / $1.00 · 120.5k tokens", or
+ * null for runs that recorded no usage.
+ */
+export function describeAuditSpend(item: {
+  tokenUsage?: { totalTokens: number } | null;
+  costUsd?: number | null;
+  budget?: { maxTokens?: number; maxCostUsd?: number } | null;
+}) {
+  if (!item.tokenUsage) {
+    return null;
+  }
+
+  const cost =
+    typeof item.costUsd === "number" ? `$${item.costUsd.toFixed(2)}` : "cost n/a";
+  const tokens = formatTokenCount(item.tokenUsage.totalTokens);
+  return [
+    item.budget?.maxCostUsd !== undefined
+      ? `${cost} / $${item.budget.maxCostUsd.toFixed(2)}`
+      : cost,
+    item.budget?.maxTokens !== undefined
+      ? `${tokens} / ${formatTokenCount(item.budget.maxTokens)} tokens`
+      : `${tokens} tokens`,
+  ].join(" · ");
+}
+
+/**
+ * Summarizes the cumulative spend of every audit in the project, e.g. "$1.20 · 450.0k tokens
+ * across 3 audits", or null before any audit recorded usage.
+ */
+export function describeProjectAuditSpend(
+  spend: {
+    auditCount: number;
+    totalTokens: number;
+    totalCostUsd: number;
+    unpricedAuditCount: number;
+  } | null,
+) {
+  if (!spend?.auditCount) {
+    return null;
+  }
+
+  const audits = spend.auditCount === 1 ? "1 audit" : `${spend.auditCount} audits`;
+  return [
+    `$${spend.totalCostUsd.toFixed(2)}`,
+    `${formatTokenCount(spend.totalTokens)} tokens across ${audits}`,
+    ...(spend.unpricedAuditCount ? [`${spend.unpricedAuditCount} without cost`] : []),
+  ].join(" · ");
+}
+
+export const MAX_CONSENSUS_MODELS = 3;
+
+/**
+ * Adds or removes a consensus discovery model, oldest pick first. Picks beyond the cap are
+ * ignored rather than evicting an earlier choice.
+ */
+export function toggleConsensusModel(current: string[], modelId: string) {
+  if (current.includes(modelId)) {
+    return current.filter((item) => item !== modelId);
+  }
+
+  return current.length >= MAX_CONSENSUS_MODELS ? current : [...current, modelId];
+}
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."audit_mode" AS ENUM('full', 'incremental');--> statement-breakpoint
+ALTER TABLE "audit_runs" ADD COLUMN "mode" "audit_mode" DEFAULT 'full' NOT NULL;
\ No newline at end of file
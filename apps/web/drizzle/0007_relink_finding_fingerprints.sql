@@ -0,0 +1,132 @@
+-- Re-link findings that were split by line-based fingerprints. Findings in the same project whose
+-- latest payload shares a file path and normalized title are merged into the oldest row, unless
+-- two of them were reported by the same audit run (then they are distinct issues).
+-- The keys repeat normalizePath and normalizeFindingTitle from packages/shared/src: lower-cased
+-- word tokens without the title stop words, so the migration merges what the runtime matcher does.
+CREATE TEMP TABLE "finding_identity_keys" AS
+SELECT DISTINCT ON ("fi"."finding_id")
+  "fi"."finding_id",
+  "f"."project_id",
+  lower(btrim(regexp_replace(replace(coalesce("fi"."payload_json"->'evidence'->>'filePath', ''), '\', '/'), '^\./', ''), E' \t\r\n')) AS "file_key",
+  array_to_string(ARRAY(
+    SELECT "token"."match"[1]
+    FROM regexp_matches(lower(coalesce("fi"."payload_json"->>'title', '')), '[a-z0-9_]+', 'g')
+      WITH ORDINALITY AS "token"("match", "position")
+    WHERE "token"."match"[1] <> ALL (ARRAY[
+      'a', 'an', 'and', 'be', 'can', 'for', 'in', 'is', 'may', 'of', 'on', 'or', 'the', 'to',
+      'via', 'with'
+    ])
+    ORDER BY "token"."position"
+  ), ' ') AS "title_key"
+FROM "finding_instances" AS "fi"
+INNER JOIN "findings" AS "f" ON "f"."id" = "fi"."finding_id"
+ORDER BY "fi"."finding_id", "fi"."created_at" DESC;--> statement-breakpoint
+CREATE TEMP TABLE "finding_relink_map" AS
+WITH "mergeable_groups" AS (
+  SELECT "k"."project_id", "k"."file_key", "k"."title_key"
+  FROM "finding_identity_keys" AS "k"
+  INNER JOIN "finding_instances" AS "fi" ON "fi"."finding_id" = "k"."finding_id"
+  WHERE "k"."file_key" <> '' AND "k"."title_key" <> ''
+  GROUP BY "k"."project_id", "k"."file_key", "k"."title_key"
+  HAVING count(DISTINCT "k"."finding_id") > 1
+    AND count(*) = count(DISTINCT "fi"."audit_run_id")
+),
+"ranked_findings" AS (
+  SELECT
+    "k"."finding_id",
+    first_value("f"."id") OVER (
+      PARTITION BY "k"."project_id", "k"."file_key", "k"."title_key"
+      ORDER BY "f"."created_at", "f"."id"
+    ) AS "canonical_id"
+  FROM "finding_identity_keys" AS "k"
+  INNER JOIN "mergeable_groups" AS "g"
+    ON "g"."project_id" = "k"."project_id"
+    AND "g"."file_key" = "k"."file_key"
+    AND "g"."title_key" = "k"."title_key"
+  INNER JOIN "findings" AS "f" ON "f"."id" = "k"."finding_id"
+)
+SELECT "finding_id" AS "duplicate_id", "canonical_id"
+FROM "ranked_findings"
+WHERE "finding_id" <> "canonical_id";--> statement-breakpoint
+CREATE TEMP TABLE "finding_relink_transitions" AS
+SELECT
+  coalesce("m"."canonical_id", "t"."finding_id") AS "finding_id",
+  "t"."from_audit_run_id",
+  "t"."to_audit_run_id",
+  bool_or("t"."transition" = 'regressed') AS "was_regressed",
+  min("t"."created_at") AS "created_at"
+FROM "finding_transitions" AS "t"
+LEFT JOIN "finding_relink_map" AS "m" ON "m"."duplicate_id" = "t"."finding_id"
+WHERE "t"."finding_id" IN (
+  SELECT "duplicate_id" FROM "finding_relink_map"
+  UNION
+  SELECT "canonical_id" FROM "finding_relink_map"
+)
+GROUP BY 1, 2, 3;--> statement-breakpoint
+CREATE TEMP TABLE "finding_relink_status" AS
+SELECT DISTINCT ON (coalesce("m"."canonical_id", "f"."id"))
+  coalesce("m"."canonical_id", "f"."id") AS "finding_id",
+  "f"."current_status"
+FROM "findings" AS "f"
+LEFT JOIN "finding_relink_map" AS "m" ON "m"."duplicate_id" = "f"."id"
+WHERE "f"."id" IN (
+  SELECT "duplicate_id" FROM "finding_relink_map"
+  UNION
+  SELECT "canonical_id" FROM "finding_relink_map"
+)
+ORDER BY coalesce("m"."canonical_id", "f"."id"), "f"."updated_at" DESC;--> statement-breakpoint
+UPDATE "finding_instances" AS "fi"
+SET "finding_id" = "m"."canonical_id"
+FROM "finding_relink_map" AS "m"
+WHERE "fi"."finding_id" = "m"."duplicate_id";--> statement-breakpoint
+DELETE FROM "finding_transitions"
+WHERE "finding_id" IN (
+  SELECT "duplicate_id" FROM "finding_relink_map"
+  UNION
+  SELECT "canonical_id" FROM "finding_relink_map"
+);--> statement-breakpoint
+INSERT INTO "finding_transitions" ("finding_id", "from_audit_run_id", "to_audit_run_id", "transition", "created_at")
+SELECT
+  "r"."finding_id",
+  "r"."from_audit_run_id",
+  "r"."to_audit_run_id",
+  (
+    CASE
+      WHEN "from_instance"."id" IS NOT NULL AND "to_instance"."id" IS NOT NULL THEN 'unchanged'
+      WHEN "to_instance"."id" IS NOT NULL AND "r"."was_regressed" THEN 'regressed'
+      WHEN "to_instance"."id" IS NOT NULL THEN 'opened'
+      ELSE 'resolved'
+    END
+  )::"finding_transition",
+  "r"."created_at"
+FROM "finding_relink_transitions" AS "r"
+LEFT JOIN "finding_instances" AS "from_instance"
+  ON "from_instance"."finding_id" = "r"."finding_id"
+  AND "from_instance"."audit_run_id" = "r"."from_audit_run_id"
+LEFT JOIN "finding_instances" AS "to_instance"
+  ON "to_instance"."finding_id" = "r"."finding_id"
+  AND "to_instance"."audit_run_id" = "r"."to_audit_run_id";--> statement-breakpoint
+UPDATE "findings" AS "f"
+SET
+  "first_seen_revision_id" = "seen"."first_revision_id",
+  "last_seen_revision_id" = "seen"."last_revision_id",
+  "current_status" = "s"."current_status",
+  "updated_at" = now()
+FROM (
+  SELECT
+    "fi"."finding_id",
+    (array_agg("fi"."revision_id" ORDER BY "ar"."created_at" ASC))[1] AS "first_revision_id",
+    (array_agg("fi"."revision_id" ORDER BY "ar"."created_at" DESC))[1] AS "last_revision_id"
+  FROM "finding_instances" AS "fi"
+  INNER JOIN "audit_runs" AS "ar" ON "ar"."id" = "fi"."audit_run_id"
+  WHERE "fi"."finding_id" IN (SELECT "canonical_id" FROM "finding_relink_map")
+  GROUP BY "fi"."finding_id"
+) AS "seen", "finding_relink_status" AS "s"
+WHERE "f"."id" = "seen"."finding_id"
+  AND "f"."id" = "s"."finding_id";--> statement-breakpoint
+DELETE FROM "findings"
+WHERE "id" IN (SELECT "duplicate_id" FROM "finding_relink_map");--> statement-breakpoint
+DROP TABLE "finding_relink_status";--> statement-breakpoint
+DROP TABLE "finding_relink_transitions";--> statement-breakpoint
+DROP TABLE "finding_relink_map";--> statement-breakpoint
+DROP TABLE "finding_identity_keys";
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."finding_triage_status" AS ENUM('false_positive', 'accepted_risk', 'wont_fix', 'confirmed');--> statement-breakpoint
+CREATE TABLE "finding_triages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"finding_id" uuid NOT NULL,
+	"status" "finding_triage_status" NOT NULL,
+	"justification" text NOT NULL,
+	"author_user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "finding_triages_finding_unique" UNIQUE("finding_id")
+);
+--> statement-breakpoint
+ALTER TABLE "finding_triages" ADD CONSTRAINT "finding_triages_finding_id_findings_id_fk" FOREIGN KEY ("finding_id") REFERENCES "public"."findings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "finding_triages" ADD CONSTRAINT "finding_triages_author_user_id_users_id_fk" FOREIGN KEY ("author_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "finding_triages_status_idx" ON "finding_triages" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."finding_triage_status" ADD VALUE 'internal_only';
\ No newline at end of file
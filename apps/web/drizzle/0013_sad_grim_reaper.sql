@@ -0,0 +1,24 @@
+CREATE TYPE "public"."project_invitation_status" AS ENUM('pending', 'accepted', 'declined', 'revoked');--> statement-breakpoint
+CREATE TABLE "project_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"role" varchar(32) NOT NULL,
+	"invitee_email" text,
+	"invitee_github_login" text,
+	"invitee_github_id" text,
+	"status" "project_invitation_status" DEFAULT 'pending' NOT NULL,
+	"invited_by_user_id" text NOT NULL,
+	"responded_by_user_id" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"responded_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_invited_by_user_id_users_id_fk" FOREIGN KEY ("invited_by_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_responded_by_user_id_users_id_fk" FOREIGN KEY ("responded_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "project_invitations_project_status_idx" ON "project_invitations" USING btree ("project_id","status");--> statement-breakpoint
+CREATE INDEX "project_invitations_invitee_email_idx" ON "project_invitations" USING btree ("invitee_email");--> statement-breakpoint
+CREATE INDEX "project_invitations_invitee_github_idx" ON "project_invitations" USING btree ("invitee_github_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "project_invitations_pending_email_unique" ON "project_invitations" USING btree ("project_id","invitee_email") WHERE "project_invitations"."status" = 'pending' and "project_invitations"."invitee_email" is not null;--> statement-breakpoint
+CREATE UNIQUE INDEX "project_invitations_pending_github_unique" ON "project_invitations" USING btree ("project_id","invitee_github_id") WHERE "project_invitations"."status" = 'pending' and "project_invitations"."invitee_github_id" is not null;
\ No newline at end of file
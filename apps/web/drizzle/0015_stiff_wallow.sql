@@ -0,0 +1,19 @@
+CREATE TYPE "public"."audit_log_action" AS ENUM('project.created', 'project.deleted', 'upload.completed', 'working_copy.file_saved', 'audit.requested', 'audit.cancelled', 'pdf.export_requested', 'report_branding.updated', 'organization_settings.updated', 'dead_letter.replayed');--> statement-breakpoint
+CREATE TABLE "audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" "audit_log_action" NOT NULL,
+	"actor_user_id" text NOT NULL,
+	"actor_api_token_id" uuid,
+	"ip_address" text,
+	"user_agent" text,
+	"project_id" uuid,
+	"target_type" varchar(64) NOT NULL,
+	"target_id" text,
+	"summary" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_created_at_idx" ON "audit_log" USING btree ("actor_user_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_project_created_at_idx" ON "audit_log" USING btree ("project_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_action_created_at_idx" ON "audit_log" USING btree ("action","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."audit_log_action" ADD VALUE 'working_copy.path_deleted' BEFORE 'audit.requested';--> statement-breakpoint
+ALTER TYPE "public"."audit_log_action" ADD VALUE 'working_copy.path_moved' BEFORE 'audit.requested';
\ No newline at end of file
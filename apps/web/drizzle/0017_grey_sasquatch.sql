@@ -0,0 +1 @@
+ALTER TABLE "audit_runs" ADD COLUMN "pass_models" jsonb;
\ No newline at end of file
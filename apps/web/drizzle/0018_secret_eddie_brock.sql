@@ -0,0 +1,2 @@
+ALTER TYPE "public"."audit_profile" ADD VALUE 'consensus';--> statement-breakpoint
+ALTER TABLE "audit_runs" ADD COLUMN "consensus_model_ids" jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TYPE "public"."audit_log_action" ADD VALUE 'project.budget_updated' BEFORE 'dead_letter.replayed';--> statement-breakpoint
+ALTER TABLE "audit_runs" ADD COLUMN "budget" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_runs" ADD COLUMN "token_usage" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_runs" ADD COLUMN "cost_usd" double precision;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "audit_budget" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."audit_log_action" ADD VALUE 'llm_providers.updated' BEFORE 'organization_settings.updated';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."audit_log_action" ADD VALUE 'project.transferred' BEFORE 'dead_letter.replayed';
\ No newline at end of file
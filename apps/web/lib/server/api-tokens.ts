@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import { and, eq, gt, isNull } from "drizzle-orm";
+
+import { apiTokens, type ApiTokenScope, users } from "@ton-audit/shared";
+
+import { db } from "./db";
+
+export const API_TOKEN_PREFIX = "tat_";
+
+// Visible part of a token kept in plaintext so users can tell their tokens apart.
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+// Skip the last-used write when the stored value is this recent, so busy CI jobs do not
+// turn every request into an UPDATE.
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+const reportExportPathPattern =
+  /^\/api\/projects\/[^/]+\/audits\/[^/]+\/(pdf|sarif|markdown|html)$/;
+const auditRunPathPatterns = [
+  /^\/api\/projects\/[^/]+\/working-copies\/[^/]+\/run-audit$/,
+  /^\/api\/projects\/[^/]+\/audits\/[^/]+\/cancel$/
+];
+
+export function generateApiToken() {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH)
+  };
+}
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function readBearerToken(headers: Headers) {
+  const authorization = headers.get("authorization");
+  if (!authorization) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+  if (!match?.[1]?.startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  return match[1];
+}
+
+/**
+ * Maps a request to the scope an API token needs for it. Returns null for endpoints that only
+ * accept browser sessions, such as token management itself.
+ */
+export function requiredApiTokenScope(method: string, pathname: string): ApiTokenScope | null {
+  const normalizedMethod = method.toUpperCase();
+  const isRead = normalizedMethod === "GET" || normalizedMethod === "HEAD";
+
+  if (pathname.startsWith("/api/account/") || pathname.startsWith("/api/auth/")) {
+    return null;
+  }
+
+  if (pathname.startsWith("/api/admin/")) {
+    return "admin";
+  }
+
+  if (reportExportPathPattern.test(pathname)) {
+    return "reports:read";
+  }
+
+  if (!isRead && auditRunPathPatterns.some((pattern) => pattern.test(pathname))) {
+    return "audits:run";
+  }
+
+  return isRead ? "projects:read" : "projects:write";
+}
+
+export async function authenticateApiToken(token: string) {
+  const now = new Date();
+  const [row] = await db
+    .select({
+      token: apiTokens,
+      user: users
+    })
+    .from(apiTokens)
+    .innerJoin(users, eq(apiTokens.userId, users.id))
+    .where(
+      and(
+        eq(apiTokens.tokenHash, hashApiToken(token)),
+        isNull(apiTokens.revokedAt),
+        gt(apiTokens.expiresAt, now)
+      )
+    )
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const lastUsedAt = row.token.lastUsedAt?.getTime() ?? 0;
+  if (now.getTime() - lastUsedAt >= LAST_USED_WRITE_INTERVAL_MS) {
+    await db.update(apiTokens).set({ lastUsedAt: now }).where(eq(apiTokens.id, row.token.id));
+  }
+
+  return {
+    user: row.user,
+    apiToken: {
+      id: row.token.id,
+      scopes: row.token.scopes
+    }
+  };
+}
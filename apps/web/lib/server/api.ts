@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { ZodSchema } from "zod";
 
+import type { ApiTokenScope } from "@ton-audit/shared";
+
+import { authenticateApiToken, readBearerToken, requiredApiTokenScope } from "./api-tokens";
 import { auth } from "./auth";
 import { getEnv } from "./env";
 import { isRateLimited } from "./rate-limit";
@@ -37,34 +40,98 @@ export async function parseJsonBody<T>(request: Request, schema: ZodSchema<T>) {
   return parsed.data;
 }
 
-export async function requireSession(request: Request) {
+type BrowserSession = NonNullable<Awaited<ReturnType<typeof auth.api.getSession>>>;
+
+export type RequestClient = {
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+export type RequestSession = {
+  user: BrowserSession["user"];
+  /** Set when the request authenticated with an `Authorization: Bearer` API token. */
+  apiToken: {
+    id: string;
+    scopes: ApiTokenScope[];
+  } | null;
+  /** Where the request came from, recorded in the audit log. */
+  client: RequestClient;
+};
+
+function readRequestClient(headers: Headers): RequestClient {
+  const forwardedFor = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return {
+    ipAddress: forwardedFor || headers.get("x-real-ip") || null,
+    userAgent: headers.get("user-agent")
+  };
+}
+
+/**
+ * Resolves the caller from a better-auth browser session or, when an
+ * `Authorization: Bearer` header is present, from a personal API token. Tokens
+ * must carry the scope the endpoint requires (see `requiredApiTokenScope`).
+ */
+export async function requireSession(request: Request): Promise<RequestSession> {
+  const bearerToken = readBearerToken(request.headers);
+  if (bearerToken) {
+    const authenticated = await authenticateApiToken(bearerToken);
+    if (!authenticated) {
+      throw new ApiError("Invalid or expired API token", 401);
+    }
+
+    const scope = requiredApiTokenScope(request.method, new URL(request.url).pathname);
+    if (!scope) {
+      throw new ApiError("API tokens cannot be used for this endpoint", 403);
+    }
+
+    if (!authenticated.apiToken.scopes.includes(scope)) {
+      throw new ApiError(`API token is missing the ${scope} scope`, 403);
+    }
+
+    return { ...authenticated, client: readRequestClient(request.headers) };
+  }
+
   const session = await auth.api.getSession({ headers: request.headers });
   if (!session?.user?.id) {
     throw new ApiError("Unauthorized", 401);
   }
 
-  return session;
+  // Prefer what better-auth captured at sign-in; fall back to this request's headers.
+  const requestClient = readRequestClient(request.headers);
+  return {
+    user: session.user,
+    apiToken: null,
+    client: {
+      ipAddress: session.session.ipAddress ?? requestClient.ipAddress,
+      userAgent: session.session.userAgent ?? requestClient.userAgent
+    }
+  };
 }
 
 /**
- * Throws a 429 ApiError if the given (userId, endpoint) combination has
- * exceeded the allowed rate within the sliding window.
+ * Throws a 429 ApiError if the given (caller, endpoint) combination has
+ * exceeded the allowed rate within the sliding window. Requests made with an
+ * API token are counted per token rather than per user.
  *
- * @param userId   The authenticated user's ID.
+ * @param session  The authenticated caller, as returned by `requireSession`.
  * @param endpoint A short identifier for the endpoint (e.g. "create-project").
  * @param limit    Max requests per window (default 10).
  * @param windowMs Window duration in ms (default 60 s).
  */
 export async function checkRateLimit(
-  userId: string,
+  session: {
+    user: { id: string };
+    apiToken?: { id: string } | null;
+  },
   endpoint: string,
   limit = 10,
   windowMs = 60_000
 ) {
+  const subject = session.apiToken ? `token:${session.apiToken.id}` : session.user.id;
   let limited: boolean;
 
   try {
-    limited = await isRateLimited(`${userId}:${endpoint}`, limit, windowMs);
+    limited = await isRateLimited(`${subject}:${endpoint}`, limit, windowMs);
   } catch {
     throw new ApiError("Rate limiter unavailable. Please retry shortly.", 503);
   }
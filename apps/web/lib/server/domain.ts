@@ -2,26 +2,79 @@ import { randomUUID } from "node:crypto";
 
 import {
   and,
+  asc,
   desc,
   eq,
+  gt,
+  gte,
   inArray,
+  isNull,
+  lt,
   ne,
+  not,
+  or,
   sql
 } from "drizzle-orm";
 
 import {
+  accounts,
+  apiTokens,
+  AUDIT_COMPARE_DIFF_PAGE_MAX_LINES,
+  auditLog,
+  type AuditLogAction,
+  type ApiTokenScope,
+  auditFindingSchema,
+  classifyFileChanges,
   createContentFingerprint,
+  createFilePatch,
+  describeFileChanges,
   detectLanguageFromPath,
+  type DiffHunk,
+  type FileChangeStatus,
+  type FilePatch,
+  findHunkTouchingLines,
+  type FindingCommentEdit,
+  type FindingIdentity,
+  type FindingTriageStatus,
+  matchFindingIdentities,
+  normalizeAuditReport,
   normalizePath,
+  highestProjectRole,
+  hasOrganizationPermission,
+  organizationMembers,
+  organizations,
+  organizationSettings,
+  type OrganizationPermission,
+  type OrganizationRole,
   projectLifecycleStateSchema,
+  PROJECT_INVITATION_TTL_DAYS,
+  AUDIT_MODEL_ALLOWLIST_SETTING_KEY,
+  REPORT_BRANDING_SETTING_KEY,
+  modelAllowlistSchema,
+  type AuditBudget,
+  type AuditMode,
+  type AuditPassModels,
+  type AuditRun,
   type AuditProfile,
+  type AuditTokenUsage,
+  type OrganizationModelAllowlist,
   type PdfExportStatus,
   type PdfExportVariant,
+  type ReportRenderParams,
+  type SarifFindingInput,
+  SOURCE_ARCHIVE_MAX_BYTES,
+  SOURCE_ARCHIVE_MAX_FILES,
+  SOURCE_ARCHIVE_TEST_FILE_COMMENT,
   type RevisionSource,
   type Language,
   type ProjectLifecycleState,
   projects,
+  projectInvitations,
+  rebasePath,
   projectMembers,
+  projectMemberRoleSchema,
+  type ProjectMemberRole,
+  type ProjectPermission,
   revisions,
   revisionFiles,
   uploads,
@@ -29,60 +82,135 @@ import {
   workingCopyFiles,
   fileBlobs,
   auditRuns,
+  CLIENT_HIDDEN_TRIAGE_STATUSES,
   findingInstances,
+  findingComments,
   findingTransitions,
-  pdfExports
+  findingTriages,
+  findings,
+  hasProjectPermission,
+  pdfExports,
+  reportBrandingSchema,
+  resolveReportModel,
+  selectReportFindings,
+  systemSettings,
+  toOrganizationProjectRole,
+  users,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhookSubscriptions,
+  createZipStream
 } from "@ton-audit/shared";
 
 import { isUuid } from "@/lib/uuid";
 
+import { generateApiToken } from "./api-tokens";
 import { db } from "./db";
-import { getObjectText, putObject } from "./s3";
+import { getObjectBytes, getObjectText, putObject } from "./s3";
 
 const FINAL_PDF_VARIANT: PdfExportVariant = "internal";
 
-export async function ensureProjectAccess(projectId: string, userId: string) {
-  if (!isUuid(projectId)) {
-    return null;
+export class ProjectPermissionError extends Error {
+  readonly statusCode = 403;
+
+  constructor(readonly permission: ProjectPermission) {
+    super("Your project role does not allow this action.");
+    this.name = "ProjectPermissionError";
   }
+}
 
-  const ownedProject = await db.query.projects.findFirst({
-    where: and(
-      eq(projects.id, projectId),
-      eq(projects.ownerUserId, userId),
-      ne(projects.lifecycleState, "deleted")
-    )
-  });
+function toProjectMemberRole(
+  project: { ownerUserId: string; organizationId: string | null },
+  userId: string,
+  membership: { role: string } | undefined,
+  organizationRole?: OrganizationRole | null
+): ProjectMemberRole | null {
+  const parsed = projectMemberRoleSchema.safeParse(membership?.role);
+  const memberRole = parsed.success ? parsed.data : null;
+
+  if (project.organizationId) {
+    // Organization projects take the stronger of the org-wide role and any per-project grant.
+    return highestProjectRole([
+      organizationRole ? toOrganizationProjectRole(organizationRole) : null,
+      memberRole
+    ]);
+  }
 
-  if (ownedProject) {
-    return ownedProject;
+  if (project.ownerUserId === userId) {
+    return "owner";
   }
 
-  const membership = await db.query.projectMembers.findFirst({
-    where: and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId))
-  });
+  // Only the project owner row may carry the owner role; stray owner rows are read as viewers.
+  return memberRole === "owner" ? "viewer" : memberRole;
+}
 
-  if (!membership) {
+async function findProjectWithRole(projectId: string, userId: string) {
+  if (!isUuid(projectId)) {
     return null;
   }
 
-  return db.query.projects.findFirst({
+  const project = await db.query.projects.findFirst({
     where: and(eq(projects.id, projectId), ne(projects.lifecycleState, "deleted"))
   });
+
+  if (!project) {
+    return null;
+  }
+
+  const isPersonalOwner = !project.organizationId && project.ownerUserId === userId;
+  const [membership, organizationMembership] = await Promise.all([
+    isPersonalOwner
+      ? undefined
+      : db.query.projectMembers.findFirst({
+          where: and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId))
+        }),
+    project.organizationId
+      ? db.query.organizationMembers.findFirst({
+          where: and(
+            eq(organizationMembers.organizationId, project.organizationId),
+            eq(organizationMembers.userId, userId)
+          )
+        })
+      : undefined
+  ]);
+  const role = toProjectMemberRole(project, userId, membership, organizationMembership?.role);
+
+  return role ? { project, role } : null;
 }
 
-export async function ensureProjectOwnerAccess(projectId: string, userId: string) {
-  if (!isUuid(projectId)) {
+/**
+ * Returns the project when the user is its owner or a member. Members whose role lacks the
+ * requested permission get a ProjectPermissionError (403) rather than a 404, since they can
+ * already see the project exists.
+ */
+export async function ensureProjectAccess(
+  projectId: string,
+  userId: string,
+  permission: ProjectPermission = "read"
+) {
+  const access = await findProjectWithRole(projectId, userId);
+  if (!access) {
     return null;
   }
 
-  return db.query.projects.findFirst({
-    where: and(
-      eq(projects.id, projectId),
-      eq(projects.ownerUserId, userId),
-      ne(projects.lifecycleState, "deleted")
-    )
-  });
+  if (!hasProjectPermission(access.role, permission)) {
+    throw new ProjectPermissionError(permission);
+  }
+
+  return access.project;
+}
+
+export async function getProjectMemberRole(projectId: string, userId: string) {
+  const access = await findProjectWithRole(projectId, userId);
+  return access?.role ?? null;
+}
+
+/** Returns the project only for callers holding the owner role (including organization admins). */
+export async function ensureProjectOwnerAccess(projectId: string, userId: string) {
+  const access = await findProjectWithRole(projectId, userId);
+  return access?.role === "owner" ? access.project : null;
 }
 
 export async function ensureWorkingCopyAccess(
@@ -103,8 +231,18 @@ export async function ensureWorkingCopyAccess(
   });
 }
 
+export class ProjectSlugConflictError extends Error {
+  readonly statusCode = 409;
+
+  constructor() {
+    super("A project with this slug already exists.");
+    this.name = "ProjectSlugConflictError";
+  }
+}
+
 export async function createProject(input: {
   ownerUserId: string;
+  organizationId?: string | null;
   name: string;
   slug: string;
   lifecycleState?: ProjectLifecycleState;
@@ -115,29 +253,102 @@ export async function createProject(input: {
   }
 
   // Wrap project + member creation in a transaction so both succeed or both fail.
-  return db.transaction(async (tx) => {
-    const [project] = await tx
-      .insert(projects)
-      .values({
-        ownerUserId: input.ownerUserId,
-        name: input.name,
-        slug: input.slug,
-        lifecycleState
-      })
-      .returning();
+  try {
+    return await db.transaction(async (tx) => {
+      const [project] = await tx
+        .insert(projects)
+        .values({
+          ownerUserId: input.ownerUserId,
+          organizationId: input.organizationId ?? null,
+          name: input.name,
+          slug: input.slug,
+          lifecycleState
+        })
+        .returning();
+
+      if (!project) {
+        throw new Error("Failed to create project");
+      }
 
-    if (!project) {
-      throw new Error("Failed to create project");
+      // In an organization project this row is a regular grant that org admins can later change.
+      await tx.insert(projectMembers).values({
+        projectId: project.id,
+        userId: input.ownerUserId,
+        role: "owner"
+      });
+
+      return project;
+    });
+  } catch (error) {
+    if (
+      isPgUniqueViolation(error, PROJECT_OWNER_SLUG_UNIQUE_CONSTRAINT) ||
+      isPgUniqueViolation(error, PROJECT_ORGANIZATION_SLUG_UNIQUE_CONSTRAINT)
+    ) {
+      throw new ProjectSlugConflictError();
     }
 
-    await tx.insert(projectMembers).values({
-      projectId: project.id,
-      userId: input.ownerUserId,
-      role: "owner"
+    throw error;
+  }
+}
+
+export class ProjectTransferError extends Error {
+  readonly statusCode = 409;
+
+  constructor() {
+    super("Only personal projects can be moved into an organization.");
+    this.name = "ProjectTransferError";
+  }
+}
+
+/**
+ * Moves a personal project into an organization. Organization projects take roles from grants
+ * and organization membership only, so the previous owner gets an explicit owner grant, and any
+ * other owner row, which personal projects read as viewer, is stored as the viewer it acted as.
+ */
+export async function transferProjectToOrganization(params: {
+  projectId: string;
+  organizationId: string;
+}) {
+  try {
+    return await db.transaction(async (tx) => {
+      const [project] = await tx
+        .update(projects)
+        .set({ organizationId: params.organizationId, updatedAt: new Date() })
+        .where(and(eq(projects.id, params.projectId), isNull(projects.organizationId)))
+        .returning();
+
+      if (!project) {
+        throw new ProjectTransferError();
+      }
+
+      await tx
+        .update(projectMembers)
+        .set({ role: "viewer" })
+        .where(
+          and(
+            eq(projectMembers.projectId, project.id),
+            eq(projectMembers.role, "owner"),
+            ne(projectMembers.userId, project.ownerUserId)
+          )
+        );
+      await tx
+        .insert(projectMembers)
+        .values({ projectId: project.id, userId: project.ownerUserId, role: "owner" })
+        .onConflictDoUpdate({
+          target: [projectMembers.projectId, projectMembers.userId],
+          set: { role: "owner" }
+        });
+
+      return project;
     });
+  } catch (error) {
+    // Slugs are unique per owner: the organization may already have a project with this one.
+    if (isPgUniqueViolation(error, PROJECT_ORGANIZATION_SLUG_UNIQUE_CONSTRAINT)) {
+      throw new ProjectSlugConflictError();
+    }
 
-    return project;
-  });
+    throw error;
+  }
 }
 
 type ScaffoldFile = {
@@ -261,6 +472,9 @@ function isPgUniqueViolation(error: unknown, constraint?: string): boolean {
 
 const ACTIVE_WORKING_COPY_UNIQUE_CONSTRAINT = "working_copies_active_owner_base_unique";
 const ACTIVE_AUDIT_RUN_UNIQUE_CONSTRAINT = "audit_runs_project_active_unique";
+const PROJECT_OWNER_SLUG_UNIQUE_CONSTRAINT = "projects_owner_slug_active_unique";
+const PROJECT_ORGANIZATION_SLUG_UNIQUE_CONSTRAINT = "projects_organization_slug_active_unique";
+const ORGANIZATION_SLUG_UNIQUE_CONSTRAINT = "organizations_slug_unique";
 
 export class ActiveAuditRunConflictError extends Error {
   constructor(readonly activeAuditRunId: string | null) {
@@ -539,37 +753,434 @@ export async function createWorkingCopy(params: {
   }
 }
 
+export type WorkingCopyFileSnapshot = {
+  path: string;
+  language: Language;
+  content: string;
+  version: string;
+};
+
+function toWorkingCopyFileSnapshot(file: {
+  path: string;
+  language: Language;
+  content: string;
+}): WorkingCopyFileSnapshot {
+  return {
+    path: file.path,
+    language: file.language,
+    content: file.content,
+    version: createContentFingerprint(file.content)
+  };
+}
+
+export class WorkingCopyFileConflictError extends Error {
+  constructor(readonly current: WorkingCopyFileSnapshot | null) {
+    super("This file was changed by someone else since you opened it.");
+    this.name = "WorkingCopyFileConflictError";
+  }
+}
+
+/**
+ * Saves a file only if it still matches `expectedVersion`: a content hash from a previous read,
+ * `"*"` for any existing file, or null when the file must not exist yet.
+ */
 export async function saveWorkingCopyFile(params: {
   workingCopyId: string;
   path: string;
   content: string;
+  expectedVersion: string | null;
   language?: Language;
   isTestFile?: boolean;
 }) {
   const normalizedPath = normalizePath(params.path);
   const language = params.language ?? detectLanguageFromPath(normalizedPath);
+  const fileCondition = and(
+    eq(workingCopyFiles.workingCopyId, params.workingCopyId),
+    eq(workingCopyFiles.path, normalizedPath)
+  );
 
-  const [upserted] = await db
-    .insert(workingCopyFiles)
-    .values({
-      workingCopyId: params.workingCopyId,
-      path: normalizedPath,
-      language,
-      content: params.content,
-      isTestFile: params.isTestFile ?? false
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select({
+        path: workingCopyFiles.path,
+        language: workingCopyFiles.language,
+        content: workingCopyFiles.content
+      })
+      .from(workingCopyFiles)
+      .where(fileCondition)
+      .for("update");
+    const currentSnapshot = current ? toWorkingCopyFileSnapshot(current) : null;
+
+    const matches =
+      params.expectedVersion === null
+        ? !currentSnapshot
+        : Boolean(currentSnapshot) &&
+          (params.expectedVersion === "*" ||
+            currentSnapshot?.version === params.expectedVersion);
+    if (!matches) {
+      throw new WorkingCopyFileConflictError(currentSnapshot);
+    }
+
+    const [saved] = currentSnapshot
+      ? await tx
+          .update(workingCopyFiles)
+          .set({
+            content: params.content,
+            language,
+            ...(params.isTestFile === undefined ? {} : { isTestFile: params.isTestFile }),
+            updatedAt: new Date()
+          })
+          .where(fileCondition)
+          .returning()
+      : await tx
+          .insert(workingCopyFiles)
+          .values({
+            workingCopyId: params.workingCopyId,
+            path: normalizedPath,
+            language,
+            content: params.content,
+            isTestFile: params.isTestFile ?? false
+          })
+          .onConflictDoNothing()
+          .returning();
+
+    if (!saved) {
+      // Another request created the file between our read and insert.
+      const [created] = await tx
+        .select({
+          path: workingCopyFiles.path,
+          language: workingCopyFiles.language,
+          content: workingCopyFiles.content
+        })
+        .from(workingCopyFiles)
+        .where(fileCondition);
+      throw new WorkingCopyFileConflictError(
+        created ? toWorkingCopyFileSnapshot(created) : null
+      );
+    }
+
+    return {
+      file: { ...saved, version: createContentFingerprint(saved.content) },
+      previousContent: currentSnapshot?.content ?? null
+    };
+  });
+}
+
+async function listRevisionFileFingerprints(revisionId: string) {
+  return db
+    .select({
+      path: revisionFiles.path,
+      language: revisionFiles.language,
+      sha256: fileBlobs.sha256,
+      s3Key: fileBlobs.s3Key
     })
-    .onConflictDoUpdate({
-      target: [workingCopyFiles.workingCopyId, workingCopyFiles.path],
-      set: {
-        content: params.content,
-        language,
-        ...(params.isTestFile === undefined ? {} : { isTestFile: params.isTestFile }),
-        updatedAt: new Date()
+    .from(revisionFiles)
+    .innerJoin(fileBlobs, eq(revisionFiles.blobId, fileBlobs.id))
+    .where(eq(revisionFiles.revisionId, revisionId));
+}
+
+/** Lists added, removed and modified files in a working copy with unified diffs against its base. */
+export async function getWorkingCopyChanges(workingCopy: { id: string; baseRevisionId: string }) {
+  const [currentRows, baseRows] = await Promise.all([
+    db
+      .select({
+        path: workingCopyFiles.path,
+        language: workingCopyFiles.language,
+        content: workingCopyFiles.content
+      })
+      .from(workingCopyFiles)
+      .where(eq(workingCopyFiles.workingCopyId, workingCopy.id)),
+    listRevisionFileFingerprints(workingCopy.baseRevisionId)
+  ]);
+
+  const currentByPath = new Map(
+    currentRows.map((file) => [
+      file.path,
+      { ...file, sha256: createContentFingerprint(file.content) }
+    ])
+  );
+  const baseByPath = new Map(baseRows.map((file) => [file.path, file]));
+  const changes = classifyFileChanges(baseRows, [...currentByPath.values()]);
+
+  const changedPaths: Array<{ path: string; status: FileChangeStatus }> = [
+    ...changes.modified.map((path) => ({ path, status: "modified" as const })),
+    ...changes.added.map((path) => ({ path, status: "added" as const })),
+    ...changes.removed.map((path) => ({ path, status: "removed" as const }))
+  ].sort((left, right) => left.path.localeCompare(right.path));
+
+  const files = await Promise.all(
+    changedPaths.map(async ({ path, status }) => {
+      const current = currentByPath.get(path);
+      const base = baseByPath.get(path);
+      const before = base ? ((await getObjectText(base.s3Key)) ?? "") : null;
+      const { patch, linesAdded, linesRemoved, truncated } = createFilePatch({
+        path,
+        before,
+        after: current?.content ?? null
+      });
+
+      return {
+        path,
+        status,
+        language: current?.language ?? base?.language ?? "unknown",
+        linesAdded,
+        linesRemoved,
+        patch,
+        truncated
+      };
+    })
+  );
+
+  return {
+    baseRevisionId: workingCopy.baseRevisionId,
+    summary: {
+      added: changes.added.length,
+      removed: changes.removed.length,
+      modified: changes.modified.length,
+      unchanged: changes.unchanged.length,
+      linesAdded: files.reduce((total, file) => total + file.linesAdded, 0),
+      linesRemoved: files.reduce((total, file) => total + file.linesRemoved, 0),
+      description: describeFileChanges(changes)
+    },
+    files
+  };
+}
+
+export class SourceArchiveTooLargeError extends Error {
+  readonly statusCode = 413;
+
+  constructor(fileCount: number, totalBytes: number) {
+    super(
+      fileCount > SOURCE_ARCHIVE_MAX_FILES
+        ? `Archive has ${fileCount} files; downloads are limited to ${SOURCE_ARCHIVE_MAX_FILES}.`
+        : `Archive is ${Math.ceil(totalBytes / (1024 * 1024))} MiB; downloads are limited to ${SOURCE_ARCHIVE_MAX_BYTES / (1024 * 1024)} MiB.`
+    );
+    this.name = "SourceArchiveTooLargeError";
+  }
+}
+
+function assertSourceArchiveLimits(files: Array<{ sizeBytes: number }>) {
+  const totalBytes = files.reduce((total, file) => total + file.sizeBytes, 0);
+  if (files.length > SOURCE_ARCHIVE_MAX_FILES || totalBytes > SOURCE_ARCHIVE_MAX_BYTES) {
+    throw new SourceArchiveTooLargeError(files.length, totalBytes);
+  }
+}
+
+/**
+ * Streams a revision as a ZIP archive rebuilt from its blobs, or returns null when the revision
+ * is not part of the project. Limits are checked before anything is streamed.
+ */
+export async function createRevisionArchive(params: { projectId: string; revisionId: string }) {
+  if (!isUuid(params.revisionId)) {
+    return null;
+  }
+
+  const revision = await db.query.revisions.findFirst({
+    where: and(eq(revisions.id, params.revisionId), eq(revisions.projectId, params.projectId))
+  });
+  if (!revision) {
+    return null;
+  }
+
+  const files = await db
+    .select({
+      path: revisionFiles.path,
+      isTestFile: revisionFiles.isTestFile,
+      sizeBytes: fileBlobs.sizeBytes,
+      s3Key: fileBlobs.s3Key
+    })
+    .from(revisionFiles)
+    .innerJoin(fileBlobs, eq(revisionFiles.blobId, fileBlobs.id))
+    .where(eq(revisionFiles.revisionId, revision.id))
+    .orderBy(asc(revisionFiles.path));
+  assertSourceArchiveLimits(files);
+
+  const modifiedAt = revision.createdAt;
+  async function* entries() {
+    for (const file of files) {
+      const content = await getObjectBytes(file.s3Key);
+      if (!content) {
+        throw new Error(`Blob for ${file.path} is missing from object storage.`);
       }
+
+      yield {
+        path: file.path,
+        content,
+        modifiedAt,
+        comment: file.isTestFile ? SOURCE_ARCHIVE_TEST_FILE_COMMENT : undefined
+      };
+    }
+  }
+
+  return {
+    revision,
+    fileCount: files.length,
+    stream: createZipStream(entries(), { comment: `Revision ${revision.id}` })
+  };
+}
+
+/** Streams the current contents of a working copy as a ZIP archive. */
+export async function createWorkingCopyArchive(workingCopy: { id: string; baseRevisionId: string }) {
+  const rows = await db
+    .select({
+      path: workingCopyFiles.path,
+      isTestFile: workingCopyFiles.isTestFile,
+      content: workingCopyFiles.content,
+      updatedAt: workingCopyFiles.updatedAt
     })
-    .returning();
+    .from(workingCopyFiles)
+    .where(eq(workingCopyFiles.workingCopyId, workingCopy.id))
+    .orderBy(asc(workingCopyFiles.path));
+
+  const files = rows.map((row) => {
+    const content = Buffer.from(row.content, "utf8");
+    return { ...row, content, sizeBytes: content.length };
+  });
+  assertSourceArchiveLimits(files);
+
+  return {
+    fileCount: files.length,
+    stream: createZipStream(
+      files.map((file) => ({
+        path: file.path,
+        content: file.content,
+        modifiedAt: file.updatedAt,
+        comment: file.isTestFile ? SOURCE_ARCHIVE_TEST_FILE_COMMENT : undefined
+      })),
+      { comment: `Working copy ${workingCopy.id} based on revision ${workingCopy.baseRevisionId}` }
+    )
+  };
+}
+
+export class WorkingCopyPathError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "WorkingCopyPathError";
+    this.statusCode = statusCode;
+  }
+}
+
+function normalizeWorkingCopyPathInput(path: string) {
+  const normalized = normalizePath(path).replace(/\/+$/, "");
+  if (!normalized || normalized.split("/").some((segment) => !segment || segment === "..")) {
+    throw new WorkingCopyPathError("Provide a valid relative file path.");
+  }
+
+  return normalized;
+}
+
+/** Matches the file at `path` or, when `path` is a directory, every file beneath it. */
+function workingCopyPathCondition(workingCopyId: string, path: string) {
+  return and(
+    eq(workingCopyFiles.workingCopyId, workingCopyId),
+    or(
+      eq(workingCopyFiles.path, path),
+      sql`starts_with(${workingCopyFiles.path}, ${`${path}/`})`
+    )
+  );
+}
+
+export async function deleteWorkingCopyPath(workingCopyId: string, path: string) {
+  const normalizedPath = normalizeWorkingCopyPathInput(path);
+
+  const deleted = await db
+    .delete(workingCopyFiles)
+    .where(workingCopyPathCondition(workingCopyId, normalizedPath))
+    .returning({ path: workingCopyFiles.path });
+
+  if (!deleted.length) {
+    throw new WorkingCopyPathError("File not found", 404);
+  }
+
+  return {
+    path: normalizedPath,
+    deletedPaths: deleted.map((entry) => entry.path).sort()
+  };
+}
+
+/**
+ * Renames a file, or every file under a directory, in a single transaction. The target must not
+ * exist yet so a move never overwrites or merges into other files.
+ */
+export async function moveWorkingCopyPath(params: {
+  workingCopyId: string;
+  fromPath: string;
+  toPath: string;
+}) {
+  const fromPath = normalizeWorkingCopyPathInput(params.fromPath);
+  const toPath = normalizeWorkingCopyPathInput(params.toPath);
+
+  if (fromPath === toPath) {
+    throw new WorkingCopyPathError("Source and destination are the same.");
+  }
+  if (toPath.startsWith(`${fromPath}/`)) {
+    throw new WorkingCopyPathError("Cannot move a directory into itself.");
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const sources = await tx
+        .select({ path: workingCopyFiles.path, language: workingCopyFiles.language })
+        .from(workingCopyFiles)
+        .where(workingCopyPathCondition(params.workingCopyId, fromPath));
+
+      if (!sources.length) {
+        throw new WorkingCopyPathError("File not found", 404);
+      }
+
+      const sourcePaths = sources.map((source) => source.path);
+      const [conflict] = await tx
+        .select({ path: workingCopyFiles.path })
+        .from(workingCopyFiles)
+        .where(
+          and(
+            workingCopyPathCondition(params.workingCopyId, toPath),
+            not(inArray(workingCopyFiles.path, sourcePaths))
+          )
+        )
+        .limit(1);
+
+      if (conflict) {
+        throw new WorkingCopyPathError(`${toPath} already exists.`, 409);
+      }
+
+      const movedAt = new Date();
+      const moved: Array<{ fromPath: string; toPath: string }> = [];
+      for (const source of sources) {
+        const targetPath = rebasePath(source.path, fromPath, toPath)!;
+        // Keep explicit language hints; only re-detect when the old language came from the extension.
+        const language =
+          source.language === detectLanguageFromPath(source.path)
+            ? detectLanguageFromPath(targetPath)
+            : source.language;
+
+        await tx
+          .update(workingCopyFiles)
+          .set({ path: targetPath, language, updatedAt: movedAt })
+          .where(
+            and(
+              eq(workingCopyFiles.workingCopyId, params.workingCopyId),
+              eq(workingCopyFiles.path, source.path)
+            )
+          );
+        moved.push({ fromPath: source.path, toPath: targetPath });
+      }
 
-  return upserted;
+      return {
+        fromPath,
+        toPath,
+        moved: moved.sort((left, right) => left.fromPath.localeCompare(right.fromPath))
+      };
+    });
+  } catch (error) {
+    if (isPgUniqueViolation(error)) {
+      throw new WorkingCopyPathError(`${toPath} already exists.`, 409);
+    }
+
+    throw error;
+  }
 }
 
 export async function snapshotWorkingCopyAndCreateAuditRun(params: {
@@ -578,7 +1189,11 @@ export async function snapshotWorkingCopyAndCreateAuditRun(params: {
   userId: string;
   primaryModelId: string;
   fallbackModelId: string;
+  passModels: AuditPassModels;
+  consensusModelIds: string[];
+  budget: AuditBudget | null;
   profile: AuditProfile;
+  mode: AuditMode;
 }) {
   const workingCopy = await db.query.workingCopies.findFirst({
     where: and(
@@ -600,6 +1215,10 @@ export async function snapshotWorkingCopyAndCreateAuditRun(params: {
   const files = await db.query.workingCopyFiles.findMany({
     where: eq(workingCopyFiles.workingCopyId, params.workingCopyId)
   });
+  const changes = classifyFileChanges(
+    await listRevisionFileFingerprints(workingCopy.baseRevisionId),
+    files.map((file) => ({ path: file.path, sha256: createContentFingerprint(file.content) }))
+  );
 
   const snapshotRevisionId = randomUUID();
   const insertedBlobs = await Promise.all(
@@ -622,7 +1241,7 @@ export async function snapshotWorkingCopyAndCreateAuditRun(params: {
           source: "working-copy",
           createdByUserId: params.userId,
           isImmutable: true,
-          description: `Snapshot from working copy ${workingCopy.id}`
+          description: describeFileChanges(changes)
         })
         .returning();
 
@@ -650,8 +1269,12 @@ export async function snapshotWorkingCopyAndCreateAuditRun(params: {
           status: "queued",
           requestedByUserId: params.userId,
           profile: params.profile,
+          mode: params.mode,
           primaryModelId: params.primaryModelId,
           fallbackModelId: params.fallbackModelId,
+          passModels: params.passModels,
+          consensusModelIds: params.consensusModelIds.length ? params.consensusModelIds : null,
+          budget: params.budget,
           engineVersion: "ton-audit-pro-v2",
           reportSchemaVersion: 2
         })
@@ -750,39 +1373,1532 @@ export async function findActiveAuditRun(projectId: string) {
   });
 }
 
-export async function getLatestProjectState(projectId: string, userId?: string) {
-  const [latestRevision] = await db
-    .select()
-    .from(revisions)
-    .where(eq(revisions.projectId, projectId))
-    .orderBy(desc(revisions.createdAt))
-    .limit(1);
-
-  const [latestAudit] = await db
-    .select()
-    .from(auditRuns)
-    .where(eq(auditRuns.projectId, projectId))
-    .orderBy(desc(auditRuns.createdAt))
-    .limit(1);
-
-  let activeWorkingCopy: typeof workingCopies.$inferSelect | null = null;
-  if (latestRevision && userId) {
-    [activeWorkingCopy] = await db
-      .select()
-      .from(workingCopies)
-      .where(
-        and(
-          eq(workingCopies.projectId, projectId),
-          eq(workingCopies.ownerUserId, userId),
-          eq(workingCopies.baseRevisionId, latestRevision.id),
-          eq(workingCopies.status, "active")
-        )
+export async function cancelAuditRun(projectId: string, auditRunId: string) {
+  const [cancelledAuditRun] = await db
+    .update(auditRuns)
+    .set({
+      status: "cancelled",
+      finishedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(
+      and(
+        eq(auditRuns.id, auditRunId),
+        eq(auditRuns.projectId, projectId),
+        inArray(auditRuns.status, ["queued", "running"])
       )
-      .orderBy(desc(workingCopies.createdAt))
-      .limit(1);
-  }
+    )
+    .returning();
 
-  return {
+  return cancelledAuditRun ?? null;
+}
+
+export type FindingTriageRecord = {
+  findingId: string;
+  status: FindingTriageStatus;
+  justification: string;
+  authorUserId: string;
+  authorName: string | null;
+  updatedAt: string;
+};
+
+export async function findProjectFinding(projectId: string, findingId: string) {
+  if (!isUuid(findingId)) {
+    return null;
+  }
+
+  const finding = await db.query.findings.findFirst({
+    where: and(eq(findings.id, findingId), eq(findings.projectId, projectId))
+  });
+
+  return finding ?? null;
+}
+
+export async function listFindingTriages(findingIds: string[]): Promise<FindingTriageRecord[]> {
+  if (!findingIds.length) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      findingId: findingTriages.findingId,
+      status: findingTriages.status,
+      justification: findingTriages.justification,
+      authorUserId: findingTriages.authorUserId,
+      authorName: users.name,
+      updatedAt: findingTriages.updatedAt
+    })
+    .from(findingTriages)
+    .leftJoin(users, eq(findingTriages.authorUserId, users.id))
+    .where(inArray(findingTriages.findingId, [...new Set(findingIds)]));
+
+  return rows.map((row) => ({
+    ...row,
+    authorName: row.authorName ?? null,
+    updatedAt: toIsoString(row.updatedAt) ?? new Date(0).toISOString()
+  }));
+}
+
+export async function upsertFindingTriage(params: {
+  findingId: string;
+  status: FindingTriageStatus;
+  justification: string;
+  authorUserId: string;
+}) {
+  const [triage] = await db
+    .insert(findingTriages)
+    .values({
+      findingId: params.findingId,
+      status: params.status,
+      justification: params.justification,
+      authorUserId: params.authorUserId
+    })
+    .onConflictDoUpdate({
+      target: findingTriages.findingId,
+      set: {
+        status: params.status,
+        justification: params.justification,
+        authorUserId: params.authorUserId,
+        updatedAt: new Date()
+      }
+    })
+    .returning();
+
+  if (!triage) {
+    throw new Error("Failed to persist finding triage");
+  }
+
+  return triage;
+}
+
+export async function clearFindingTriage(findingId: string) {
+  const [deletedTriage] = await db
+    .delete(findingTriages)
+    .where(eq(findingTriages.findingId, findingId))
+    .returning();
+
+  return deletedTriage ?? null;
+}
+
+export type FindingCommentRecord = {
+  id: string;
+  findingId: string;
+  body: string;
+  authorUserId: string;
+  authorName: string | null;
+  editHistory: FindingCommentEdit[];
+  editedAt: string | null;
+  createdAt: string;
+};
+
+export async function listFindingComments(findingId: string): Promise<FindingCommentRecord[]> {
+  const rows = await db
+    .select({
+      id: findingComments.id,
+      findingId: findingComments.findingId,
+      body: findingComments.body,
+      authorUserId: findingComments.authorUserId,
+      authorName: users.name,
+      editHistory: findingComments.editHistory,
+      editedAt: findingComments.editedAt,
+      createdAt: findingComments.createdAt
+    })
+    .from(findingComments)
+    .leftJoin(users, eq(findingComments.authorUserId, users.id))
+    .where(eq(findingComments.findingId, findingId))
+    .orderBy(findingComments.createdAt, findingComments.id);
+
+  return rows.map((row) => ({
+    ...row,
+    authorName: row.authorName ?? null,
+    editHistory: row.editHistory ?? [],
+    editedAt: toIsoString(row.editedAt),
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+  }));
+}
+
+export async function countFindingComments(findingIds: string[]) {
+  const counts = new Map<string, number>();
+  if (!findingIds.length) {
+    return counts;
+  }
+
+  const rows = await db
+    .select({
+      findingId: findingComments.findingId,
+      count: sql<number>`count(*)::int`
+    })
+    .from(findingComments)
+    .where(inArray(findingComments.findingId, [...new Set(findingIds)]))
+    .groupBy(findingComments.findingId);
+
+  for (const row of rows) {
+    counts.set(row.findingId, Number(row.count));
+  }
+
+  return counts;
+}
+
+export async function findFindingComment(findingId: string, commentId: string) {
+  if (!isUuid(commentId)) {
+    return null;
+  }
+
+  const comment = await db.query.findingComments.findFirst({
+    where: and(eq(findingComments.id, commentId), eq(findingComments.findingId, findingId))
+  });
+
+  return comment ?? null;
+}
+
+export async function createFindingComment(params: {
+  findingId: string;
+  authorUserId: string;
+  body: string;
+}) {
+  const [comment] = await db
+    .insert(findingComments)
+    .values({
+      findingId: params.findingId,
+      authorUserId: params.authorUserId,
+      body: params.body
+    })
+    .returning();
+
+  if (!comment) {
+    throw new Error("Failed to persist finding comment");
+  }
+
+  return comment;
+}
+
+/**
+ * Replaces the comment body and appends the previous body to its edit history in the same
+ * statement, so concurrent edits cannot drop a revision.
+ */
+export async function updateFindingComment(params: { commentId: string; body: string }) {
+  const [comment] = await db
+    .update(findingComments)
+    .set({
+      body: params.body,
+      editHistory: sql`${findingComments.editHistory} || jsonb_build_array(jsonb_build_object('body', ${findingComments.body}, 'editedAt', to_jsonb(now())))`,
+      editedAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(findingComments.id, params.commentId))
+    .returning();
+
+  return comment ?? null;
+}
+
+export async function deleteFindingComment(commentId: string) {
+  const [deletedComment] = await db
+    .delete(findingComments)
+    .where(eq(findingComments.id, commentId))
+    .returning();
+
+  return deletedComment ?? null;
+}
+
+/**
+ * Collects the findings of an audit run as SARIF inputs: current findings with their transition
+ * from the previous run, plus findings resolved by this run (taken from the run that last saw them).
+ */
+export async function listAuditSarifFindings(auditRunId: string): Promise<SarifFindingInput[]> {
+  const [instanceRows, transitionRows] = await Promise.all([
+    db
+      .select({
+        findingId: findingInstances.findingId,
+        payloadJson: findingInstances.payloadJson,
+        stableFingerprint: findings.stableFingerprint
+      })
+      .from(findingInstances)
+      .innerJoin(findings, eq(findingInstances.findingId, findings.id))
+      .where(eq(findingInstances.auditRunId, auditRunId)),
+    db
+      .select({
+        findingId: findingTransitions.findingId,
+        fromAuditRunId: findingTransitions.fromAuditRunId,
+        transition: findingTransitions.transition
+      })
+      .from(findingTransitions)
+      .where(eq(findingTransitions.toAuditRunId, auditRunId))
+  ]);
+
+  const transitionByFindingId = new Map(transitionRows.map((row) => [row.findingId, row]));
+  const resolvedTransitions = transitionRows.filter((row) => row.transition === "resolved");
+  const resolvedRows = resolvedTransitions.length
+    ? await db
+        .select({
+          findingId: findingInstances.findingId,
+          auditRunId: findingInstances.auditRunId,
+          payloadJson: findingInstances.payloadJson,
+          stableFingerprint: findings.stableFingerprint
+        })
+        .from(findingInstances)
+        .innerJoin(findings, eq(findingInstances.findingId, findings.id))
+        .where(
+          and(
+            inArray(
+              findingInstances.findingId,
+              resolvedTransitions.map((row) => row.findingId)
+            ),
+            inArray(findingInstances.auditRunId, [
+              ...new Set(resolvedTransitions.map((row) => row.fromAuditRunId))
+            ])
+          )
+        )
+    : [];
+
+  const rows = [
+    ...instanceRows,
+    ...resolvedRows.filter(
+      (row) => transitionByFindingId.get(row.findingId)?.fromAuditRunId === row.auditRunId
+    )
+  ];
+  const triages = await listFindingTriages(rows.map((row) => row.findingId));
+  const triageByFindingId = new Map(triages.map((triage) => [triage.findingId, triage]));
+
+  return rows.flatMap((row) => {
+    const parsed = auditFindingSchema.safeParse(row.payloadJson);
+    if (!parsed.success) {
+      return [];
+    }
+
+    const triage = triageByFindingId.get(row.findingId);
+
+    return [
+      {
+        finding: parsed.data,
+        stableFingerprint: row.stableFingerprint,
+        transition: transitionByFindingId.get(row.findingId)?.transition ?? null,
+        triage: triage ? { status: triage.status, justification: triage.justification } : null
+      }
+    ];
+  });
+}
+
+/** Reads a setting for the project's organization, falling back to the system-wide value. */
+async function getProjectSettingValue(projectId: string, key: string) {
+  const project = await db.query.projects.findFirst({
+    where: eq(projects.id, projectId),
+    columns: { organizationId: true }
+  });
+
+  if (project?.organizationId) {
+    const override = await db.query.organizationSettings.findFirst({
+      where: and(
+        eq(organizationSettings.organizationId, project.organizationId),
+        eq(organizationSettings.key, key)
+      )
+    });
+    if (override) {
+      return override.value;
+    }
+  }
+
+  const setting = await db.query.systemSettings.findFirst({
+    where: eq(systemSettings.key, key)
+  });
+  return setting?.value ?? null;
+}
+
+/**
+ * Loads what the report renderers need for a completed audit run, mirroring the PDF worker so
+ * every export shows the same findings, transitions and branding for the same variant.
+ */
+export async function getAuditReportRenderParams(
+  auditRun: AuditRun,
+  variant: PdfExportVariant = "internal"
+): Promise<ReportRenderParams | null> {
+  if (!auditRun.reportJson) {
+    return null;
+  }
+
+  const report = normalizeAuditReport(auditRun.reportJson);
+  const [auditFindings, transitions, brandingValue] = await Promise.all([
+    db.query.findingInstances.findMany({
+      where: eq(findingInstances.auditRunId, auditRun.id)
+    }),
+    db.query.findingTransitions.findMany({
+      where: eq(findingTransitions.toAuditRunId, auditRun.id)
+    }),
+    getProjectSettingValue(auditRun.projectId, REPORT_BRANDING_SETTING_KEY)
+  ]);
+  const hiddenTriages =
+    variant === "client" && auditFindings.length
+      ? await db.query.findingTriages.findMany({
+          where: and(
+            inArray(
+              findingTriages.findingId,
+              auditFindings.map((finding) => finding.findingId)
+            ),
+            inArray(findingTriages.status, CLIENT_HIDDEN_TRIAGE_STATUSES)
+          )
+        })
+      : [];
+  const findings = selectReportFindings({
+    findings: auditFindings,
+    hiddenFindingIds: new Set(hiddenTriages.map((triage) => triage.findingId)),
+    variant
+  });
+
+  return {
+    report,
+    findings: findings as unknown as Array<Record<string, unknown>>,
+    transitions: transitions.map((row) => ({ transition: row.transition })),
+    branding: reportBrandingSchema.parse((brandingValue as Record<string, unknown> | null) ?? {}),
+    variant,
+    model: resolveReportModel(report, {
+      primary: auditRun.primaryModelId,
+      fallback: auditRun.fallbackModelId
+    })
+  };
+}
+
+export type ApiTokenRecord = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+function toApiTokenRecord(row: typeof apiTokens.$inferSelect): ApiTokenRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.tokenPrefix,
+    scopes: row.scopes,
+    expiresAt: toIsoString(row.expiresAt) ?? new Date(0).toISOString(),
+    lastUsedAt: toIsoString(row.lastUsedAt),
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+  };
+}
+
+/** Lists the user's tokens that have not been revoked, including expired ones. */
+export async function listApiTokens(userId: string) {
+  const rows = await db.query.apiTokens.findMany({
+    where: and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)),
+    orderBy: [desc(apiTokens.createdAt)]
+  });
+
+  return rows.map(toApiTokenRecord);
+}
+
+/** Creates a token and returns its plaintext value, which is not stored and cannot be shown again. */
+export async function createApiToken(params: {
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number;
+}) {
+  const generated = generateApiToken();
+  const [row] = await db
+    .insert(apiTokens)
+    .values({
+      userId: params.userId,
+      name: params.name,
+      tokenPrefix: generated.tokenPrefix,
+      tokenHash: generated.tokenHash,
+      scopes: [...new Set(params.scopes)],
+      expiresAt: new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1_000)
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error("Failed to persist API token");
+  }
+
+  return {
+    apiToken: toApiTokenRecord(row),
+    token: generated.token
+  };
+}
+
+export async function revokeApiToken(userId: string, tokenId: string) {
+  if (!isUuid(tokenId)) {
+    return null;
+  }
+
+  const [revoked] = await db
+    .update(apiTokens)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt))
+    )
+    .returning({ id: apiTokens.id });
+
+  return revoked ?? null;
+}
+
+export class ProjectMembershipError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "ProjectMembershipError";
+    this.statusCode = statusCode;
+  }
+}
+
+export type ProjectMemberRecord = {
+  userId: string;
+  name: string;
+  email: string;
+  image: string | null;
+  role: ProjectMemberRole;
+  joinedAt: string;
+};
+
+export type ProjectInvitationRecord = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  role: ProjectMemberRole;
+  inviteeEmail: string | null;
+  inviteeGithubLogin: string | null;
+  invitedByName: string | null;
+  expiresAt: string;
+  createdAt: string;
+};
+
+type ProjectRef = { id: string; ownerUserId: string; organizationId: string | null };
+type InviteeUser = { id: string; email: string };
+
+const PROJECT_INVITATION_PENDING_EMAIL_CONSTRAINT = "project_invitations_pending_email_unique";
+const PROJECT_INVITATION_PENDING_GITHUB_CONSTRAINT = "project_invitations_pending_github_unique";
+
+function pendingInvitationCondition() {
+  return and(
+    eq(projectInvitations.status, "pending"),
+    gt(projectInvitations.expiresAt, new Date())
+  );
+}
+
+async function queryProjectInvitations(where: ReturnType<typeof and>) {
+  const rows = await db
+    .select({
+      id: projectInvitations.id,
+      projectId: projectInvitations.projectId,
+      projectName: projects.name,
+      role: projectInvitations.role,
+      inviteeEmail: projectInvitations.inviteeEmail,
+      inviteeGithubLogin: projectInvitations.inviteeGithubLogin,
+      invitedByName: users.name,
+      expiresAt: projectInvitations.expiresAt,
+      createdAt: projectInvitations.createdAt
+    })
+    .from(projectInvitations)
+    .innerJoin(projects, eq(projectInvitations.projectId, projects.id))
+    .leftJoin(users, eq(projectInvitations.invitedByUserId, users.id))
+    .where(and(where, ne(projects.lifecycleState, "deleted")))
+    .orderBy(desc(projectInvitations.createdAt));
+
+  return rows.map(
+    (row): ProjectInvitationRecord => ({
+      ...row,
+      invitedByName: row.invitedByName ?? null,
+      expiresAt: toIsoString(row.expiresAt) ?? new Date(0).toISOString(),
+      createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+    })
+  );
+}
+
+/** Conditions matching invitations addressed to the user by email or by a linked GitHub account. */
+async function inviteeCondition(user: InviteeUser) {
+  const githubAccounts = await db
+    .select({ accountId: accounts.accountId })
+    .from(accounts)
+    .where(and(eq(accounts.userId, user.id), eq(accounts.providerId, "github")));
+  const githubIds = githubAccounts.map((account) => account.accountId);
+
+  const byEmail = eq(projectInvitations.inviteeEmail, user.email.trim().toLowerCase());
+  return githubIds.length
+    ? or(byEmail, inArray(projectInvitations.inviteeGithubId, githubIds))
+    : byEmail;
+}
+
+async function findInviteeUserId(invitee: { email: string | null; githubId: string | null }) {
+  if (invitee.email) {
+    const user = await db.query.users.findFirst({
+      where: sql`lower(${users.email}) = ${invitee.email}`,
+      columns: { id: true }
+    });
+    return user?.id ?? null;
+  }
+
+  if (invitee.githubId) {
+    const account = await db.query.accounts.findFirst({
+      where: and(eq(accounts.providerId, "github"), eq(accounts.accountId, invitee.githubId)),
+      columns: { userId: true }
+    });
+    return account?.userId ?? null;
+  }
+
+  return null;
+}
+
+export async function listProjectMembers(project: ProjectRef): Promise<ProjectMemberRecord[]> {
+  const rows = await db
+    .select({
+      userId: projectMembers.userId,
+      name: users.name,
+      email: users.email,
+      image: users.image,
+      role: projectMembers.role,
+      createdAt: projectMembers.createdAt
+    })
+    .from(projectMembers)
+    .innerJoin(users, eq(projectMembers.userId, users.id))
+    .where(eq(projectMembers.projectId, project.id))
+    .orderBy(projectMembers.createdAt, users.name);
+
+  return rows.flatMap((row) => {
+    const role = toProjectMemberRole(project, row.userId, row);
+    if (!role) {
+      return [];
+    }
+
+    return [
+      {
+        userId: row.userId,
+        name: row.name,
+        email: row.email,
+        image: row.image ?? null,
+        role,
+        joinedAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+      }
+    ];
+  });
+}
+
+/** Lists the project's open invitations; expired ones are left out and can simply be re-sent. */
+export async function listProjectInvitations(projectId: string) {
+  return queryProjectInvitations(
+    and(eq(projectInvitations.projectId, projectId), pendingInvitationCondition())
+  );
+}
+
+/**
+ * Invites a user by email or GitHub account. Re-inviting someone with an open (or expired)
+ * pending invitation refreshes that invitation's role and expiry instead of creating another.
+ */
+export async function createProjectInvitation(params: {
+  project: ProjectRef;
+  role: ProjectMemberRole;
+  invitedByUserId: string;
+  email?: string | null;
+  github?: { id: string; login: string } | null;
+}) {
+  const email = params.email?.trim().toLowerCase() || null;
+  const githubId = email ? null : (params.github?.id ?? null);
+  if (!email && !githubId) {
+    throw new ProjectMembershipError("Provide either an email address or a GitHub login");
+  }
+
+  const existingUserId = await findInviteeUserId({ email, githubId });
+  if (existingUserId) {
+    const existingMember =
+      (!params.project.organizationId && existingUserId === params.project.ownerUserId) ||
+      (await db.query.projectMembers.findFirst({
+        where: and(
+          eq(projectMembers.projectId, params.project.id),
+          eq(projectMembers.userId, existingUserId)
+        ),
+        columns: { userId: true }
+      }));
+
+    if (existingMember) {
+      throw new ProjectMembershipError("This user is already a member of the project", 409);
+    }
+  }
+
+  const expiresAt = new Date(Date.now() + PROJECT_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1_000);
+  const inviteeMatch = email
+    ? eq(projectInvitations.inviteeEmail, email)
+    : eq(projectInvitations.inviteeGithubId, githubId!);
+
+  let invitationId: string | undefined;
+  try {
+    const [refreshed] = await db
+      .update(projectInvitations)
+      .set({
+        role: params.role,
+        invitedByUserId: params.invitedByUserId,
+        inviteeGithubLogin: params.github?.login ?? null,
+        expiresAt
+      })
+      .where(
+        and(
+          eq(projectInvitations.projectId, params.project.id),
+          eq(projectInvitations.status, "pending"),
+          inviteeMatch
+        )
+      )
+      .returning({ id: projectInvitations.id });
+
+    invitationId = refreshed?.id;
+    if (!invitationId) {
+      const [created] = await db
+        .insert(projectInvitations)
+        .values({
+          projectId: params.project.id,
+          role: params.role,
+          inviteeEmail: email,
+          inviteeGithubId: githubId,
+          inviteeGithubLogin: email ? null : (params.github?.login ?? null),
+          invitedByUserId: params.invitedByUserId,
+          expiresAt
+        })
+        .returning({ id: projectInvitations.id });
+      invitationId = created?.id;
+    }
+  } catch (error) {
+    if (
+      isPgUniqueViolation(error, PROJECT_INVITATION_PENDING_EMAIL_CONSTRAINT) ||
+      isPgUniqueViolation(error, PROJECT_INVITATION_PENDING_GITHUB_CONSTRAINT)
+    ) {
+      throw new ProjectMembershipError("An invitation for this user is already pending", 409);
+    }
+    throw error;
+  }
+
+  if (!invitationId) {
+    throw new Error("Failed to persist project invitation");
+  }
+
+  const [invitation] = await queryProjectInvitations(eq(projectInvitations.id, invitationId));
+  if (!invitation) {
+    throw new Error("Failed to load project invitation");
+  }
+
+  return invitation;
+}
+
+export async function revokeProjectInvitation(projectId: string, invitationId: string) {
+  if (!isUuid(invitationId)) {
+    return null;
+  }
+
+  const [revoked] = await db
+    .update(projectInvitations)
+    .set({ status: "revoked", respondedAt: new Date() })
+    .where(
+      and(
+        eq(projectInvitations.id, invitationId),
+        eq(projectInvitations.projectId, projectId),
+        eq(projectInvitations.status, "pending")
+      )
+    )
+    .returning({ id: projectInvitations.id });
+
+  return revoked ?? null;
+}
+
+export async function listUserProjectInvitations(user: InviteeUser) {
+  return queryProjectInvitations(and(await inviteeCondition(user), pendingInvitationCondition()));
+}
+
+/**
+ * Accepts or declines an open invitation addressed to the user. Accepting adds the membership
+ * (or updates the role of an existing one) in the same transaction that closes the invitation.
+ */
+export async function respondToProjectInvitation(params: {
+  invitationId: string;
+  user: InviteeUser;
+  action: "accept" | "decline";
+}) {
+  if (!isUuid(params.invitationId)) {
+    return null;
+  }
+
+  const invitation = await db.query.projectInvitations.findFirst({
+    where: and(
+      eq(projectInvitations.id, params.invitationId),
+      await inviteeCondition(params.user),
+      pendingInvitationCondition()
+    )
+  });
+
+  if (!invitation) {
+    return null;
+  }
+
+  const project = await db.query.projects.findFirst({
+    where: and(eq(projects.id, invitation.projectId), ne(projects.lifecycleState, "deleted")),
+    columns: { id: true, ownerUserId: true, organizationId: true }
+  });
+
+  if (!project) {
+    return null;
+  }
+
+  return db.transaction(async (tx) => {
+    const [closed] = await tx
+      .update(projectInvitations)
+      .set({
+        status: params.action === "accept" ? "accepted" : "declined",
+        respondedAt: new Date(),
+        respondedByUserId: params.user.id
+      })
+      .where(
+        and(eq(projectInvitations.id, invitation.id), eq(projectInvitations.status, "pending"))
+      )
+      .returning({ id: projectInvitations.id });
+
+    if (!closed) {
+      return null;
+    }
+
+    const isPersonalOwner = !project.organizationId && project.ownerUserId === params.user.id;
+    if (params.action === "accept" && !isPersonalOwner) {
+      await tx
+        .insert(projectMembers)
+        .values({
+          projectId: project.id,
+          userId: params.user.id,
+          role: invitation.role
+        })
+        .onConflictDoUpdate({
+          target: [projectMembers.projectId, projectMembers.userId],
+          set: { role: invitation.role }
+        });
+    }
+
+    return {
+      invitationId: invitation.id,
+      projectId: project.id,
+      status: params.action === "accept" ? ("accepted" as const) : ("declined" as const)
+    };
+  });
+}
+
+export async function updateProjectMemberRole(
+  project: ProjectRef,
+  userId: string,
+  role: ProjectMemberRole
+) {
+  if (!project.organizationId && userId === project.ownerUserId) {
+    throw new ProjectMembershipError("The project owner's role cannot be changed");
+  }
+
+  const [member] = await db
+    .update(projectMembers)
+    .set({ role })
+    .where(and(eq(projectMembers.projectId, project.id), eq(projectMembers.userId, userId)))
+    .returning({ userId: projectMembers.userId, role: projectMembers.role });
+
+  return member ?? null;
+}
+
+export async function removeProjectMember(project: ProjectRef, userId: string) {
+  if (!project.organizationId && userId === project.ownerUserId) {
+    throw new ProjectMembershipError("The project owner cannot be removed");
+  }
+
+  const [removed] = await db
+    .delete(projectMembers)
+    .where(and(eq(projectMembers.projectId, project.id), eq(projectMembers.userId, userId)))
+    .returning({ userId: projectMembers.userId });
+
+  return removed ?? null;
+}
+
+export class OrganizationPermissionError extends Error {
+  readonly statusCode = 403;
+
+  constructor(readonly permission: OrganizationPermission) {
+    super("Your organization role does not allow this action.");
+    this.name = "OrganizationPermissionError";
+  }
+}
+
+export class OrganizationMembershipError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "OrganizationMembershipError";
+    this.statusCode = statusCode;
+  }
+}
+
+export type OrganizationRecord = {
+  id: string;
+  name: string;
+  slug: string;
+  role: OrganizationRole;
+  createdAt: string;
+};
+
+export type OrganizationMemberRecord = {
+  userId: string;
+  name: string;
+  email: string;
+  image: string | null;
+  role: OrganizationRole;
+  joinedAt: string;
+};
+
+export type OrganizationSettingsRecord = {
+  reportBranding: Record<string, unknown> | null;
+  modelAllowlist: OrganizationModelAllowlist | null;
+};
+
+export async function listUserOrganizations(userId: string): Promise<OrganizationRecord[]> {
+  const rows = await db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      slug: organizations.slug,
+      role: organizationMembers.role,
+      createdAt: organizations.createdAt
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(organizations.name);
+
+  return rows.map((row) => ({
+    ...row,
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+  }));
+}
+
+/**
+ * Returns the organization and the caller's role when they are a member. Members whose role lacks
+ * the requested permission get an OrganizationPermissionError (403).
+ */
+export async function ensureOrganizationAccess(
+  organizationId: string,
+  userId: string,
+  permission: OrganizationPermission = "read"
+) {
+  if (!isUuid(organizationId)) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({ organization: organizations, role: organizationMembers.role })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  if (!hasOrganizationPermission(row.role, permission)) {
+    throw new OrganizationPermissionError(permission);
+  }
+
+  return row;
+}
+
+export async function createOrganization(input: {
+  name: string;
+  slug: string;
+  createdByUserId: string;
+}) {
+  try {
+    return await db.transaction(async (tx) => {
+      const [organization] = await tx
+        .insert(organizations)
+        .values({
+          name: input.name,
+          slug: input.slug,
+          createdByUserId: input.createdByUserId
+        })
+        .returning();
+
+      if (!organization) {
+        throw new Error("Failed to create organization");
+      }
+
+      await tx.insert(organizationMembers).values({
+        organizationId: organization.id,
+        userId: input.createdByUserId,
+        role: "owner"
+      });
+
+      return organization;
+    });
+  } catch (error) {
+    if (isPgUniqueViolation(error, ORGANIZATION_SLUG_UNIQUE_CONSTRAINT)) {
+      throw new OrganizationMembershipError("An organization with this slug already exists", 409);
+    }
+
+    throw error;
+  }
+}
+
+export async function listOrganizationMembers(
+  organizationId: string
+): Promise<OrganizationMemberRecord[]> {
+  const rows = await db
+    .select({
+      userId: organizationMembers.userId,
+      name: users.name,
+      email: users.email,
+      image: users.image,
+      role: organizationMembers.role,
+      createdAt: organizationMembers.createdAt
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(organizationMembers.createdAt, users.name);
+
+  return rows.map((row) => ({
+    userId: row.userId,
+    name: row.name,
+    email: row.email,
+    image: row.image ?? null,
+    role: row.role,
+    joinedAt: toIsoString(row.createdAt) ?? new Date(0).toISOString()
+  }));
+}
+
+/** Adds an existing user by email; unlike project invitations there is no pending state. */
+export async function addOrganizationMember(params: {
+  organizationId: string;
+  actorRole: OrganizationRole;
+  email: string;
+  role: OrganizationRole;
+}) {
+  if (params.role === "owner" && params.actorRole !== "owner") {
+    throw new OrganizationMembershipError("Only organization owners can add owners", 403);
+  }
+
+  const user = await db.query.users.findFirst({
+    where: sql`lower(${users.email}) = ${params.email.trim().toLowerCase()}`,
+    columns: { id: true }
+  });
+  if (!user) {
+    throw new OrganizationMembershipError("No user with this email has signed in yet", 404);
+  }
+
+  const [member] = await db
+    .insert(organizationMembers)
+    .values({
+      organizationId: params.organizationId,
+      userId: user.id,
+      role: params.role
+    })
+    .onConflictDoNothing()
+    .returning({ userId: organizationMembers.userId, role: organizationMembers.role });
+
+  if (!member) {
+    throw new OrganizationMembershipError("This user is already a member of the organization", 409);
+  }
+
+  return member;
+}
+
+async function countOrganizationOwners(organizationId: string) {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(organizationMembers)
+    .where(
+      and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.role, "owner")
+      )
+    );
+  return row?.count ?? 0;
+}
+
+async function findOrganizationMember(organizationId: string, userId: string) {
+  return db.query.organizationMembers.findFirst({
+    where: and(
+      eq(organizationMembers.organizationId, organizationId),
+      eq(organizationMembers.userId, userId)
+    )
+  });
+}
+
+/** Owners can change any role; admins cannot touch owners or promote anyone to owner. */
+function assertCanChangeOrganizationMember(
+  actorRole: OrganizationRole,
+  targetRole: OrganizationRole,
+  nextRole?: OrganizationRole
+) {
+  if (actorRole !== "owner" && (targetRole === "owner" || nextRole === "owner")) {
+    throw new OrganizationMembershipError("Only organization owners can change owners", 403);
+  }
+}
+
+export async function updateOrganizationMemberRole(params: {
+  organizationId: string;
+  actorRole: OrganizationRole;
+  userId: string;
+  role: OrganizationRole;
+}) {
+  const existing = await findOrganizationMember(params.organizationId, params.userId);
+  if (!existing) {
+    return null;
+  }
+
+  assertCanChangeOrganizationMember(params.actorRole, existing.role, params.role);
+  if (
+    existing.role === "owner" &&
+    params.role !== "owner" &&
+    (await countOrganizationOwners(params.organizationId)) <= 1
+  ) {
+    throw new OrganizationMembershipError("An organization needs at least one owner");
+  }
+
+  const [member] = await db
+    .update(organizationMembers)
+    .set({ role: params.role })
+    .where(
+      and(
+        eq(organizationMembers.organizationId, params.organizationId),
+        eq(organizationMembers.userId, params.userId)
+      )
+    )
+    .returning({ userId: organizationMembers.userId, role: organizationMembers.role });
+
+  return member ?? null;
+}
+
+/**
+ * Removes an organization member together with their per-project grants on the organization's
+ * projects, so leaving the organization also revokes access to its projects.
+ */
+export async function removeOrganizationMember(params: {
+  organizationId: string;
+  actorRole: OrganizationRole;
+  userId: string;
+  isSelf: boolean;
+}) {
+  const existing = await findOrganizationMember(params.organizationId, params.userId);
+  if (!existing) {
+    return null;
+  }
+
+  if (!params.isSelf) {
+    assertCanChangeOrganizationMember(params.actorRole, existing.role);
+  }
+  if (existing.role === "owner" && (await countOrganizationOwners(params.organizationId)) <= 1) {
+    throw new OrganizationMembershipError("An organization needs at least one owner");
+  }
+
+  return db.transaction(async (tx) => {
+    const organizationProjectIds = tx
+      .select({ id: projects.id })
+      .from(projects)
+      .where(eq(projects.organizationId, params.organizationId));
+
+    await tx
+      .delete(projectMembers)
+      .where(
+        and(
+          eq(projectMembers.userId, params.userId),
+          inArray(projectMembers.projectId, organizationProjectIds)
+        )
+      );
+
+    const [removed] = await tx
+      .delete(organizationMembers)
+      .where(
+        and(
+          eq(organizationMembers.organizationId, params.organizationId),
+          eq(organizationMembers.userId, params.userId)
+        )
+      )
+      .returning({ userId: organizationMembers.userId });
+
+    return removed ?? null;
+  });
+}
+
+export async function getOrganizationSettings(
+  organizationId: string
+): Promise<OrganizationSettingsRecord> {
+  const rows = await db.query.organizationSettings.findMany({
+    where: and(
+      eq(organizationSettings.organizationId, organizationId),
+      inArray(organizationSettings.key, [
+        REPORT_BRANDING_SETTING_KEY,
+        AUDIT_MODEL_ALLOWLIST_SETTING_KEY
+      ])
+    )
+  });
+  const valueByKey = new Map(rows.map((row) => [row.key, row.value]));
+  const branding = valueByKey.get(REPORT_BRANDING_SETTING_KEY);
+  const allowlist = modelAllowlistSchema.safeParse(
+    valueByKey.get(AUDIT_MODEL_ALLOWLIST_SETTING_KEY)
+  );
+
+  return {
+    reportBranding: branding
+      ? reportBrandingSchema.parse(branding as Record<string, unknown>)
+      : null,
+    // Overrides saved before they were limited to models may still carry prices or routes.
+    modelAllowlist: allowlist.success ? { models: allowlist.data.models } : null
+  };
+}
+
+/** Applies organization setting overrides: a value upserts the override and `null` removes it. */
+export async function updateOrganizationSettings(
+  organizationId: string,
+  input: {
+    reportBranding?: Record<string, unknown> | null;
+    modelAllowlist?: OrganizationModelAllowlist | null;
+  }
+) {
+  const updates = [
+    [REPORT_BRANDING_SETTING_KEY, input.reportBranding],
+    [AUDIT_MODEL_ALLOWLIST_SETTING_KEY, input.modelAllowlist]
+  ] as const;
+
+  await db.transaction(async (tx) => {
+    for (const [key, value] of updates) {
+      if (value === undefined) {
+        continue;
+      }
+
+      const where = and(
+        eq(organizationSettings.organizationId, organizationId),
+        eq(organizationSettings.key, key)
+      );
+      if (value === null) {
+        await tx.delete(organizationSettings).where(where);
+        continue;
+      }
+
+      await tx
+        .insert(organizationSettings)
+        .values({ organizationId, key, value, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [organizationSettings.organizationId, organizationSettings.key],
+          set: { value, updatedAt: new Date() }
+        });
+    }
+  });
+
+  return getOrganizationSettings(organizationId);
+}
+
+type AuditLogActor = {
+  user: { id: string };
+  apiToken?: { id: string } | null;
+  client?: { ipAddress: string | null; userAgent: string | null };
+};
+
+export type AuditLogEntryRecord = {
+  id: string;
+  action: AuditLogAction;
+  actorUserId: string;
+  actorEmail: string | null;
+  actorApiTokenId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  projectId: string | null;
+  targetType: string;
+  targetId: string | null;
+  summary: Record<string, unknown>;
+  createdAt: string;
+};
+
+/**
+ * Appends an audit log entry for an action the caller has just performed. The table is insert-only:
+ * there is deliberately no update or delete path, and failures propagate so an action is never
+ * reported as successful without its record.
+ */
+export async function recordAuditLog(
+  actor: AuditLogActor,
+  entry: {
+    action: AuditLogAction;
+    projectId?: string | null;
+    targetType: string;
+    targetId?: string | null;
+    summary?: Record<string, unknown>;
+  }
+) {
+  await db.insert(auditLog).values({
+    action: entry.action,
+    actorUserId: actor.user.id,
+    actorApiTokenId: actor.apiToken?.id ?? null,
+    ipAddress: actor.client?.ipAddress ?? null,
+    userAgent: actor.client?.userAgent ?? null,
+    projectId: entry.projectId ?? null,
+    targetType: entry.targetType,
+    targetId: entry.targetId ?? null,
+    summary: entry.summary ?? {}
+  });
+}
+
+export async function listAuditLogEntries(params: {
+  action?: AuditLogAction;
+  actorUserId?: string;
+  projectId?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}): Promise<AuditLogEntryRecord[]> {
+  const rows = await db
+    .select({
+      entry: auditLog,
+      actorEmail: users.email
+    })
+    .from(auditLog)
+    .leftJoin(users, eq(auditLog.actorUserId, users.id))
+    .where(
+      and(
+        params.action ? eq(auditLog.action, params.action) : undefined,
+        params.actorUserId ? eq(auditLog.actorUserId, params.actorUserId) : undefined,
+        params.projectId ? eq(auditLog.projectId, params.projectId) : undefined,
+        params.targetId ? eq(auditLog.targetId, params.targetId) : undefined,
+        params.from ? gte(auditLog.createdAt, params.from) : undefined,
+        params.to ? lt(auditLog.createdAt, params.to) : undefined
+      )
+    )
+    .orderBy(desc(auditLog.createdAt))
+    .limit(params.limit);
+
+  return rows.map(({ entry, actorEmail }) => ({
+    ...entry,
+    actorEmail: actorEmail ?? null,
+    createdAt: toIsoString(entry.createdAt) ?? new Date(0).toISOString()
+  }));
+}
+
+export type WebhookSubscriptionRecord = {
+  id: string;
+  projectId: string;
+  url: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Secrets are write-only: they are never returned once stored.
+function toWebhookSubscriptionRecord(
+  row: typeof webhookSubscriptions.$inferSelect
+): WebhookSubscriptionRecord {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    url: row.url,
+    events: row.events,
+    enabled: row.enabled,
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: toIsoString(row.updatedAt) ?? new Date(0).toISOString()
+  };
+}
+
+export async function listWebhookSubscriptions(projectId: string) {
+  const rows = await db.query.webhookSubscriptions.findMany({
+    where: eq(webhookSubscriptions.projectId, projectId),
+    orderBy: [webhookSubscriptions.createdAt]
+  });
+
+  return rows.map(toWebhookSubscriptionRecord);
+}
+
+export async function findWebhookSubscription(projectId: string, webhookId: string) {
+  if (!isUuid(webhookId)) {
+    return null;
+  }
+
+  const subscription = await db.query.webhookSubscriptions.findFirst({
+    where: and(
+      eq(webhookSubscriptions.id, webhookId),
+      eq(webhookSubscriptions.projectId, projectId)
+    )
+  });
+
+  return subscription ? toWebhookSubscriptionRecord(subscription) : null;
+}
+
+export async function createWebhookSubscription(params: {
+  projectId: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdByUserId: string;
+}) {
+  const [subscription] = await db
+    .insert(webhookSubscriptions)
+    .values({
+      projectId: params.projectId,
+      url: params.url,
+      secret: params.secret,
+      events: [...new Set(params.events)],
+      enabled: params.enabled,
+      createdByUserId: params.createdByUserId
+    })
+    .returning();
+
+  if (!subscription) {
+    throw new Error("Failed to persist webhook subscription");
+  }
+
+  return toWebhookSubscriptionRecord(subscription);
+}
+
+export async function updateWebhookSubscription(
+  webhookId: string,
+  patch: {
+    url?: string;
+    secret?: string;
+    events?: WebhookEventType[];
+    enabled?: boolean;
+  }
+) {
+  const [subscription] = await db
+    .update(webhookSubscriptions)
+    .set({
+      ...(patch.url !== undefined ? { url: patch.url } : {}),
+      ...(patch.secret !== undefined ? { secret: patch.secret } : {}),
+      ...(patch.events !== undefined ? { events: [...new Set(patch.events)] } : {}),
+      ...(patch.enabled !== undefined ? { enabled: patch.enabled } : {}),
+      updatedAt: new Date()
+    })
+    .where(eq(webhookSubscriptions.id, webhookId))
+    .returning();
+
+  return subscription ? toWebhookSubscriptionRecord(subscription) : null;
+}
+
+export async function deleteWebhookSubscription(webhookId: string) {
+  const [deletedSubscription] = await db
+    .delete(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, webhookId))
+    .returning({ id: webhookSubscriptions.id });
+
+  return deletedSubscription ?? null;
+}
+
+export async function listWebhookDeliveries(params: {
+  status?: WebhookDeliveryStatus;
+  projectId?: string;
+  limit: number;
+}) {
+  const rows = await db
+    .select({
+      id: webhookDeliveries.id,
+      subscriptionId: webhookDeliveries.subscriptionId,
+      projectId: webhookDeliveries.projectId,
+      url: webhookSubscriptions.url,
+      eventType: webhookDeliveries.eventType,
+      status: webhookDeliveries.status,
+      attemptCount: webhookDeliveries.attemptCount,
+      lastResponseStatus: webhookDeliveries.lastResponseStatus,
+      lastError: webhookDeliveries.lastError,
+      deliveredAt: webhookDeliveries.deliveredAt,
+      createdAt: webhookDeliveries.createdAt,
+      updatedAt: webhookDeliveries.updatedAt
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+    .where(
+      and(
+        params.status ? eq(webhookDeliveries.status, params.status) : undefined,
+        params.projectId ? eq(webhookDeliveries.projectId, params.projectId) : undefined
+      )
+    )
+    .orderBy(desc(webhookDeliveries.updatedAt))
+    .limit(params.limit);
+
+  return rows.map((row) => ({
+    ...row,
+    deliveredAt: toIsoString(row.deliveredAt),
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: toIsoString(row.updatedAt) ?? new Date(0).toISOString()
+  }));
+}
+
+export async function getWebhookDeliveryDetail(deliveryId: string) {
+  if (!isUuid(deliveryId)) {
+    return null;
+  }
+
+  const delivery = await db.query.webhookDeliveries.findFirst({
+    where: eq(webhookDeliveries.id, deliveryId)
+  });
+  if (!delivery) {
+    return null;
+  }
+
+  const attempts = await db.query.webhookDeliveryAttempts.findMany({
+    where: eq(webhookDeliveryAttempts.deliveryId, delivery.id),
+    orderBy: [webhookDeliveryAttempts.createdAt]
+  });
+
+  return {
+    ...delivery,
+    deliveredAt: toIsoString(delivery.deliveredAt),
+    createdAt: toIsoString(delivery.createdAt) ?? new Date(0).toISOString(),
+    updatedAt: toIsoString(delivery.updatedAt) ?? new Date(0).toISOString(),
+    attempts: attempts.map((attempt) => ({
+      ...attempt,
+      createdAt: toIsoString(attempt.createdAt) ?? new Date(0).toISOString()
+    }))
+  };
+}
+
+/** Puts a delivery back to pending so a fresh `webhook-delivery` job can send it again. */
+export async function resetWebhookDeliveryForRedelivery(deliveryId: string) {
+  const [delivery] = await db
+    .update(webhookDeliveries)
+    .set({
+      status: "pending",
+      updatedAt: new Date()
+    })
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .returning();
+
+  return delivery ?? null;
+}
+
+export async function getLatestProjectState(projectId: string, userId?: string) {
+  const [latestRevision] = await db
+    .select()
+    .from(revisions)
+    .where(eq(revisions.projectId, projectId))
+    .orderBy(desc(revisions.createdAt))
+    .limit(1);
+
+  const [latestAudit] = await db
+    .select()
+    .from(auditRuns)
+    .where(eq(auditRuns.projectId, projectId))
+    .orderBy(desc(auditRuns.createdAt))
+    .limit(1);
+
+  let activeWorkingCopy: typeof workingCopies.$inferSelect | null = null;
+  if (latestRevision && userId) {
+    [activeWorkingCopy] = await db
+      .select()
+      .from(workingCopies)
+      .where(
+        and(
+          eq(workingCopies.projectId, projectId),
+          eq(workingCopies.ownerUserId, userId),
+          eq(workingCopies.baseRevisionId, latestRevision.id),
+          eq(workingCopies.status, "active")
+        )
+      )
+      .orderBy(desc(workingCopies.createdAt))
+      .limit(1);
+  }
+
+  return {
     latestRevision,
     latestAudit,
     activeWorkingCopy
@@ -810,10 +2926,16 @@ type AuditHistoryItem = {
   startedAt: string | null;
   finishedAt: string | null;
   profile: AuditProfile;
+  mode: AuditMode;
   engineVersion: string;
   reportSchemaVersion: number;
   primaryModelId: string;
   fallbackModelId: string;
+  passModels: AuditPassModels | null;
+  consensusModelIds: string[] | null;
+  budget: AuditBudget | null;
+  tokenUsage: AuditTokenUsage | null;
+  costUsd: number | null;
   findingCount: number;
   pdfStatus: AuditHistoryPdfStatus;
   pdfStatusByVariant: AuditHistoryPdfStatusByVariant;
@@ -825,6 +2947,29 @@ type ComparisonFindingSummary = {
   severity: string;
   filePath: string;
   startLine: number;
+  endLine: number;
+};
+
+/** The diff hunk in the newer revision that touches a finding's evidence lines. */
+type ComparisonHunkLink = DiffHunk & {
+  index: number;
+};
+
+type ComparisonFileDiff = {
+  path: string;
+  status: FileChangeStatus;
+  linesAdded: number;
+  linesRemoved: number;
+  hunks: DiffHunk[];
+  truncated: boolean;
+};
+
+type ComparisonFileDiffPage = {
+  offset: number;
+  limit: number;
+  total: number;
+  nextOffset: number | null;
+  files: ComparisonFileDiff[];
 };
 
 type AuditCompareResponse = {
@@ -852,24 +2997,28 @@ type AuditCompareResponse = {
     files: {
       addedCount: number;
       removedCount: number;
+      modifiedCount: number;
       unchangedCount: number;
     };
   };
   findings: {
-    newlyDetected: ComparisonFindingSummary[];
+    newlyDetected: Array<ComparisonFindingSummary & { changedHunk: ComparisonHunkLink | null }>;
     resolved: ComparisonFindingSummary[];
     persisting: Array<
       Omit<ComparisonFindingSummary, "severity"> & {
         fromSeverity: string;
         toSeverity: string;
+        changedHunk: ComparisonHunkLink | null;
       }
     >;
   };
   files: {
     added: string[];
     removed: string[];
+    modified: string[];
     unchanged: string[];
   };
+  diffs: ComparisonFileDiffPage;
 };
 
 type AuditCompareResult =
@@ -914,6 +3063,11 @@ function readFindingSummary(params: {
     typeof startLineRaw === "number" && Number.isFinite(startLineRaw)
       ? Math.max(0, Math.trunc(startLineRaw))
       : 0;
+  const endLineRaw = evidence?.endLine;
+  const endLine =
+    typeof endLineRaw === "number" && Number.isFinite(endLineRaw)
+      ? Math.max(startLine, Math.trunc(endLineRaw))
+      : startLine;
 
   return {
     findingId: params.findingId,
@@ -923,10 +3077,66 @@ function readFindingSummary(params: {
       typeof evidence?.filePath === "string" && evidence.filePath.trim().length
         ? evidence.filePath
         : "unknown",
-    startLine
+    startLine,
+    endLine
+  };
+}
+
+function readFindingIdentity(
+  payloadJson: Record<string, unknown>,
+  summary: ComparisonFindingSummary
+): FindingIdentity {
+  const evidence =
+    payloadJson.evidence && typeof payloadJson.evidence === "object"
+      ? (payloadJson.evidence as Record<string, unknown>)
+      : null;
+
+  return {
+    title: summary.title,
+    filePath: summary.filePath,
+    snippet: typeof evidence?.snippet === "string" ? evidence.snippet : "",
+    enclosingScope: typeof evidence?.enclosingScope === "string" ? evidence.enclosingScope : null
+  };
+}
+
+export type ProjectAuditSpend = {
+  auditCount: number;
+  totalTokens: number;
+  totalCostUsd: number;
+  /** Audits that ran an unpriced model; their tokens count but their cost is not in the total. */
+  unpricedAuditCount: number;
+};
+
+/** Totals over every audit run of the project that recorded token usage. */
+export async function queryProjectAuditSpend(projectId: string): Promise<ProjectAuditSpend> {
+  const [row] = await db
+    .select({
+      auditCount: sql<number>`cast(count(*) as int)`,
+      totalTokens: sql<number>`coalesce(sum((${auditRuns.tokenUsage} ->> 'totalTokens')::bigint), 0)`,
+      totalCostUsd: sql<number>`coalesce(sum(${auditRuns.costUsd}), 0)`,
+      unpricedAuditCount: sql<number>`cast(count(*) filter (where ${auditRuns.costUsd} is null) as int)`
+    })
+    .from(auditRuns)
+    .where(and(eq(auditRuns.projectId, projectId), sql`${auditRuns.tokenUsage} is not null`));
+
+  return {
+    auditCount: Number(row?.auditCount) || 0,
+    totalTokens: Number(row?.totalTokens) || 0,
+    totalCostUsd: Number(row?.totalCostUsd) || 0,
+    unpricedAuditCount: Number(row?.unpricedAuditCount) || 0
   };
 }
 
+export async function updateProjectAuditBudget(projectId: string, budget: AuditBudget | null) {
+  const [updated] = await db
+    .update(projects)
+    .set({ auditBudget: budget, updatedAt: new Date() })
+    .where(eq(projects.id, projectId))
+    .returning({ auditBudget: projects.auditBudget });
+
+  return updated?.auditBudget ?? null;
+}
+
 export async function queryProjectAuditHistory(projectId: string): Promise<AuditHistoryItem[]> {
   const audits = await db
     .select()
@@ -999,10 +3209,16 @@ export async function queryProjectAuditHistory(projectId: string): Promise<Audit
       startedAt: toIsoString(audit.startedAt),
       finishedAt: toIsoString(audit.finishedAt),
       profile: audit.profile,
+      mode: audit.mode,
       engineVersion: audit.engineVersion,
       reportSchemaVersion: audit.reportSchemaVersion,
       primaryModelId: audit.primaryModelId,
       fallbackModelId: audit.fallbackModelId,
+      passModels: audit.passModels ?? null,
+      consensusModelIds: audit.consensusModelIds ?? null,
+      budget: audit.budget ?? null,
+      tokenUsage: audit.tokenUsage ?? null,
+      costUsd: audit.costUsd ?? null,
       findingCount: findingCountByAuditId.get(audit.id) ?? 0,
       pdfStatus: resolveFinalPdfStatus(statusByVariant),
       pdfStatusByVariant: statusByVariant
@@ -1010,10 +3226,84 @@ export async function queryProjectAuditHistory(projectId: string): Promise<Audit
   });
 }
 
+type RevisionFileFingerprint = Awaited<ReturnType<typeof listRevisionFileFingerprints>>[number];
+
+/**
+ * Classifies files between two revisions by blob hash. Patches are built lazily and once per
+ * path, since findings and a diff page can need the same file.
+ */
+function createRevisionFileDiff(
+  olderFiles: RevisionFileFingerprint[],
+  newerFiles: RevisionFileFingerprint[]
+) {
+  const changes = classifyFileChanges(olderFiles, newerFiles);
+  const olderFileByPath = new Map(olderFiles.map((row) => [row.path, row]));
+  const newerFileByPath = new Map(newerFiles.map((row) => [row.path, row]));
+  const changedFiles: Array<{ path: string; status: FileChangeStatus }> = [
+    ...changes.modified.map((path) => ({ path, status: "modified" as const })),
+    ...changes.added.map((path) => ({ path, status: "added" as const })),
+    ...changes.removed.map((path) => ({ path, status: "removed" as const }))
+  ].sort((left, right) => left.path.localeCompare(right.path));
+
+  const patchByPath = new Map<string, Promise<FilePatch>>();
+  const loadFilePatch = (path: string) => {
+    let patch = patchByPath.get(path);
+    if (!patch) {
+      const older = olderFileByPath.get(path);
+      const newer = newerFileByPath.get(path);
+      patch = Promise.all([
+        older ? getObjectText(older.s3Key).then((text) => text ?? "") : null,
+        newer ? getObjectText(newer.s3Key).then((text) => text ?? "") : null
+      ]).then(([before, after]) => createFilePatch({ path, before, after }));
+      patchByPath.set(path, patch);
+    }
+    return patch;
+  };
+
+  /** Returns up to `limit` file diffs, stopping early once hunks reach AUDIT_COMPARE_DIFF_PAGE_MAX_LINES. */
+  const loadDiffPage = async (offset = 0, limit = 20): Promise<ComparisonFileDiffPage> => {
+    const pageOffset = Math.max(0, offset);
+    const pageLimit = Math.max(1, limit);
+    const files: ComparisonFileDiff[] = [];
+    let lineCount = 0;
+    for (const { path, status } of changedFiles.slice(pageOffset, pageOffset + pageLimit)) {
+      if (files.length && lineCount >= AUDIT_COMPARE_DIFF_PAGE_MAX_LINES) {
+        break;
+      }
+
+      const { hunks, linesAdded, linesRemoved, truncated } = await loadFilePatch(path);
+      lineCount += hunks.reduce((total, hunk) => total + hunk.lines.length, 0);
+      files.push({ path, status, linesAdded, linesRemoved, hunks, truncated });
+    }
+
+    const end = pageOffset + files.length;
+    return {
+      offset: pageOffset,
+      limit: pageLimit,
+      total: changedFiles.length,
+      nextOffset: end < changedFiles.length ? end : null,
+      files
+    };
+  };
+
+  return {
+    changes,
+    statusByPath: new Map(changedFiles.map((file) => [file.path, file.status])),
+    loadFilePatch,
+    loadDiffPage
+  };
+}
+
+/**
+ * Compares two completed audits of a project. Files are classified by blob hash, and changed
+ * files get line diffs paginated by `diffOffset`/`diffLimit`.
+ */
 export async function getAuditComparison(params: {
   projectId: string;
   fromAuditId: string;
   toAuditId: string;
+  diffOffset?: number;
+  diffLimit?: number;
 }): Promise<AuditCompareResult> {
   const uniqueAuditIds = [...new Set([params.fromAuditId, params.toAuditId])];
   if (uniqueAuditIds.length !== 2) {
@@ -1058,22 +3348,13 @@ export async function getAuditComparison(params: {
       })
       .from(findingInstances)
       .where(inArray(findingInstances.auditRunId, [olderAudit.id, newerAudit.id])),
-    db
-      .select({
-        path: revisionFiles.path
-      })
-      .from(revisionFiles)
-      .where(eq(revisionFiles.revisionId, olderAudit.revisionId)),
-    db
-      .select({
-        path: revisionFiles.path
-      })
-      .from(revisionFiles)
-      .where(eq(revisionFiles.revisionId, newerAudit.revisionId))
+    listRevisionFileFingerprints(olderAudit.revisionId),
+    listRevisionFileFingerprints(newerAudit.revisionId)
   ]);
 
   const olderFindingsById = new Map<string, ComparisonFindingSummary>();
   const newerFindingsById = new Map<string, ComparisonFindingSummary>();
+  const identityByAuditFinding = new Map<string, FindingIdentity>();
 
   for (const row of findingRows) {
     const summary = readFindingSummary({
@@ -1087,41 +3368,90 @@ export async function getAuditComparison(params: {
     } else if (row.auditRunId === newerAudit.id) {
       newerFindingsById.set(row.findingId, summary);
     }
+    identityByAuditFinding.set(
+      `${row.auditRunId}:${row.findingId}`,
+      readFindingIdentity(row.payloadJson ?? {}, summary)
+    );
   }
 
-  const newlyDetected = [...newerFindingsById.entries()]
-    .filter(([findingId]) => !olderFindingsById.has(findingId))
-    .map(([, summary]) => summary)
+  const unmatchedOlder = [...olderFindingsById.values()].filter(
+    (summary) => !newerFindingsById.has(summary.findingId)
+  );
+  const unmatchedNewer = [...newerFindingsById.values()].filter(
+    (summary) => !olderFindingsById.has(summary.findingId)
+  );
+
+  // Findings persisted before line-shift tolerant fingerprints may still be split across rows.
+  const fuzzyMatches = matchFindingIdentities(
+    unmatchedOlder.map(
+      (summary) => identityByAuditFinding.get(`${olderAudit.id}:${summary.findingId}`)!
+    ),
+    unmatchedNewer.map(
+      (summary) => identityByAuditFinding.get(`${newerAudit.id}:${summary.findingId}`)!
+    )
+  );
+  const fuzzyOlderIds = new Set(
+    fuzzyMatches.map((match) => unmatchedOlder[match.previousIndex]!.findingId)
+  );
+  const fuzzyNewerIds = new Set(
+    fuzzyMatches.map((match) => unmatchedNewer[match.currentIndex]!.findingId)
+  );
+
+  const newlyDetected = unmatchedNewer
+    .filter((summary) => !fuzzyNewerIds.has(summary.findingId))
     .sort((left, right) => left.title.localeCompare(right.title));
-  const resolved = [...olderFindingsById.entries()]
-    .filter(([findingId]) => !newerFindingsById.has(findingId))
-    .map(([, summary]) => summary)
+  const resolved = unmatchedOlder
+    .filter((summary) => !fuzzyOlderIds.has(summary.findingId))
     .sort((left, right) => left.title.localeCompare(right.title));
 
-  const persisting = [...newerFindingsById.entries()]
-    .filter(([findingId]) => olderFindingsById.has(findingId))
-    .map(([findingId, toSummary]) => {
-      const fromSummary = olderFindingsById.get(findingId)!;
-      return {
-        findingId,
-        title: toSummary.title,
-        fromSeverity: fromSummary.severity,
-        toSeverity: toSummary.severity,
-        filePath: toSummary.filePath,
-        startLine: toSummary.startLine
-      };
-    })
-    .sort((left, right) => left.title.localeCompare(right.title));
+  const toPersistingEntry = (
+    fromSummary: ComparisonFindingSummary,
+    toSummary: ComparisonFindingSummary
+  ) => ({
+    findingId: toSummary.findingId,
+    title: toSummary.title,
+    fromSeverity: fromSummary.severity,
+    toSeverity: toSummary.severity,
+    filePath: toSummary.filePath,
+    startLine: toSummary.startLine,
+    endLine: toSummary.endLine
+  });
+
+  const persisting = [
+    ...[...newerFindingsById.values()]
+      .filter((summary) => olderFindingsById.has(summary.findingId))
+      .map((toSummary) => toPersistingEntry(olderFindingsById.get(toSummary.findingId)!, toSummary)),
+    ...fuzzyMatches.map((match) =>
+      toPersistingEntry(unmatchedOlder[match.previousIndex]!, unmatchedNewer[match.currentIndex]!)
+    )
+  ].sort((left, right) => left.title.localeCompare(right.title));
 
   const severityChangedCount = persisting.filter(
     (entry) => entry.fromSeverity !== entry.toSeverity
   ).length;
 
-  const olderFileSet = new Set(olderFileRows.map((row) => row.path));
-  const newerFileSet = new Set(newerFileRows.map((row) => row.path));
-  const added = [...newerFileSet].filter((path) => !olderFileSet.has(path)).sort((a, b) => a.localeCompare(b));
-  const removed = [...olderFileSet].filter((path) => !newerFileSet.has(path)).sort((a, b) => a.localeCompare(b));
-  const unchanged = [...newerFileSet].filter((path) => olderFileSet.has(path)).sort((a, b) => a.localeCompare(b));
+  const revisionDiff = createRevisionFileDiff(olderFileRows, newerFileRows);
+  const fileChanges = revisionDiff.changes;
+
+  const linkChangedHunk = async <T extends { filePath: string; startLine: number; endLine: number }>(
+    entry: T
+  ): Promise<T & { changedHunk: ComparisonHunkLink | null }> => {
+    const status = revisionDiff.statusByPath.get(entry.filePath);
+    if (status !== "modified" && status !== "added") {
+      return { ...entry, changedHunk: null };
+    }
+
+    const { hunks } = await revisionDiff.loadFilePatch(entry.filePath);
+    const index = findHunkTouchingLines(hunks, entry.startLine, entry.endLine);
+    return { ...entry, changedHunk: index >= 0 ? { ...hunks[index]!, index } : null };
+  };
+
+  const [linkedNewlyDetected, linkedPersisting] = await Promise.all([
+    Promise.all(newlyDetected.map(linkChangedHunk)),
+    Promise.all(persisting.map(linkChangedHunk))
+  ]);
+
+  const diffs = await revisionDiff.loadDiffPage(params.diffOffset, params.diffLimit);
 
   return {
     kind: "ok",
@@ -1148,25 +3478,153 @@ export async function getAuditComparison(params: {
           severityChangedCount
         },
         files: {
-          addedCount: added.length,
-          removedCount: removed.length,
-          unchangedCount: unchanged.length
+          addedCount: fileChanges.added.length,
+          removedCount: fileChanges.removed.length,
+          modifiedCount: fileChanges.modified.length,
+          unchangedCount: fileChanges.unchanged.length
         }
       },
       findings: {
-        newlyDetected,
+        newlyDetected: linkedNewlyDetected,
         resolved,
-        persisting
+        persisting: linkedPersisting
       },
-      files: {
-        added,
-        removed,
-        unchanged
-      }
+      files: fileChanges,
+      diffs
     }
   };
 }
 
+/** Lists a project's revisions newest first, with parent links, creator and attached audits. */
+export async function getProjectRevisionGraph(projectId: string) {
+  const rows = await db
+    .select({
+      id: revisions.id,
+      parentRevisionId: revisions.parentRevisionId,
+      source: revisions.source,
+      description: revisions.description,
+      createdAt: revisions.createdAt,
+      createdByUserId: revisions.createdByUserId,
+      createdByName: users.name,
+      createdByImage: users.image
+    })
+    .from(revisions)
+    .leftJoin(users, eq(revisions.createdByUserId, users.id))
+    .where(eq(revisions.projectId, projectId))
+    .orderBy(desc(revisions.createdAt));
+
+  const revisionIds = rows.map((row) => row.id);
+  const auditRows = revisionIds.length
+    ? await db
+        .select({
+          id: auditRuns.id,
+          revisionId: auditRuns.revisionId,
+          status: auditRuns.status,
+          profile: auditRuns.profile,
+          createdAt: auditRuns.createdAt
+        })
+        .from(auditRuns)
+        .where(inArray(auditRuns.revisionId, revisionIds))
+        .orderBy(desc(auditRuns.createdAt))
+    : [];
+
+  const auditsByRevisionId = new Map<
+    string,
+    Array<{ id: string; status: AuditRun["status"]; profile: AuditProfile; createdAt: string }>
+  >();
+  for (const audit of auditRows) {
+    const audits = auditsByRevisionId.get(audit.revisionId) ?? [];
+    audits.push({
+      id: audit.id,
+      status: audit.status,
+      profile: audit.profile,
+      createdAt: toIsoString(audit.createdAt) ?? new Date(0).toISOString()
+    });
+    auditsByRevisionId.set(audit.revisionId, audits);
+  }
+
+  const knownRevisionIds = new Set(revisionIds);
+  return rows.map((row) => ({
+    id: row.id,
+    // Parents outside the project cannot be drawn, so they are treated as roots.
+    parentRevisionId:
+      row.parentRevisionId && knownRevisionIds.has(row.parentRevisionId)
+        ? row.parentRevisionId
+        : null,
+    source: row.source,
+    description: row.description,
+    createdAt: toIsoString(row.createdAt) ?? new Date(0).toISOString(),
+    createdBy: {
+      id: row.createdByUserId,
+      name: row.createdByName ?? null,
+      image: row.createdByImage ?? null
+    },
+    audits: auditsByRevisionId.get(row.id) ?? []
+  }));
+}
+
+/**
+ * Diffs two revisions of a project in the given direction, with line diffs paginated like
+ * audit comparisons. Returns null when either revision is not part of the project.
+ */
+export async function compareProjectRevisions(params: {
+  projectId: string;
+  fromRevisionId: string;
+  toRevisionId: string;
+  diffOffset?: number;
+  diffLimit?: number;
+}) {
+  if (!isUuid(params.fromRevisionId) || !isUuid(params.toRevisionId)) {
+    return null;
+  }
+
+  const selectedRevisions = await db
+    .select({
+      id: revisions.id,
+      source: revisions.source,
+      description: revisions.description,
+      createdAt: revisions.createdAt
+    })
+    .from(revisions)
+    .where(
+      and(
+        eq(revisions.projectId, params.projectId),
+        inArray(revisions.id, [params.fromRevisionId, params.toRevisionId])
+      )
+    );
+
+  const fromRevision = selectedRevisions.find((revision) => revision.id === params.fromRevisionId);
+  const toRevision = selectedRevisions.find((revision) => revision.id === params.toRevisionId);
+  if (!fromRevision || !toRevision) {
+    return null;
+  }
+
+  const [fromFiles, toFiles] = await Promise.all([
+    listRevisionFileFingerprints(fromRevision.id),
+    listRevisionFileFingerprints(toRevision.id)
+  ]);
+  const revisionDiff = createRevisionFileDiff(fromFiles, toFiles);
+  const diffs = await revisionDiff.loadDiffPage(params.diffOffset, params.diffLimit);
+  const toSummary = (revision: typeof fromRevision) => ({
+    ...revision,
+    createdAt: toIsoString(revision.createdAt) ?? new Date(0).toISOString()
+  });
+
+  return {
+    fromRevision: toSummary(fromRevision),
+    toRevision: toSummary(toRevision),
+    summary: {
+      addedCount: revisionDiff.changes.added.length,
+      removedCount: revisionDiff.changes.removed.length,
+      modifiedCount: revisionDiff.changes.modified.length,
+      unchangedCount: revisionDiff.changes.unchanged.length,
+      description: describeFileChanges(revisionDiff.changes)
+    },
+    files: revisionDiff.changes,
+    diffs
+  };
+}
+
 export async function createPdfExport(auditRunId: string, variant: PdfExportVariant = FINAL_PDF_VARIANT) {
   const [record] = await db
     .insert(pdfExports)
@@ -1194,15 +3652,8 @@ export async function getPdfExportByAudit(
   auditRunId: string,
   variant: PdfExportVariant = FINAL_PDF_VARIANT
 ) {
-  const requestedVariant = await db.query.pdfExports.findFirst({
-    where: and(eq(pdfExports.auditRunId, auditRunId), eq(pdfExports.variant, variant))
-  });
-
-  if (requestedVariant || variant === "client") {
-    return requestedVariant;
-  }
-
+  // Variants are cached independently: a client PDF must never stand in for the internal one.
   return db.query.pdfExports.findFirst({
-    where: and(eq(pdfExports.auditRunId, auditRunId), eq(pdfExports.variant, "client"))
+    where: and(eq(pdfExports.auditRunId, auditRunId), eq(pdfExports.variant, variant))
   });
 }
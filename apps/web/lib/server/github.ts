@@ -0,0 +1,36 @@
+const GITHUB_API_URL = "https://api.github.com";
+const GITHUB_LOOKUP_TIMEOUT_MS = 5_000;
+
+export type GitHubUserRef = {
+  id: string;
+  login: string;
+};
+
+/**
+ * Resolves a GitHub login to its numeric account id, which is what sign-in stores in
+ * `accounts.accountId`. Logins can be renamed; the id cannot. Returns null for unknown logins.
+ */
+export async function resolveGitHubUser(login: string): Promise<GitHubUserRef | null> {
+  const response = await fetch(`${GITHUB_API_URL}/users/${encodeURIComponent(login)}`, {
+    headers: {
+      Accept: "application/vnd.github+json",
+      "User-Agent": "ton-audit"
+    },
+    signal: AbortSignal.timeout(GITHUB_LOOKUP_TIMEOUT_MS)
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`GitHub user lookup failed with HTTP ${response.status}`);
+  }
+
+  const body = (await response.json()) as { id?: unknown; login?: unknown };
+  if (typeof body.id !== "number" || typeof body.login !== "string") {
+    return null;
+  }
+
+  return { id: String(body.id), login: body.login };
+}
@@ -21,3 +21,14 @@ export function assertAllowedModel(modelId: string, allowlist: string[]) {
     );
   }
 }
+
+/** Cost budgets can only be enforced when every model the run may use has a price. */
+export function assertPricedModels(modelIds: string[], prices: Record<string, unknown>) {
+  const unpriced = [...new Set(modelIds)].filter((modelId) => !prices[modelId]);
+  if (unpriced.length) {
+    throw new ModelAllowlistError(
+      `A cost budget needs a price for every model; unpriced: ${unpriced.join(", ")}`,
+      400
+    );
+  }
+}
@@ -1,36 +1,95 @@
-import { eq } from "drizzle-orm";
-import { systemSettings } from "@ton-audit/shared";
+import { and, eq } from "drizzle-orm";
+import {
+  AUDIT_MODEL_ALLOWLIST_SETTING_KEY,
+  type ModelPrice,
+  modelAllowlistSchema,
+  narrowModelAllowlist,
+  organizationSettings,
+  systemSettings
+} from "@ton-audit/shared";
 
-import { assertAllowedModel } from "./model-allowlist-core";
+import { assertAllowedModel, assertPricedModels } from "./model-allowlist-core";
 import { db } from "./db";
 import { env } from "./env";
-export { assertAllowedModel };
+export { assertAllowedModel, assertPricedModels };
 
-// TTL cache so every audit request does not hit the database.
-const CACHE_TTL_MS = 30_000;
-let cachedAllowlist: string[] | null = null;
-let cacheExpiresAt = 0;
+type ResolvedAllowlist = { models: string[]; prices: Record<string, ModelPrice> };
 
-export async function getAuditModelAllowlist(): Promise<string[]> {
-  const now = Date.now();
-  if (cachedAllowlist && now < cacheExpiresAt) {
-    return cachedAllowlist;
-  }
-
-  const setting = await db.query.systemSettings.findFirst({
-    where: eq(systemSettings.key, "audit_model_allowlist")
-  });
+// TTL cache so every audit request does not hit the database. Keyed by organization id, with
+// SYSTEM_CACHE_KEY for personal projects.
+const CACHE_TTL_MS = 30_000;
+const SYSTEM_CACHE_KEY = "system";
+const cachedAllowlists = new Map<string, ResolvedAllowlist & { expiresAt: number }>();
 
-  const fromSetting = Array.isArray((setting?.value as { models?: unknown[] } | null)?.models)
-    ? ((setting?.value as { models: unknown[] }).models ?? [])
+function readAllowlistSetting(value: unknown) {
+  const models = (value as { models?: unknown[] } | null | undefined)?.models;
+  return Array.isArray(models)
+    ? models
         .map((item) => String(item).trim())
         .filter((model, index, entries) => Boolean(model) && entries.indexOf(model) === index)
     : [];
+}
+
+function readAllowlistPrices(value: unknown): Record<string, ModelPrice> {
+  const prices = (value as { prices?: unknown } | null | undefined)?.prices;
+  return modelAllowlistSchema.shape.prices.safeParse(prices).data ?? {};
+}
+
+async function resolveAuditModelAllowlist(
+  organizationId?: string | null
+): Promise<ResolvedAllowlist> {
+  const now = Date.now();
+  const cacheKey = organizationId ?? SYSTEM_CACHE_KEY;
+  const cached = cachedAllowlists.get(cacheKey);
+  if (cached && now < cached.expiresAt) {
+    return cached;
+  }
+
+  const [organizationSetting, setting] = await Promise.all([
+    organizationId
+      ? db.query.organizationSettings.findFirst({
+          where: and(
+            eq(organizationSettings.organizationId, organizationId),
+            eq(organizationSettings.key, AUDIT_MODEL_ALLOWLIST_SETTING_KEY)
+          )
+        })
+      : undefined,
+    db.query.systemSettings.findFirst({
+      where: eq(systemSettings.key, AUDIT_MODEL_ALLOWLIST_SETTING_KEY)
+    })
+  ]);
 
-  const result = fromSetting.length ? fromSetting : env.AUDIT_MODEL_ALLOWLIST;
+  const fromSetting = readAllowlistSetting(setting?.value);
+  const systemModels = fromSetting.length ? fromSetting : env.AUDIT_MODEL_ALLOWLIST;
+  const result = {
+    models: narrowModelAllowlist(
+      systemModels,
+      readAllowlistSetting(organizationSetting?.value)
+    ),
+    // Prices always come from the system allowlist; organizations cannot set their own.
+    prices: fromSetting.length ? readAllowlistPrices(setting?.value) : {}
+  };
 
-  cachedAllowlist = result;
-  cacheExpiresAt = now + CACHE_TTL_MS;
+  cachedAllowlists.set(cacheKey, { ...result, expiresAt: now + CACHE_TTL_MS });
 
   return result;
 }
+
+/**
+ * Resolves the system allowlist from settings, then env, narrowed by the organization override.
+ */
+export async function getAuditModelAllowlist(organizationId?: string | null): Promise<string[]> {
+  return (await resolveAuditModelAllowlist(organizationId)).models;
+}
+
+/** Prices of the allowlist `getAuditModelAllowlist` resolves, keyed by model id. */
+export async function getAuditModelPrices(
+  organizationId?: string | null
+): Promise<Record<string, ModelPrice>> {
+  return (await resolveAuditModelAllowlist(organizationId)).prices;
+}
+
+/** Drops cached allowlists after an organization changes its override. */
+export function invalidateAuditModelAllowlist(organizationId?: string | null) {
+  cachedAllowlists.delete(organizationId ?? SYSTEM_CACHE_KEY);
+}
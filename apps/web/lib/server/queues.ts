@@ -4,7 +4,8 @@ import {
   type JobPayloadMap,
   jobStepSchema,
   queueNames,
-  type JobStep
+  type JobStep,
+  webhookDeliveryJobOptions
 } from "@ton-audit/shared";
 
 import { getRedisConnection } from "./redis";
@@ -18,6 +19,7 @@ type QueueMap = {
   docsCrawl: Queue<JobPayloadMap["docs-crawl"]>;
   docsIndex: Queue<JobPayloadMap["docs-index"]>;
   cleanup: Queue<JobPayloadMap["cleanup"]>;
+  webhookDelivery: Queue<JobPayloadMap["webhook-delivery"]>;
 };
 
 let queueCache: QueueMap | null = null;
@@ -52,7 +54,8 @@ function buildQueues(): QueueMap {
     pdf: createQueue(queueNames.pdf),
     docsCrawl: createQueue(queueNames.docsCrawl),
     docsIndex: createQueue(queueNames.docsIndex),
-    cleanup: createQueue(queueNames.cleanup)
+    cleanup: createQueue(queueNames.cleanup),
+    webhookDelivery: createQueue(queueNames.webhookDelivery)
   };
 }
 
@@ -91,6 +94,8 @@ function getOperatorQueue(step: JobStep) {
       return current.docsIndex;
     case "cleanup":
       return current.cleanup;
+    case "webhook-delivery":
+      return current.webhookDelivery;
   }
 }
 
@@ -134,6 +139,11 @@ export function enqueueJob(
   payload: JobPayloadMap["cleanup"],
   jobId: string
 ): Promise<Awaited<ReturnType<typeof queues.cleanup.add>>>;
+export function enqueueJob(
+  step: "webhook-delivery",
+  payload: JobPayloadMap["webhook-delivery"],
+  jobId: string
+): Promise<Awaited<ReturnType<typeof queues.webhookDelivery.add>>>;
 export async function enqueueJob(
   step: keyof JobPayloadMap,
   payload: JobPayloadMap[keyof JobPayloadMap],
@@ -161,6 +171,11 @@ export async function enqueueJob(
       return current.docsIndex.add(step, payload as JobPayloadMap["docs-index"], { jobId: safeJobId });
     case "cleanup":
       return current.cleanup.add(step, payload as JobPayloadMap["cleanup"], { jobId: safeJobId });
+    case "webhook-delivery":
+      return current.webhookDelivery.add(step, payload as JobPayloadMap["webhook-delivery"], {
+        jobId: safeJobId,
+        ...webhookDeliveryJobOptions
+      });
     default:
       throw new Error(`Unsupported queue step: ${String(step)}`);
   }
@@ -218,3 +233,31 @@ export async function replayDeadLetterJob(step: JobStep, jobId: string) {
     jobId: String(job.id)
   };
 }
+
+const PENDING_JOB_STATES = new Set(["waiting", "delayed", "prioritized", "waiting-children"]);
+
+export async function removePendingAuditRunJobs(projectId: string, auditRunId: string) {
+  const current = getQueues();
+  const candidates = [
+    current.verify.getJob(toBullMqJobId(`verify:${projectId}:${auditRunId}`)),
+    current.audit.getJob(toBullMqJobId(`audit:${projectId}:${auditRunId}`))
+  ];
+  const removedJobIds: string[] = [];
+
+  for (const job of await Promise.all(candidates)) {
+    if (!job) {
+      continue;
+    }
+
+    // Active jobs observe the cancelled run status and stop on their own.
+    const state = await job.getState();
+    if (!PENDING_JOB_STATES.has(state)) {
+      continue;
+    }
+
+    await job.remove();
+    removedJobIds.push(String(job.id));
+  }
+
+  return removedJobIds;
+}
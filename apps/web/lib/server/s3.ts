@@ -246,3 +246,28 @@ export async function getObjectText(key: string): Promise<string | null> {
   const streamText = await response.Body.transformToString();
   return streamText;
 }
+
+export async function getObjectBytes(key: string): Promise<Uint8Array | null> {
+  const s3Client = getS3Client();
+  let response;
+  try {
+    response = await s3Client.send(
+      new GetObjectCommand({
+        Bucket: getBucketName(),
+        Key: key
+      })
+    );
+  } catch (error) {
+    if (isS3NotFoundError(error)) {
+      return null;
+    }
+
+    throw error;
+  }
+
+  if (!response.Body) {
+    return null;
+  }
+
+  return response.Body.transformToByteArray();
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  authenticateApiToken: vi.fn(),
+  getSession: vi.fn()
+}));
+
+vi.mock("../lib/server/api-tokens", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../lib/server/api-tokens")>();
+  return {
+    ...actual,
+    authenticateApiToken: mocks.authenticateApiToken
+  };
+});
+
+vi.mock("../lib/server/auth", () => ({
+  auth: {
+    api: {
+      getSession: mocks.getSession
+    }
+  }
+}));
+
+import { requireSession } from "../lib/server/api";
+import {
+  generateApiToken,
+  hashApiToken,
+  readBearerToken,
+  requiredApiTokenScope
+} from "../lib/server/api-tokens";
+
+const tokenUser = {
+  id: "user-1",
+  name: "CI",
+  email: "ci@example.com",
+  emailVerified: true,
+  image: null,
+  createdAt: new Date("2026-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2026-01-01T00:00:00.000Z")
+};
+
+function bearerRequest(url: string, method = "GET") {
+  return new Request(url, {
+    method,
+    headers: { authorization: "Bearer tat_example-token" }
+  });
+}
+
+describe("api tokens", () => {
+  beforeEach(() => {
+    mocks.authenticateApiToken.mockReset();
+    mocks.getSession.mockReset();
+  });
+
+  it("generates prefixed tokens and stores only their hash", () => {
+    const generated = generateApiToken();
+
+    expect(generated.token.startsWith("tat_")).toBe(true);
+    expect(generated.tokenHash).toBe(hashApiToken(generated.token));
+    expect(generated.tokenHash).not.toContain(generated.token);
+    expect(generated.token.startsWith(generated.tokenPrefix)).toBe(true);
+    expect(generated.tokenPrefix.length).toBeLessThan(generated.token.length);
+  });
+
+  it("only reads bearer credentials that look like API tokens", () => {
+    expect(readBearerToken(new Headers({ authorization: "Bearer tat_abc" }))).toBe("tat_abc");
+    expect(readBearerToken(new Headers({ authorization: "Bearer something-else" }))).toBeNull();
+    expect(readBearerToken(new Headers({ authorization: "Basic dXNlcjpwYXNz" }))).toBeNull();
+    expect(readBearerToken(new Headers())).toBeNull();
+  });
+
+  it("maps endpoints to the scope a token needs", () => {
+    expect(requiredApiTokenScope("GET", "/api/projects/p1/audits")).toBe("projects:read");
+    expect(requiredApiTokenScope("POST", "/api/projects/p1/uploads/init")).toBe("projects:write");
+    expect(
+      requiredApiTokenScope("POST", "/api/projects/p1/working-copies/w1/run-audit")
+    ).toBe("audits:run");
+    expect(requiredApiTokenScope("GET", "/api/projects/p1/audits/a1/sarif")).toBe("reports:read");
+    expect(requiredApiTokenScope("POST", "/api/projects/p1/audits/a1/pdf")).toBe("reports:read");
+    expect(requiredApiTokenScope("GET", "/api/admin/queues/dead-letter")).toBe("admin");
+    expect(requiredApiTokenScope("POST", "/api/account/api-tokens")).toBeNull();
+  });
+
+  it("authenticates bearer tokens that carry the required scope", async () => {
+    mocks.authenticateApiToken.mockResolvedValueOnce({
+      user: tokenUser,
+      apiToken: { id: "token-1", scopes: ["audits:run"] }
+    });
+
+    const session = await requireSession(
+      bearerRequest("http://localhost/api/projects/p1/working-copies/w1/run-audit", "POST")
+    );
+
+    expect(mocks.authenticateApiToken).toHaveBeenCalledWith("tat_example-token");
+    expect(mocks.getSession).not.toHaveBeenCalled();
+    expect(session).toEqual({
+      user: tokenUser,
+      apiToken: { id: "token-1", scopes: ["audits:run"] },
+      client: { ipAddress: null, userAgent: null }
+    });
+  });
+
+  it("rejects tokens without the required scope", async () => {
+    mocks.authenticateApiToken.mockResolvedValueOnce({
+      user: tokenUser,
+      apiToken: { id: "token-1", scopes: ["projects:read"] }
+    });
+
+    await expect(
+      requireSession(bearerRequest("http://localhost/api/projects/p1/audits/a1/sarif"))
+    ).rejects.toMatchObject({
+      message: "API token is missing the reports:read scope",
+      statusCode: 403
+    });
+  });
+
+  it("rejects unknown, revoked or expired tokens", async () => {
+    mocks.authenticateApiToken.mockResolvedValueOnce(null);
+
+    await expect(
+      requireSession(bearerRequest("http://localhost/api/projects/p1/audits"))
+    ).rejects.toMatchObject({
+      message: "Invalid or expired API token",
+      statusCode: 401
+    });
+  });
+
+  it("does not let tokens manage tokens", async () => {
+    mocks.authenticateApiToken.mockResolvedValueOnce({
+      user: tokenUser,
+      apiToken: { id: "token-1", scopes: ["projects:read", "projects:write"] }
+    });
+
+    await expect(
+      requireSession(bearerRequest("http://localhost/api/account/api-tokens", "POST"))
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("falls back to the browser session without a bearer token", async () => {
+    mocks.getSession.mockResolvedValueOnce({
+      session: { id: "session-1", ipAddress: "203.0.113.7", userAgent: null },
+      user: tokenUser
+    });
+
+    const session = await requireSession(
+      new Request("http://localhost/api/projects", {
+        headers: { "User-Agent": "vitest", "X-Forwarded-For": "198.51.100.2, 10.0.0.1" }
+      })
+    );
+
+    expect(session).toEqual({
+      user: tokenUser,
+      apiToken: null,
+      client: { ipAddress: "203.0.113.7", userAgent: "vitest" }
+    });
+    expect(mocks.authenticateApiToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+vi.mock("@/lib/server/queues", async () => {
+  const fixture = await import("./fixtures/server-queues-mocks");
+  return fixture.serverQueuesMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  resetServerQueuesMocks,
+  serverQueuesMocks
+} from "./fixtures/server-queues-mocks";
+import { POST as cancelAuditRoute } from "../app/api/projects/[projectId]/audits/[auditId]/cancel/route";
+
+function callCancelRoute() {
+  return cancelAuditRoute(new Request("http://localhost/cancel", { method: "POST" }), {
+    params: Promise.resolve({ projectId: "project-1", auditId: "audit-1" })
+  });
+}
+
+describe("audit cancel route", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+    resetServerQueuesMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({
+      id: "project-1",
+      lifecycleState: "ready"
+    });
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValue({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "running"
+    });
+    serverDomainMocks.cancelAuditRun.mockResolvedValue({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "cancelled"
+    });
+    serverQueuesMocks.removePendingAuditRunJobs.mockResolvedValue(["audit__project-1__audit-1"]);
+  });
+
+  it("returns 404 when project access is denied", async () => {
+    serverDomainMocks.ensureProjectAccess.mockResolvedValueOnce(null);
+
+    const response = await callCancelRoute();
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: "Project not found" });
+    expect(serverDomainMocks.cancelAuditRun).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the audit does not belong to the project", async () => {
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValueOnce(undefined);
+
+    const response = await callCancelRoute();
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: "Audit not found" });
+  });
+
+  it("rejects cancellation of audits that already finished", async () => {
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValueOnce({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "completed"
+    });
+
+    const response = await callCancelRoute();
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toEqual({
+      error: "Audit cannot be cancelled while status is 'completed'."
+    });
+    expect(serverDomainMocks.cancelAuditRun).not.toHaveBeenCalled();
+    expect(serverQueuesMocks.removePendingAuditRunJobs).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the audit finishes before the cancel is applied", async () => {
+    serverDomainMocks.cancelAuditRun.mockResolvedValueOnce(null);
+
+    const response = await callCancelRoute();
+
+    expect(response.status).toBe(409);
+    expect(serverQueuesMocks.removePendingAuditRunJobs).not.toHaveBeenCalled();
+  });
+
+  it("marks the run cancelled and removes pending jobs", async () => {
+    const response = await callCancelRoute();
+
+    expect(response.status).toBe(200);
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "cancel-audit",
+      20,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.cancelAuditRun).toHaveBeenCalledWith("project-1", "audit-1");
+    expect(serverQueuesMocks.removePendingAuditRunJobs).toHaveBeenCalledWith(
+      "project-1",
+      "audit-1"
+    );
+    await expect(response.json()).resolves.toEqual({
+      audit: {
+        id: "audit-1",
+        projectId: "project-1",
+        status: "cancelled"
+      },
+      removedJobIds: ["audit__project-1__audit-1"]
+    });
+  });
+});
@@ -2,21 +2,26 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 const mocks = vi.hoisted(() => {
   const selectQueue: unknown[] = [];
+  const where = vi.fn(async () => {
+    return (selectQueue.shift() ?? []) as unknown[];
+  });
   const select = vi.fn(() => ({
     from: vi.fn(() => ({
-      where: vi.fn(async () => {
-        return (selectQueue.shift() ?? []) as unknown[];
-      })
+      where,
+      innerJoin: vi.fn(() => ({ where }))
     }))
   }));
+  const objectText = new Map<string, string>();
 
   return {
     select,
+    objectText,
     enqueueSelectResult(value: unknown) {
       selectQueue.push(value);
     },
     reset() {
       selectQueue.length = 0;
+      objectText.clear();
     }
   };
 });
@@ -28,7 +33,7 @@ vi.mock("../lib/server/db", () => ({
 }));
 
 vi.mock("../lib/server/s3", () => ({
-  getObjectText: vi.fn(),
+  getObjectText: vi.fn(async (key: string) => mocks.objectText.get(key) ?? null),
   putObject: vi.fn()
 }));
 
@@ -90,13 +95,13 @@ describe("getAuditComparison", () => {
     ]);
 
     mocks.enqueueSelectResult([
-      { path: "contracts/a.tolk" },
-      { path: "contracts/shared.tolk" }
+      { path: "contracts/a.tolk", sha256: "a", s3Key: "blob/a" },
+      { path: "contracts/shared.tolk", sha256: "shared", s3Key: "blob/shared" }
     ]);
 
     mocks.enqueueSelectResult([
-      { path: "contracts/shared.tolk" },
-      { path: "contracts/new.tolk" }
+      { path: "contracts/shared.tolk", sha256: "shared", s3Key: "blob/shared" },
+      { path: "contracts/new.tolk", sha256: "new", s3Key: "blob/new" }
     ]);
 
     const result = await getAuditComparison({
@@ -137,6 +142,185 @@ describe("getAuditComparison", () => {
     });
   });
 
+  it("treats a finding that only moved lines as persisting even across fingerprint rows", async () => {
+    mocks.enqueueSelectResult([
+      {
+        id: "audit-old",
+        projectId: "project-1",
+        revisionId: "rev-old",
+        status: "completed",
+        createdAt: new Date("2026-01-01T10:00:00.000Z")
+      },
+      {
+        id: "audit-new",
+        projectId: "project-1",
+        revisionId: "rev-new",
+        status: "completed",
+        createdAt: new Date("2026-01-02T10:00:00.000Z")
+      }
+    ]);
+
+    mocks.enqueueSelectResult([
+      {
+        auditRunId: "audit-old",
+        findingId: "finding-legacy",
+        severity: "high",
+        payloadJson: {
+          title: "Missing sender validation",
+          severity: "high",
+          evidence: {
+            filePath: "contracts/wallet.tolk",
+            startLine: 10,
+            snippet: "val amount = in.body.loadCoins();"
+          }
+        }
+      },
+      {
+        auditRunId: "audit-new",
+        findingId: "finding-shifted",
+        severity: "medium",
+        payloadJson: {
+          title: "Missing sender validation",
+          severity: "medium",
+          evidence: {
+            filePath: "contracts/wallet.tolk",
+            startLine: 14,
+            snippet: "val amount = in.body.loadCoins();",
+            enclosingScope: "onInternalMessage"
+          }
+        }
+      }
+    ]);
+
+    mocks.enqueueSelectResult([
+      { path: "contracts/wallet.tolk", sha256: "wallet", s3Key: "blob/wallet" }
+    ]);
+    mocks.enqueueSelectResult([
+      { path: "contracts/wallet.tolk", sha256: "wallet", s3Key: "blob/wallet" }
+    ]);
+
+    const result = await getAuditComparison({
+      projectId: "project-1",
+      fromAuditId: "audit-old",
+      toAuditId: "audit-new"
+    });
+
+    expect(result.kind).toBe("ok");
+    if (result.kind !== "ok") {
+      return;
+    }
+
+    expect(result.comparison.summary.findings).toMatchObject({
+      newCount: 0,
+      resolvedCount: 0,
+      persistingCount: 1,
+      severityChangedCount: 1
+    });
+    expect(result.comparison.findings.persisting[0]).toMatchObject({
+      findingId: "finding-shifted",
+      fromSeverity: "high",
+      toSeverity: "medium",
+      startLine: 14
+    });
+  });
+
+  it("classifies modified files by blob hash and links findings to the hunks touching them", async () => {
+    mocks.enqueueSelectResult([
+      {
+        id: "audit-old",
+        projectId: "project-1",
+        revisionId: "rev-old",
+        status: "completed",
+        createdAt: new Date("2026-01-01T10:00:00.000Z")
+      },
+      {
+        id: "audit-new",
+        projectId: "project-1",
+        revisionId: "rev-new",
+        status: "completed",
+        createdAt: new Date("2026-01-02T10:00:00.000Z")
+      }
+    ]);
+
+    mocks.enqueueSelectResult([
+      {
+        auditRunId: "audit-new",
+        findingId: "finding-touched",
+        severity: "high",
+        payloadJson: {
+          title: "Unchecked bounce",
+          severity: "high",
+          evidence: { filePath: "contracts/wallet.tolk", startLine: 18, endLine: 19 }
+        }
+      },
+      {
+        auditRunId: "audit-new",
+        findingId: "finding-untouched",
+        severity: "low",
+        payloadJson: {
+          title: "Magic number",
+          severity: "low",
+          evidence: { filePath: "contracts/wallet.tolk", startLine: 2, endLine: 2 }
+        }
+      }
+    ]);
+
+    mocks.enqueueSelectResult([
+      { path: "contracts/wallet.tolk", sha256: "wallet-1", s3Key: "blob/wallet-1" },
+      { path: "contracts/shared.tolk", sha256: "shared", s3Key: "blob/shared" }
+    ]);
+    mocks.enqueueSelectResult([
+      { path: "contracts/wallet.tolk", sha256: "wallet-2", s3Key: "blob/wallet-2" },
+      { path: "contracts/shared.tolk", sha256: "shared", s3Key: "blob/shared" },
+      { path: "contracts/new.tolk", sha256: "new", s3Key: "blob/new" }
+    ]);
+
+    const walletBefore = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+    const walletAfter = walletBefore.map((line) => (line === "line 18" ? "line eighteen" : line));
+    mocks.objectText.set("blob/wallet-1", walletBefore.join("\n"));
+    mocks.objectText.set("blob/wallet-2", walletAfter.join("\n"));
+    mocks.objectText.set("blob/new", "fun main() {}\n");
+
+    const result = await getAuditComparison({
+      projectId: "project-1",
+      fromAuditId: "audit-old",
+      toAuditId: "audit-new",
+      diffOffset: 0,
+      diffLimit: 1
+    });
+
+    expect(result.kind).toBe("ok");
+    if (result.kind !== "ok") {
+      return;
+    }
+
+    expect(result.comparison.summary.files).toEqual({
+      addedCount: 1,
+      removedCount: 0,
+      modifiedCount: 1,
+      unchangedCount: 1
+    });
+    expect(result.comparison.files.modified).toEqual(["contracts/wallet.tolk"]);
+    expect(result.comparison.diffs).toMatchObject({
+      offset: 0,
+      limit: 1,
+      total: 2,
+      nextOffset: 1,
+      files: [{ path: "contracts/new.tolk", status: "added", linesAdded: 1, linesRemoved: 0 }]
+    });
+
+    const newlyDetected = new Map(
+      result.comparison.findings.newlyDetected.map((item) => [item.findingId, item])
+    );
+    expect(newlyDetected.get("finding-touched")?.changedHunk).toMatchObject({
+      index: 0,
+      oldStart: 15,
+      newStart: 15,
+      newLines: 6
+    });
+    expect(newlyDetected.get("finding-untouched")?.changedHunk).toBeNull();
+  });
+
   it("returns not-completed when either selected audit has non-terminal status", async () => {
     mocks.enqueueSelectResult([
       {
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  formatAuditLogCsv,
+  summarizeFieldChanges,
+  summarizeLineChanges
+} from "@ton-audit/shared";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as auditLogRoute } from "../app/api/admin/audit-log/route";
+
+const entry = {
+  id: "entry-1",
+  action: "project.deleted" as const,
+  actorUserId: "user-1",
+  actorEmail: "admin@example.com",
+  actorApiTokenId: null,
+  ipAddress: "203.0.113.7",
+  userAgent: "Mozilla/5.0 (X11, Linux)",
+  projectId: "9b0f3c1e-7a52-4a43-9a2d-51f1c8e0b7a1",
+  targetType: "project",
+  targetId: "9b0f3c1e-7a52-4a43-9a2d-51f1c8e0b7a1",
+  summary: { name: "=HYPERLINK(\"x\")" },
+  createdAt: "2026-01-02T03:04:05.000Z"
+};
+
+describe("audit log summaries", () => {
+  it("counts added and removed lines for edits and new files", () => {
+    expect(summarizeLineChanges(null, "a\nb")).toEqual({
+      created: true,
+      linesAdded: 2,
+      linesRemoved: 0
+    });
+    expect(summarizeLineChanges("a\nb\nc", "a\nc\nd\ne")).toEqual({
+      created: false,
+      linesAdded: 2,
+      linesRemoved: 1
+    });
+  });
+
+  it("lists only the settings fields that changed", () => {
+    expect(
+      summarizeFieldChanges(
+        { reportTitle: "Old", accentColor: "#000" },
+        { reportTitle: "New", accentColor: "#000", issuerLogoUrl: "https://example.com/logo.png" }
+      )
+    ).toEqual({
+      reportTitle: { from: "Old", to: "New" },
+      issuerLogoUrl: { from: null, to: "https://example.com/logo.png" }
+    });
+  });
+
+  it("quotes CSV cells and neutralises spreadsheet formulas", () => {
+    const [header, row] = formatAuditLogCsv([entry]).trimEnd().split("\r\n");
+
+    expect(header).toBe(
+      "createdAt,action,actorUserId,actorEmail,actorApiTokenId,ipAddress,userAgent,projectId,targetType,targetId,summary"
+    );
+    expect(row).toContain('"Mozilla/5.0 (X11, Linux)"');
+    expect(row).toContain('"{""name"":""=HYPERLINK(\\""x\\"")""}"');
+    expect(formatAuditLogCsv([{ ...entry, targetId: "=1+1" }])).toContain(",'=1+1,");
+  });
+});
+
+describe("admin audit log route", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("admin-1");
+    serverDomainMocks.listAuditLogEntries.mockResolvedValue([entry]);
+  });
+
+  it("passes filters through and caps the page size", async () => {
+    const response = await auditLogRoute(
+      new Request(
+        "http://localhost/api/admin/audit-log?action=project.deleted&actorUserId=user-1&from=2026-01-01&limit=25"
+      )
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ entries: [entry] });
+    expect(serverDomainMocks.listAuditLogEntries).toHaveBeenCalledWith({
+      action: "project.deleted",
+      actorUserId: "user-1",
+      from: new Date("2026-01-01"),
+      limit: 25
+    });
+  });
+
+  it("rejects unknown actions", async () => {
+    const response = await auditLogRoute(
+      new Request("http://localhost/api/admin/audit-log?action=project.renamed")
+    );
+
+    expect(response.status).toBe(400);
+    expect(serverDomainMocks.listAuditLogEntries).not.toHaveBeenCalled();
+  });
+
+  it("exports CSV with the export row cap", async () => {
+    const response = await auditLogRoute(
+      new Request("http://localhost/api/admin/audit-log?format=csv&limit=5")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(serverDomainMocks.listAuditLogEntries).toHaveBeenCalledWith({ limit: 10_000 });
+    await expect(response.text()).resolves.toContain("project.deleted");
+  });
+});
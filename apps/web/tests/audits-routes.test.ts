@@ -155,7 +155,32 @@ describe("audits routes", () => {
     expect(serverDomainMocks.getAuditComparison).toHaveBeenCalledWith({
       projectId: "project-1",
       fromAuditId: "a-1",
-      toAuditId: "a-2"
+      toAuditId: "a-2",
+      diffOffset: 0,
+      diffLimit: 20
     });
   });
+
+  it("forwards diff pagination and rejects oversized pages", async () => {
+    await getAuditCompareRoute(
+      new Request("http://localhost/compare?fromAuditId=a-1&toAuditId=a-2&diffOffset=40&diffLimit=10"),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+
+    expect(serverDomainMocks.getAuditComparison).toHaveBeenCalledWith({
+      projectId: "project-1",
+      fromAuditId: "a-1",
+      toAuditId: "a-2",
+      diffOffset: 40,
+      diffLimit: 10
+    });
+
+    const oversizedResponse = await getAuditCompareRoute(
+      new Request("http://localhost/compare?fromAuditId=a-1&toAuditId=a-2&diffLimit=500"),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+
+    expect(oversizedResponse.status).toBe(400);
+    expect(serverDomainMocks.getAuditComparison).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  GET as listCommentsRoute,
+  POST as createCommentRoute
+} from "../app/api/projects/[projectId]/findings/[findingId]/comments/route";
+import {
+  DELETE as deleteCommentRoute,
+  PATCH as updateCommentRoute
+} from "../app/api/projects/[projectId]/findings/[findingId]/comments/[commentId]/route";
+
+const findingContext = {
+  params: Promise.resolve({ projectId: "project-1", findingId: "finding-1" })
+};
+const commentContext = {
+  params: Promise.resolve({
+    projectId: "project-1",
+    findingId: "finding-1",
+    commentId: "comment-1"
+  })
+};
+
+describe("finding comments routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverApiMocks.parseJsonBody.mockResolvedValue({ body: "Fixed in the next release." });
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.findProjectFinding.mockResolvedValue({
+      id: "finding-1",
+      projectId: "project-1"
+    });
+    serverDomainMocks.findFindingComment.mockResolvedValue({
+      id: "comment-1",
+      findingId: "finding-1",
+      authorUserId: "user-1",
+      body: "Looks exploitable."
+    });
+    serverDomainMocks.createFindingComment.mockResolvedValue({ id: "comment-2" });
+    serverDomainMocks.updateFindingComment.mockResolvedValue({ id: "comment-1" });
+    serverDomainMocks.deleteFindingComment.mockResolvedValue({ id: "comment-1" });
+  });
+
+  it("marks only the viewer's own comments as editable", async () => {
+    serverDomainMocks.listFindingComments.mockResolvedValueOnce([
+      { id: "comment-1", authorUserId: "user-1", body: "Mine" },
+      { id: "comment-2", authorUserId: "user-2", body: "Theirs" }
+    ]);
+
+    const response = await listCommentsRoute(
+      new Request("http://localhost/comments"),
+      findingContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.listFindingComments).toHaveBeenCalledWith("finding-1");
+    await expect(response.json()).resolves.toMatchObject({
+      comments: [
+        { id: "comment-1", canEdit: true },
+        { id: "comment-2", canEdit: false }
+      ]
+    });
+  });
+
+  it("creates a comment on the stable finding as the session user", async () => {
+    const response = await createCommentRoute(
+      new Request("http://localhost/comments", { method: "POST" }),
+      findingContext
+    );
+
+    expect(response.status).toBe(201);
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "finding-comment",
+      30,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.createFindingComment).toHaveBeenCalledWith({
+      findingId: "finding-1",
+      authorUserId: "user-1",
+      body: "Fixed in the next release."
+    });
+  });
+
+  it("returns 404 when the finding is not part of the project", async () => {
+    serverDomainMocks.findProjectFinding.mockResolvedValueOnce(null);
+
+    const response = await createCommentRoute(
+      new Request("http://localhost/comments", { method: "POST" }),
+      findingContext
+    );
+
+    expect(response.status).toBe(404);
+    expect(serverDomainMocks.createFindingComment).not.toHaveBeenCalled();
+  });
+
+  it("updates the author's comment", async () => {
+    const response = await updateCommentRoute(
+      new Request("http://localhost/comments/comment-1", { method: "PATCH" }),
+      commentContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.updateFindingComment).toHaveBeenCalledWith({
+      commentId: "comment-1",
+      body: "Fixed in the next release."
+    });
+  });
+
+  it("rejects edits and deletes from anyone but the author", async () => {
+    serverDomainMocks.findFindingComment.mockResolvedValue({
+      id: "comment-1",
+      findingId: "finding-1",
+      authorUserId: "user-2",
+      body: "Looks exploitable."
+    });
+
+    const updateResponse = await updateCommentRoute(
+      new Request("http://localhost/comments/comment-1", { method: "PATCH" }),
+      commentContext
+    );
+    const deleteResponse = await deleteCommentRoute(
+      new Request("http://localhost/comments/comment-1", { method: "DELETE" }),
+      commentContext
+    );
+
+    expect(updateResponse.status).toBe(403);
+    expect(deleteResponse.status).toBe(403);
+    expect(serverDomainMocks.updateFindingComment).not.toHaveBeenCalled();
+    expect(serverDomainMocks.deleteFindingComment).not.toHaveBeenCalled();
+  });
+
+  it("deletes the author's comment", async () => {
+    const response = await deleteCommentRoute(
+      new Request("http://localhost/comments/comment-1", { method: "DELETE" }),
+      commentContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.deleteFindingComment).toHaveBeenCalledWith("comment-1");
+    await expect(response.json()).resolves.toEqual({ deleted: true });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  findEnclosingScope,
+  matchFindingIdentities,
+  normalizeFindingSnippet,
+  scoreFindingIdentityMatch
+} from "@ton-audit/shared";
+
+describe("finding identity", () => {
+  it("normalizes comments, line prefixes and whitespace out of snippets", () => {
+    expect(normalizeFindingSnippet("10:  int x = 1; ;; note\n11:\tsend_raw_message(msg, 64);")).toBe(
+      "int x = 1; send_raw_message(msg, 64);"
+    );
+  });
+
+  it("resolves the enclosing function or handler across languages", () => {
+    const tolk = ["fun onInternalMessage(in: InMessage) {", "  val x = 1;", "}", "", "val top = 2;"].join(
+      "\n"
+    );
+    const tact = [
+      "contract Wallet {",
+      "  receive(msg: Transfer) {",
+      "    send(SendParameters{ to: msg.to });",
+      "  }",
+      "  get fun balance(): Int {",
+      "    return self.balance;",
+      "  }",
+      "}"
+    ].join("\n");
+    const func = [
+      "() recv_internal(int balance, cell in_msg) impure {",
+      "  return ();",
+      "}",
+      "int seqno() method_id {",
+      "  return get_data().begin_parse().preload_uint(32);",
+      "}"
+    ].join("\n");
+
+    expect(findEnclosingScope(tolk, 2)).toBe("onInternalMessage");
+    expect(findEnclosingScope(tolk, 5)).toBeNull();
+    expect(findEnclosingScope(tact, 3)).toBe("receive(Transfer)");
+    expect(findEnclosingScope(tact, 6)).toBe("balance");
+    expect(findEnclosingScope(func, 2)).toBe("recv_internal");
+    expect(findEnclosingScope(func, 5)).toBe("seqno");
+  });
+
+  it("scores moved and reworded findings as the same issue", () => {
+    const previous = {
+      title: "Missing sender check in transfer handler",
+      filePath: "contracts/wallet.tact",
+      snippet: "receive(msg: Transfer) {\n  send(SendParameters{ to: msg.to });",
+      enclosingScope: "receive(Transfer)"
+    };
+
+    expect(
+      scoreFindingIdentityMatch(previous, {
+        ...previous,
+        title: "Transfer handler is missing a sender check",
+        snippet: "41: receive(msg: Transfer) {\n42:   send(SendParameters{ to: msg.to });"
+      })
+    ).toBeGreaterThanOrEqual(0.6);
+    expect(
+      scoreFindingIdentityMatch(previous, {
+        ...previous,
+        title: "Integer overflow in fee computation"
+      })
+    ).toBe(0);
+    expect(scoreFindingIdentityMatch(previous, { ...previous, filePath: "contracts/jetton.tact" })).toBe(0);
+  });
+
+  it("pairs findings one-to-one and leaves unrelated findings unmatched", () => {
+    const previous = [
+      {
+        title: "Unchecked bounce handling",
+        filePath: "contracts/wallet.tact",
+        snippet: "bounced(msg: Slice) { self.balance += 1; }",
+        enclosingScope: "bounced(Slice)"
+      },
+      {
+        title: "Replay protection missing",
+        filePath: "contracts/wallet.tact",
+        snippet: "external(msg: Slice) { accept_message(); }",
+        enclosingScope: "external(Slice)"
+      }
+    ];
+    const current = [
+      {
+        title: "Storage fee underflow",
+        filePath: "contracts/wallet.tact",
+        snippet: "self.storageReserve -= fee;",
+        enclosingScope: "withdraw"
+      },
+      {
+        title: "Unchecked bounced message handling",
+        filePath: "contracts/wallet.tact",
+        snippet: "bounced(msg: Slice) { self.balance += 1; }",
+        enclosingScope: "bounced(Slice)"
+      }
+    ];
+
+    expect(matchFindingIdentities(previous, current)).toEqual([
+      { previousIndex: 0, currentIndex: 1, score: expect.any(Number) }
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  DELETE as clearTriageRoute,
+  PUT as setTriageRoute
+} from "../app/api/projects/[projectId]/findings/[findingId]/triage/route";
+
+const routeContext = {
+  params: Promise.resolve({ projectId: "project-1", findingId: "finding-1" })
+};
+
+describe("finding triage route", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverApiMocks.parseJsonBody.mockResolvedValue({
+      status: "false_positive",
+      justification: "Sender is validated by the wrapping proxy contract."
+    });
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.findProjectFinding.mockResolvedValue({
+      id: "finding-1",
+      projectId: "project-1"
+    });
+    serverDomainMocks.upsertFindingTriage.mockResolvedValue({ id: "triage-1" });
+    serverDomainMocks.listFindingTriages.mockResolvedValue([
+      {
+        findingId: "finding-1",
+        status: "false_positive",
+        justification: "Sender is validated by the wrapping proxy contract.",
+        authorUserId: "user-1",
+        authorName: "Reviewer",
+        updatedAt: "2026-01-01T00:00:00.000Z"
+      }
+    ]);
+    serverDomainMocks.clearFindingTriage.mockResolvedValue({ id: "triage-1" });
+  });
+
+  it("returns 404 when the finding is not part of the project", async () => {
+    serverDomainMocks.findProjectFinding.mockResolvedValueOnce(null);
+
+    const response = await setTriageRoute(
+      new Request("http://localhost/triage", { method: "PUT" }),
+      routeContext
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: "Finding not found" });
+    expect(serverDomainMocks.upsertFindingTriage).not.toHaveBeenCalled();
+  });
+
+  it("records the triage with the session user as author", async () => {
+    const response = await setTriageRoute(
+      new Request("http://localhost/triage", { method: "PUT" }),
+      routeContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "finding-triage",
+      60,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.upsertFindingTriage).toHaveBeenCalledWith({
+      findingId: "finding-1",
+      status: "false_positive",
+      justification: "Sender is validated by the wrapping proxy contract.",
+      authorUserId: "user-1"
+    });
+    await expect(response.json()).resolves.toMatchObject({
+      triage: {
+        findingId: "finding-1",
+        status: "false_positive",
+        authorName: "Reviewer"
+      }
+    });
+  });
+
+  it("clears an existing triage", async () => {
+    const response = await clearTriageRoute(
+      new Request("http://localhost/triage", { method: "DELETE" }),
+      routeContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.clearFindingTriage).toHaveBeenCalledWith("finding-1");
+    await expect(response.json()).resolves.toEqual({ cleared: true });
+  });
+});
@@ -6,6 +6,7 @@ function toErrorMessage(error: unknown) {
 
 export const serverApiMocks = {
   requireSession: vi.fn(),
+  requireAdminSession: vi.fn(),
   checkRateLimit: vi.fn(),
   parseJsonBody: vi.fn(),
   toApiErrorResponse: vi.fn((error: unknown) =>
@@ -15,6 +16,7 @@ export const serverApiMocks = {
 
 export const serverApiMockModule = {
   requireSession: serverApiMocks.requireSession,
+  requireAdminSession: serverApiMocks.requireAdminSession,
   checkRateLimit: serverApiMocks.checkRateLimit,
   parseJsonBody: serverApiMocks.parseJsonBody,
   toApiErrorResponse: serverApiMocks.toApiErrorResponse
@@ -22,6 +24,7 @@ export const serverApiMockModule = {
 
 export function resetServerApiMocks() {
   serverApiMocks.requireSession.mockReset();
+  serverApiMocks.requireAdminSession.mockReset();
   serverApiMocks.checkRateLimit.mockReset();
   serverApiMocks.parseJsonBody.mockReset();
   serverApiMocks.toApiErrorResponse.mockReset();
@@ -32,5 +35,6 @@ export function resetServerApiMocks() {
 
 export function applyDefaultServerApiMocks(userId = "user-1") {
   serverApiMocks.requireSession.mockResolvedValue({ user: { id: userId } });
+  serverApiMocks.requireAdminSession.mockResolvedValue({ user: { id: userId } });
   serverApiMocks.checkRateLimit.mockResolvedValue(undefined);
 }
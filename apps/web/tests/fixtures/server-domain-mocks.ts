@@ -10,32 +10,103 @@ export class ActiveAuditRunConflictError extends Error {
   }
 }
 
+export class WorkingCopyFileConflictError extends Error {
+  current: { path: string; language: string; content: string; version: string } | null;
+
+  constructor(current: WorkingCopyFileConflictError["current"]) {
+    super("This file was changed by someone else since you opened it.");
+    this.name = "WorkingCopyFileConflictError";
+    this.current = current;
+  }
+}
+
 export const serverDomainMocks = {
   ensureProjectAccess: vi.fn(),
   ensureProjectOwnerAccess: vi.fn(),
   ensureWorkingCopyAccess: vi.fn(),
   getLatestProjectState: vi.fn(),
   queryProjectAuditHistory: vi.fn(),
+  queryProjectAuditSpend: vi.fn(),
+  updateProjectAuditBudget: vi.fn(),
   getAuditComparison: vi.fn(),
+  getProjectRevisionGraph: vi.fn(),
+  compareProjectRevisions: vi.fn(),
+  createRevisionArchive: vi.fn(),
+  createWorkingCopyArchive: vi.fn(),
   createProject: vi.fn(),
   createScaffoldRevision: vi.fn(),
   softDeleteProject: vi.fn(),
   findActiveAuditRun: vi.fn(),
   snapshotWorkingCopyAndCreateAuditRun: vi.fn(),
   saveWorkingCopyFile: vi.fn(),
+  deleteWorkingCopyPath: vi.fn(),
+  moveWorkingCopyPath: vi.fn(),
+  getWorkingCopyChanges: vi.fn(),
   findAuditRunWithProject: vi.fn(),
+  cancelAuditRun: vi.fn(),
+  findProjectFinding: vi.fn(),
+  listFindingTriages: vi.fn(),
+  upsertFindingTriage: vi.fn(),
+  clearFindingTriage: vi.fn(),
+  listFindingComments: vi.fn(),
+  countFindingComments: vi.fn(),
+  findFindingComment: vi.fn(),
+  createFindingComment: vi.fn(),
+  updateFindingComment: vi.fn(),
+  deleteFindingComment: vi.fn(),
+  listAuditSarifFindings: vi.fn(),
+  getAuditReportRenderParams: vi.fn(),
+  listApiTokens: vi.fn(),
+  createApiToken: vi.fn(),
+  revokeApiToken: vi.fn(),
+  getProjectMemberRole: vi.fn(),
+  listProjectMembers: vi.fn(),
+  listProjectInvitations: vi.fn(),
+  createProjectInvitation: vi.fn(),
+  revokeProjectInvitation: vi.fn(),
+  listUserProjectInvitations: vi.fn(),
+  respondToProjectInvitation: vi.fn(),
+  updateProjectMemberRole: vi.fn(),
+  removeProjectMember: vi.fn(),
+  listUserOrganizations: vi.fn(),
+  ensureOrganizationAccess: vi.fn(),
+  createOrganization: vi.fn(),
+  listOrganizationMembers: vi.fn(),
+  addOrganizationMember: vi.fn(),
+  updateOrganizationMemberRole: vi.fn(),
+  removeOrganizationMember: vi.fn(),
+  getOrganizationSettings: vi.fn(),
+  updateOrganizationSettings: vi.fn(),
+  transferProjectToOrganization: vi.fn(),
+  recordAuditLog: vi.fn(),
+  listAuditLogEntries: vi.fn(),
+  listWebhookSubscriptions: vi.fn(),
+  findWebhookSubscription: vi.fn(),
+  createWebhookSubscription: vi.fn(),
+  updateWebhookSubscription: vi.fn(),
+  deleteWebhookSubscription: vi.fn(),
+  listWebhookDeliveries: vi.fn(),
+  getWebhookDeliveryDetail: vi.fn(),
+  resetWebhookDeliveryForRedelivery: vi.fn(),
   getPdfExportByAudit: vi.fn(),
   createPdfExport: vi.fn()
 };
 
 export const serverDomainMockModule = {
   ActiveAuditRunConflictError,
+  WorkingCopyFileConflictError,
   ensureProjectAccess: serverDomainMocks.ensureProjectAccess,
   ensureProjectOwnerAccess: serverDomainMocks.ensureProjectOwnerAccess,
   ensureWorkingCopyAccess: serverDomainMocks.ensureWorkingCopyAccess,
   getLatestProjectState: serverDomainMocks.getLatestProjectState,
   queryProjectAuditHistory: serverDomainMocks.queryProjectAuditHistory,
+  queryProjectAuditSpend: serverDomainMocks.queryProjectAuditSpend,
+  updateProjectAuditBudget: serverDomainMocks.updateProjectAuditBudget,
   getAuditComparison: serverDomainMocks.getAuditComparison,
+  getProjectRevisionGraph: serverDomainMocks.getProjectRevisionGraph,
+  compareProjectRevisions: serverDomainMocks.compareProjectRevisions,
+  createRevisionArchive: serverDomainMocks.createRevisionArchive,
+  createWorkingCopyArchive: serverDomainMocks.createWorkingCopyArchive,
   createProject: serverDomainMocks.createProject,
   createScaffoldRevision: serverDomainMocks.createScaffoldRevision,
   softDeleteProject: serverDomainMocks.softDeleteProject,
@@ -43,7 +114,55 @@ export const serverDomainMockModule = {
   snapshotWorkingCopyAndCreateAuditRun:
     serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun,
   saveWorkingCopyFile: serverDomainMocks.saveWorkingCopyFile,
+  deleteWorkingCopyPath: serverDomainMocks.deleteWorkingCopyPath,
+  moveWorkingCopyPath: serverDomainMocks.moveWorkingCopyPath,
+  getWorkingCopyChanges: serverDomainMocks.getWorkingCopyChanges,
   findAuditRunWithProject: serverDomainMocks.findAuditRunWithProject,
+  cancelAuditRun: serverDomainMocks.cancelAuditRun,
+  findProjectFinding: serverDomainMocks.findProjectFinding,
+  listFindingTriages: serverDomainMocks.listFindingTriages,
+  upsertFindingTriage: serverDomainMocks.upsertFindingTriage,
+  clearFindingTriage: serverDomainMocks.clearFindingTriage,
+  listFindingComments: serverDomainMocks.listFindingComments,
+  countFindingComments: serverDomainMocks.countFindingComments,
+  findFindingComment: serverDomainMocks.findFindingComment,
+  createFindingComment: serverDomainMocks.createFindingComment,
+  updateFindingComment: serverDomainMocks.updateFindingComment,
+  deleteFindingComment: serverDomainMocks.deleteFindingComment,
+  listAuditSarifFindings: serverDomainMocks.listAuditSarifFindings,
+  getAuditReportRenderParams: serverDomainMocks.getAuditReportRenderParams,
+  listApiTokens: serverDomainMocks.listApiTokens,
+  createApiToken: serverDomainMocks.createApiToken,
+  revokeApiToken: serverDomainMocks.revokeApiToken,
+  getProjectMemberRole: serverDomainMocks.getProjectMemberRole,
+  listProjectMembers: serverDomainMocks.listProjectMembers,
+  listProjectInvitations: serverDomainMocks.listProjectInvitations,
+  createProjectInvitation: serverDomainMocks.createProjectInvitation,
+  revokeProjectInvitation: serverDomainMocks.revokeProjectInvitation,
+  listUserProjectInvitations: serverDomainMocks.listUserProjectInvitations,
+  respondToProjectInvitation: serverDomainMocks.respondToProjectInvitation,
+  updateProjectMemberRole: serverDomainMocks.updateProjectMemberRole,
+  removeProjectMember: serverDomainMocks.removeProjectMember,
+  listUserOrganizations: serverDomainMocks.listUserOrganizations,
+  ensureOrganizationAccess: serverDomainMocks.ensureOrganizationAccess,
+  createOrganization: serverDomainMocks.createOrganization,
+  listOrganizationMembers: serverDomainMocks.listOrganizationMembers,
+  addOrganizationMember: serverDomainMocks.addOrganizationMember,
+  updateOrganizationMemberRole: serverDomainMocks.updateOrganizationMemberRole,
+  removeOrganizationMember: serverDomainMocks.removeOrganizationMember,
+  getOrganizationSettings: serverDomainMocks.getOrganizationSettings,
+  updateOrganizationSettings: serverDomainMocks.updateOrganizationSettings,
+  transferProjectToOrganization: serverDomainMocks.transferProjectToOrganization,
+  recordAuditLog: serverDomainMocks.recordAuditLog,
+  listAuditLogEntries: serverDomainMocks.listAuditLogEntries,
+  listWebhookSubscriptions: serverDomainMocks.listWebhookSubscriptions,
+  findWebhookSubscription: serverDomainMocks.findWebhookSubscription,
+  createWebhookSubscription: serverDomainMocks.createWebhookSubscription,
+  updateWebhookSubscription: serverDomainMocks.updateWebhookSubscription,
+  deleteWebhookSubscription: serverDomainMocks.deleteWebhookSubscription,
+  listWebhookDeliveries: serverDomainMocks.listWebhookDeliveries,
+  getWebhookDeliveryDetail: serverDomainMocks.getWebhookDeliveryDetail,
+  resetWebhookDeliveryForRedelivery: serverDomainMocks.resetWebhookDeliveryForRedelivery,
   getPdfExportByAudit: serverDomainMocks.getPdfExportByAudit,
   createPdfExport: serverDomainMocks.createPdfExport
 };
@@ -54,14 +173,68 @@ export function resetServerDomainMocks() {
   serverDomainMocks.ensureWorkingCopyAccess.mockReset();
   serverDomainMocks.getLatestProjectState.mockReset();
   serverDomainMocks.queryProjectAuditHistory.mockReset();
+  serverDomainMocks.queryProjectAuditSpend.mockReset();
+  serverDomainMocks.updateProjectAuditBudget.mockReset();
   serverDomainMocks.getAuditComparison.mockReset();
+  serverDomainMocks.getProjectRevisionGraph.mockReset();
+  serverDomainMocks.compareProjectRevisions.mockReset();
+  serverDomainMocks.createRevisionArchive.mockReset();
+  serverDomainMocks.createWorkingCopyArchive.mockReset();
   serverDomainMocks.createProject.mockReset();
   serverDomainMocks.createScaffoldRevision.mockReset();
   serverDomainMocks.softDeleteProject.mockReset();
   serverDomainMocks.findActiveAuditRun.mockReset();
   serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun.mockReset();
   serverDomainMocks.saveWorkingCopyFile.mockReset();
+  serverDomainMocks.deleteWorkingCopyPath.mockReset();
+  serverDomainMocks.moveWorkingCopyPath.mockReset();
+  serverDomainMocks.getWorkingCopyChanges.mockReset();
   serverDomainMocks.findAuditRunWithProject.mockReset();
+  serverDomainMocks.cancelAuditRun.mockReset();
+  serverDomainMocks.findProjectFinding.mockReset();
+  serverDomainMocks.listFindingTriages.mockReset();
+  serverDomainMocks.upsertFindingTriage.mockReset();
+  serverDomainMocks.clearFindingTriage.mockReset();
+  serverDomainMocks.listFindingComments.mockReset();
+  serverDomainMocks.countFindingComments.mockReset();
+  serverDomainMocks.findFindingComment.mockReset();
+  serverDomainMocks.createFindingComment.mockReset();
+  serverDomainMocks.updateFindingComment.mockReset();
+  serverDomainMocks.deleteFindingComment.mockReset();
+  serverDomainMocks.listAuditSarifFindings.mockReset();
+  serverDomainMocks.getAuditReportRenderParams.mockReset();
+  serverDomainMocks.listApiTokens.mockReset();
+  serverDomainMocks.createApiToken.mockReset();
+  serverDomainMocks.revokeApiToken.mockReset();
+  serverDomainMocks.getProjectMemberRole.mockReset();
+  serverDomainMocks.listProjectMembers.mockReset();
+  serverDomainMocks.listProjectInvitations.mockReset();
+  serverDomainMocks.createProjectInvitation.mockReset();
+  serverDomainMocks.revokeProjectInvitation.mockReset();
+  serverDomainMocks.listUserProjectInvitations.mockReset();
+  serverDomainMocks.respondToProjectInvitation.mockReset();
+  serverDomainMocks.updateProjectMemberRole.mockReset();
+  serverDomainMocks.removeProjectMember.mockReset();
+  serverDomainMocks.listUserOrganizations.mockReset();
+  serverDomainMocks.ensureOrganizationAccess.mockReset();
+  serverDomainMocks.createOrganization.mockReset();
+  serverDomainMocks.listOrganizationMembers.mockReset();
+  serverDomainMocks.addOrganizationMember.mockReset();
+  serverDomainMocks.updateOrganizationMemberRole.mockReset();
+  serverDomainMocks.removeOrganizationMember.mockReset();
+  serverDomainMocks.getOrganizationSettings.mockReset();
+  serverDomainMocks.updateOrganizationSettings.mockReset();
+  serverDomainMocks.transferProjectToOrganization.mockReset();
+  serverDomainMocks.recordAuditLog.mockReset();
+  serverDomainMocks.listAuditLogEntries.mockReset();
+  serverDomainMocks.listWebhookSubscriptions.mockReset();
+  serverDomainMocks.findWebhookSubscription.mockReset();
+  serverDomainMocks.createWebhookSubscription.mockReset();
+  serverDomainMocks.updateWebhookSubscription.mockReset();
+  serverDomainMocks.deleteWebhookSubscription.mockReset();
+  serverDomainMocks.listWebhookDeliveries.mockReset();
+  serverDomainMocks.getWebhookDeliveryDetail.mockReset();
+  serverDomainMocks.resetWebhookDeliveryForRedelivery.mockReset();
   serverDomainMocks.getPdfExportByAudit.mockReset();
   serverDomainMocks.createPdfExport.mockReset();
 }
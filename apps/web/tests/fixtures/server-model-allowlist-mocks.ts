@@ -2,15 +2,24 @@ import { vi } from "vitest";
 
 export const serverModelAllowlistMocks = {
   getAuditModelAllowlist: vi.fn(),
-  assertAllowedModel: vi.fn()
+  getAuditModelPrices: vi.fn(),
+  assertAllowedModel: vi.fn(),
+  assertPricedModels: vi.fn(),
+  invalidateAuditModelAllowlist: vi.fn()
 };
 
 export const serverModelAllowlistMockModule = {
   getAuditModelAllowlist: serverModelAllowlistMocks.getAuditModelAllowlist,
-  assertAllowedModel: serverModelAllowlistMocks.assertAllowedModel
+  getAuditModelPrices: serverModelAllowlistMocks.getAuditModelPrices,
+  assertAllowedModel: serverModelAllowlistMocks.assertAllowedModel,
+  assertPricedModels: serverModelAllowlistMocks.assertPricedModels,
+  invalidateAuditModelAllowlist: serverModelAllowlistMocks.invalidateAuditModelAllowlist
 };
 
 export function resetServerModelAllowlistMocks() {
   serverModelAllowlistMocks.getAuditModelAllowlist.mockReset();
+  serverModelAllowlistMocks.getAuditModelPrices.mockReset();
   serverModelAllowlistMocks.assertAllowedModel.mockReset();
+  serverModelAllowlistMocks.assertPricedModels.mockReset();
+  serverModelAllowlistMocks.invalidateAuditModelAllowlist.mockReset();
 }
@@ -2,11 +2,13 @@ import { vi } from "vitest";
 
 export const serverQueuesMocks = {
   enqueueJob: vi.fn(),
-  getPdfJobs: vi.fn()
+  getPdfJobs: vi.fn(),
+  removePendingAuditRunJobs: vi.fn()
 };
 
 export const serverQueuesMockModule = {
   enqueueJob: serverQueuesMocks.enqueueJob,
+  removePendingAuditRunJobs: serverQueuesMocks.removePendingAuditRunJobs,
   queues: {
     pdf: {
       getJobs: serverQueuesMocks.getPdfJobs
@@ -17,4 +19,5 @@ export const serverQueuesMockModule = {
 export function resetServerQueuesMocks() {
   serverQueuesMocks.enqueueJob.mockReset();
   serverQueuesMocks.getPdfJobs.mockReset();
+  serverQueuesMocks.removePendingAuditRunJobs.mockReset();
 }
@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
-import { parseModelAllowlist } from "@ton-audit/shared";
+import { narrowModelAllowlist, parseModelAllowlist } from "@ton-audit/shared";
 
-import { assertAllowedModel } from "../lib/server/model-allowlist-core";
+import { assertAllowedModel, assertPricedModels } from "../lib/server/model-allowlist-core";
 
 describe("assertAllowedModel", () => {
   it("accepts allowlisted model", () => {
@@ -30,3 +30,34 @@ describe("assertAllowedModel", () => {
     ).toEqual(["google/gemini-2.5-flash", "anthropic/claude-sonnet-4"]);
   });
 });
+
+describe("assertPricedModels", () => {
+  const prices = {
+    "google/gemini-2.5-flash": { inputPerMillionUsd: 0.3, outputPerMillionUsd: 2.5 },
+  };
+
+  it("names every model without a price", () => {
+    expect(() =>
+      assertPricedModels(
+        ["google/gemini-2.5-flash", "qwen2.5-coder-32b", "qwen2.5-coder-32b"],
+        prices,
+      ),
+    ).toThrow("A cost budget needs a price for every model; unpriced: qwen2.5-coder-32b");
+    expect(() => assertPricedModels(["google/gemini-2.5-flash"], prices)).not.toThrow();
+  });
+});
+
+describe("narrowModelAllowlist", () => {
+  const systemModels = ["google/gemini-2.5-flash", "openai/gpt-4.1-mini"];
+
+  it("keeps only organization models the system allowlist has", () => {
+    expect(
+      narrowModelAllowlist(systemModels, ["openai/gpt-4.1-mini", "acme/unvetted-model"]),
+    ).toEqual(["openai/gpt-4.1-mini"]);
+  });
+
+  it("inherits the system allowlist when no organization model remains", () => {
+    expect(narrowModelAllowlist(systemModels, ["acme/unvetted-model"])).toEqual(systemModels);
+    expect(narrowModelAllowlist(systemModels, [])).toEqual(systemModels);
+  });
+});
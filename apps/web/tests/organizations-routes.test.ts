@@ -0,0 +1,271 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  hasOrganizationPermission,
+  organizationSettingsUpdateSchema,
+  toOrganizationProjectRole
+} from "@ton-audit/shared";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+vi.mock("@/lib/server/model-allowlist", async () => {
+  const fixture = await import("./fixtures/server-model-allowlist-mocks");
+  return fixture.serverModelAllowlistMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  resetServerModelAllowlistMocks,
+  serverModelAllowlistMocks
+} from "./fixtures/server-model-allowlist-mocks";
+import { POST as createProjectRoute } from "../app/api/projects/route";
+import { POST as createOrganizationRoute } from "../app/api/organizations/route";
+import { DELETE as removeOrganizationMemberRoute } from "../app/api/organizations/[organizationId]/members/[userId]/route";
+import { PATCH as updateOrganizationSettingsRoute } from "../app/api/organizations/[organizationId]/settings/route";
+import { POST as transferProjectRoute } from "../app/api/projects/[projectId]/transfer/route";
+
+const organizationId = "5b1f0e9c-4c1a-4d7e-9a55-0d3f2f1c8b11";
+const organizationContext = {
+  params: Promise.resolve({ organizationId })
+};
+
+describe("organization role permissions", () => {
+  it("lets members create projects but reserves management for admins and owners", () => {
+    expect(hasOrganizationPermission("member", "create-project")).toBe(true);
+    expect(hasOrganizationPermission("member", "manage")).toBe(false);
+    expect(hasOrganizationPermission("admin", "manage")).toBe(true);
+  });
+
+  it("maps organization roles onto project roles", () => {
+    expect(toOrganizationProjectRole("owner")).toBe("owner");
+    expect(toOrganizationProjectRole("admin")).toBe("owner");
+    expect(toOrganizationProjectRole("member")).toBe("developer");
+  });
+});
+
+describe("organization routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+    resetServerModelAllowlistMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureOrganizationAccess.mockResolvedValue({
+      organization: { id: organizationId },
+      role: "admin"
+    });
+  });
+
+  it("creates an organization for the caller", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({ name: "Acme", slug: "acme" });
+    serverDomainMocks.createOrganization.mockResolvedValueOnce({ id: organizationId });
+
+    const response = await createOrganizationRoute(
+      new Request("http://localhost/api/organizations", { method: "POST" })
+    );
+
+    expect(response.status).toBe(201);
+    expect(serverDomainMocks.createOrganization).toHaveBeenCalledWith({
+      name: "Acme",
+      slug: "acme",
+      createdByUserId: "user-1"
+    });
+  });
+
+  it("creates organization projects only for members allowed to", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValue({
+      name: "Org Project",
+      slug: "org-project",
+      organizationId,
+      initialization: { mode: "upload" }
+    });
+    serverDomainMocks.createProject.mockResolvedValueOnce({ id: "project-1" });
+
+    const response = await createProjectRoute(
+      new Request("http://localhost/api/projects", { method: "POST" })
+    );
+
+    expect(response.status).toBe(201);
+    expect(serverDomainMocks.ensureOrganizationAccess).toHaveBeenCalledWith(
+      organizationId,
+      "user-1",
+      "create-project"
+    );
+    expect(serverDomainMocks.createProject).toHaveBeenCalledWith({
+      ownerUserId: "user-1",
+      organizationId,
+      name: "Org Project",
+      slug: "org-project",
+      lifecycleState: "initializing"
+    });
+
+    serverDomainMocks.ensureOrganizationAccess.mockResolvedValueOnce(null);
+    const notMemberResponse = await createProjectRoute(
+      new Request("http://localhost/api/projects", { method: "POST" })
+    );
+
+    expect(notMemberResponse.status).toBe(404);
+    expect(serverDomainMocks.createProject).toHaveBeenCalledTimes(1);
+  });
+
+  it("moves a personal project into an organization the owner may create projects in", async () => {
+    const projectContext = { params: Promise.resolve({ projectId: "project-1" }) };
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValue({
+      id: "project-1",
+      organizationId: null
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValue({ organizationId });
+    serverDomainMocks.transferProjectToOrganization.mockResolvedValueOnce({
+      id: "project-1",
+      organizationId
+    });
+
+    const response = await transferProjectRoute(
+      new Request("http://localhost/transfer", { method: "POST" }),
+      projectContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.ensureOrganizationAccess).toHaveBeenCalledWith(
+      organizationId,
+      "user-1",
+      "create-project"
+    );
+    expect(serverDomainMocks.transferProjectToOrganization).toHaveBeenCalledWith({
+      projectId: "project-1",
+      organizationId
+    });
+    expect(serverDomainMocks.recordAuditLog).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ action: "project.transferred", projectId: "project-1" })
+    );
+
+    serverDomainMocks.ensureOrganizationAccess.mockResolvedValueOnce(null);
+    const notMemberResponse = await transferProjectRoute(
+      new Request("http://localhost/transfer", { method: "POST" }),
+      projectContext
+    );
+
+    expect(notMemberResponse.status).toBe(404);
+    expect(serverDomainMocks.transferProjectToOrganization).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets members leave but requires manage to remove someone else", async () => {
+    serverDomainMocks.removeOrganizationMember.mockResolvedValue({ userId: "user-1" });
+
+    await removeOrganizationMemberRoute(
+      new Request("http://localhost/members/user-1", { method: "DELETE" }),
+      { params: Promise.resolve({ organizationId, userId: "user-1" }) }
+    );
+    expect(serverDomainMocks.ensureOrganizationAccess).toHaveBeenLastCalledWith(
+      organizationId,
+      "user-1",
+      "read"
+    );
+    expect(serverDomainMocks.removeOrganizationMember).toHaveBeenLastCalledWith({
+      organizationId,
+      actorRole: "admin",
+      userId: "user-1",
+      isSelf: true
+    });
+
+    await removeOrganizationMemberRoute(
+      new Request("http://localhost/members/user-2", { method: "DELETE" }),
+      { params: Promise.resolve({ organizationId, userId: "user-2" }) }
+    );
+    expect(serverDomainMocks.ensureOrganizationAccess).toHaveBeenLastCalledWith(
+      organizationId,
+      "user-1",
+      "manage"
+    );
+  });
+
+  it("updates setting overrides and drops the cached model allowlist", async () => {
+    const body = { modelAllowlist: { models: ["google/gemini-2.5-flash"] }, reportBranding: null };
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce(body);
+    serverModelAllowlistMocks.getAuditModelAllowlist.mockResolvedValueOnce([
+      "google/gemini-2.5-flash",
+      "openai/gpt-4.1-mini"
+    ]);
+    serverDomainMocks.updateOrganizationSettings.mockResolvedValueOnce({
+      reportBranding: null,
+      modelAllowlist: body.modelAllowlist
+    });
+
+    const response = await updateOrganizationSettingsRoute(
+      new Request("http://localhost/settings", { method: "PATCH" }),
+      organizationContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.ensureOrganizationAccess).toHaveBeenCalledWith(
+      organizationId,
+      "user-1",
+      "manage"
+    );
+    expect(serverDomainMocks.updateOrganizationSettings).toHaveBeenCalledWith(
+      organizationId,
+      body
+    );
+    expect(serverModelAllowlistMocks.assertAllowedModel).toHaveBeenCalledWith(
+      "google/gemini-2.5-flash",
+      ["google/gemini-2.5-flash", "openai/gpt-4.1-mini"]
+    );
+    expect(serverModelAllowlistMocks.invalidateAuditModelAllowlist).toHaveBeenCalledWith(
+      organizationId
+    );
+  });
+
+  it("rejects allowlist overrides with models the system allowlist lacks", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      modelAllowlist: { models: ["acme/unvetted-model"] }
+    });
+    serverModelAllowlistMocks.getAuditModelAllowlist.mockResolvedValueOnce([
+      "google/gemini-2.5-flash"
+    ]);
+    const disallowed = Object.assign(new Error("Model is not allowed"), { statusCode: 400 });
+    serverModelAllowlistMocks.assertAllowedModel.mockImplementationOnce(() => {
+      throw disallowed;
+    });
+
+    await updateOrganizationSettingsRoute(
+      new Request("http://localhost/settings", { method: "PATCH" }),
+      organizationContext
+    );
+
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(disallowed);
+    expect(serverDomainMocks.updateOrganizationSettings).not.toHaveBeenCalled();
+  });
+
+  it("keeps prices and provider routes out of organization overrides", () => {
+    expect(
+      organizationSettingsUpdateSchema.safeParse({
+        modelAllowlist: {
+          models: ["google/gemini-2.5-flash"],
+          prices: { "google/gemini-2.5-flash": { inputPerMillionUsd: 0, outputPerMillionUsd: 0 } }
+        }
+      }).success
+    ).toBe(false);
+    expect(
+      organizationSettingsUpdateSchema.safeParse({
+        modelAllowlist: { models: ["google/gemini-2.5-flash"], providers: {} }
+      }).success
+    ).toBe(false);
+  });
+});
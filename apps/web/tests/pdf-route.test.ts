@@ -77,7 +77,7 @@ describe("pdf export route", () => {
 
     expect(response.status).toBe(202);
     expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
-      "user-1",
+      { user: { id: "user-1" } },
       "export-pdf",
       20,
       600000
@@ -171,6 +171,49 @@ describe("pdf export route", () => {
     uuidSpy.mockRestore();
   });
 
+  it("queues and caches the client variant independently", async () => {
+    serverQueuesMocks.getPdfJobs.mockResolvedValueOnce([
+      {
+        id: "job-internal",
+        data: {
+          projectId: "project-1",
+          auditRunId: "audit-1",
+          variant: "internal"
+        }
+      }
+    ]);
+
+    const response = await postPdfRoute(
+      new Request("http://localhost/pdf?variant=client", { method: "POST" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", auditId: "audit-1" })
+      }
+    );
+
+    expect(response.status).toBe(202);
+    expect(serverDomainMocks.getPdfExportByAudit).toHaveBeenCalledWith("audit-1", "client");
+    expect(serverDomainMocks.createPdfExport).toHaveBeenCalledWith("audit-1", "client");
+    expect(serverQueuesMocks.enqueueJob).toHaveBeenCalledWith(
+      "pdf",
+      expect.objectContaining({ variant: "client" }),
+      expect.stringMatching(/^pdf:project-1:audit-1:client:/)
+    );
+    await expect(response.json()).resolves.toMatchObject({
+      status: "queued",
+      queued: true,
+      variant: "client"
+    });
+  });
+
+  it("rejects unknown PDF variants", async () => {
+    const response = await getPdfRoute(new Request("http://localhost/pdf?variant=public"), {
+      params: Promise.resolve({ projectId: "project-1", auditId: "audit-1" })
+    });
+
+    expect(response.status).toBe(400);
+    expect(serverDomainMocks.getPdfExportByAudit).not.toHaveBeenCalled();
+  });
+
   it("returns signed download URL for completed exports", async () => {
     serverDomainMocks.getPdfExportByAudit.mockResolvedValueOnce({
       id: "pdf-export-1",
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+vi.mock("@/lib/server/model-allowlist", async () => {
+  const fixture = await import("./fixtures/server-model-allowlist-mocks");
+  return fixture.serverModelAllowlistMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  resetServerModelAllowlistMocks,
+  serverModelAllowlistMocks
+} from "./fixtures/server-model-allowlist-mocks";
+import {
+  GET as getBudgetRoute,
+  PATCH as updateBudgetRoute
+} from "../app/api/projects/[projectId]/budget/route";
+
+const context = { params: Promise.resolve({ projectId: "project-1" }) };
+const spend = {
+  auditCount: 3,
+  totalTokens: 420_000,
+  totalCostUsd: 1.25,
+  unpricedAuditCount: 1
+};
+
+describe("project budget route", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+    resetServerModelAllowlistMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.queryProjectAuditSpend.mockResolvedValue(spend);
+  });
+
+  it("returns the project budget with its audit spend", async () => {
+    serverDomainMocks.ensureProjectAccess.mockResolvedValueOnce({
+      id: "project-1",
+      auditBudget: { maxCostUsd: 5 }
+    });
+
+    const response = await getBudgetRoute(new Request("http://localhost/budget"), context);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ budget: { maxCostUsd: 5 }, spend });
+    expect(serverDomainMocks.queryProjectAuditSpend).toHaveBeenCalledWith("project-1");
+  });
+
+  it("lets the project owner replace the budget and records it in the audit log", async () => {
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValueOnce({
+      id: "project-1",
+      auditBudget: null
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      budget: { maxTokens: 500_000, maxCostUsd: 2 }
+    });
+    serverDomainMocks.updateProjectAuditBudget.mockResolvedValueOnce({
+      maxTokens: 500_000,
+      maxCostUsd: 2
+    });
+
+    const response = await updateBudgetRoute(
+      new Request("http://localhost/budget", { method: "PATCH" }),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.updateProjectAuditBudget).toHaveBeenCalledWith("project-1", {
+      maxTokens: 500_000,
+      maxCostUsd: 2
+    });
+    expect(serverDomainMocks.recordAuditLog).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      expect.objectContaining({
+        action: "project.budget_updated",
+        summary: { previous: null, budget: { maxTokens: 500_000, maxCostUsd: 2 } }
+      })
+    );
+  });
+
+  it("rejects a cost budget while an allowlisted model has no price", async () => {
+    const unpriced = Object.assign(new Error("A cost budget needs a price"), { statusCode: 400 });
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValueOnce({
+      id: "project-1",
+      organizationId: "org-1",
+      auditBudget: null
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({ budget: { maxCostUsd: 2 } });
+    serverModelAllowlistMocks.getAuditModelAllowlist.mockResolvedValueOnce(["model-a", "model-b"]);
+    serverModelAllowlistMocks.getAuditModelPrices.mockResolvedValueOnce({
+      "model-a": { inputPerMillionUsd: 1, outputPerMillionUsd: 2 }
+    });
+    serverModelAllowlistMocks.assertPricedModels.mockImplementationOnce(() => {
+      throw unpriced;
+    });
+
+    await updateBudgetRoute(new Request("http://localhost/budget", { method: "PATCH" }), context);
+
+    expect(serverModelAllowlistMocks.getAuditModelAllowlist).toHaveBeenCalledWith("org-1");
+    expect(serverModelAllowlistMocks.assertPricedModels).toHaveBeenCalledWith(
+      ["model-a", "model-b"],
+      { "model-a": { inputPerMillionUsd: 1, outputPerMillionUsd: 2 } }
+    );
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(unpriced);
+    expect(serverDomainMocks.updateProjectAuditBudget).not.toHaveBeenCalled();
+  });
+
+  it("hides the project from callers without the owner role", async () => {
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValueOnce(null);
+
+    const response = await updateBudgetRoute(
+      new Request("http://localhost/budget", { method: "PATCH" }),
+      context
+    );
+
+    expect(response.status).toBe(404);
+    expect(serverDomainMocks.updateProjectAuditBudget).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { hasProjectPermission } from "@ton-audit/shared";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+const resolveGitHubUserMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/server/github", () => ({
+  resolveGitHubUser: resolveGitHubUserMock
+}));
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { POST as createInvitationRoute } from "../app/api/projects/[projectId]/invitations/route";
+import { DELETE as removeMemberRoute } from "../app/api/projects/[projectId]/members/[userId]/route";
+import { POST as respondToInvitationRoute } from "../app/api/account/invitations/[invitationId]/route";
+
+const project = { id: "project-1", ownerUserId: "user-1" };
+const projectContext = {
+  params: Promise.resolve({ projectId: "project-1" })
+};
+
+describe("project role permissions", () => {
+  it("lets viewers read but not edit, run audits or triage", () => {
+    expect(hasProjectPermission("viewer", "read")).toBe(true);
+    expect(hasProjectPermission("viewer", "write")).toBe(false);
+    expect(hasProjectPermission("viewer", "run-audit")).toBe(false);
+    expect(hasProjectPermission("viewer", "triage")).toBe(false);
+  });
+
+  it("reserves triage for auditors and membership management for owners", () => {
+    expect(hasProjectPermission("developer", "run-audit")).toBe(true);
+    expect(hasProjectPermission("developer", "triage")).toBe(false);
+    expect(hasProjectPermission("auditor", "triage")).toBe(true);
+    expect(hasProjectPermission("auditor", "manage")).toBe(false);
+    expect(hasProjectPermission("owner", "manage")).toBe(true);
+  });
+});
+
+describe("project member routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+    resolveGitHubUserMock.mockReset();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue(project);
+    serverDomainMocks.createProjectInvitation.mockResolvedValue({ id: "invitation-1" });
+    serverDomainMocks.removeProjectMember.mockResolvedValue({ userId: "user-2" });
+  });
+
+  it("invites by email with the manage permission", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      email: "reviewer@example.com",
+      role: "auditor"
+    });
+
+    const response = await createInvitationRoute(
+      new Request("http://localhost/invitations", { method: "POST" }),
+      projectContext
+    );
+
+    expect(response.status).toBe(201);
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "project-member-write",
+      30,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.ensureProjectAccess).toHaveBeenCalledWith(
+      "project-1",
+      "user-1",
+      "manage"
+    );
+    expect(serverDomainMocks.createProjectInvitation).toHaveBeenCalledWith({
+      project,
+      role: "auditor",
+      invitedByUserId: "user-1",
+      email: "reviewer@example.com",
+      github: null
+    });
+    expect(resolveGitHubUserMock).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown GitHub login", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      githubLogin: "missing-user",
+      role: "viewer"
+    });
+    resolveGitHubUserMock.mockResolvedValueOnce(null);
+
+    const response = await createInvitationRoute(
+      new Request("http://localhost/invitations", { method: "POST" }),
+      projectContext
+    );
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: "GitHub user not found" });
+    expect(serverDomainMocks.createProjectInvitation).not.toHaveBeenCalled();
+  });
+
+  it("lets any member leave but requires the owner to remove someone else", async () => {
+    applyDefaultServerApiMocks("user-2");
+
+    const leaveResponse = await removeMemberRoute(
+      new Request("http://localhost/members/user-2", { method: "DELETE" }),
+      { params: Promise.resolve({ projectId: "project-1", userId: "user-2" }) }
+    );
+    expect(leaveResponse.status).toBe(200);
+    expect(serverDomainMocks.ensureProjectAccess).toHaveBeenLastCalledWith(
+      "project-1",
+      "user-2",
+      "read"
+    );
+
+    await removeMemberRoute(
+      new Request("http://localhost/members/user-3", { method: "DELETE" }),
+      { params: Promise.resolve({ projectId: "project-1", userId: "user-3" }) }
+    );
+    expect(serverDomainMocks.ensureProjectAccess).toHaveBeenLastCalledWith(
+      "project-1",
+      "user-2",
+      "manage"
+    );
+  });
+
+  it("returns 404 when the invitation is not addressed to the caller", async () => {
+    serverApiMocks.requireSession.mockResolvedValueOnce({
+      user: { id: "user-2", email: "dev@example.com" }
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({ action: "accept" });
+    serverDomainMocks.respondToProjectInvitation.mockResolvedValueOnce(null);
+
+    const response = await respondToInvitationRoute(
+      new Request("http://localhost/invitations/invitation-1", { method: "POST" }),
+      { params: Promise.resolve({ invitationId: "invitation-1" }) }
+    );
+
+    expect(response.status).toBe(404);
+    expect(serverDomainMocks.respondToProjectInvitation).toHaveBeenCalledWith({
+      invitationId: "invitation-1",
+      user: { id: "user-2", email: "dev@example.com" },
+      action: "accept"
+    });
+  });
+});
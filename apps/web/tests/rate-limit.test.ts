@@ -47,16 +47,30 @@ describe("rate limiter", () => {
   it("throws 429 when the request exceeds the limit", async () => {
     mocks.eval.mockResolvedValue(1);
 
-    await expect(checkRateLimit("user-1", "export-pdf", 10, 60_000)).rejects.toMatchObject({
+    await expect(checkRateLimit({ user: { id: "user-1" } }, "export-pdf", 10, 60_000)).rejects.toMatchObject({
       message: "Too many requests. Please slow down.",
       statusCode: 429
     });
   });
 
+  it("counts API token requests per token instead of per user", async () => {
+    mocks.eval.mockResolvedValue(0);
+
+    await checkRateLimit(
+      { user: { id: "user-1" }, apiToken: { id: "token-1" } },
+      "run-audit",
+      10,
+      60_000
+    );
+
+    const [, , key] = mocks.eval.mock.calls[0] ?? [];
+    expect(key).toBe("rate-limit:token:token-1:run-audit");
+  });
+
   it("fails closed with 503 when Redis is unavailable", async () => {
     mocks.eval.mockRejectedValue(new Error("redis unavailable"));
 
-    await expect(checkRateLimit("user-1", "run-audit", 10, 60_000)).rejects.toMatchObject({
+    await expect(checkRateLimit({ user: { id: "user-1" } }, "run-audit", 10, 60_000)).rejects.toMatchObject({
       message: "Rate limiter unavailable. Please retry shortly.",
       statusCode: 503
     });
@@ -0,0 +1,207 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  buildReportTocEntries,
+  normalizeAuditReport,
+  renderReportHtml,
+  renderReportMarkdown,
+  reportBrandingSchema,
+  type ReportRenderParams
+} from "@ton-audit/shared";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import { applyDefaultServerApiMocks, resetServerApiMocks } from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as getHtmlRoute } from "../app/api/projects/[projectId]/audits/[auditId]/html/route";
+import { GET as getMarkdownRoute } from "../app/api/projects/[projectId]/audits/[auditId]/markdown/route";
+
+const routeContext = {
+  params: Promise.resolve({ projectId: "project-1", auditId: "audit-1" })
+};
+
+function buildRenderParams(): ReportRenderParams {
+  const report = normalizeAuditReport({
+    schemaVersion: 2,
+    reportSchemaVersion: 2,
+    engineVersion: "ton-audit-pro-v2",
+    auditId: "11111111-1111-4111-8111-111111111111",
+    projectId: "22222222-2222-4222-8222-222222222222",
+    revisionId: "33333333-3333-4333-8333-333333333333",
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    profile: "deep",
+    model: {
+      used: "google/gemini-2.5-flash",
+      primary: "google/gemini-2.5-flash",
+      fallback: "openai/gpt-4.1-mini"
+    },
+    executiveSummary: {
+      overview: "Audit overview",
+      keyRisks: ["Risk 1"],
+      topRecommendations: ["Recommendation 1"],
+      overallRisk: "medium"
+    },
+    methodology: {
+      approach: "Static and dynamic checks",
+      standards: ["OWASP-SC"],
+      scope: ["contracts/main.tolk"],
+      limitations: [],
+      assumptions: []
+    },
+    verificationMatrix: [],
+    riskPosture: { severityTotals: {}, cvssAverage: null, maxCvssScore: null },
+    taxonomySummary: { owaspCount: 0, cweCount: 0, swcCount: 0 },
+    findings: [],
+    qualityGates: { taxonomyCoveragePct: 100, cvssCoveragePct: 100, passed: true, failures: [] },
+    modelTraceSummary: { steps: 0, totalToolCalls: 0, totalTokens: 0, usedFallback: false },
+    summary: {
+      overview: "Audit overview",
+      methodology: "Static and dynamic checks",
+      scope: ["contracts/main.tolk"],
+      severityTotals: {}
+    },
+    appendix: {
+      references: [],
+      verificationNotes: [],
+      internalNotes: ["Escalate to the lead reviewer"]
+    }
+  });
+
+  return {
+    report,
+    findings: [],
+    transitions: [],
+    model: {
+      used: "google/gemini-2.5-flash",
+      primary: "google/gemini-2.5-flash",
+      fallback: "openai/gpt-4.1-mini"
+    },
+    branding: reportBrandingSchema.parse({
+      issuerLogoUrl: "https://cdn.example.com/logo.png"
+    }),
+    variant: "internal"
+  };
+}
+
+describe("report exports", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValue({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "completed"
+    });
+    serverDomainMocks.getAuditReportRenderParams.mockResolvedValue(buildRenderParams());
+  });
+
+  it("renders Markdown sections in PDF table-of-contents order", () => {
+    const markdown = renderReportMarkdown(buildRenderParams());
+    const positions = buildReportTocEntries(0).map((entry) =>
+      markdown.indexOf(`## ${entry.index}. ${entry.title}`)
+    );
+
+    expect(positions.every((position) => position >= 0)).toBe(true);
+    expect([...positions].sort((left, right) => left - right)).toEqual(positions);
+    expect(markdown).toContain("[Cover and Confidentiality](#1-cover-and-confidentiality)");
+  });
+
+  it("leaves internal notes and the model trace out of client Markdown", () => {
+    const internal = renderReportMarkdown(buildRenderParams());
+    const client = renderReportMarkdown({ ...buildRenderParams(), variant: "client" });
+
+    expect(internal).toContain("Escalate to the lead reviewer");
+    expect(internal).toContain("### Model Trace Summary");
+    expect(client).not.toContain("Escalate to the lead reviewer");
+    expect(client).not.toContain("### Internal Notes");
+    expect(client).not.toContain("### Model Trace Summary");
+    expect(client).not.toContain("Fallback Model");
+  });
+
+  it("renders standalone HTML with inline styles and no remote assets", () => {
+    const html = renderReportHtml({ ...buildRenderParams(), format: "html" });
+
+    expect(html).toContain("<style>");
+    expect(html).toContain("Standalone HTML Report");
+    expect(html).not.toContain("https://cdn.example.com/logo.png");
+    expect(html).not.toMatch(/<(link|script)\b/);
+  });
+
+  it("returns 409 until the audit has completed", async () => {
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValueOnce({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "running"
+    });
+
+    const response = await getMarkdownRoute(
+      new Request("http://localhost/markdown"),
+      routeContext
+    );
+
+    expect(response.status).toBe(409);
+    expect(serverDomainMocks.getAuditReportRenderParams).not.toHaveBeenCalled();
+  });
+
+  it("serves Markdown and HTML downloads for a completed audit", async () => {
+    const markdownResponse = await getMarkdownRoute(
+      new Request("http://localhost/markdown"),
+      routeContext
+    );
+    expect(markdownResponse.status).toBe(200);
+    expect(markdownResponse.headers.get("Content-Type")).toBe("text/markdown; charset=utf-8");
+    expect(markdownResponse.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="audit-audit-1.md"'
+    );
+    await expect(markdownResponse.text()).resolves.toContain("## 1. Cover and Confidentiality");
+
+    const htmlResponse = await getHtmlRoute(new Request("http://localhost/html"), routeContext);
+    expect(htmlResponse.status).toBe(200);
+    expect(htmlResponse.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+    expect(htmlResponse.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="audit-audit-1.html"'
+    );
+    await expect(htmlResponse.text()).resolves.toContain("<!doctype html>");
+  });
+
+  it("loads the client variant when requested and rejects unknown variants", async () => {
+    serverDomainMocks.getAuditReportRenderParams.mockResolvedValueOnce({
+      ...buildRenderParams(),
+      variant: "client"
+    });
+
+    const clientResponse = await getHtmlRoute(
+      new Request("http://localhost/html?variant=client"),
+      routeContext
+    );
+    expect(serverDomainMocks.getAuditReportRenderParams).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "audit-1" }),
+      "client"
+    );
+    expect(clientResponse.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="audit-audit-1-client.html"'
+    );
+    await expect(clientResponse.text()).resolves.not.toContain("Escalate to the lead reviewer");
+
+    const invalidResponse = await getMarkdownRoute(
+      new Request("http://localhost/markdown?variant=public"),
+      routeContext
+    );
+    expect(invalidResponse.status).toBe(400);
+    expect(serverDomainMocks.getAuditReportRenderParams).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  select: vi.fn()
+}));
+
+vi.mock("../lib/server/db", () => ({
+  db: {
+    select: mocks.select
+  }
+}));
+
+vi.mock("../lib/server/s3", () => ({
+  getObjectText: vi.fn(),
+  putObject: vi.fn()
+}));
+
+vi.mock("@/lib/uuid", () => import("../lib/uuid"));
+
+import { compareProjectRevisions } from "../lib/server/domain";
+
+describe("compareProjectRevisions", () => {
+  beforeEach(() => {
+    mocks.select.mockReset();
+  });
+
+  it("treats revision ids that are not UUIDs as not found without querying them", async () => {
+    await expect(
+      compareProjectRevisions({
+        projectId: "0b6f3c1e-8a2d-4c5e-9f10-2a3b4c5d6e7f",
+        fromRevisionId: "9e8d7c6b-5a49-4382-a1b0-c9d8e7f6a5b4",
+        toRevisionId: "rev-x"
+      })
+    ).resolves.toBeNull();
+    expect(mocks.select).not.toHaveBeenCalled();
+  });
+});
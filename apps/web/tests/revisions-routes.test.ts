@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as getRevisionsRoute } from "../app/api/projects/[projectId]/revisions/route";
+import { GET as getRevisionCompareRoute } from "../app/api/projects/[projectId]/revisions/compare/route";
+
+describe("revisions routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({
+      id: "project-1",
+      lifecycleState: "ready"
+    });
+  });
+
+  it("returns the project revision graph", async () => {
+    const revisions = [
+      { id: "rev-2", parentRevisionId: "rev-1", source: "working-copy", audits: [] },
+      { id: "rev-1", parentRevisionId: null, source: "upload", audits: [] }
+    ];
+    serverDomainMocks.getProjectRevisionGraph.mockResolvedValueOnce(revisions);
+
+    const response = await getRevisionsRoute(new Request("http://localhost/revisions"), {
+      params: Promise.resolve({ projectId: "project-1" })
+    });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ revisions });
+    expect(serverDomainMocks.getProjectRevisionGraph).toHaveBeenCalledWith("project-1");
+  });
+
+  it("validates revision compare parameters and returns 404 for foreign revisions", async () => {
+    const missingResponse = await getRevisionCompareRoute(
+      new Request("http://localhost/compare?fromRevisionId=rev-1"),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+    expect(missingResponse.status).toBe(400);
+
+    serverDomainMocks.compareProjectRevisions.mockResolvedValueOnce(null);
+    const notFoundResponse = await getRevisionCompareRoute(
+      new Request("http://localhost/compare?fromRevisionId=rev-1&toRevisionId=rev-x&diffLimit=5"),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+
+    expect(notFoundResponse.status).toBe(404);
+    await expect(notFoundResponse.json()).resolves.toEqual({ error: "Revision not found" });
+    expect(serverDomainMocks.compareProjectRevisions).toHaveBeenCalledWith({
+      projectId: "project-1",
+      fromRevisionId: "rev-1",
+      toRevisionId: "rev-x",
+      diffOffset: 0,
+      diffLimit: 5
+    });
+  });
+});
@@ -124,7 +124,7 @@ describe("run-audit route", () => {
 
     expect(response.status).toBe(200);
     expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
-      "user-1",
+      { user: { id: "user-1" } },
       "run-audit",
       10,
       600000
@@ -147,6 +147,211 @@ describe("run-audit route", () => {
     });
   });
 
+  it("forwards incremental mode to the audit run snapshot and verify job", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "google/gemini-2.5-flash",
+      profile: "fast",
+      mode: "incremental",
+      includeDocsFallbackFetch: true
+    });
+
+    const response = await runAuditRoute(
+      new Request("http://localhost/run-audit", { method: "POST" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        profile: "fast",
+        mode: "incremental"
+      })
+    );
+    expect(serverQueuesMocks.enqueueJob).toHaveBeenCalledWith(
+      "verify",
+      expect.objectContaining({
+        auditRunId: "audit-1",
+        mode: "incremental"
+      }),
+      "verify:project-1:audit-1"
+    );
+  });
+
+  it("routes per-pass models and checks every pass model against the allowlist", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "openai/gpt-5-mini",
+      passModels: {
+        validation: { modelId: "openai/gpt-5" }
+      },
+      profile: "deep",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+
+    const response = await runAuditRoute(
+      new Request("http://localhost/run-audit", { method: "POST" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverModelAllowlistMocks.assertAllowedModel).toHaveBeenCalledWith("openai/gpt-5", [
+      "google/gemini-2.5-flash"
+    ]);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        passModels: {
+          discovery: { primary: "google/gemini-2.5-flash", fallback: "openai/gpt-5-mini", used: null },
+          validation: { primary: "openai/gpt-5", fallback: "openai/gpt-5-mini", used: null },
+          synthesis: { primary: "google/gemini-2.5-flash", fallback: "openai/gpt-5-mini", used: null }
+        }
+      })
+    );
+  });
+
+  it("rejects pass models outside the allowlist before snapshotting", async () => {
+    const disallowed = Object.assign(new Error("Model is not allowed"), { statusCode: 400 });
+    serverModelAllowlistMocks.assertAllowedModel.mockImplementation((modelId: string) => {
+      if (modelId === "vendor/unlisted") {
+        throw disallowed;
+      }
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "google/gemini-2.5-flash",
+      passModels: {
+        discovery: { modelId: "google/gemini-2.5-flash", fallbackModelId: "vendor/unlisted" }
+      },
+      profile: "deep",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+
+    await runAuditRoute(new Request("http://localhost/run-audit", { method: "POST" }), {
+      params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+    });
+
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(disallowed);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).not.toHaveBeenCalled();
+  });
+
+  it("records consensus discovery models, defaulting to the discovery primary and fallback", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "openai/gpt-5-mini",
+      passModels: {},
+      profile: "consensus",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+
+    const response = await runAuditRoute(
+      new Request("http://localhost/run-audit", { method: "POST" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        profile: "consensus",
+        consensusModelIds: ["google/gemini-2.5-flash", "openai/gpt-5-mini"]
+      })
+    );
+  });
+
+  it("snapshots the run budget, falling back to the project budget", async () => {
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({
+      id: "project-1",
+      lifecycleState: "ready",
+      auditBudget: { maxCostUsd: 5 }
+    });
+    const request = () =>
+      runAuditRoute(new Request("http://localhost/run-audit", { method: "POST" }), {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      });
+
+    await request();
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "google/gemini-2.5-flash",
+      budget: { maxTokens: 200_000 },
+      profile: "deep",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+    await request();
+
+    const snapshotCalls = serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun.mock.calls;
+    expect(snapshotCalls[0]?.[0]).toMatchObject({ budget: { maxCostUsd: 5 } });
+    expect(snapshotCalls[1]?.[0]).toMatchObject({ budget: { maxTokens: 200_000 } });
+  });
+
+  it("rejects an inherited cost budget when a selected model has no price", async () => {
+    const unpriced = Object.assign(new Error("A cost budget needs a price"), { statusCode: 400 });
+    serverDomainMocks.ensureProjectAccess.mockResolvedValueOnce({
+      id: "project-1",
+      organizationId: "org-1",
+      lifecycleState: "ready",
+      auditBudget: { maxCostUsd: 5 }
+    });
+    serverModelAllowlistMocks.getAuditModelPrices.mockResolvedValueOnce({});
+    serverModelAllowlistMocks.assertPricedModels.mockImplementationOnce(() => {
+      throw unpriced;
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "openai/gpt-5-mini",
+      passModels: {},
+      profile: "deep",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+
+    await runAuditRoute(new Request("http://localhost/run-audit", { method: "POST" }), {
+      params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+    });
+
+    expect(serverModelAllowlistMocks.getAuditModelPrices).toHaveBeenCalledWith("org-1");
+    expect(serverModelAllowlistMocks.assertPricedModels).toHaveBeenCalledWith(
+      expect.arrayContaining(["google/gemini-2.5-flash", "openai/gpt-5-mini"]),
+      {}
+    );
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(unpriced);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).not.toHaveBeenCalled();
+  });
+
+  it("rejects consensus models outside the allowlist", async () => {
+    const disallowed = Object.assign(new Error("Model is not allowed"), { statusCode: 400 });
+    serverModelAllowlistMocks.assertAllowedModel.mockImplementation((modelId: string) => {
+      if (modelId === "vendor/unlisted") {
+        throw disallowed;
+      }
+    });
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "google/gemini-2.5-flash",
+      passModels: {},
+      consensusModelIds: ["google/gemini-2.5-flash", "vendor/unlisted"],
+      profile: "consensus",
+      mode: "full",
+      includeDocsFallbackFetch: true
+    });
+
+    await runAuditRoute(new Request("http://localhost/run-audit", { method: "POST" }), {
+      params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+    });
+
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(disallowed);
+    expect(serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun).not.toHaveBeenCalled();
+  });
+
   it("maps domain conflict errors to 409 conflict responses", async () => {
     serverDomainMocks.snapshotWorkingCopyAndCreateAuditRun.mockRejectedValueOnce(
       new ActiveAuditRunConflictError("audit-race")
@@ -0,0 +1,247 @@
+import Ajv from "ajv";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { auditFindingSchema, buildSarifLog, SARIF_FINGERPRINT_KEY } from "@ton-audit/shared";
+
+import sarifSchema from "./fixtures/sarif-schema-2.1.0.json";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import { applyDefaultServerApiMocks, resetServerApiMocks } from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as getSarifRoute } from "../app/api/projects/[projectId]/audits/[auditId]/sarif/route";
+
+const validateSarif = new Ajv({ allErrors: true }).compile(sarifSchema);
+
+function buildFinding(overrides: Record<string, unknown> = {}) {
+  return auditFindingSchema.parse({
+    findingId: "f-1",
+    severity: "high",
+    title: "Missing sender check in transfer handler",
+    summary: "Any account can trigger withdrawals.",
+    impact: "Funds can be drained.",
+    likelihood: "High",
+    evidence: {
+      filePath: "contracts/wallet.tact",
+      startLine: 12,
+      endLine: 14,
+      snippet: "receive(msg: Transfer) {",
+      enclosingScope: "receive(Transfer)"
+    },
+    exploitPath: "Send a Transfer message from any wallet.",
+    remediation: "Require sender() == self.owner.",
+    confidence: 0.9,
+    taxonomy: [
+      { standard: "swc", id: "SWC-105" },
+      {
+        standard: "cwe",
+        id: "CWE-284",
+        title: "Improper Access Control",
+        url: "https://cwe.mitre.org/data/definitions/284.html"
+      }
+    ],
+    cvssV31: {
+      vector: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:H/A:H",
+      baseScore: 9.1
+    },
+    ...overrides
+  });
+}
+
+function formatErrors() {
+  return JSON.stringify(validateSarif.errors, null, 2);
+}
+
+describe("SARIF export", () => {
+  it("emits a schema-valid log with taxonomy rules, fingerprints and baseline states", () => {
+    const log = buildSarifLog({
+      auditRunId: "audit-2",
+      projectId: "project-1",
+      revisionId: "revision-2",
+      engineVersion: "ton-audit-pro-v2",
+      findings: [
+        {
+          finding: buildFinding(),
+          stableFingerprint: "a".repeat(64),
+          transition: "unchanged",
+          triage: null
+        },
+        {
+          finding: buildFinding({
+            findingId: "f-2",
+            severity: "low",
+            title: "Unbounded loop over user map",
+            taxonomy: [],
+            cvssV31: undefined,
+            evidence: {
+              filePath: "./contracts/jetton wallet.fc",
+              startLine: 40,
+              endLine: 38,
+              snippet: "repeat(count) {"
+            }
+          }),
+          stableFingerprint: "b".repeat(64),
+          transition: "resolved",
+          triage: { status: "accepted_risk", justification: "Map size is capped off-chain." }
+        },
+        {
+          finding: buildFinding({ findingId: "f-3", severity: "medium" }),
+          stableFingerprint: "c".repeat(64),
+          transition: "regressed",
+          triage: { status: "confirmed", justification: "Reproduced in sandbox." }
+        }
+      ]
+    });
+
+    expect(validateSarif(log), formatErrors()).toBe(true);
+
+    const run = log.runs[0]!;
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      "cwe/CWE-284",
+      "ton-audit/uncategorized"
+    ]);
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      helpUri: "https://cwe.mitre.org/data/definitions/284.html",
+      defaultConfiguration: { level: "error" },
+      properties: {
+        tags: ["security", "swc/SWC-105", "cwe/CWE-284"],
+        "security-severity": "9.1"
+      }
+    });
+    expect(run.results.map((result) => result.baselineState)).toEqual([
+      "unchanged",
+      "absent",
+      "new"
+    ]);
+    expect(run.results.map((result) => result.ruleIndex)).toEqual([0, 1, 0]);
+    expect(run.results[0]!.partialFingerprints).toEqual({
+      [SARIF_FINGERPRINT_KEY]: "a".repeat(64)
+    });
+    expect(run.results[1]!.locations[0]!.physicalLocation).toEqual({
+      artifactLocation: { uri: "contracts/jetton%20wallet.fc", uriBaseId: "SRCROOT" },
+      region: { startLine: 40, endLine: 40, snippet: { text: "repeat(count) {" } }
+    });
+    expect(run.results[1]!.suppressions).toEqual([
+      {
+        kind: "external",
+        status: "accepted",
+        justification: "accepted_risk: Map size is capped off-chain."
+      }
+    ]);
+    expect(run.results[2]!.suppressions).toBeUndefined();
+  });
+
+  it("omits baseline states on a first audit and stays valid without findings", () => {
+    const firstAudit = buildSarifLog({
+      auditRunId: "audit-1",
+      projectId: "project-1",
+      revisionId: "revision-1",
+      engineVersion: "ton-audit-pro-v2",
+      findings: [
+        {
+          finding: buildFinding(),
+          stableFingerprint: "a".repeat(64),
+          transition: null
+        }
+      ]
+    });
+    const empty = buildSarifLog({
+      auditRunId: "audit-1",
+      projectId: "project-1",
+      revisionId: "revision-1",
+      engineVersion: "ton-audit-pro-v2",
+      findings: []
+    });
+
+    expect(firstAudit.runs[0]!.results[0]!.baselineState).toBeUndefined();
+    expect(validateSarif(firstAudit), formatErrors()).toBe(true);
+    expect(validateSarif(empty), formatErrors()).toBe(true);
+  });
+
+  it("rejects logs that break the schema", () => {
+    const log = buildSarifLog({
+      auditRunId: "audit-1",
+      projectId: "project-1",
+      revisionId: "revision-1",
+      engineVersion: "ton-audit-pro-v2",
+      findings: [
+        {
+          finding: buildFinding(),
+          stableFingerprint: "a".repeat(64),
+          transition: null
+        }
+      ]
+    });
+    const broken = structuredClone(log) as unknown as {
+      runs: Array<{ results: Array<Record<string, unknown>> }>;
+    };
+    broken.runs[0]!.results[0]!.baselineState = "resolved";
+
+    expect(validateSarif(broken)).toBe(false);
+  });
+});
+
+describe("SARIF export route", () => {
+  const routeContext = {
+    params: Promise.resolve({ projectId: "project-1", auditId: "audit-1" })
+  };
+
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValue({
+      id: "audit-1",
+      projectId: "project-1",
+      revisionId: "revision-1",
+      engineVersion: "ton-audit-pro-v2",
+      status: "completed"
+    });
+    serverDomainMocks.listAuditSarifFindings.mockResolvedValue([
+      {
+        finding: buildFinding(),
+        stableFingerprint: "a".repeat(64),
+        transition: null,
+        triage: null
+      }
+    ]);
+  });
+
+  it("returns 409 until the audit has completed", async () => {
+    serverDomainMocks.findAuditRunWithProject.mockResolvedValueOnce({
+      id: "audit-1",
+      status: "running"
+    });
+
+    const response = await getSarifRoute(new Request("http://localhost/sarif"), routeContext);
+
+    expect(response.status).toBe(409);
+    expect(serverDomainMocks.listAuditSarifFindings).not.toHaveBeenCalled();
+  });
+
+  it("downloads the SARIF log for a completed audit", async () => {
+    const response = await getSarifRoute(new Request("http://localhost/sarif"), routeContext);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/sarif+json");
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="audit-audit-1.sarif"'
+    );
+    const log = await response.json();
+    expect(validateSarif(log), formatErrors()).toBe(true);
+    expect(log.runs[0].automationDetails).toEqual({ id: "ton-audit/audit-1" });
+  });
+});
@@ -2,8 +2,10 @@ import { describe, expect, it } from "vitest";
 
 import {
   createFindingFingerprint,
+  isPrivateNetworkAddress,
   safeRelativePath,
   uploadInitSchema,
+  webhookSubscriptionCreateSchema,
   workingCopyPatchFileSchema
 } from "@ton-audit/shared";
 
@@ -12,17 +14,15 @@ describe("shared utils", () => {
     const one = createFindingFingerprint({
       title: "Unchecked bounce handling",
       filePath: "contracts/wallet.tact",
-      startLine: 12,
-      endLine: 19,
-      severity: "high"
+      snippet: "bounced(msg: Slice) {\n  self.balance += 1;\n}",
+      enclosingScope: "bounced(Slice)"
     });
 
     const two = createFindingFingerprint({
       title: " Unchecked bounce handling ",
       filePath: "contracts\\wallet.tact",
-      startLine: 12,
-      endLine: 19,
-      severity: "HIGH"
+      snippet: "12: bounced(msg: Slice) {\n13:     self.balance += 1; // credit back\n14: }",
+      enclosingScope: "bounced(Slice)"
     });
 
     expect(one).toBe(two);
@@ -74,4 +74,39 @@ describe("shared utils", () => {
 
     expect(parsed.success).toBe(false);
   });
+
+  it("rejects webhook URLs that point inside the deployment", () => {
+    const accepts = (url: string) =>
+      webhookSubscriptionCreateSchema.safeParse({
+        url,
+        secret: "0123456789abcdef",
+        events: ["audit.completed"]
+      }).success;
+
+    expect(accepts("https://hooks.example.com/ton-audit")).toBe(true);
+    expect(accepts("https://8.8.8.8/hook")).toBe(true);
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data",
+      "http://127.0.0.1:6379",
+      "http://2130706433/",
+      "http://10.1.2.3/hook",
+      "http://[::1]:9000/",
+      "http://[::ffff:192.168.0.1]/",
+      "http://[fd00::1]/",
+      "http://localhost:3003/run",
+      "http://minio:9000/bucket",
+      "http://metadata.google.internal/computeMetadata"
+    ]) {
+      expect(accepts(url), url).toBe(false);
+    }
+  });
+
+  it("classifies resolved addresses by network range", () => {
+    expect(isPrivateNetworkAddress("172.31.255.255")).toBe(true);
+    expect(isPrivateNetworkAddress("172.32.0.1")).toBe(false);
+    expect(isPrivateNetworkAddress("100.64.0.1")).toBe(true);
+    expect(isPrivateNetworkAddress("fe80::1%eth0")).toBe(true);
+    expect(isPrivateNetworkAddress("::ffff:127.0.0.1")).toBe(true);
+    expect(isPrivateNetworkAddress("2606:4700:4700::1111")).toBe(false);
+  });
 });
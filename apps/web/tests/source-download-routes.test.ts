@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as downloadRevisionRoute } from "../app/api/projects/[projectId]/revisions/[revisionId]/download/route";
+import { GET as downloadWorkingCopyRoute } from "../app/api/projects/[projectId]/working-copies/[workingCopyId]/download/route";
+
+function textStream(value: string) {
+  return new Response(value).body!;
+}
+
+describe("source download routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({
+      id: "project-1",
+      slug: "wallet",
+      lifecycleState: "ready"
+    });
+  });
+
+  it("streams a revision archive as a rate-limited zip attachment", async () => {
+    serverDomainMocks.createRevisionArchive.mockResolvedValueOnce({
+      revision: { id: "11111111-2222-3333-4444-555555555555" },
+      fileCount: 1,
+      stream: textStream("zip-bytes")
+    });
+
+    const response = await downloadRevisionRoute(new Request("http://localhost/download"), {
+      params: Promise.resolve({ projectId: "project-1", revisionId: "rev-1" })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/zip");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="wallet-revision-11111111.zip"'
+    );
+    await expect(response.text()).resolves.toBe("zip-bytes");
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      expect.anything(),
+      "download-source",
+      10,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.createRevisionArchive).toHaveBeenCalledWith({
+      projectId: "project-1",
+      revisionId: "rev-1"
+    });
+  });
+
+  it("returns 404 for revisions outside the project", async () => {
+    serverDomainMocks.createRevisionArchive.mockResolvedValueOnce(null);
+
+    const response = await downloadRevisionRoute(new Request("http://localhost/download"), {
+      params: Promise.resolve({ projectId: "project-1", revisionId: "rev-x" })
+    });
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: "Revision not found" });
+  });
+
+  it("streams the caller's working copy and rejects other working copies", async () => {
+    serverDomainMocks.ensureWorkingCopyAccess.mockResolvedValueOnce(null);
+    const missingResponse = await downloadWorkingCopyRoute(
+      new Request("http://localhost/download"),
+      { params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-x" }) }
+    );
+    expect(missingResponse.status).toBe(404);
+    expect(serverDomainMocks.createWorkingCopyArchive).not.toHaveBeenCalled();
+
+    const workingCopy = { id: "aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee", baseRevisionId: "rev-1" };
+    serverDomainMocks.ensureWorkingCopyAccess.mockResolvedValueOnce(workingCopy);
+    serverDomainMocks.createWorkingCopyArchive.mockResolvedValueOnce({
+      fileCount: 2,
+      stream: textStream("zip-bytes")
+    });
+
+    const response = await downloadWorkingCopyRoute(new Request("http://localhost/download"), {
+      params: Promise.resolve({ projectId: "project-1", workingCopyId: workingCopy.id })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="wallet-working-copy-aaaaaaaa.zip"'
+    );
+    expect(serverDomainMocks.createWorkingCopyArchive).toHaveBeenCalledWith(workingCopy);
+  });
+});
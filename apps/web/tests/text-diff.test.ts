@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  classifyFileChanges,
+  createFilePatch,
+  describeFileChanges,
+  diffLines,
+  splitLines
+} from "@ton-audit/shared";
+
+describe("text diff", () => {
+  it("finds a minimal line edit script", () => {
+    const ops = diffLines(["a", "b", "c", "d"], ["a", "c", "x", "d"]);
+
+    expect(ops?.map((op) => `${op.type}:${op.line}`)).toEqual([
+      "equal:a",
+      "delete:b",
+      "equal:c",
+      "insert:x",
+      "equal:d"
+    ]);
+  });
+
+  it("gives up when the edit distance exceeds the cap", () => {
+    expect(diffLines(["a", "b", "c"], ["x", "y", "z"], 2)).toBeNull();
+  });
+
+  it("formats unified hunks with surrounding context", () => {
+    const before = Array.from({ length: 10 }, (_, index) => `line ${index + 1}`).join("\n");
+    const after = before.replace("line 5", "line five");
+
+    const result = createFilePatch({ path: "contracts/main.tolk", before, after });
+
+    expect(result.linesAdded).toBe(1);
+    expect(result.linesRemoved).toBe(1);
+    expect(result.patch).toBe(
+      [
+        "--- a/contracts/main.tolk",
+        "+++ b/contracts/main.tolk",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("diffs added files against /dev/null", () => {
+    const result = createFilePatch({ path: "new.tolk", before: null, after: "one\ntwo\n" });
+
+    expect(result.hunks).toEqual([
+      { oldStart: 0, oldLines: 0, newStart: 1, newLines: 2, lines: ["+one", "+two"] }
+    ]);
+    expect(result.patch?.startsWith("--- /dev/null\n+++ b/new.tolk\n")).toBe(true);
+  });
+
+  it("ignores the empty line after a trailing newline", () => {
+    expect(splitLines("a\r\nb\n")).toEqual(["a", "b"]);
+    expect(splitLines("")).toEqual([]);
+  });
+});
+
+describe("file change classification", () => {
+  it("classifies paths by content hash and summarises them", () => {
+    const changes = classifyFileChanges(
+      [
+        { path: "a.tolk", sha256: "1" },
+        { path: "b.tolk", sha256: "2" },
+        { path: "c.tolk", sha256: "3" }
+      ],
+      [
+        { path: "a.tolk", sha256: "1" },
+        { path: "b.tolk", sha256: "20" },
+        { path: "d.tolk", sha256: "4" }
+      ]
+    );
+
+    expect(changes).toEqual({
+      added: ["d.tolk"],
+      removed: ["c.tolk"],
+      modified: ["b.tolk"],
+      unchanged: ["a.tolk"]
+    });
+    expect(describeFileChanges(changes)).toBe(
+      "1 modified, 1 added, 1 removed: b.tolk, d.tolk, c.tolk"
+    );
+    expect(describeFileChanges({ added: [], removed: [], modified: [] })).toBe(
+      "No file changes"
+    );
+  });
+});
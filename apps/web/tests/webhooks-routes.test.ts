@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+vi.mock("@/lib/server/queues", async () => {
+  const fixture = await import("./fixtures/server-queues-mocks");
+  return fixture.serverQueuesMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks,
+  serverApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import {
+  resetServerQueuesMocks,
+  serverQueuesMocks
+} from "./fixtures/server-queues-mocks";
+import { POST as createWebhookRoute } from "../app/api/projects/[projectId]/webhooks/route";
+import { GET as listDeliveriesRoute } from "../app/api/admin/webhooks/deliveries/route";
+import { POST as redeliverRoute } from "../app/api/admin/webhooks/deliveries/[deliveryId]/redeliver/route";
+
+const deliveryContext = {
+  params: Promise.resolve({ deliveryId: "delivery-1" })
+};
+
+describe("webhook routes", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+    resetServerQueuesMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.getWebhookDeliveryDetail.mockResolvedValue({
+      id: "delivery-1",
+      projectId: "project-1",
+      status: "failed",
+      attempts: []
+    });
+    serverDomainMocks.resetWebhookDeliveryForRedelivery.mockResolvedValue({ id: "delivery-1" });
+    serverQueuesMocks.enqueueJob.mockResolvedValue({ id: "job-1" });
+  });
+
+  it("creates a subscription for the project owner", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      url: "https://hooks.example.com/ton-audit",
+      secret: "0123456789abcdef",
+      events: ["audit.completed"],
+      enabled: true
+    });
+    serverDomainMocks.createWebhookSubscription.mockResolvedValueOnce({
+      id: "webhook-1",
+      url: "https://hooks.example.com/ton-audit"
+    });
+
+    const response = await createWebhookRoute(
+      new Request("http://localhost/webhooks", { method: "POST" }),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+
+    expect(response.status).toBe(201);
+    expect(serverApiMocks.checkRateLimit).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "webhook-write",
+      30,
+      10 * 60_000
+    );
+    expect(serverDomainMocks.createWebhookSubscription).toHaveBeenCalledWith({
+      projectId: "project-1",
+      url: "https://hooks.example.com/ton-audit",
+      secret: "0123456789abcdef",
+      events: ["audit.completed"],
+      enabled: true,
+      createdByUserId: "user-1"
+    });
+    await expect(response.json()).resolves.toEqual({
+      webhook: { id: "webhook-1", url: "https://hooks.example.com/ton-audit" }
+    });
+  });
+
+  it("returns 404 when the user does not own the project", async () => {
+    serverDomainMocks.ensureProjectOwnerAccess.mockResolvedValueOnce(null);
+
+    const response = await createWebhookRoute(
+      new Request("http://localhost/webhooks", { method: "POST" }),
+      { params: Promise.resolve({ projectId: "project-1" }) }
+    );
+
+    expect(response.status).toBe(404);
+    expect(serverDomainMocks.createWebhookSubscription).not.toHaveBeenCalled();
+  });
+
+  it("lists failed deliveries by default and rejects unknown statuses", async () => {
+    serverDomainMocks.listWebhookDeliveries.mockResolvedValueOnce([]);
+
+    const response = await listDeliveriesRoute(
+      new Request("http://localhost/api/admin/webhooks/deliveries?limit=500")
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.listWebhookDeliveries).toHaveBeenCalledWith({
+      status: "failed",
+      projectId: undefined,
+      limit: 200
+    });
+
+    const invalid = await listDeliveriesRoute(
+      new Request("http://localhost/api/admin/webhooks/deliveries?status=lost")
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  it("resets a failed delivery and enqueues a fresh job", async () => {
+    const response = await redeliverRoute(
+      new Request("http://localhost/redeliver", { method: "POST" }),
+      deliveryContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverApiMocks.requireAdminSession).toHaveBeenCalled();
+    expect(serverDomainMocks.resetWebhookDeliveryForRedelivery).toHaveBeenCalledWith("delivery-1");
+    expect(serverQueuesMocks.enqueueJob).toHaveBeenCalledWith(
+      "webhook-delivery",
+      { projectId: "project-1", deliveryId: "delivery-1" },
+      expect.stringMatching(/^webhook-delivery:delivery-1:/)
+    );
+  });
+
+  it("refuses to redeliver a delivery that has not failed", async () => {
+    serverDomainMocks.getWebhookDeliveryDetail.mockResolvedValueOnce({
+      id: "delivery-1",
+      projectId: "project-1",
+      status: "succeeded",
+      attempts: []
+    });
+
+    const response = await redeliverRoute(
+      new Request("http://localhost/redeliver", { method: "POST" }),
+      deliveryContext
+    );
+
+    expect(response.status).toBe(409);
+    expect(serverQueuesMocks.enqueueJob).not.toHaveBeenCalled();
+  });
+});
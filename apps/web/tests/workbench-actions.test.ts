@@ -38,6 +38,8 @@ import {
   buildLspWebSocketUrls,
   canExportAuditPdf,
   createIdleAuditPipeline,
+  describeConsensusDiscoveryProgress,
+  describeDiscoveryShardProgress,
   finalizeAuditPipeline,
   normalizeModelAllowlist,
   parseVerifyProgressSteps,
@@ -137,6 +139,57 @@ describe("workbench runtime behaviors", () => {
     expect(pipeline.stages["quality-gate"].status).toBe("completed");
   });
 
+  it("describes sharded discovery progress for the execution tracker", () => {
+    expect(
+      describeDiscoveryShardProgress("agent-discovery-shard", {
+        shardIndex: 1,
+        shardCount: 4,
+        fileCount: 18,
+        status: "running"
+      })
+    ).toBe("Shard 2/4 running on 18 file(s).");
+    expect(
+      describeDiscoveryShardProgress("agent-discovery-shard", {
+        shardIndex: 3,
+        shardCount: 4,
+        status: "completed",
+        candidateCount: 2
+      })
+    ).toBe("Shard 4/4 completed with 2 candidate(s).");
+    expect(
+      describeDiscoveryShardProgress("agent-discovery-merge", { shardCount: 4, candidateCount: 7 })
+    ).toBe("Merging 7 candidate(s) from 4 shard(s).");
+  });
+
+  it("describes consensus discovery progress per model and after clustering", () => {
+    expect(
+      describeConsensusDiscoveryProgress("agent-discovery-consensus", {
+        modelId: "openai/gpt-5",
+        modelIndex: 1,
+        modelCount: 3,
+        status: "completed",
+        candidateCount: 5
+      })
+    ).toBe("Model 2/3 (openai/gpt-5) completed with 5 candidate(s).");
+    expect(
+      describeConsensusDiscoveryProgress("agent-discovery-consensus", {
+        modelId: "openai/gpt-5",
+        modelIndex: 1,
+        modelCount: 3,
+        status: "failed",
+        error: "rate limited"
+      })
+    ).toBe("Model 2/3 (openai/gpt-5) failed: rate limited");
+    expect(
+      describeConsensusDiscoveryProgress("agent-discovery-cluster", {
+        modelCount: 3,
+        candidateCount: 14,
+        clusterCount: 8,
+        agreedCount: 4
+      })
+    ).toBe("Clustered 14 candidate(s) from 3 model(s) into 8; 4 found by more than one model.");
+  });
+
   it("builds websocket candidates with localhost loopback fallback", () => {
     expect(buildLspWebSocketUrls("ws://localhost:3002")).toEqual([
       "ws://localhost:3002",
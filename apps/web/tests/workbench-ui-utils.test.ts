@@ -1,8 +1,16 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  buildPassModelsRequest,
+  createEmptyPassModelOverrides,
+  describeAuditPassModels,
+  describeAuditSpend,
+  describeProjectAuditSpend,
   filterWorkbenchTree,
-  resolveMonacoTheme
+  layoutRevisionGraph,
+  resolveMonacoTheme,
+  sanitizePassModelOverrides,
+  toggleConsensusModel
 } from "../components/workbench/workbench-ui-utils";
 
 describe("workbench ui utils", () => {
@@ -59,4 +67,100 @@ describe("workbench ui utils", () => {
     expect(resolveMonacoTheme({ resolvedTheme: "system", prefersDark: false })).toBe("vs");
     expect(resolveMonacoTheme({ resolvedTheme: undefined, prefersDark: true })).toBe("vs-dark");
   });
+
+  it("lays out branching revisions in separate lanes until they meet their parent", () => {
+    const { rows, width } = layoutRevisionGraph([
+      { id: "rev-4", parentRevisionId: "rev-2" },
+      { id: "rev-3", parentRevisionId: "rev-1" },
+      { id: "rev-2", parentRevisionId: "rev-1" },
+      { id: "rev-1", parentRevisionId: null }
+    ]);
+
+    expect(width).toBe(2);
+    expect(rows.map((row) => row.lane)).toEqual([0, 1, 0, 0]);
+    expect(rows[2]).toMatchObject({ above: [true, true], below: [true, true] });
+    expect(rows[3]).toMatchObject({ above: [true, true], below: [] });
+  });
+
+  it("sends only overridden passes and keeps the primary model for fallback-only overrides", () => {
+    const overrides = createEmptyPassModelOverrides();
+    overrides.discovery = { modelId: "google/gemini-2.5-flash", fallbackModelId: "" };
+    overrides.synthesis = { modelId: "", fallbackModelId: "openai/gpt-5" };
+
+    expect(buildPassModelsRequest(overrides, "anthropic/claude-sonnet-4")).toEqual({
+      discovery: { modelId: "google/gemini-2.5-flash" },
+      synthesis: { modelId: "anthropic/claude-sonnet-4", fallbackModelId: "openai/gpt-5" }
+    });
+  });
+
+  it("drops persisted pass overrides that left the allowlist", () => {
+    expect(
+      sanitizePassModelOverrides(
+        { validation: { modelId: "retired/model", fallbackModelId: "openai/gpt-5" } },
+        ["openai/gpt-5"]
+      )
+    ).toEqual({
+      discovery: { modelId: "", fallbackModelId: "" },
+      validation: { modelId: "", fallbackModelId: "openai/gpt-5" },
+      synthesis: { modelId: "", fallbackModelId: "" }
+    });
+  });
+
+  it("lists passes that ran on a model other than the primary", () => {
+    expect(
+      describeAuditPassModels(
+        {
+          discovery: { primary: "a/model", used: "a/model" },
+          validation: { primary: "b/model", used: "c/model" },
+          synthesis: { primary: "a/model", used: null }
+        },
+        "a/model"
+      )
+    ).toBe("validation c/model");
+    expect(describeAuditPassModels(null, "a/model")).toBeNull();
+  });
+
+  it("summarizes audit spend against its budget", () => {
+    expect(
+      describeAuditSpend({
+        tokenUsage: { totalTokens: 120_500 },
+        costUsd: 0.4213,
+        budget: { maxCostUsd: 1 }
+      })
+    ).toBe("$0.42 / $1.00 · 120.5k tokens");
+    expect(
+      describeAuditSpend({
+        tokenUsage: { totalTokens: 900 },
+        costUsd: null,
+        budget: { maxTokens: 2_000_000 }
+      })
+    ).toBe("cost n/a · 900 / 2.0M tokens");
+    expect(describeAuditSpend({ tokenUsage: null })).toBeNull();
+  });
+
+  it("summarizes cumulative project spend", () => {
+    expect(
+      describeProjectAuditSpend({
+        auditCount: 3,
+        totalTokens: 450_000,
+        totalCostUsd: 1.2,
+        unpricedAuditCount: 1
+      })
+    ).toBe("$1.20 · 450.0k tokens across 3 audits · 1 without cost");
+    expect(
+      describeProjectAuditSpend({
+        auditCount: 0,
+        totalTokens: 0,
+        totalCostUsd: 0,
+        unpricedAuditCount: 0
+      })
+    ).toBeNull();
+  });
+
+  it("toggles consensus models up to three picks", () => {
+    const picked = ["a/model", "b/model", "c/model"].reduce<string[]>(toggleConsensusModel, []);
+
+    expect(toggleConsensusModel(picked, "d/model")).toEqual(picked);
+    expect(toggleConsensusModel(picked, "b/model")).toEqual(["a/model", "c/model"]);
+  });
 });
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/server/api", async () => {
+  const fixture = await import("./fixtures/server-api-mocks");
+  return fixture.serverApiMockModule;
+});
+
+vi.mock("@/lib/server/domain", async () => {
+  const fixture = await import("./fixtures/server-domain-mocks");
+  return fixture.serverDomainMockModule;
+});
+
+import {
+  applyDefaultServerApiMocks,
+  resetServerApiMocks
+} from "./fixtures/server-api-mocks";
+import {
+  resetServerDomainMocks,
+  serverDomainMocks
+} from "./fixtures/server-domain-mocks";
+import { GET as getWorkingCopyChangesRoute } from "../app/api/projects/[projectId]/working-copies/[workingCopyId]/changes/route";
+
+const context = {
+  params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+};
+
+describe("working copy changes route", () => {
+  beforeEach(() => {
+    resetServerApiMocks();
+    resetServerDomainMocks();
+
+    applyDefaultServerApiMocks("user-1");
+    serverDomainMocks.ensureProjectAccess.mockResolvedValue({ id: "project-1" });
+    serverDomainMocks.ensureWorkingCopyAccess.mockResolvedValue({
+      id: "wc-1",
+      baseRevisionId: "rev-1"
+    });
+  });
+
+  it("returns 404 for working copies owned by someone else", async () => {
+    serverDomainMocks.ensureWorkingCopyAccess.mockResolvedValueOnce(null);
+
+    const response = await getWorkingCopyChangesRoute(
+      new Request("http://localhost/changes"),
+      context
+    );
+
+    expect(response.status).toBe(404);
+    expect(serverDomainMocks.getWorkingCopyChanges).not.toHaveBeenCalled();
+  });
+
+  it("returns the diff against the working copy's base revision", async () => {
+    const changes = {
+      baseRevisionId: "rev-1",
+      summary: {
+        added: 0,
+        removed: 0,
+        modified: 1,
+        unchanged: 3,
+        linesAdded: 1,
+        linesRemoved: 1,
+        description: "1 modified: contracts/main.tolk"
+      },
+      files: []
+    };
+    serverDomainMocks.getWorkingCopyChanges.mockResolvedValueOnce(changes);
+
+    const response = await getWorkingCopyChangesRoute(
+      new Request("http://localhost/changes"),
+      context
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual(changes);
+    expect(serverDomainMocks.getWorkingCopyChanges).toHaveBeenCalledWith({
+      id: "wc-1",
+      baseRevisionId: "rev-1"
+    });
+  });
+});
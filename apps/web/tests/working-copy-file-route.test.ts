@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
+import { createContentFingerprint } from "@ton-audit/shared";
+
 vi.mock("@/lib/server/api", async () => {
   const fixture = await import("./fixtures/server-api-mocks");
   return fixture.serverApiMockModule;
@@ -27,12 +29,15 @@ import {
 } from "./fixtures/server-db-mocks";
 import {
   resetServerDomainMocks,
-  serverDomainMocks
+  serverDomainMocks,
+  WorkingCopyFileConflictError
 } from "./fixtures/server-domain-mocks";
 import {
+  DELETE as deleteWorkingCopyFileRoute,
   GET as getWorkingCopyFileRoute,
   PATCH as patchWorkingCopyFileRoute
 } from "../app/api/projects/[projectId]/working-copies/[workingCopyId]/file/route";
+import { POST as moveWorkingCopyPathRoute } from "../app/api/projects/[projectId]/working-copies/[workingCopyId]/file/move/route";
 
 describe("working copy file route", () => {
   beforeEach(() => {
@@ -54,9 +59,13 @@ describe("working copy file route", () => {
     });
 
     serverDomainMocks.saveWorkingCopyFile.mockResolvedValue({
-      path: "contracts/main.tolk",
-      content: "fun main() {}",
-      language: "tolk"
+      file: {
+        path: "contracts/main.tolk",
+        content: "fun main() {}",
+        language: "tolk",
+        version: "v2"
+      },
+      previousContent: null
     });
   });
 
@@ -78,6 +87,112 @@ describe("working copy file route", () => {
     expect(serverDomainMocks.saveWorkingCopyFile).not.toHaveBeenCalled();
   });
 
+  it("requires a version precondition before saving", async () => {
+    const response = await patchWorkingCopyFileRoute(
+      new Request("http://localhost/file", { method: "PATCH" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(428);
+    expect(serverDomainMocks.saveWorkingCopyFile).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 with the server copy when the If-Match version is stale", async () => {
+    const current = {
+      path: "contracts/main.tolk",
+      language: "tolk",
+      content: "fun theirs() {}",
+      version: "v3"
+    };
+    serverDomainMocks.saveWorkingCopyFile.mockRejectedValueOnce(
+      new WorkingCopyFileConflictError(current)
+    );
+
+    const response = await patchWorkingCopyFileRoute(
+      new Request("http://localhost/file", {
+        method: "PATCH",
+        headers: { "If-Match": '"v1"' }
+      }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toEqual({
+      error: "This file was changed by someone else since you opened it.",
+      file: current
+    });
+    expect(serverDomainMocks.saveWorkingCopyFile).toHaveBeenCalledWith(
+      expect.objectContaining({ expectedVersion: "v1" })
+    );
+    expect(serverDomainMocks.recordAuditLog).not.toHaveBeenCalled();
+  });
+
+  it("creates new files only when If-None-Match: * is sent", async () => {
+    const response = await patchWorkingCopyFileRoute(
+      new Request("http://localhost/file", {
+        method: "PATCH",
+        headers: { "If-None-Match": "*" }
+      }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("etag")).toBe('"v2"');
+    expect(serverDomainMocks.saveWorkingCopyFile).toHaveBeenCalledWith(
+      expect.objectContaining({ expectedVersion: null })
+    );
+  });
+
+  it("records the saved file and its line changes in the audit log", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      path: "./contracts/main.tolk",
+      content: "fun main() {}\n",
+      language: "tolk"
+    });
+    serverDomainMocks.saveWorkingCopyFile.mockResolvedValueOnce({
+      file: {
+        path: "contracts/main.tolk",
+        content: "fun main() {}\n",
+        language: "tolk",
+        version: "v2"
+      },
+      previousContent: "fun old() {}\n"
+    });
+
+    const response = await patchWorkingCopyFileRoute(
+      new Request("http://localhost/file", {
+        method: "PATCH",
+        headers: { "If-Match": '"v1"' }
+      }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(200);
+    expect(serverDomainMocks.recordAuditLog).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      {
+        action: "working_copy.file_saved",
+        projectId: "project-1",
+        targetType: "working_copy",
+        targetId: "wc-1",
+        summary: {
+          path: "contracts/main.tolk",
+          created: false,
+          linesAdded: 1,
+          linesRemoved: 1
+        }
+      }
+    );
+  });
+
   it("validates GET query and returns 400 when file path is missing", async () => {
     const response = await getWorkingCopyFileRoute(new Request("http://localhost/file"), {
       params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
@@ -101,7 +216,7 @@ describe("working copy file route", () => {
     await expect(response.json()).resolves.toEqual({ error: "File not found" });
   });
 
-  it("returns file payload for valid working-copy reads", async () => {
+  it("returns the file payload and its version for valid working-copy reads", async () => {
     const file = {
       path: "contracts/main.tolk",
       language: "tolk",
@@ -116,7 +231,90 @@ describe("working copy file route", () => {
       }
     );
 
+    const version = createContentFingerprint(file.content);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("etag")).toBe(`"${version}"`);
+    await expect(response.json()).resolves.toEqual({ file: { ...file, version } });
+  });
+
+  it("blocks deletes and moves while an audit is queued or running", async () => {
+    serverDomainMocks.findActiveAuditRun.mockResolvedValue({ id: "audit-1" });
+    const context = {
+      params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+    };
+
+    const deleteResponse = await deleteWorkingCopyFileRoute(
+      new Request("http://localhost/file?path=contracts", { method: "DELETE" }),
+      context
+    );
+    const moveResponse = await moveWorkingCopyPathRoute(
+      new Request("http://localhost/file/move", { method: "POST" }),
+      context
+    );
+
+    expect(deleteResponse.status).toBe(409);
+    expect(moveResponse.status).toBe(409);
+    expect(serverDomainMocks.deleteWorkingCopyPath).not.toHaveBeenCalled();
+    expect(serverDomainMocks.moveWorkingCopyPath).not.toHaveBeenCalled();
+  });
+
+  it("deletes a path with the write permission and records the removed files", async () => {
+    serverDomainMocks.deleteWorkingCopyPath.mockResolvedValueOnce({
+      path: "contracts",
+      deletedPaths: ["contracts/a.tolk", "contracts/b.tolk"]
+    });
+
+    const response = await deleteWorkingCopyFileRoute(
+      new Request("http://localhost/file?path=./contracts", { method: "DELETE" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
     expect(response.status).toBe(200);
-    await expect(response.json()).resolves.toEqual({ file });
+    expect(serverDomainMocks.ensureProjectAccess).toHaveBeenCalledWith(
+      "project-1",
+      "user-1",
+      "write"
+    );
+    expect(serverDomainMocks.deleteWorkingCopyPath).toHaveBeenCalledWith("wc-1", "contracts");
+    expect(serverDomainMocks.recordAuditLog).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      {
+        action: "working_copy.path_deleted",
+        projectId: "project-1",
+        targetType: "working_copy",
+        targetId: "wc-1",
+        summary: {
+          path: "contracts",
+          deletedPaths: ["contracts/a.tolk", "contracts/b.tolk"]
+        }
+      }
+    );
+  });
+
+  it("surfaces move conflicts from the domain without recording an audit entry", async () => {
+    serverApiMocks.parseJsonBody.mockResolvedValueOnce({
+      fromPath: "contracts",
+      toPath: "src"
+    });
+    const conflict = Object.assign(new Error("src already exists."), { statusCode: 409 });
+    serverDomainMocks.moveWorkingCopyPath.mockRejectedValueOnce(conflict);
+
+    const response = await moveWorkingCopyPathRoute(
+      new Request("http://localhost/file/move", { method: "POST" }),
+      {
+        params: Promise.resolve({ projectId: "project-1", workingCopyId: "wc-1" })
+      }
+    );
+
+    expect(response.status).toBe(500);
+    expect(serverApiMocks.toApiErrorResponse).toHaveBeenCalledWith(conflict);
+    expect(serverDomainMocks.moveWorkingCopyPath).toHaveBeenCalledWith({
+      workingCopyId: "wc-1",
+      fromPath: "contracts",
+      toPath: "src"
+    });
+    expect(serverDomainMocks.recordAuditLog).not.toHaveBeenCalled();
   });
 });
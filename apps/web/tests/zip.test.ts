@@ -0,0 +1,69 @@
+import { inflateRawSync } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import { createZipStream } from "@ton-audit/shared";
+
+async function readStream(stream: ReadableStream<Uint8Array>) {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+function readCentralDirectory(archive: Buffer) {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entryCount = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+  const entries = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    const method = archive.readUInt16LE(cursor + 10);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const commentLength = archive.readUInt16LE(cursor + 32);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+    const comment = archive.toString(
+      "utf8",
+      cursor + 46 + nameLength,
+      cursor + 46 + nameLength + commentLength
+    );
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.push({
+      name,
+      comment,
+      method,
+      content: (method === 8 ? inflateRawSync(data) : data).toString("utf8")
+    });
+    cursor += 46 + nameLength + commentLength;
+  }
+
+  return { entries, comment: archive.toString("utf8", end + 22) };
+}
+
+describe("createZipStream", () => {
+  it("writes entries with paths, comments and deflated content", async () => {
+    const archive = await readStream(
+      createZipStream(
+        [
+          { path: "contracts/main.tolk", content: Buffer.from("fun main() {}\n".repeat(20)) },
+          { path: "tests/main.spec.ts", content: Buffer.from("x"), comment: "ton-audit:test-file" }
+        ],
+        { comment: "Revision rev-1" }
+      )
+    );
+
+    const { entries, comment } = readCentralDirectory(archive);
+
+    expect(comment).toBe("Revision rev-1");
+    expect(entries).toEqual([
+      {
+        name: "contracts/main.tolk",
+        comment: "",
+        method: 8,
+        content: "fun main() {}\n".repeat(20)
+      },
+      { name: "tests/main.spec.ts", comment: "ton-audit:test-file", method: 0, content: "x" }
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { eq } from "drizzle-orm";
+
+import { auditRuns } from "@ton-audit/shared";
+
+import { db } from "./db";
+
+const CANCELLATION_POLL_INTERVAL_MS = 5_000;
+
+export class AuditRunCancelledError extends Error {
+  constructor(readonly auditRunId: string) {
+    super("Audit run was cancelled");
+    this.name = "AuditRunCancelledError";
+  }
+}
+
+export async function isAuditRunCancelled(auditRunId: string) {
+  const auditRun = await db.query.auditRuns.findFirst({
+    where: eq(auditRuns.id, auditRunId),
+    columns: {
+      status: true
+    }
+  });
+
+  return auditRun?.status === "cancelled";
+}
+
+export async function throwIfAuditRunCancelled(auditRunId: string, signal?: AbortSignal) {
+  if (signal?.aborted || (await isAuditRunCancelled(auditRunId))) {
+    throw new AuditRunCancelledError(auditRunId);
+  }
+}
+
+/**
+ * Polls the audit run status and aborts the returned signal once the run is cancelled,
+ * so in-flight model calls and sandbox streams stop without waiting for the next phase.
+ */
+export function watchAuditRunCancellation(
+  auditRunId: string,
+  intervalMs = CANCELLATION_POLL_INTERVAL_MS
+) {
+  const controller = new AbortController();
+  const timer = setInterval(() => {
+    void isAuditRunCancelled(auditRunId)
+      .then((cancelled) => {
+        if (cancelled && !controller.signal.aborted) {
+          controller.abort(new AuditRunCancelledError(auditRunId));
+        }
+      })
+      .catch(() => undefined);
+  }, intervalMs);
+  timer.unref?.();
+
+  return {
+    signal: controller.signal,
+    stop: () => clearInterval(timer)
+  };
+}
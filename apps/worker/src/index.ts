@@ -8,7 +8,8 @@ import {
   type JobPayloadMap,
   queueConcurrency,
   queueNames,
-  type JobStep
+  type JobStep,
+  webhookDeliveryJobOptions
 } from "@ton-audit/shared";
 
 import { db, pool } from "./db";
@@ -23,6 +24,7 @@ import { toBullMqJobId } from "./job-id";
 import { workerLogger } from "./logger";
 import { createPdfProcessor } from "./processors/pdf";
 import { createVerifyProcessor } from "./processors/verify";
+import { createWebhookDeliveryProcessor } from "./processors/webhook-delivery";
 import { recordJobEvent } from "./job-events";
 
 const queues = {
@@ -39,7 +41,10 @@ const queues = {
   docsIndex: new Queue<JobPayloadMap["docs-index"]>(queueNames.docsIndex, {
     connection: redisConnection
   }),
-  cleanup: new Queue<JobPayloadMap["cleanup"]>(queueNames.cleanup, { connection: redisConnection })
+  cleanup: new Queue<JobPayloadMap["cleanup"]>(queueNames.cleanup, { connection: redisConnection }),
+  webhookDelivery: new Queue<JobPayloadMap["webhook-delivery"]>(queueNames.webhookDelivery, {
+    connection: redisConnection
+  })
 } as const;
 
 function readIntegerEnv(name: string, fallback: number, minimum = 1) {
@@ -80,6 +85,9 @@ function extractPayloadContext(payload: unknown) {
   if (typeof data.sourceId === "string") {
     context.sourceId = data.sourceId;
   }
+  if (typeof data.deliveryId === "string") {
+    context.deliveryId = data.deliveryId;
+  }
 
   return context;
 }
@@ -182,6 +190,18 @@ async function enqueueJob<Name extends keyof JobPayloadMap>(
         workerLogger.info("queue.enqueue.accepted", { ...context, enqueuedJobId: String(enqueued.id) });
         return enqueued;
       }
+      case "webhook-delivery": {
+        const enqueued = await queues.webhookDelivery.add(
+          step,
+          payload as JobPayloadMap["webhook-delivery"],
+          {
+            jobId: safeJobId,
+            ...webhookDeliveryJobOptions
+          }
+        );
+        workerLogger.info("queue.enqueue.accepted", { ...context, enqueuedJobId: String(enqueued.id) });
+        return enqueued;
+      }
       default:
         throw new Error(`Unsupported queue step: ${String(step)}`);
     }
@@ -287,11 +307,12 @@ function createWorker<Name extends JobStep>(
 const ingestProcessor = createIngestProcessor({ enqueueJob });
 const verifyProcessor = createVerifyProcessor({ enqueueJob });
 const auditProcessor = createAuditProcessor({ enqueueJob });
-const findingLifecycleProcessor = createFindingLifecycleProcessor();
-const pdfProcessor = createPdfProcessor();
+const findingLifecycleProcessor = createFindingLifecycleProcessor({ enqueueJob });
+const pdfProcessor = createPdfProcessor({ enqueueJob });
 const docsCrawlProcessor = createDocsCrawlProcessor({ enqueueJob });
 const docsIndexProcessor = createDocsIndexProcessor();
 const cleanupProcessor = createCleanupProcessor();
+const webhookDeliveryProcessor = createWebhookDeliveryProcessor();
 
 const workers = [
   createWorker("ingest", ingestProcessor, queueConcurrency.ingest),
@@ -301,7 +322,8 @@ const workers = [
   createWorker("pdf", pdfProcessor, queueConcurrency.pdf),
   createWorker("docs-crawl", docsCrawlProcessor, queueConcurrency.docsCrawl),
   createWorker("docs-index", docsIndexProcessor, queueConcurrency.docsIndex),
-  createWorker("cleanup", cleanupProcessor, queueConcurrency.cleanup)
+  createWorker("cleanup", cleanupProcessor, queueConcurrency.cleanup),
+  createWorker("webhook-delivery", webhookDeliveryProcessor, queueConcurrency.webhookDelivery)
 ];
 
 const healthPort = Number(process.env.WORKER_HEALTH_PORT || 3010);
@@ -0,0 +1,136 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+
+import {
+  DEFAULT_LLM_PROVIDER_ID,
+  LLM_PROVIDER_REGISTRY_SETTING_KEY,
+  type LlmProvider,
+  type LlmProviderRegistry,
+  llmProviderRegistrySchema
+} from "@ton-audit/shared";
+
+import { env } from "./env";
+import { loadSystemSettingValue } from "./settings";
+
+type ReadEnv = (name: string) => string | undefined;
+
+function createProvider(provider: LlmProvider, readEnv: ReadEnv) {
+  let apiKey: string | undefined;
+  if (provider.apiKeyEnv) {
+    apiKey = readEnv(provider.apiKeyEnv);
+    // Failing here beats the SDKs silently falling back to their own default env variables.
+    if (!apiKey) {
+      throw new Error(`LLM provider ${provider.id} expects an API key in ${provider.apiKeyEnv}`);
+    }
+  }
+
+  switch (provider.type) {
+    case "openrouter":
+      return createOpenRouter({ apiKey, baseURL: provider.baseUrl });
+    case "openai":
+      return createOpenAI({ apiKey, baseURL: provider.baseUrl });
+    case "anthropic":
+      return createAnthropic({ apiKey, baseURL: provider.baseUrl });
+    case "openai-compatible":
+      if (!provider.baseUrl) {
+        throw new Error(`LLM provider ${provider.id} has no baseUrl`);
+      }
+      return createOpenAICompatible({
+        name: provider.id,
+        baseURL: provider.baseUrl,
+        apiKey,
+        supportsStructuredOutputs: true
+      });
+  }
+}
+
+export type LlmProviders = ReturnType<typeof createLlmProviders>;
+
+/**
+ * Resolves models to the provider their allowlist route names. Providers are created on first use,
+ * so a misconfigured provider only fails the audits that actually route to it.
+ */
+export function createLlmProviders(params: {
+  registry: LlmProviderRegistry;
+  /** Allowlist provider routes keyed by model id. */
+  routes?: Record<string, string>;
+  readEnv?: ReadEnv;
+}) {
+  const readEnv = params.readEnv ?? ((name: string) => process.env[name]);
+  const definitions = new Map<string, LlmProvider>([
+    [DEFAULT_LLM_PROVIDER_ID, { id: DEFAULT_LLM_PROVIDER_ID, type: "openrouter" }]
+  ]);
+  for (const provider of params.registry.providers) {
+    definitions.set(provider.id, provider);
+  }
+
+  const instances = new Map<string, ReturnType<typeof createProvider>>();
+  const getProvider = (providerId: string) => {
+    const existing = instances.get(providerId);
+    if (existing) {
+      return existing;
+    }
+
+    const definition = definitions.get(providerId);
+    if (!definition) {
+      throw new Error(`Unknown LLM provider: ${providerId}`);
+    }
+
+    // The built-in provider keeps using the deployment's OpenRouter key.
+    const instance =
+      providerId === DEFAULT_LLM_PROVIDER_ID && !definition.apiKeyEnv
+        ? createOpenRouter({ apiKey: env.OPENROUTER_API_KEY, baseURL: definition.baseUrl })
+        : createProvider(definition, readEnv);
+    instances.set(providerId, instance);
+    return instance;
+  };
+
+  const providerIdFor = (modelId: string) => params.routes?.[modelId] ?? DEFAULT_LLM_PROVIDER_ID;
+
+  return {
+    providerIdFor,
+    languageModel(modelId: string) {
+      return getProvider(providerIdFor(modelId)).languageModel(modelId);
+    },
+    /**
+     * Retrieval queries embed source code, so an audit that keeps its models off OpenRouter must
+     * not send that code to OpenRouter for embeddings either.
+     */
+    embeddingModel() {
+      const embeddings = params.registry.embeddings;
+      if (!embeddings) {
+        const offOpenRouter = Object.values(params.routes ?? {}).some(
+          (providerId) => definitions.get(providerId)?.type !== "openrouter"
+        );
+        if (offOpenRouter) {
+          throw new Error(
+            "Models are routed away from OpenRouter but no embeddings provider is configured"
+          );
+        }
+      }
+
+      const { providerId, modelId } = embeddings ?? {
+        providerId: DEFAULT_LLM_PROVIDER_ID,
+        modelId: env.OPENROUTER_EMBEDDINGS_MODEL
+      };
+      const provider = getProvider(providerId);
+      // The OpenRouter provider only implements the older `textEmbeddingModel` name.
+      return definitions.get(providerId)?.type === "openrouter"
+        ? provider.textEmbeddingModel(modelId)
+        : provider.embeddingModel(modelId);
+    }
+  };
+}
+
+/** An invalid registry fails the job rather than silently sending code to the default provider. */
+export async function loadLlmProviderRegistry(): Promise<LlmProviderRegistry> {
+  const value = await loadSystemSettingValue(LLM_PROVIDER_REGISTRY_SETTING_KEY);
+  const parsed = llmProviderRegistrySchema.safeParse(value ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid ${LLM_PROVIDER_REGISTRY_SETTING_KEY} setting: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,101 @@
+import {
+  type AuditBudget,
+  type AuditTokenUsage,
+  calculateModelCostUsd,
+  type ModelPrice
+} from "@ton-audit/shared";
+
+export type AuditBudgetSnapshot = {
+  tokenUsage: AuditTokenUsage;
+  /** `null` once any model without a configured price has spent tokens. */
+  costUsd: number | null;
+  unpricedModels: string[];
+  /** Pass that crossed the budget, or `null` while the run is within it. */
+  exhaustedDuring: string | null;
+};
+
+export type AuditBudgetTracker = {
+  budget: AuditBudget | null;
+  record: (pass: string, modelId: string, usage: AuditTokenUsage) => void;
+  isExhausted: () => boolean;
+  snapshot: () => AuditBudgetSnapshot;
+};
+
+function createEmptyTokenUsage(): AuditTokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+    totalTokens: 0
+  };
+}
+
+/**
+ * Accumulates token usage and priced cost across every agent step of an audit run. Lives for the
+ * whole job so pipeline retries keep counting against the same budget; `recorded` carries the
+ * spend a failed earlier attempt of the job already persisted on the run.
+ */
+export function createAuditBudgetTracker(params: {
+  budget: AuditBudget | null;
+  prices: Record<string, ModelPrice>;
+  recorded?: { tokenUsage: AuditTokenUsage | null; costUsd: number | null };
+}): AuditBudgetTracker {
+  const tokenUsage = { ...createEmptyTokenUsage(), ...params.recorded?.tokenUsage };
+  const unpricedModels = new Set<string>();
+  let pricedCostUsd = params.recorded?.costUsd ?? 0;
+  // A recorded run without a cost spent tokens on a model that had no price.
+  const recordedUnpriced = tokenUsage.totalTokens > 0 && params.recorded?.costUsd == null;
+  let exhaustedDuring: string | null = null;
+
+  const isOverBudget = () => {
+    const budget = params.budget;
+    if (!budget) {
+      return false;
+    }
+
+    // Spend on an unpriced model cannot be measured, so it exhausts a cost limit outright.
+    return (
+      (budget.maxTokens !== undefined && tokenUsage.totalTokens >= budget.maxTokens) ||
+      (budget.maxCostUsd !== undefined &&
+        (recordedUnpriced || unpricedModels.size > 0 || pricedCostUsd >= budget.maxCostUsd))
+    );
+  };
+
+  if (isOverBudget()) {
+    exhaustedDuring = "an earlier attempt";
+  }
+
+  return {
+    budget: params.budget,
+    record(pass, modelId, usage) {
+      tokenUsage.inputTokens += usage.inputTokens;
+      tokenUsage.outputTokens += usage.outputTokens;
+      tokenUsage.reasoningTokens += usage.reasoningTokens;
+      tokenUsage.cachedInputTokens += usage.cachedInputTokens;
+      tokenUsage.totalTokens += usage.totalTokens;
+
+      const price = params.prices[modelId];
+      if (price) {
+        pricedCostUsd += calculateModelCostUsd(usage, price);
+      } else if (usage.totalTokens > 0) {
+        unpricedModels.add(modelId);
+      }
+
+      if (exhaustedDuring === null && isOverBudget()) {
+        exhaustedDuring = pass;
+      }
+    },
+    isExhausted() {
+      return exhaustedDuring !== null;
+    },
+    snapshot() {
+      return {
+        tokenUsage: { ...tokenUsage },
+        costUsd: recordedUnpriced || unpricedModels.size > 0 ? null : pricedCostUsd,
+        unpricedModels: [...unpricedModels],
+        exhaustedDuring
+      };
+    }
+  };
+}
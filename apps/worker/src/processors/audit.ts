@@ -1,29 +1,74 @@
 import { ToolLoopAgent, Output, embed, stepCountIs, tool } from "ai"
 import { Job } from "bullmq"
-import { and, desc, eq, sql } from "drizzle-orm"
+import { and, desc, eq, inArray, sql } from "drizzle-orm"
 import { z } from "zod"
 
 import {
+  AUDIT_MODEL_ALLOWLIST_SETTING_KEY,
+  type AuditFinding,
   auditFindingSchema,
+  type AuditPass,
+  type AuditPassModels,
+  type AuditProfile,
   auditRuns,
   auditReportSchema,
   createFindingFingerprint,
   docsChunks,
+  findEnclosingScope,
+  type FindingIdentity,
   docsSources,
   findingInstances,
   findingTransitions,
+  findingTriages,
+  type FindingTriageStatus,
   findings,
   type JobPayloadMap,
+  matchFindingIdentities,
+  modelAllowlistSchema,
+  projects,
+  resolveAuditPassModels,
+  resolveConsensusModelIds,
+  revisions,
   verificationSteps
 } from "@ton-audit/shared"
 
+import {
+  AuditRunCancelledError,
+  isAuditRunCancelled,
+  throwIfAuditRunCancelled,
+  watchAuditRunCancellation
+} from "../audit-cancellation"
 import { db } from "../db"
-import { env } from "../env"
 import { recordJobEvent } from "../job-events"
+import { type LlmProviders, createLlmProviders, loadLlmProviderRegistry } from "../llm-providers"
 import { workerLogger } from "../logger"
-import { openrouter } from "../openrouter"
-import { loadRevisionFilesWithContent, type RevisionFileContent } from "../revision-files"
+import {
+  loadRevisionFileHashes,
+  loadRevisionFilesWithContent,
+  type RevisionFileContent
+} from "../revision-files"
 import { getObjectText, putObject } from "../s3"
+import { loadSystemSettingValue } from "../settings"
+import { dispatchWebhookEvent } from "../webhooks"
+import { type AuditBudgetTracker, createAuditBudgetTracker } from "./audit-budget"
+import {
+  clusterConsensusCandidates,
+  type ConsensusCandidate,
+  resolveConsensusDiscoverers
+} from "./discovery-consensus"
+import {
+  dedupeDiscoveryCandidates,
+  DISCOVERY_SHARD_CONCURRENCY,
+  type DiscoveryShard,
+  type DiscoveryShardPlan,
+  mapWithConcurrency,
+  planDiscoveryShards
+} from "./discovery-shards"
+import {
+  computeIncrementalScope,
+  type IncrementalScope,
+  selectCarriedForwardFindings
+} from "./incremental-scope"
 import type { EnqueueJob } from "./types"
 
 type RetrievedDocChunk = {
@@ -38,9 +83,28 @@ type PriorFindingContext = {
   title: string
   filePath: string
   summary: string
+  triageStatus: FindingTriageStatus | null
+  triageJustification: string | null
+  baselineFinding: AuditFinding | null
+}
+
+type PriorFindingIdentity = FindingIdentity & {
+  fingerprint: string
 }
 
-type AgentPassName = "discovery" | "validation" | "synthesis"
+type IncrementalAuditContext =
+  | {
+      kind: "scoped"
+      parentRevisionId: string
+      baselineAuditId: string
+      scope: IncrementalScope
+    }
+  | {
+      kind: "full"
+      reason: string
+    }
+
+type AgentPassName = "discovery" | "discovery-merge" | "validation" | "synthesis"
 
 type AgentStepTrace = {
   pass: AgentPassName
@@ -344,6 +408,74 @@ function buildFileDigest(files: RevisionFileContent[]) {
     .join("\n\n")
 }
 
+function buildIncrementalFileDigest(files: RevisionFileContent[], scope: IncrementalScope) {
+  const filesByPath = new Map(files.map((file) => [file.path, file]))
+  const contextLines = 6
+
+  const changedSections = scope.changedFiles.slice(0, 24).flatMap((change) => {
+    const file = filesByPath.get(change.path)
+    if (!file) {
+      return []
+    }
+
+    const lines = file.content.split(/\r?\n/)
+    const hunks = change.changedLineRanges.slice(0, 12).map((range) => {
+      const start = Math.max(range.startLine - contextLines, 1)
+      const end = Math.min(range.endLine + contextLines, lines.length)
+      return lines
+        .slice(start - 1, end)
+        .map((line, index) => `${start + index}: ${line}`)
+        .join("\n")
+    })
+
+    return [
+      `CHANGED FILE (${change.status}): ${change.path}\n\`\`\`\n${hunks.join("\n...\n").slice(0, 4_800)}\n\`\`\``
+    ]
+  })
+
+  const neighbourSections = scope.neighbourPaths.slice(0, 12).flatMap((path) => {
+    const file = filesByPath.get(path)
+    if (!file) {
+      return []
+    }
+
+    return [`IMPORT NEIGHBOUR: ${file.path}\n\`\`\`\n${file.content.slice(0, 1_200)}\n\`\`\``]
+  })
+
+  return (
+    [...changedSections, ...neighbourSections].join("\n\n") ||
+    "No source files changed since the parent revision."
+  )
+}
+
+function buildIncrementalScopeSummary(params: {
+  scope: IncrementalScope
+  carriedForwardFindings: AuditFinding[]
+}) {
+  const changed = params.scope.changedFiles
+    .map((change) => {
+      const ranges = change.changedLineRanges
+        .map((range) =>
+          range.startLine === range.endLine ? `${range.startLine}` : `${range.startLine}-${range.endLine}`
+        )
+        .join(", ")
+      return `${change.path} (${change.status}; lines ${ranges || "n/a"})`
+    })
+    .join("; ")
+  const carried = params.carriedForwardFindings
+    .slice(0, 20)
+    .map((finding) => `${finding.severity.toUpperCase()} ${finding.title} @ ${finding.evidence.filePath}`)
+    .join("\n")
+
+  return [
+    `Changed files: ${changed || "none"}`,
+    `Removed files: ${params.scope.removedPaths.join(", ") || "none"}`,
+    `Import neighbours: ${params.scope.neighbourPaths.join(", ") || "none"}`,
+    "Carried-forward findings (code unchanged, do not re-report):",
+    carried || "none"
+  ].join("\n")
+}
+
 function parseCvssVector(vector: string): CvssMetrics | null {
   const normalized = vector.trim()
   if (!normalized) {
@@ -722,7 +854,8 @@ function normalizeFinding(
       filePath,
       startLine,
       endLine,
-      snippet
+      snippet,
+      enclosingScope: sourceFile ? findEnclosingScope(sourceFile.content, startLine) : null
     },
     taxonomy: taxonomyWithFallback,
     cvssV31: cvss,
@@ -755,7 +888,7 @@ function normalizeFinding(
   return auditFindingSchema.parse(normalized)
 }
 
-async function retrieveDocChunks(query: string): Promise<RetrievedDocChunk[]> {
+async function retrieveDocChunks(query: string, llm: LlmProviders): Promise<RetrievedDocChunk[]> {
   const queryTerms = query.slice(0, 10_000)
   const lexicalRows = await db.execute(sql`
     SELECT dc.id::text as chunk_id, ds.source_url, dc.chunk_text
@@ -777,7 +910,7 @@ async function retrieveDocChunks(query: string): Promise<RetrievedDocChunk[]> {
   let semanticChunks: RetrievedDocChunk[] = []
   try {
     const { embedding } = await embed({
-      model: openrouter.textEmbeddingModel(env.OPENROUTER_EMBEDDINGS_MODEL),
+      model: llm.embeddingModel(),
       value: queryTerms.slice(0, 2_500)
     })
 
@@ -986,15 +1119,27 @@ function normalizeModelError(error: unknown): NormalizedModelError {
 async function loadPriorFindingContext(params: {
   projectId: string
   createdAt: Date
+  baselineAuditRunId?: string | null
 }): Promise<PriorFindingContext[]> {
-  const rows = await db
-    .select({
-      findingId: findingInstances.findingId,
-      severity: findingInstances.severity,
-      payloadJson: findingInstances.payloadJson
-    })
-    .from(findingInstances)
-    .innerJoin(auditRuns, eq(findingInstances.auditRunId, auditRuns.id))
+  const selectPriorFindingRows = () =>
+    db
+      .select({
+        findingId: findingInstances.findingId,
+        severity: findingInstances.severity,
+        payloadJson: findingInstances.payloadJson,
+        auditRunId: findingInstances.auditRunId,
+        triageStatus: findingTriages.status,
+        triageJustification: findingTriages.justification
+      })
+      .from(findingInstances)
+      .innerJoin(auditRuns, eq(findingInstances.auditRunId, auditRuns.id))
+      .leftJoin(findingTriages, eq(findingTriages.findingId, findingInstances.findingId))
+
+  // Baseline rows are loaded in full so every carry-forward candidate survives the history limit.
+  const baselineRows = params.baselineAuditRunId
+    ? await selectPriorFindingRows().where(eq(findingInstances.auditRunId, params.baselineAuditRunId))
+    : []
+  const historyRows = await selectPriorFindingRows()
     .where(
       and(
         eq(auditRuns.projectId, params.projectId),
@@ -1004,9 +1149,21 @@ async function loadPriorFindingContext(params: {
     )
     .orderBy(desc(auditRuns.createdAt))
     .limit(50)
+  // Reviewer-dismissed false positives are always included so the model stops re-raising them.
+  const falsePositiveRows = await selectPriorFindingRows()
+    .where(
+      and(
+        eq(auditRuns.projectId, params.projectId),
+        eq(auditRuns.status, "completed"),
+        eq(findingTriages.status, "false_positive"),
+        sql`${auditRuns.createdAt} < ${params.createdAt}`
+      )
+    )
+    .orderBy(desc(auditRuns.createdAt))
+    .limit(50)
 
   const deduped = new Map<string, PriorFindingContext>()
-  for (const row of rows) {
+  for (const row of [...baselineRows, ...falsePositiveRows, ...historyRows]) {
     if (deduped.has(row.findingId)) {
       continue
     }
@@ -1018,13 +1175,180 @@ async function loadPriorFindingContext(params: {
       severity: row.severity,
       title: typeof payload.title === "string" ? payload.title : "Untitled finding",
       filePath: typeof evidence.filePath === "string" ? evidence.filePath : "unknown",
-      summary: typeof payload.summary === "string" ? payload.summary : ""
+      summary: typeof payload.summary === "string" ? payload.summary : "",
+      triageStatus: row.triageStatus ?? null,
+      triageJustification: row.triageJustification ?? null,
+      baselineFinding:
+        row.auditRunId === params.baselineAuditRunId
+          ? (auditFindingSchema.safeParse(row.payloadJson).data ?? null)
+          : null
     })
   }
 
   return [...deduped.values()]
 }
 
+// One row per finding the project has ever reported, from its latest completed run, so the
+// identity history is never truncated on projects with many findings.
+async function loadPriorFindingIdentities(params: {
+  projectId: string
+  createdAt: Date
+}): Promise<PriorFindingIdentity[]> {
+  const rows = await db
+    .selectDistinctOn([findings.id], {
+      fingerprint: findings.stableFingerprint,
+      payloadJson: findingInstances.payloadJson
+    })
+    .from(findingInstances)
+    .innerJoin(findings, eq(findingInstances.findingId, findings.id))
+    .innerJoin(auditRuns, eq(findingInstances.auditRunId, auditRuns.id))
+    .where(
+      and(
+        eq(auditRuns.projectId, params.projectId),
+        eq(auditRuns.status, "completed"),
+        sql`${auditRuns.createdAt} < ${params.createdAt}`
+      )
+    )
+    .orderBy(findings.id, desc(auditRuns.createdAt))
+
+  const latestByFingerprint = new Map<string, PriorFindingIdentity>()
+  for (const row of rows) {
+    if (latestByFingerprint.has(row.fingerprint)) {
+      continue
+    }
+
+    const payload = isRecord(row.payloadJson) ? row.payloadJson : {}
+    const evidence = isRecord(payload.evidence) ? payload.evidence : {}
+    latestByFingerprint.set(row.fingerprint, {
+      fingerprint: row.fingerprint,
+      title: typeof payload.title === "string" ? payload.title : "",
+      filePath: typeof evidence.filePath === "string" ? evidence.filePath : "",
+      snippet: typeof evidence.snippet === "string" ? evidence.snippet : "",
+      enclosingScope: typeof evidence.enclosingScope === "string" ? evidence.enclosingScope : null
+    })
+  }
+
+  return [...latestByFingerprint.values()]
+}
+
+function relinkFindingIdentities<T extends AuditFinding>(
+  currentFindings: T[],
+  priorIdentities: PriorFindingIdentity[]
+) {
+  const exactFingerprints = new Set(priorIdentities.map((identity) => identity.fingerprint))
+  const unmatchedIndexes = currentFindings
+    .map((finding, index) => (exactFingerprints.has(finding.findingId) ? -1 : index))
+    .filter((index) => index >= 0)
+  const claimedFingerprints = new Set(currentFindings.map((finding) => finding.findingId))
+  const candidateIdentities = priorIdentities.filter(
+    (identity) => !claimedFingerprints.has(identity.fingerprint)
+  )
+
+  const matches = matchFindingIdentities(
+    candidateIdentities,
+    unmatchedIndexes.map((index) => {
+      const finding = currentFindings[index]!
+      return {
+        title: finding.title,
+        filePath: finding.evidence.filePath,
+        snippet: finding.evidence.snippet,
+        enclosingScope: finding.evidence.enclosingScope
+      }
+    })
+  )
+
+  const relinked = [...currentFindings]
+  for (const match of matches) {
+    const index = unmatchedIndexes[match.currentIndex]!
+    relinked[index] = {
+      ...relinked[index]!,
+      findingId: candidateIdentities[match.previousIndex]!.fingerprint
+    }
+  }
+
+  return relinked
+}
+
+export async function loadIncrementalAuditContext(params: {
+  projectId: string
+  revisionId: string
+  createdAt: Date
+  files: RevisionFileContent[]
+}): Promise<IncrementalAuditContext> {
+  const revision = await db.query.revisions.findFirst({
+    where: and(eq(revisions.id, params.revisionId), eq(revisions.projectId, params.projectId)),
+    columns: {
+      parentRevisionId: true
+    }
+  })
+
+  if (!revision?.parentRevisionId) {
+    return { kind: "full", reason: "Revision has no parent revision to diff against." }
+  }
+
+  const parentRevisionId = revision.parentRevisionId
+  const [baselineAudit] = await db
+    .select({ id: auditRuns.id })
+    .from(auditRuns)
+    .where(
+      and(
+        eq(auditRuns.projectId, params.projectId),
+        eq(auditRuns.revisionId, parentRevisionId),
+        eq(auditRuns.status, "completed"),
+        sql`${auditRuns.createdAt} < ${params.createdAt}`
+      )
+    )
+    .orderBy(desc(auditRuns.createdAt))
+    .limit(1)
+
+  // Without a baseline there is nothing to carry forward, so a scoped run would drop every
+  // finding in unchanged files.
+  if (!baselineAudit) {
+    return { kind: "full", reason: "Parent revision has no completed audit to build on." }
+  }
+
+  const [currentHashes, parentHashes] = await Promise.all([
+    loadRevisionFileHashes(params.revisionId),
+    loadRevisionFileHashes(parentRevisionId)
+  ])
+  if (!parentHashes.length) {
+    return { kind: "full", reason: "Parent revision has no files." }
+  }
+
+  const currentHashByPath = new Map(currentHashes.map((file) => [file.path, file.sha256]))
+
+  // Parent content is only fetched for modified files so unchanged blobs are never re-read.
+  const parentFiles = await Promise.all(
+    parentHashes.map(async (file) => {
+      const current = currentHashByPath.get(file.path)
+      const content =
+        current !== undefined && current !== file.sha256 ? await getObjectText(file.s3Key) : null
+
+      return {
+        path: file.path,
+        sha256: file.sha256,
+        content
+      }
+    })
+  )
+
+  const scope = computeIncrementalScope({
+    currentFiles: params.files.map((file) => ({
+      path: file.path,
+      sha256: currentHashByPath.get(file.path) ?? "",
+      content: file.content
+    })),
+    parentFiles
+  })
+
+  return {
+    kind: "scoped",
+    parentRevisionId,
+    baselineAuditId: baselineAudit.id,
+    scope
+  }
+}
+
 function searchSourceLines(params: { files: RevisionFileContent[]; query: string; maxResults: number }) {
   const terms = params.query
     .toLowerCase()
@@ -1132,21 +1456,34 @@ async function readArtifactWithCache(
 }
 
 function buildDiscoveryPrompt(params: {
-  profile: "fast" | "deep"
+  profile: AuditProfile
   verificationSummary: string
   fileDigest: string
   docs: RetrievedDocChunk[]
   priorFindings: PriorFindingContext[]
+  incrementalSummary?: string | null
+  shard?: { shard: DiscoveryShard; shardCount: number } | null
 }) {
   const docsSummary = params.docs
     .slice(0, 8)
     .map((doc) => `SOURCE: ${doc.sourceUrl}\n${doc.chunkText.slice(0, 1_300)}`)
     .join("\n\n")
   const priorSummary = params.priorFindings
+    .filter((finding) => finding.triageStatus !== "false_positive")
     .slice(0, 10)
     .map(
       (finding) =>
-        `${finding.severity.toUpperCase()} ${finding.title} @ ${finding.filePath} :: ${finding.summary}`
+        `${finding.severity.toUpperCase()} ${finding.title} @ ${finding.filePath} :: ${finding.summary}${
+          finding.triageStatus ? ` [triaged: ${finding.triageStatus}]` : ""
+        }`
+    )
+    .join("\n")
+  const falsePositiveSummary = params.priorFindings
+    .filter((finding) => finding.triageStatus === "false_positive")
+    .slice(0, 20)
+    .map(
+      (finding) =>
+        `${finding.title} @ ${finding.filePath} :: reviewer justification: ${finding.triageJustification ?? "n/a"}`
     )
     .join("\n")
 
@@ -1165,18 +1502,87 @@ function buildDiscoveryPrompt(params: {
     docsSummary || "No indexed documentation context available.",
     "",
     "Prior findings context:",
-    priorSummary || "No prior findings available."
+    priorSummary || "No prior findings available.",
+    "",
+    "Reviewer-confirmed false positives (do not report again unless the code changed materially):",
+    falsePositiveSummary || "None.",
+    ...(params.incrementalSummary
+      ? [
+          "",
+          "Incremental audit scope:",
+          "Focus discovery on the changed line ranges and their import neighbours below.",
+          "Use source tools to inspect unchanged code only when needed to confirm an exploit path.",
+          params.incrementalSummary
+        ]
+      : []),
+    ...(params.shard
+      ? [
+          "",
+          `Discovery shard ${params.shard.shard.index + 1} of ${params.shard.shardCount}:`,
+          "The code digest only covers this shard's files; the other shards are reviewed in parallel.",
+          "Report candidates located in this shard. Use source tools to follow calls into other files.",
+          `Shard files: ${params.shard.shard.paths.join(", ")}`
+        ]
+      : [])
+  ].join("\n")
+}
+
+function buildDiscoveryMergePrompt(params: {
+  profile: AuditProfile
+  plan: DiscoveryShardPlan
+  shardResults: Array<{ shard: DiscoveryShard; overview: string; keyRisks: string[] }>
+  candidates: z.infer<typeof discoveryPassSchema>["candidates"]
+}) {
+  const shardSummary = params.shardResults
+    .map(
+      (result) =>
+        `SHARD ${result.shard.index + 1}: ${result.shard.paths.join(", ")}\n${result.overview}${
+          result.keyRisks.length ? `\nKey risks: ${result.keyRisks.join("; ")}` : ""
+        }`
+    )
+    .join("\n\n")
+  const crossShardImports = params.plan.crossShardImports
+    .slice(0, 100)
+    .map((edge) => `${edge.fromPath} -> ${edge.toPath}`)
+    .join("\n")
+
+  return [
+    "Merge candidate findings from a sharded discovery pass over a multi-contract TON codebase.",
+    "Each shard reviewed a subset of files; no shard saw the whole codebase.",
+    "Drop duplicates that describe the same root cause, keeping the most precise evidence.",
+    "Then look for inter-contract issues the shards could not see: message flows, bounced",
+    "message handling, trust assumptions and shared state across contracts and imports.",
+    "Return the complete merged candidate list, including every shard candidate you keep.",
+    `Execution profile: ${params.profile}.`,
+    "",
+    "Shard overviews:",
+    shardSummary,
+    "",
+    "Cross-shard imports:",
+    crossShardImports || "None.",
+    "",
+    "Shard candidates:",
+    JSON.stringify(params.candidates, null, 2)
   ].join("\n")
 }
 
 function buildValidationPrompt(params: {
   candidates: z.infer<typeof discoveryPassSchema>["candidates"]
   verificationSummary: string
+  consensusModelIds?: string[]
 }) {
   return [
     "Adversarially validate candidate findings from the discovery pass.",
     "Reject false positives where exploit path preconditions are not satisfiable.",
     "Increase confidence only when evidence is deterministic and reproducible.",
+    ...(params.consensusModelIds?.length
+      ? [
+          "",
+          `Consensus audit: ${params.consensusModelIds.length} models ran discovery independently (${params.consensusModelIds.join(", ")}).`,
+          "Each candidate's foundBy lists the models that reported it. Treat agreement as a confidence",
+          "signal: single-model candidates need stronger evidence, but agreement never replaces source evidence."
+        ]
+      : []),
     "",
     "Verification summary:",
     params.verificationSummary || "No verification summary available.",
@@ -1187,10 +1593,11 @@ function buildValidationPrompt(params: {
 }
 
 function buildSynthesisPrompt(params: {
-  profile: "fast" | "deep"
+  profile: AuditProfile
   candidates: z.infer<typeof discoveryPassSchema>["candidates"]
   validation: z.infer<typeof validationPassSchema> | null
   verificationSummary: string
+  budgetExhausted: boolean
 }) {
   return [
     "Synthesize a final security audit output from validated evidence.",
@@ -1198,6 +1605,12 @@ function buildSynthesisPrompt(params: {
     "For medium/high/critical findings include taxonomy and CVSS vectors.",
     "Do not include speculative issues without deterministic evidence.",
     `Execution profile: ${params.profile}.`,
+    ...(params.budgetExhausted
+      ? [
+          "The run budget is exhausted: tools are unavailable, so finalize from the candidates below.",
+          "Report only findings the candidate evidence already supports."
+        ]
+      : []),
     "",
     "Verification summary:",
     params.verificationSummary || "No verification summary available.",
@@ -1210,9 +1623,25 @@ function buildSynthesisPrompt(params: {
   ].join("\n")
 }
 
-async function runModelPipeline(params: {
+type ConsensusModelFailure = {
   modelId: string
-  profile: "fast" | "deep"
+  message: string
+  error: NormalizedModelError["details"]
+}
+
+type PassFallbackError = {
+  pass: AuditPass
+  modelId: string
+  fallbackModelId: string
+  message: string
+  error: NormalizedModelError["details"]
+}
+
+async function runModelPipeline(params: {
+  passModels: AuditPassModels
+  /** Consensus profile only: models that each run an independent discovery pass. */
+  consensusModelIds: string[]
+  profile: AuditProfile
   files: RevisionFileContent[]
   docs: RetrievedDocChunk[]
   priorFindings: PriorFindingContext[]
@@ -1220,7 +1649,15 @@ async function runModelPipeline(params: {
   verificationSummary: string
   auditId: string
   projectId: string
+  priorIdentities: PriorFindingIdentity[]
+  budget: AuditBudgetTracker
+  llm: LlmProviders
   onPhaseEvent: (phase: string, payload?: Record<string, unknown>) => Promise<void>
+  abortSignal?: AbortSignal
+  incremental?: {
+    scope: IncrementalScope
+    carriedForwardFindings: AuditFinding[]
+  } | null
 }) {
   const filesByPath = new Map(params.files.map((file) => [file.path, file]))
   const stepTraces: AgentStepTrace[] = []
@@ -1228,9 +1665,9 @@ async function runModelPipeline(params: {
   const artifactCache = new Map<string, string | null>()
 
   const profileBudgets =
-    params.profile === "deep"
-      ? { discovery: 12, validation: 12, synthesis: 14 }
-      : { discovery: 6, validation: 0, synthesis: 7 }
+    params.profile === "fast"
+      ? { discovery: 6, discoveryMerge: 4, validation: 0, synthesis: 7 }
+      : { discovery: 12, discoveryMerge: 8, validation: 12, synthesis: 14 }
 
   const commonInstructions = [
     "You are an elite TON smart-contract security auditor.",
@@ -1310,7 +1747,7 @@ async function runModelPipeline(params: {
       description: "Retrieve TON documentation chunks relevant to a security issue or remediation.",
       inputSchema: docsRetrievalToolSchema,
       execute: async ({ query, maxResults }) => {
-        const chunks = (await retrieveDocChunks(query)).slice(0, maxResults)
+        const chunks = (await retrieveDocChunks(query, params.llm)).slice(0, maxResults)
         for (const chunk of chunks) {
           docsAccessed.add(chunk.sourceUrl)
         }
@@ -1332,7 +1769,15 @@ async function runModelPipeline(params: {
 
         return {
           count: selected.length,
-          findings: selected
+          findings: selected.map((item) => ({
+            findingId: item.findingId,
+            severity: item.severity,
+            title: item.title,
+            filePath: item.filePath,
+            summary: item.summary,
+            triageStatus: item.triageStatus,
+            triageJustification: item.triageJustification
+          }))
         }
       }
     }),
@@ -1368,7 +1813,7 @@ async function runModelPipeline(params: {
   }
 
   const collectStepTrace =
-    (pass: AgentPassName) =>
+    (pass: AgentPassName, modelId: string) =>
     (step: {
       stepNumber: number
       finishReason?: string
@@ -1381,123 +1826,408 @@ async function runModelPipeline(params: {
       }
       toolCalls: Array<{ toolName?: string }>
     }) => {
-      stepTraces.push(
-        makeAgentTrace({
-          pass,
-          modelId: params.modelId,
-          step
-        })
-      )
+      const trace = makeAgentTrace({
+        pass,
+        modelId,
+        step
+      })
+      stepTraces.push(trace)
+      params.budget.record(pass, modelId, trace.usage)
     }
 
-  const discoveryPrompt = buildDiscoveryPrompt({
-    profile: params.profile,
-    verificationSummary: params.verificationSummary,
-    fileDigest: buildFileDigest(params.files),
-    docs: params.docs,
-    priorFindings: params.priorFindings
-  })
+  // Once the run budget is spent, agents lose their tools and must answer from what they have.
+  const prepareBudgetedStep = () =>
+    params.budget.isExhausted() ? { toolChoice: "none" as const } : undefined
+
+  const ranPasses = new Set<AuditPass>()
+  const fallbackPasses = new Set<AuditPass>()
+  const passFallbackErrors: PassFallbackError[] = []
+
+  // A failing pass is retried once on its own fallback model instead of restarting the pipeline.
+  const runPass = async <T>(pass: AuditPass, run: (modelId: string) => Promise<T>) => {
+    const route = params.passModels[pass]
+    ranPasses.add(pass)
+
+    try {
+      return await run(route.primary)
+    } catch (error) {
+      if (
+        params.abortSignal?.aborted ||
+        route.fallback === route.primary ||
+        params.budget.isExhausted()
+      ) {
+        throw error
+      }
+
+      const normalizedError = normalizeModelError(error)
+      passFallbackErrors.push({
+        pass,
+        modelId: route.primary,
+        fallbackModelId: route.fallback,
+        message: normalizedError.message,
+        error: normalizedError.details
+      })
+      fallbackPasses.add(pass)
+      await params.onPhaseEvent("agent-pass-fallback", {
+        pass,
+        modelId: route.primary,
+        fallbackModelId: route.fallback,
+        error: normalizedError.message
+      })
+
+      return run(route.fallback)
+    }
+  }
+
+  const runDiscoveryAgentOn = async (
+    modelId: string,
+    pass: "discovery" | "discovery-merge",
+    prompt: string
+  ) => {
+    const agent = new ToolLoopAgent({
+      model: params.llm.languageModel(modelId),
+      instructions: commonInstructions,
+      tools: passTools,
+      output: Output.object({ schema: discoveryPassSchema }),
+      stopWhen: stepCountIs(
+        pass === "discovery" ? profileBudgets.discovery : profileBudgets.discoveryMerge
+      ),
+      prepareStep: prepareBudgetedStep,
+      onStepFinish: collectStepTrace(pass, modelId)
+    })
+
+    const result = await agent.generate({
+      prompt,
+      abortSignal: params.abortSignal
+    })
+    return result.output
+  }
+
+  // The cross-shard merge is part of discovery, so it follows the discovery route.
+  const runDiscoveryAgent = (pass: "discovery" | "discovery-merge", prompt: string) =>
+    runPass("discovery", (modelId) => runDiscoveryAgentOn(modelId, pass, prompt))
+
+  // Incremental runs already narrow the digest to changed code, so only full runs are sharded.
+  const shardPlan = params.incremental ? null : planDiscoveryShards(params.files)
+  const consensusModelIds = params.consensusModelIds.length > 1 ? params.consensusModelIds : []
 
   await params.onPhaseEvent("agent-discovery", {
-    modelId: params.modelId,
-    profile: params.profile
+    modelId: params.passModels.discovery.primary,
+    profile: params.profile,
+    shardCount: shardPlan?.shards.length ?? 1,
+    ...(consensusModelIds.length ? { consensusModelIds } : {})
   })
 
-  const discoveryAgent = new ToolLoopAgent({
-    model: openrouter(params.modelId),
-    instructions: commonInstructions,
-    tools: passTools,
-    output: Output.object({ schema: discoveryPassSchema }),
-    stopWhen: stepCountIs(profileBudgets.discovery),
-    onStepFinish: collectStepTrace("discovery")
-  })
+  const discover = async (
+    modelId: string,
+    runAgent: (
+      pass: "discovery" | "discovery-merge",
+      prompt: string
+    ) => Promise<z.infer<typeof discoveryPassSchema>>
+  ) => {
+    if (!shardPlan || shardPlan.shards.length <= 1) {
+      return runAgent(
+        "discovery",
+        buildDiscoveryPrompt({
+          profile: params.profile,
+          verificationSummary: params.verificationSummary,
+          fileDigest: params.incremental
+            ? buildIncrementalFileDigest(params.files, params.incremental.scope)
+            : buildFileDigest(params.files),
+          docs: params.docs,
+          priorFindings: params.priorFindings,
+          incrementalSummary: params.incremental ? buildIncrementalScopeSummary(params.incremental) : null
+        })
+      )
+    }
+
+    const shardCount = shardPlan.shards.length
+    const shardResults = await mapWithConcurrency(
+      shardPlan.shards,
+      DISCOVERY_SHARD_CONCURRENCY,
+      async (shard) => {
+        if (params.budget.isExhausted()) {
+          await params.onPhaseEvent("agent-discovery-shard", {
+            modelId,
+            shardIndex: shard.index,
+            shardCount,
+            fileCount: shard.paths.length,
+            status: "skipped"
+          })
+          return { shard, overview: "", keyRisks: [], candidates: [] }
+        }
+
+        await params.onPhaseEvent("agent-discovery-shard", {
+          modelId,
+          shardIndex: shard.index,
+          shardCount,
+          fileCount: shard.paths.length,
+          status: "running"
+        })
+
+        const shardPaths = new Set(shard.paths)
+        const output = await runAgent(
+          "discovery",
+          buildDiscoveryPrompt({
+            profile: params.profile,
+            verificationSummary: params.verificationSummary,
+            fileDigest: buildFileDigest(params.files.filter((file) => shardPaths.has(file.path))),
+            docs: params.docs,
+            priorFindings: params.priorFindings,
+            shard: { shard, shardCount }
+          })
+        )
+
+        await params.onPhaseEvent("agent-discovery-shard", {
+          modelId,
+          shardIndex: shard.index,
+          shardCount,
+          fileCount: shard.paths.length,
+          status: "completed",
+          candidateCount: output.candidates.length
+        })
+
+        return { shard, ...output }
+      }
+    )
+
+    // Shards number their candidates independently, so ids are namespaced before merging.
+    const shardCandidates = dedupeDiscoveryCandidates(
+      shardResults.flatMap((result) =>
+        result.candidates.map((candidate) => ({
+          ...candidate,
+          candidateId: `S${result.shard.index + 1}-${candidate.candidateId}`
+        }))
+      )
+    )
+
+    // Without budget for a merge pass, the deduplicated shard candidates go straight on.
+    if (params.budget.isExhausted()) {
+      return {
+        overview: shardResults
+          .map((result) => result.overview)
+          .filter((overview) => overview.length > 0)
+          .join("\n\n"),
+        keyRisks: [...new Set(shardResults.flatMap((result) => result.keyRisks))],
+        candidates: shardCandidates
+      }
+    }
+
+    await params.onPhaseEvent("agent-discovery-merge", {
+      modelId,
+      shardCount,
+      candidateCount: shardCandidates.length,
+      crossShardImportCount: shardPlan.crossShardImports.length
+    })
+
+    return runAgent(
+      "discovery-merge",
+      buildDiscoveryMergePrompt({
+        profile: params.profile,
+        plan: shardPlan,
+        shardResults,
+        candidates: shardCandidates
+      })
+    )
+  }
+
+  let discovered: z.infer<typeof discoveryPassSchema>
+  let consensusClusters: ConsensusCandidate[] | null = null
+  let consensusModels: string[] = []
+  const consensusFailures: ConsensusModelFailure[] = []
+  if (consensusModelIds.length) {
+    // Each consensus model runs discovery on its own model; the others stand in for a fallback.
+    const modelCount = consensusModelIds.length
+    let firstError: unknown = null
+    const modelResults = await Promise.all(
+      consensusModelIds.map(async (modelId, modelIndex) => {
+        await params.onPhaseEvent("agent-discovery-consensus", {
+          modelId,
+          modelIndex,
+          modelCount,
+          status: "running"
+        })
 
-  const discoveryResult = await discoveryAgent.generate({ prompt: discoveryPrompt })
-  const discovered = discoveryResult.output
+        try {
+          const output = await discover(modelId, (pass, prompt) =>
+            runDiscoveryAgentOn(modelId, pass, prompt)
+          )
+          await params.onPhaseEvent("agent-discovery-consensus", {
+            modelId,
+            modelIndex,
+            modelCount,
+            status: "completed",
+            candidateCount: output.candidates.length
+          })
+          return { modelId, output }
+        } catch (error) {
+          if (params.abortSignal?.aborted) {
+            throw error
+          }
+
+          const normalizedError = normalizeModelError(error)
+          firstError ??= error
+          consensusFailures.push({
+            modelId,
+            message: normalizedError.message,
+            error: normalizedError.details
+          })
+          await params.onPhaseEvent("agent-discovery-consensus", {
+            modelId,
+            modelIndex,
+            modelCount,
+            status: "failed",
+            error: normalizedError.message
+          })
+          return null
+        }
+      })
+    )
+
+    const completed = modelResults.filter((result) => result !== null)
+    if (!completed.length) {
+      throw firstError
+    }
 
+    consensusModels = completed.map((result) => result.modelId)
+    consensusClusters = clusterConsensusCandidates(
+      completed.map((result) => ({ modelId: result.modelId, candidates: result.output.candidates }))
+    )
+
+    await params.onPhaseEvent("agent-discovery-cluster", {
+      modelCount: completed.length,
+      candidateCount: completed.reduce((sum, result) => sum + result.output.candidates.length, 0),
+      clusterCount: consensusClusters.length,
+      agreedCount: consensusClusters.filter((cluster) => cluster.foundBy.length > 1).length
+    })
+
+    discovered = {
+      overview: completed.map((result) => result.output.overview).join("\n\n"),
+      keyRisks: [...new Set(completed.flatMap((result) => result.output.keyRisks))],
+      // Per-model reports only serve attribution; the later passes see the merged candidates.
+      candidates: consensusClusters.map(({ reports: _reports, ...cluster }) => cluster)
+    }
+  } else {
+    discovered = await discover(params.passModels.discovery.primary, runDiscoveryAgent)
+  }
+
+  // Validation is skipped once the budget is spent; synthesis then sees unvalidated candidates.
   let validationResult: z.infer<typeof validationPassSchema> | null = null
-  if (params.profile === "deep") {
+  if (params.profile !== "fast" && !params.budget.isExhausted()) {
     await params.onPhaseEvent("agent-validation", {
-      modelId: params.modelId,
+      modelId: params.passModels.validation.primary,
       profile: params.profile
     })
 
-    const validationAgent = new ToolLoopAgent({
-      model: openrouter(params.modelId),
-      instructions: commonInstructions,
-      tools: passTools,
-      output: Output.object({ schema: validationPassSchema }),
-      stopWhen: stepCountIs(profileBudgets.validation),
-      onStepFinish: collectStepTrace("validation")
-    })
+    validationResult = await runPass("validation", async (modelId) => {
+      const validationAgent = new ToolLoopAgent({
+        model: params.llm.languageModel(modelId),
+        instructions: commonInstructions,
+        tools: passTools,
+        output: Output.object({ schema: validationPassSchema }),
+        stopWhen: stepCountIs(profileBudgets.validation),
+        prepareStep: prepareBudgetedStep,
+        onStepFinish: collectStepTrace("validation", modelId)
+      })
 
-    validationResult = await validationAgent
-      .generate({
+      const result = await validationAgent.generate({
         prompt: buildValidationPrompt({
           candidates: discovered.candidates,
-          verificationSummary: params.verificationSummary
-        })
+          verificationSummary: params.verificationSummary,
+          consensusModelIds: consensusModels
+        }),
+        abortSignal: params.abortSignal
       })
-      .then((result) => result.output)
+      return result.output
+    })
   }
 
-  const confirmedCandidateIds =
-    params.profile === "deep"
-      ? new Set(validationResult?.confirmedCandidateIds ?? [])
-      : new Set(discovered.candidates.map((candidate) => candidate.candidateId))
-  const filteredCandidates =
-    params.profile === "deep"
-      ? discovered.candidates.filter((candidate) => confirmedCandidateIds.has(candidate.candidateId))
-      : discovered.candidates
+  const confirmedCandidateIds = new Set(validationResult?.confirmedCandidateIds ?? [])
+  const filteredCandidates = validationResult
+    ? discovered.candidates.filter((candidate) => confirmedCandidateIds.has(candidate.candidateId))
+    : discovered.candidates
+
+  const budgetExhausted = params.budget.isExhausted()
+  if (budgetExhausted) {
+    const spend = params.budget.snapshot()
+    await params.onPhaseEvent("agent-budget-exhausted", {
+      exhaustedDuring: spend.exhaustedDuring,
+      tokenUsage: spend.tokenUsage,
+      costUsd: spend.costUsd
+    })
+  }
 
   await params.onPhaseEvent("agent-synthesis", {
-    modelId: params.modelId,
+    modelId: params.passModels.synthesis.primary,
     candidateCount: filteredCandidates.length
   })
 
-  const synthesisAgent = new ToolLoopAgent({
-    model: openrouter(params.modelId),
-    instructions: commonInstructions,
-    tools: passTools,
-    output: Output.object({ schema: synthesisPassSchema }),
-    stopWhen: stepCountIs(profileBudgets.synthesis),
-    onStepFinish: collectStepTrace("synthesis")
-  })
+  const synthesisResult = await runPass("synthesis", async (modelId) => {
+    const synthesisAgent = new ToolLoopAgent({
+      model: params.llm.languageModel(modelId),
+      instructions: commonInstructions,
+      tools: passTools,
+      output: Output.object({ schema: synthesisPassSchema }),
+      stopWhen: stepCountIs(profileBudgets.synthesis),
+      prepareStep: prepareBudgetedStep,
+      onStepFinish: collectStepTrace("synthesis", modelId)
+    })
 
-  const synthesisResult = await synthesisAgent.generate({
-    prompt: buildSynthesisPrompt({
-      profile: params.profile,
-      candidates: filteredCandidates,
-      validation: validationResult,
-      verificationSummary: params.verificationSummary
+    return synthesisAgent.generate({
+      prompt: buildSynthesisPrompt({
+        profile: params.profile,
+        candidates: filteredCandidates,
+        validation: validationResult,
+        verificationSummary: params.verificationSummary,
+        budgetExhausted
+      }),
+      abortSignal: params.abortSignal
     })
   })
 
-  const normalizedFindings = synthesisResult.output.findings.map((finding) =>
-    normalizeFinding(finding, filesByPath, params.docs)
-  )
+  const normalizedFindings = synthesisResult.output.findings.map((finding) => {
+    const normalized = normalizeFinding(finding, filesByPath, params.docs)
+    return {
+      ...normalized,
+      // Attribution comes from the discovery clusters, never from the synthesis model.
+      discoveredBy: consensusClusters
+        ? resolveConsensusDiscoverers(
+            { ...normalized.evidence, title: normalized.title },
+            consensusClusters,
+            consensusModels
+          )
+        : []
+    }
+  })
 
-  const withFindingIds = normalizedFindings.map((finding) => ({
+  // Model-supplied ids are not stable across runs, so identities come from the fingerprint and
+  // are re-linked to prior findings that merely moved or were reworded.
+  const fingerprintedFindings = normalizedFindings.map((finding) => ({
     ...finding,
-    findingId:
-      finding.findingId ||
-      createFindingFingerprint({
-        title: finding.title,
-        filePath: finding.evidence.filePath,
-        startLine: finding.evidence.startLine,
-        endLine: finding.evidence.endLine,
-        severity: finding.severity
-      })
+    findingId: createFindingFingerprint({
+      title: finding.title,
+      filePath: finding.evidence.filePath,
+      snippet: finding.evidence.snippet,
+      enclosingScope: finding.evidence.enclosingScope
+    })
   }))
+  const withFindingIds = relinkFindingIdentities(fingerprintedFindings, params.priorIdentities)
+
+  // Findings in untouched files are carried forward from the baseline audit unless re-reported.
+  const reportedFindingIds = new Set(withFindingIds.map((finding) => finding.findingId))
+  const carriedForwardFindings = (params.incremental?.carriedForwardFindings ?? []).filter(
+    (finding) => !reportedFindingIds.has(finding.findingId)
+  )
+  const reportFindings = [...withFindingIds, ...carriedForwardFindings]
 
-  const coverage = countTaxonomyCoverage(withFindingIds)
-  const severityTotals = withFindingIds.reduce<Record<string, number>>((acc, finding) => {
+  const coverage = countTaxonomyCoverage(reportFindings)
+  const severityTotals = reportFindings.reduce<Record<string, number>>((acc, finding) => {
     const key = normalizeSeverity(finding.severity)
     acc[key] = (acc[key] ?? 0) + 1
     return acc
   }, {})
 
-  const cvssScores = withFindingIds
+  const cvssScores = reportFindings
     .map((finding) => finding.cvssV31?.baseScore)
     .filter((score): score is number => typeof score === "number")
   const cvssAverage =
@@ -1508,7 +2238,8 @@ async function runModelPipeline(params: {
 
   const traceSummary = buildModelTraceSummary(stepTraces)
   const reportDraft = {
-    findings: withFindingIds,
+    findings: reportFindings,
+    carriedForwardFindingIds: carriedForwardFindings.map((finding) => finding.findingId),
     severityTotals,
     cvssAverage,
     maxCvssScore,
@@ -1517,7 +2248,23 @@ async function runModelPipeline(params: {
     synthesis: synthesisResult.output,
     traceSummary,
     stepTraces,
-    docsReferences: safeUrlList([...docsAccessed])
+    docsReferences: safeUrlList([...docsAccessed]),
+    passModels: Object.fromEntries(
+      Object.entries(params.passModels).map(([pass, route]) => [
+        pass,
+        {
+          ...route,
+          used: ranPasses.has(pass as AuditPass)
+            ? fallbackPasses.has(pass as AuditPass)
+              ? route.fallback
+              : route.primary
+            : null
+        }
+      ])
+    ) as AuditPassModels,
+    passFallbackErrors,
+    consensusModels,
+    consensusFailures
   }
 
   return reportDraft
@@ -1552,6 +2299,46 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
       throw new Error("Audit run not found")
     }
 
+    const recordCancelled = async () => {
+      await recordJobEvent({
+        projectId: job.data.projectId,
+        queue: "audit",
+        jobId: String(job.id),
+        event: "cancelled",
+        payload: {
+          auditRunId: auditRun.id
+        }
+      })
+
+      workerLogger.info("audit.stage.cancelled", context)
+
+      return { auditRunId: auditRun.id, cancelled: true }
+    }
+
+    if (auditRun.status === "cancelled") {
+      return recordCancelled()
+    }
+
+    // Prices and provider routes only come from the system allowlist; organization overrides
+    // narrow its models and cannot change either.
+    const [modelAllowlist, project] = await Promise.all([
+      loadSystemSettingValue(AUDIT_MODEL_ALLOWLIST_SETTING_KEY),
+      db.query.projects.findFirst({
+        where: eq(projects.id, auditRun.projectId),
+        columns: { auditBudget: true }
+      })
+    ])
+    const allowlist = modelAllowlistSchema.safeParse(modelAllowlist).data
+    // Shared by every pipeline attempt of this job, so a retry cannot spend the budget twice.
+    const budgetTracker = createAuditBudgetTracker({
+      budget: auditRun.budget ?? project?.auditBudget ?? null,
+      prices: allowlist?.prices ?? {},
+      // A BullMQ retry of this job resumes from the spend the failed attempt recorded.
+      recorded: { tokenUsage: auditRun.tokenUsage, costUsd: auditRun.costUsd }
+    })
+
+    const cancellation = watchAuditRunCancellation(auditRun.id)
+
     const emitPhaseEvent = async (phase: string, payload?: Record<string, unknown>) => {
       await recordJobEvent({
         projectId: job.data.projectId,
@@ -1592,10 +2379,56 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         .map((row) => `[${row.status}] ${row.stepType}: ${row.summary}`)
         .join("\n")
 
+      const incrementalContext =
+        job.data.mode === "incremental"
+          ? await loadIncrementalAuditContext({
+              projectId: auditRun.projectId,
+              revisionId: job.data.revisionId,
+              createdAt: auditRun.createdAt,
+              files
+            })
+          : null
+      const incrementalScope = incrementalContext?.kind === "scoped" ? incrementalContext : null
+
+      if (incrementalContext?.kind === "full") {
+        workerLogger.warn("audit.stage.incremental-fallback", {
+          ...context,
+          reason: incrementalContext.reason
+        })
+      }
+
       const priorFindingContext = await loadPriorFindingContext({
+        projectId: auditRun.projectId,
+        createdAt: auditRun.createdAt,
+        baselineAuditRunId: incrementalScope?.baselineAuditId ?? null
+      })
+      const priorFindingIdentities = await loadPriorFindingIdentities({
         projectId: auditRun.projectId,
         createdAt: auditRun.createdAt
       })
+      const carriedForwardFindings = incrementalScope
+        ? selectCarriedForwardFindings(
+            priorFindingContext.flatMap((item) =>
+              item.baselineFinding
+                ? [{ filePath: item.baselineFinding.evidence.filePath, finding: item.baselineFinding }]
+                : []
+            ),
+            incrementalScope.scope
+          ).map((item) => item.finding)
+        : []
+
+      if (incrementalContext) {
+        await emitPhaseEvent("incremental-scope", {
+          applied: incrementalScope !== null,
+          reason: incrementalContext.kind === "full" ? incrementalContext.reason : null,
+          parentRevisionId: incrementalScope?.parentRevisionId ?? null,
+          baselineAuditId: incrementalScope?.baselineAuditId ?? null,
+          changedFileCount: incrementalScope?.scope.changedFiles.length ?? 0,
+          removedFileCount: incrementalScope?.scope.removedPaths.length ?? 0,
+          neighbourFileCount: incrementalScope?.scope.neighbourPaths.length ?? 0,
+          carriedForwardCount: carriedForwardFindings.length
+        })
+      }
 
       workerLogger.info("audit.stage.inputs-loaded", {
         ...context,
@@ -1609,7 +2442,13 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         .map((file) => `${file.path} ${file.content.slice(0, 200)}`)
         .join("\n")
 
-      let docs = await retrieveDocChunks(retrievalQuery)
+      // Models and docs embeddings go to the providers the allowlist routes them to.
+      const llm = createLlmProviders({
+        registry: await loadLlmProviderRegistry(),
+        routes: allowlist?.providers
+      })
+
+      let docs = await retrieveDocChunks(retrievalQuery, llm)
       if (docs.length === 0 && job.data.includeDocsFallbackFetch) {
         workerLogger.info("audit.stage.docs-fallback-requested", context)
         docs = await fetchFallbackDocs()
@@ -1620,10 +2459,19 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         docsCount: docs.length
       })
 
-      const runPipelineWithRetry = async (params: {
-        modelId: string
-        stage: "primary" | "fallback"
-      }) => {
+      await throwIfAuditRunCancelled(auditRun.id, cancellation.signal)
+
+      const passModels =
+        auditRun.passModels ??
+        resolveAuditPassModels({
+          primaryModelId: auditRun.primaryModelId,
+          fallbackModelId: auditRun.fallbackModelId
+        })
+      const consensusModelIds =
+        auditRun.consensusModelIds ??
+        resolveConsensusModelIds({ profile: job.data.profile, passModels })
+
+      const runPipelineWithRetry = async () => {
         const maxAttempts = 2
         let lastError: unknown = null
         let lastNormalizedError: NormalizedModelError | null = null
@@ -1633,27 +2481,36 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
             if (attempt > 1) {
               workerLogger.info("audit.stage.model-retry-attempt", {
                 ...context,
-                stage: params.stage,
-                modelId: params.modelId,
                 attempt
               })
             }
 
             const result = await runModelPipeline({
-              modelId: params.modelId,
+              passModels,
+              consensusModelIds,
               profile: job.data.profile,
               files,
               docs,
               priorFindings: priorFindingContext,
+              priorIdentities: priorFindingIdentities,
+              budget: budgetTracker,
+              llm,
               verificationArtifacts,
               verificationSummary,
               auditId: auditRun.id,
               projectId: auditRun.projectId,
-              onPhaseEvent: emitPhaseEvent
+              onPhaseEvent: emitPhaseEvent,
+              abortSignal: cancellation.signal,
+              incremental: incrementalScope
+                ? {
+                    scope: incrementalScope.scope,
+                    carriedForwardFindings
+                  }
+                : null
             })
 
             await emitPhaseEvent("report-quality-gate", {
-              modelId: params.modelId,
+              modelId: result.passModels.synthesis.used,
               passed: result.qualityGates.passed,
               failures: result.qualityGates.failures
             })
@@ -1664,12 +2521,14 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
 
             return result
           } catch (error) {
+            if (cancellation.signal.aborted) {
+              throw new AuditRunCancelledError(auditRun.id)
+            }
+
             lastError = error
             if (error instanceof ReportQualityGateError) {
               workerLogger.warn("audit.stage.quality-gate-failed", {
                 ...context,
-                stage: params.stage,
-                modelId: params.modelId,
                 attempt,
                 failures: error.failures
               })
@@ -1684,17 +2543,22 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
             lastNormalizedError = normalizedError
             workerLogger.warn("audit.stage.model-attempt-failed", {
               ...context,
-              stage: params.stage,
-              modelId: params.modelId,
               attempt,
               error: normalizedError.details
             })
 
+            if (budgetTracker.isExhausted()) {
+              workerLogger.info("audit.stage.model-retry-skipped", {
+                ...context,
+                attempt,
+                reason: "budget-exhausted"
+              })
+              break
+            }
+
             if (normalizedError.isRetryable === false) {
               workerLogger.info("audit.stage.model-retry-skipped", {
                 ...context,
-                stage: params.stage,
-                modelId: params.modelId,
                 attempt,
                 reason: "provider-marked-non-retryable",
                 statusCode: normalizedError.details.statusCode
@@ -1715,60 +2579,53 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         throw new Error(lastNormalizedError?.message ?? "Model invocation failed")
       }
 
-      let usedModel = auditRun.primaryModelId
-      let usedFallback = false
-      let pipelineResult: Awaited<ReturnType<typeof runPipelineWithRetry>>
-
-      workerLogger.info("audit.stage.model-primary-started", {
+      workerLogger.info("audit.stage.model-pipeline-started", {
         ...context,
-        modelId: auditRun.primaryModelId
+        passModels
       })
 
-      try {
-        pipelineResult = await runPipelineWithRetry({
-          modelId: auditRun.primaryModelId,
-          stage: "primary"
-        })
-        workerLogger.info("audit.stage.model-primary-completed", {
-          ...context,
-          modelId: auditRun.primaryModelId
-        })
-      } catch (primaryError) {
-        const normalizedPrimaryError = normalizeModelError(primaryError)
-        workerLogger.warn("audit.stage.model-primary-failed", {
-          ...context,
-          modelId: auditRun.primaryModelId,
-          error: normalizedPrimaryError.details
-        })
+      const pipelineResult = await runPipelineWithRetry()
+      const usedModel = pipelineResult.passModels.synthesis.used ?? passModels.synthesis.primary
+      const usedFallback = pipelineResult.passFallbackErrors.length > 0
 
-        usedModel = auditRun.fallbackModelId
-        usedFallback = true
-        workerLogger.info("audit.stage.model-fallback-started", {
+      workerLogger.info("audit.stage.model-pipeline-completed", {
+        ...context,
+        passModels: pipelineResult.passModels
+      })
+
+      if (usedFallback) {
+        workerLogger.warn("audit.stage.model-pass-fallbacks", {
           ...context,
-          modelId: auditRun.fallbackModelId
+          fallbacks: pipelineResult.passFallbackErrors.map((item) => ({
+            pass: item.pass,
+            modelId: item.modelId,
+            fallbackModelId: item.fallbackModelId,
+            error: item.error
+          }))
         })
 
-        pipelineResult = await runPipelineWithRetry({
-          modelId: auditRun.fallbackModelId,
-          stage: "fallback"
+        await putObject({
+          key: `audits/${auditRun.id}/primary-error.json`,
+          body: JSON.stringify({ passes: pipelineResult.passFallbackErrors }, null, 2),
+          contentType: "application/json"
         })
+      }
 
-        workerLogger.info("audit.stage.model-fallback-completed", {
+      const spend = budgetTracker.snapshot()
+      if (spend.exhaustedDuring) {
+        workerLogger.warn("audit.stage.budget-exhausted", {
           ...context,
-          modelId: auditRun.fallbackModelId
+          budget: budgetTracker.budget,
+          exhaustedDuring: spend.exhaustedDuring,
+          tokenUsage: spend.tokenUsage,
+          costUsd: spend.costUsd
         })
+      }
 
-        await putObject({
-          key: `audits/${auditRun.id}/primary-error.json`,
-          body: JSON.stringify(
-            {
-              message: normalizedPrimaryError.message,
-              error: normalizedPrimaryError.details
-            },
-            null,
-            2
-          ),
-          contentType: "application/json"
+      if (pipelineResult.consensusFailures.length) {
+        workerLogger.warn("audit.stage.consensus-model-failures", {
+          ...context,
+          failures: pipelineResult.consensusFailures
         })
       }
 
@@ -1783,7 +2640,29 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
       const internalNotes = [
         ...pipelineResult.synthesis.limitations.map((item) => `Limitation: ${item}`),
         ...pipelineResult.synthesis.assumptions.map((item) => `Assumption: ${item}`),
-        `Diff summary -> opened: ${transitionSummary.opened ?? 0}, resolved: ${transitionSummary.resolved ?? 0}, regressed: ${transitionSummary.regressed ?? 0}, unchanged: ${transitionSummary.unchanged ?? 0}`
+        `Diff summary -> opened: ${transitionSummary.opened ?? 0}, resolved: ${transitionSummary.resolved ?? 0}, regressed: ${transitionSummary.regressed ?? 0}, unchanged: ${transitionSummary.unchanged ?? 0}`,
+        ...(incrementalScope
+          ? [
+              `Incremental scope -> changed: ${incrementalScope.scope.changedFiles.length}, removed: ${incrementalScope.scope.removedPaths.length}, neighbours: ${incrementalScope.scope.neighbourPaths.length}, carried forward: ${pipelineResult.carriedForwardFindingIds.length}`
+            ]
+          : []),
+        ...(pipelineResult.consensusModels.length
+          ? [
+              `Consensus discovery -> models: ${pipelineResult.consensusModels.join(", ")}${
+                pipelineResult.consensusFailures.length
+                  ? `, failed: ${pipelineResult.consensusFailures.map((item) => item.modelId).join(", ")}`
+                  : ""
+              }`
+            ]
+          : []),
+        ...(spend.exhaustedDuring
+          ? [
+              `Budget exhausted during ${spend.exhaustedDuring} -> later passes were shortened or skipped`
+            ]
+          : []),
+        ...(spend.unpricedModels.length
+          ? [`Cost unavailable -> no price configured for: ${spend.unpricedModels.join(", ")}`]
+          : [])
       ]
 
       const report = auditReportSchema.parse({
@@ -1795,10 +2674,27 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         revisionId: auditRun.revisionId,
         generatedAt: new Date().toISOString(),
         profile: job.data.profile,
+        mode: incrementalScope ? "incremental" : "full",
+        ...(incrementalScope
+          ? {
+              incrementalScope: {
+                parentRevisionId: incrementalScope.parentRevisionId,
+                baselineAuditId: incrementalScope.baselineAuditId,
+                changedFiles: incrementalScope.scope.changedFiles,
+                removedFiles: incrementalScope.scope.removedPaths,
+                neighbourFiles: incrementalScope.scope.neighbourPaths,
+                carriedForwardFindingIds: pipelineResult.carriedForwardFindingIds
+              }
+            }
+          : {}),
         model: {
           used: usedModel,
           primary: auditRun.primaryModelId,
-          fallback: auditRun.fallbackModelId
+          fallback: auditRun.fallbackModelId,
+          passes: pipelineResult.passModels,
+          ...(pipelineResult.consensusModels.length
+            ? { consensusModels: pipelineResult.consensusModels }
+            : {})
         },
         executiveSummary: {
           overview: pipelineResult.synthesis.overview,
@@ -1833,7 +2729,11 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
           steps: pipelineResult.traceSummary.steps,
           totalToolCalls: pipelineResult.traceSummary.totalToolCalls,
           totalTokens: pipelineResult.traceSummary.totalTokens,
-          usedFallback
+          usedFallback,
+          costUsd: spend.costUsd,
+          ...(budgetTracker.budget
+            ? { budget: { ...budgetTracker.budget, exhaustedDuring: spend.exhaustedDuring } }
+            : {})
         },
         summary: {
           overview: pipelineResult.synthesis.overview,
@@ -1902,28 +2802,31 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         })
       ])
 
-      await db
+      await throwIfAuditRunCancelled(auditRun.id, cancellation.signal)
+
+      const [completedAuditRun] = await db
         .update(auditRuns)
         .set({
           status: "completed",
           reportJson: report,
+          passModels: pipelineResult.passModels,
+          budget: budgetTracker.budget,
+          tokenUsage: spend.tokenUsage,
+          costUsd: spend.costUsd,
           finishedAt: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(auditRuns.id, auditRun.id))
+        .where(and(eq(auditRuns.id, auditRun.id), inArray(auditRuns.status, ["queued", "running"])))
+        .returning({ id: auditRuns.id })
+
+      if (!completedAuditRun) {
+        throw new AuditRunCancelledError(auditRun.id)
+      }
 
       workerLogger.info("audit.stage.audit-run-marked-completed", context)
 
       for (const finding of report.findings) {
-        const stableFingerprint =
-          finding.findingId ||
-          createFindingFingerprint({
-            title: finding.title,
-            filePath: finding.evidence.filePath,
-            startLine: finding.evidence.startLine,
-            endLine: finding.evidence.endLine,
-            severity: finding.severity
-          })
+        const stableFingerprint = finding.findingId
 
         const [findingRecord] = await db
           .insert(findings)
@@ -1970,18 +2873,22 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         findingCount: report.findings.length
       })
 
-      const [previousAudit] = await db
-        .select()
-        .from(auditRuns)
-        .where(
-          and(
-            eq(auditRuns.projectId, auditRun.projectId),
-            eq(auditRuns.status, "completed"),
-            sql`${auditRuns.createdAt} < ${auditRun.createdAt}`
-          )
-        )
-        .orderBy(desc(auditRuns.createdAt))
-        .limit(1)
+      // Scoped runs carried findings forward from their baseline, so the lifecycle diffs against it
+      // rather than whichever audit happened to complete last.
+      const [previousAudit] = incrementalScope
+        ? [{ id: incrementalScope.baselineAuditId }]
+        : await db
+            .select({ id: auditRuns.id })
+            .from(auditRuns)
+            .where(
+              and(
+                eq(auditRuns.projectId, auditRun.projectId),
+                eq(auditRuns.status, "completed"),
+                sql`${auditRuns.createdAt} < ${auditRun.createdAt}`
+              )
+            )
+            .orderBy(desc(auditRuns.createdAt))
+            .limit(1)
 
       await deps.enqueueJob(
         "finding-lifecycle",
@@ -2010,6 +2917,21 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         }
       })
 
+      await dispatchWebhookEvent(deps.enqueueJob, {
+        projectId: auditRun.projectId,
+        type: "audit.completed",
+        dedupeKey: `audit.completed:${auditRun.id}`,
+        data: {
+          auditRunId: auditRun.id,
+          revisionId: auditRun.revisionId,
+          profile: report.profile,
+          mode: report.mode,
+          findingCount: report.findings.length,
+          severityTotals: report.riskPosture.severityTotals,
+          overallRisk: report.executiveSummary.overallRisk
+        }
+      })
+
       workerLogger.info("audit.stage.completed", {
         ...context,
         findingCount: report.findings.length,
@@ -2018,17 +2940,27 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
 
       return { auditRunId: auditRun.id, findingCount: report.findings.length }
     } catch (error) {
+      if (error instanceof AuditRunCancelledError || (await isAuditRunCancelled(auditRun.id))) {
+        return recordCancelled()
+      }
+
       const normalizedError = normalizeModelError(error)
+      const spend = budgetTracker.snapshot()
 
       await db
         .update(auditRuns)
         .set({
           status: "failed",
+          budget: budgetTracker.budget,
+          tokenUsage: spend.tokenUsage,
+          costUsd: spend.costUsd,
           finishedAt: new Date(),
           updatedAt: new Date()
         })
         .where(eq(auditRuns.id, auditRun.id))
 
+      // Earlier attempts are retried by BullMQ, so only the last one is reported as final.
+      const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
       await recordJobEvent({
         projectId: job.data.projectId,
         queue: "audit",
@@ -2036,10 +2968,24 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
         event: "failed",
         payload: {
           auditRunId: auditRun.id,
+          willRetry: !isFinalAttempt,
           message: normalizedError.message
         }
       })
 
+      if (isFinalAttempt) {
+        await dispatchWebhookEvent(deps.enqueueJob, {
+          projectId: auditRun.projectId,
+          type: "audit.failed",
+          dedupeKey: `audit.failed:${auditRun.id}`,
+          data: {
+            auditRunId: auditRun.id,
+            revisionId: auditRun.revisionId,
+            message: normalizedError.message
+          }
+        })
+      }
+
       workerLogger.error("audit.stage.failed", {
         ...context,
         error: normalizedError.details
@@ -2050,6 +2996,8 @@ export function createAuditProcessor(deps: { enqueueJob: EnqueueJob }) {
       }
 
       throw new Error(normalizedError.message)
+    } finally {
+      cancellation.stop()
     }
   }
 }
@@ -0,0 +1,93 @@
+import { normalizePath, scoreFindingTitleSimilarity } from "@ton-audit/shared";
+
+import { type DiscoveryCandidate, mergeDiscoveryCandidates } from "./discovery-shards";
+
+type CandidateLocation = {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  title: string;
+};
+
+export type ConsensusCandidate = DiscoveryCandidate & {
+  /** Models whose independent discovery pass reported this candidate, in consensus order. */
+  foundBy: string[];
+  /** Each model's own report, so matching never runs against the merged line range. */
+  reports: CandidateLocation[];
+};
+
+// Titles sharing less than this are different issues even when their lines overlap.
+const MIN_TITLE_SIMILARITY = 0.5;
+
+/** Same file, overlapping lines and a similar title: the same issue at the same location. */
+function refersToSameIssue(a: CandidateLocation, b: CandidateLocation) {
+  return (
+    normalizePath(a.filePath) === normalizePath(b.filePath) &&
+    a.startLine <= b.endLine &&
+    b.startLine <= a.endLine &&
+    scoreFindingTitleSimilarity(a.title, b.title) >= MIN_TITLE_SIMILARITY
+  );
+}
+
+function matchesCluster(cluster: ConsensusCandidate, location: CandidateLocation) {
+  return cluster.reports.some((report) => refersToSameIssue(report, location));
+}
+
+/**
+ * Clusters the candidates of independent discovery passes. A cluster takes at most one candidate
+ * per model, so its `foundBy` length is the number of models that agree on it. Candidate ids are
+ * namespaced per model (`M1-C3`) because every pass numbers its candidates from scratch.
+ */
+export function clusterConsensusCandidates(
+  results: Array<{ modelId: string; candidates: DiscoveryCandidate[] }>
+) {
+  const clusters: ConsensusCandidate[] = [];
+
+  for (const [modelIndex, result] of results.entries()) {
+    for (const candidate of result.candidates) {
+      const report = {
+        filePath: candidate.filePath,
+        startLine: candidate.startLine,
+        endLine: candidate.endLine,
+        title: candidate.title
+      };
+      const namespaced: ConsensusCandidate = {
+        ...candidate,
+        candidateId: `M${modelIndex + 1}-${candidate.candidateId}`,
+        foundBy: [result.modelId],
+        reports: [report]
+      };
+      const index = clusters.findIndex(
+        (cluster) => !cluster.foundBy.includes(result.modelId) && matchesCluster(cluster, report)
+      );
+      if (index < 0) {
+        clusters.push(namespaced);
+        continue;
+      }
+
+      const existing = clusters[index]!;
+      clusters[index] = {
+        ...mergeDiscoveryCandidates(existing, namespaced),
+        foundBy: [...existing.foundBy, result.modelId],
+        reports: [...existing.reports, report]
+      };
+    }
+  }
+
+  return clusters.sort((a, b) => b.foundBy.length - a.foundBy.length);
+}
+
+/**
+ * Resolves which models independently found a synthesized finding by matching it back to the
+ * consensus clusters it was built from.
+ */
+export function resolveConsensusDiscoverers(
+  finding: CandidateLocation,
+  clusters: ConsensusCandidate[],
+  modelOrder: string[]
+) {
+  const foundBy = new Set(
+    clusters.filter((cluster) => matchesCluster(cluster, finding)).flatMap((cluster) => cluster.foundBy)
+  );
+  return modelOrder.filter((modelId) => foundBy.has(modelId));
+}
@@ -0,0 +1,183 @@
+import { normalizePath } from "@ton-audit/shared";
+
+import { collectImportEdges, type ImportEdge } from "./incremental-scope";
+
+// Matches the file cap of the single-prompt digest, so a one-shard plan is the classic discovery.
+export const DISCOVERY_SHARD_MAX_FILES = 24;
+export const DISCOVERY_SHARD_CONCURRENCY = 3;
+
+export type DiscoveryShard = {
+  index: number;
+  paths: string[];
+};
+
+export type DiscoveryShardPlan = {
+  shards: DiscoveryShard[];
+  /** Imports whose two ends were placed in different shards; only the merge step sees both. */
+  crossShardImports: ImportEdge[];
+};
+
+export type DiscoveryCandidate = {
+  candidateId: string;
+  title: string;
+  severity: "critical" | "high" | "medium" | "low" | "informational";
+  hypothesis: string;
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  preconditions: string[];
+  attackScenario: string;
+  references: string[];
+};
+
+const severityRank: Record<DiscoveryCandidate["severity"], number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  informational: 0
+};
+
+/**
+ * Groups files into connected components of the import graph, so a contract is discovered
+ * together with the libraries it includes.
+ */
+function groupByImportGraph(files: Array<{ path: string; content: string }>, edges: ImportEdge[]) {
+  const parent = new Map(files.map((file) => [file.path, file.path]));
+  const find = (path: string): string => {
+    const next = parent.get(path)!;
+    if (next === path) {
+      return path;
+    }
+
+    const root = find(next);
+    parent.set(path, root);
+    return root;
+  };
+
+  for (const edge of edges) {
+    const fromRoot = find(edge.fromPath);
+    const toRoot = find(edge.toPath);
+    if (fromRoot !== toRoot) {
+      parent.set(fromRoot < toRoot ? toRoot : fromRoot, fromRoot < toRoot ? fromRoot : toRoot);
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const root = find(file.path);
+    groups.set(root, [...(groups.get(root) ?? []), file.path]);
+  }
+
+  return [...groups.values()]
+    .map((paths) => paths.sort())
+    .sort((a, b) => b.length - a.length || a[0]!.localeCompare(b[0]!));
+}
+
+/**
+ * Packs import-graph components into shards of at most `maxFiles` files. Components are kept
+ * whole when they fit and split by path order otherwise.
+ */
+export function planDiscoveryShards(
+  files: Array<{ path: string; content: string }>,
+  maxFiles = DISCOVERY_SHARD_MAX_FILES
+): DiscoveryShardPlan {
+  const edges = collectImportEdges(files);
+  const bins: string[][] = [];
+
+  for (const group of groupByImportGraph(files, edges)) {
+    for (let offset = 0; offset < group.length; offset += maxFiles) {
+      const chunk = group.slice(offset, offset + maxFiles);
+      const bin = bins.find((candidate) => candidate.length + chunk.length <= maxFiles);
+      if (bin) {
+        bin.push(...chunk);
+      } else {
+        bins.push([...chunk]);
+      }
+    }
+  }
+
+  const shards = bins
+    .map((paths) => paths.sort())
+    .sort((a, b) => a[0]!.localeCompare(b[0]!))
+    .map((paths, index) => ({ index, paths }));
+  const shardByPath = new Map(
+    shards.flatMap((shard) => shard.paths.map((path) => [path, shard.index] as const))
+  );
+
+  return {
+    shards,
+    crossShardImports: edges.filter(
+      (edge) => shardByPath.get(edge.fromPath) !== shardByPath.get(edge.toPath)
+    )
+  };
+}
+
+export function normalizeCandidateTitle(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function uniqueStrings(values: string[]) {
+  return [...new Set(values)];
+}
+
+/** The more severe candidate wins; line range, preconditions and references are unioned. */
+export function mergeDiscoveryCandidates<T extends DiscoveryCandidate>(existing: T, candidate: T): T {
+  const primary = severityRank[candidate.severity] > severityRank[existing.severity] ? candidate : existing;
+  return {
+    ...primary,
+    startLine: Math.min(existing.startLine, candidate.startLine),
+    endLine: Math.max(existing.endLine, candidate.endLine),
+    preconditions: uniqueStrings([...existing.preconditions, ...candidate.preconditions]),
+    references: uniqueStrings([...existing.references, ...candidate.references])
+  };
+}
+
+/**
+ * Collapses candidates that several shards reported for the same title and overlapping lines of
+ * the same file. The most severe report wins and absorbs the others' preconditions and references.
+ */
+export function dedupeDiscoveryCandidates<T extends DiscoveryCandidate>(candidates: T[]) {
+  const merged: T[] = [];
+
+  for (const candidate of candidates) {
+    const filePath = normalizePath(candidate.filePath);
+    const title = normalizeCandidateTitle(candidate.title);
+    const index = merged.findIndex(
+      (existing) =>
+        normalizePath(existing.filePath) === filePath &&
+        normalizeCandidateTitle(existing.title) === title &&
+        existing.startLine <= candidate.endLine &&
+        candidate.startLine <= existing.endLine
+    );
+    if (index < 0) {
+      merged.push(candidate);
+      continue;
+    }
+
+    merged[index] = mergeDiscoveryCandidates(merged[index]!, candidate);
+  }
+
+  return merged;
+}
+
+/** Runs `task` over `items` with at most `limit` in flight, preserving result order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+) {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await task(items[index]!, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runNext));
+  return results;
+}
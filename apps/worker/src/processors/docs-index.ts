@@ -10,9 +10,8 @@ import {
 } from "@ton-audit/shared";
 
 import { db } from "../db";
-import { env } from "../env";
 import { recordJobEvent } from "../job-events";
-import { openrouter } from "../openrouter";
+import { createLlmProviders, loadLlmProviderRegistry } from "../llm-providers";
 import { normalizeDocsSourceUrl, toIndexableText } from "./docs-sources";
 
 type Chunk = {
@@ -102,8 +101,9 @@ export function createDocsIndexProcessor() {
 
     if (chunks.length > 0) {
       const values = chunks.map((chunk) => chunk.chunkText);
+      const llm = createLlmProviders({ registry: await loadLlmProviderRegistry() });
       const { embeddings } = await embedMany({
-        model: openrouter.textEmbeddingModel(env.OPENROUTER_EMBEDDINGS_MODEL),
+        model: llm.embeddingModel(),
         values,
         maxParallelCalls: 2
       });
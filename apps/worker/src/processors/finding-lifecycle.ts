@@ -11,9 +11,28 @@ import {
 
 import { db } from "../db";
 import { recordJobEvent } from "../job-events";
+import { dispatchWebhookEvent } from "../webhooks";
 import { computeFindingTransitions } from "./finding-lifecycle-core";
+import type { EnqueueJob } from "./types";
+
+const webhookTransitions = ["opened", "resolved", "regressed"] as const;
+
+function toWebhookFinding(instance: typeof findingInstances.$inferSelect) {
+  const payload = instance.payloadJson;
+  const evidence =
+    payload.evidence && typeof payload.evidence === "object"
+      ? (payload.evidence as Record<string, unknown>)
+      : {};
+
+  return {
+    findingId: instance.findingId,
+    severity: instance.severity,
+    title: typeof payload.title === "string" ? payload.title : null,
+    filePath: typeof evidence.filePath === "string" ? evidence.filePath : null
+  };
+}
 
-export function createFindingLifecycleProcessor() {
+export function createFindingLifecycleProcessor(deps: { enqueueJob: EnqueueJob }) {
   return async function findingLifecycle(job: Job<JobPayloadMap["finding-lifecycle"]>) {
     await recordJobEvent({
       projectId: job.data.projectId,
@@ -110,6 +129,32 @@ export function createFindingLifecycleProcessor() {
       }
     }
 
+    // Resolved findings have no current instance, so their details come from the previous run.
+    const instanceByFindingId = new Map(
+      [...previousInstances, ...currentInstances].map((instance) => [instance.findingId, instance])
+    );
+    for (const transition of webhookTransitions) {
+      const affected = transitions.filter((entry) => entry.transition === transition);
+      const instances = affected.flatMap((entry) => {
+        const instance = instanceByFindingId.get(entry.findingId);
+        return instance ? [instance] : [];
+      });
+      if (!instances.length) {
+        continue;
+      }
+
+      await dispatchWebhookEvent(deps.enqueueJob, {
+        projectId: job.data.projectId,
+        type: `finding.${transition}`,
+        dedupeKey: `finding.${transition}:${auditRun.id}`,
+        data: {
+          auditRunId: auditRun.id,
+          previousAuditRunId: job.data.previousAuditRunId,
+          findings: instances.map(toWebhookFinding)
+        }
+      });
+    }
+
     await recordJobEvent({
       projectId: job.data.projectId,
       queue: "finding-lifecycle",
@@ -0,0 +1,231 @@
+import path from "node:path";
+
+import { diffLines, normalizePath, splitLines } from "@ton-audit/shared";
+
+export type LineRange = {
+  startLine: number;
+  endLine: number;
+};
+
+export type IncrementalFileChange = {
+  path: string;
+  status: "added" | "modified";
+  changedLineRanges: LineRange[];
+};
+
+export type IncrementalScope = {
+  changedFiles: IncrementalFileChange[];
+  removedPaths: string[];
+  neighbourPaths: string[];
+  unchangedPaths: string[];
+};
+
+export type ImportEdge = {
+  fromPath: string;
+  toPath: string;
+};
+
+type ScopeCurrentFile = {
+  path: string;
+  sha256: string;
+  content: string;
+};
+
+type ScopeParentFile = {
+  path: string;
+  sha256: string;
+  content?: string | null;
+};
+
+const importSpecifierPattern = /^\s*(?:#include|import)\s+["']([^"']+)["']/gm;
+
+function mergeLineRanges(ranges: LineRange[]) {
+  const sorted = [...ranges].sort((a, b) => a.startLine - b.startLine);
+  const merged: LineRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.startLine <= last.endLine + 1) {
+      last.endLine = Math.max(last.endLine, range.endLine);
+      continue;
+    }
+
+    merged.push({ ...range });
+  }
+
+  return merged;
+}
+
+/**
+ * Returns the 1-based line ranges of `currentContent` that were added or changed relative to
+ * `previousContent`. Pure deletions are anchored to the preceding surviving line; files too
+ * different to diff are reported as changed throughout.
+ */
+export function diffChangedLineRanges(previousContent: string, currentContent: string): LineRange[] {
+  const current = splitLines(currentContent);
+  const ops = diffLines(splitLines(previousContent), current);
+  const anchorLine = (line: number) => Math.min(Math.max(line, 1), Math.max(current.length, 1));
+
+  if (!ops) {
+    return [{ startLine: 1, endLine: anchorLine(current.length) }];
+  }
+
+  const touchedLines = new Set<number>();
+  let currentLine = 0;
+  let pendingDeletion = false;
+  for (const op of ops) {
+    if (op.type === "delete") {
+      pendingDeletion = true;
+      continue;
+    }
+
+    if (op.type === "insert") {
+      // Deleted lines replaced by inserted ones are covered by the inserted lines.
+      pendingDeletion = false;
+      touchedLines.add(currentLine + 1);
+    } else if (pendingDeletion) {
+      pendingDeletion = false;
+      touchedLines.add(anchorLine(currentLine));
+    }
+    currentLine += 1;
+  }
+  if (pendingDeletion) {
+    touchedLines.add(anchorLine(currentLine));
+  }
+
+  return mergeLineRanges([...touchedLines].map((line) => ({ startLine: line, endLine: line })));
+}
+
+function resolveImportPath(fromPath: string, specifier: string, knownPaths: Set<string>) {
+  if (specifier.startsWith("@")) {
+    return null;
+  }
+
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+  const extension = path.posix.extname(fromPath);
+  const candidates = [base, `${base}${extension}`, ...[".tolk", ".fc", ".func", ".tact"].map((ext) => `${base}${ext}`)];
+
+  for (const candidate of candidates) {
+    const normalized = normalizePath(candidate);
+    if (knownPaths.has(normalized)) {
+      return normalized;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves relative `import` / `#include` specifiers between files. `extraPaths` lets callers
+ * resolve imports of files that are no longer part of `files`.
+ */
+export function collectImportEdges(
+  files: Array<{ path: string; content: string }>,
+  extraPaths: string[] = []
+): ImportEdge[] {
+  const knownPaths = new Set([...files.map((file) => file.path), ...extraPaths]);
+  const edges: ImportEdge[] = [];
+
+  for (const file of files) {
+    for (const match of file.content.matchAll(importSpecifierPattern)) {
+      const resolved = resolveImportPath(file.path, match[1]!, knownPaths);
+      if (resolved && resolved !== file.path) {
+        edges.push({ fromPath: file.path, toPath: resolved });
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Collects files that import, or are imported by, any of the seed paths. Seed paths that no
+ * longer exist (removed files) still pull in their former importers.
+ */
+export function findImportNeighbours(
+  files: Array<{ path: string; content: string }>,
+  seedPaths: string[]
+) {
+  const seeds = new Set(seedPaths);
+  const neighbours = new Set<string>();
+
+  for (const edge of collectImportEdges(files, seedPaths)) {
+    if (seeds.has(edge.fromPath) && !seeds.has(edge.toPath)) {
+      neighbours.add(edge.toPath);
+    }
+    if (seeds.has(edge.toPath) && !seeds.has(edge.fromPath)) {
+      neighbours.add(edge.fromPath);
+    }
+  }
+
+  const currentPaths = new Set(files.map((file) => file.path));
+  return [...neighbours].filter((item) => currentPaths.has(item)).sort();
+}
+
+export function computeIncrementalScope(input: {
+  currentFiles: ScopeCurrentFile[];
+  parentFiles: ScopeParentFile[];
+}): IncrementalScope {
+  const parentByPath = new Map(input.parentFiles.map((file) => [file.path, file]));
+  const currentPaths = new Set(input.currentFiles.map((file) => file.path));
+  const changedFiles: IncrementalFileChange[] = [];
+  const unchangedPaths: string[] = [];
+
+  for (const file of input.currentFiles) {
+    const parent = parentByPath.get(file.path);
+    if (!parent) {
+      changedFiles.push({
+        path: file.path,
+        status: "added",
+        changedLineRanges: [{ startLine: 1, endLine: Math.max(splitLines(file.content).length, 1) }]
+      });
+      continue;
+    }
+
+    if (parent.sha256 === file.sha256) {
+      unchangedPaths.push(file.path);
+      continue;
+    }
+
+    changedFiles.push({
+      path: file.path,
+      status: "modified",
+      changedLineRanges:
+        typeof parent.content === "string"
+          ? diffChangedLineRanges(parent.content, file.content)
+          : [{ startLine: 1, endLine: Math.max(splitLines(file.content).length, 1) }]
+    });
+  }
+
+  const removedPaths = input.parentFiles
+    .map((file) => file.path)
+    .filter((item) => !currentPaths.has(item))
+    .sort();
+  const neighbourPaths = findImportNeighbours(input.currentFiles, [
+    ...changedFiles.map((file) => file.path),
+    ...removedPaths
+  ]);
+
+  return {
+    changedFiles: changedFiles.sort((a, b) => a.path.localeCompare(b.path)),
+    removedPaths,
+    neighbourPaths,
+    unchangedPaths: unchangedPaths.sort()
+  };
+}
+
+/**
+ * Prior findings can be carried forward only when their file is byte-identical to the parent
+ * revision and none of its imports changed underneath it.
+ */
+export function selectCarriedForwardFindings<T extends { filePath: string }>(
+  findings: T[],
+  scope: IncrementalScope
+) {
+  const unchanged = new Set(scope.unchangedPaths);
+  const neighbours = new Set(scope.neighbourPaths);
+
+  return findings.filter(
+    (finding) => unchanged.has(normalizePath(finding.filePath)) && !neighbours.has(normalizePath(finding.filePath))
+  );
+}
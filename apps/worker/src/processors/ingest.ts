@@ -6,12 +6,13 @@ import { and, desc, eq, inArray } from "drizzle-orm";
 
 import {
   acceptedUploadExtensions,
+  AUDIT_MODEL_ALLOWLIST_SETTING_KEY,
   auditRuns,
   detectLanguageFromPath,
+  narrowModelAllowlist,
   normalizePath,
   projects,
   revisions,
-  systemSettings,
   type JobPayloadMap,
   uploads,
 } from "@ton-audit/shared";
@@ -22,6 +23,7 @@ import { env } from "../env";
 import { recordJobEvent } from "../job-events";
 import { getObjectBuffer } from "../s3";
 import { clearRevisionFiles, upsertRevisionFile } from "../revision-files";
+import { loadProjectSettingValue, loadSystemSettingValue } from "../settings";
 import type { EnqueueJob } from "./types";
 
 type ArchiveFile = {
@@ -149,20 +151,25 @@ async function loadFileSetFiles(manifest: UploadManifestEntry[]) {
   return files;
 }
 
-async function loadAuditModelAllowlist() {
-  const setting = await db.query.systemSettings.findFirst({
-    where: eq(systemSettings.key, "audit_model_allowlist"),
-  });
-
-  const fromSetting = Array.isArray(
-    (setting?.value as { models?: unknown[] } | null)?.models,
-  )
-    ? ((setting?.value as { models: unknown[] }).models ?? [])
+function readAllowlistModels(value: unknown) {
+  return Array.isArray((value as { models?: unknown[] } | null)?.models)
+    ? ((value as { models: unknown[] }).models ?? [])
         .map((item) => String(item).trim())
         .filter(Boolean)
     : [];
+}
+
+async function loadAuditModelAllowlist(projectId: string) {
+  const [organizationValue, systemValue] = await Promise.all([
+    loadProjectSettingValue(projectId, AUDIT_MODEL_ALLOWLIST_SETTING_KEY),
+    loadSystemSettingValue(AUDIT_MODEL_ALLOWLIST_SETTING_KEY),
+  ]);
 
-  return fromSetting.length ? fromSetting : env.AUDIT_MODEL_ALLOWLIST;
+  const fromSetting = readAllowlistModels(systemValue);
+  return narrowModelAllowlist(
+    fromSetting.length ? fromSetting : env.AUDIT_MODEL_ALLOWLIST,
+    readAllowlistModels(organizationValue),
+  );
 }
 
 export function createIngestProcessor(deps: { enqueueJob: EnqueueJob }) {
@@ -255,7 +262,9 @@ export function createIngestProcessor(deps: { enqueueJob: EnqueueJob }) {
       let skippedDueToActiveAudit = false;
 
       if (!auditRun) {
-        const modelAllowlist = await loadAuditModelAllowlist();
+        const modelAllowlist = await loadAuditModelAllowlist(
+          revision.projectId,
+        );
         try {
           const [created] = await db
             .insert(auditRuns)
@@ -326,6 +335,7 @@ export function createIngestProcessor(deps: { enqueueJob: EnqueueJob }) {
             revisionId: revision.id,
             auditRunId: auditRun.id,
             profile: auditRun.profile,
+            mode: auditRun.mode,
             includeDocsFallbackFetch: true,
           },
           `verify:${revision.projectId}:${auditRun.id}`,
@@ -381,6 +391,7 @@ export function createIngestProcessor(deps: { enqueueJob: EnqueueJob }) {
         event: "failed",
         payload: {
           uploadId: upload.id,
+          willRetry: job.attemptsMade + 1 < (job.opts.attempts ?? 1),
           message:
             error instanceof Error ? error.message : "Unknown ingest failure",
         },
@@ -1,5 +1,5 @@
 import { Job } from "bullmq";
-import { and, eq } from "drizzle-orm";
+import { and, eq, inArray } from "drizzle-orm";
 
 import {
   auditRuns,
@@ -7,11 +7,18 @@ import {
   verificationSteps
 } from "@ton-audit/shared";
 
+import {
+  AuditRunCancelledError,
+  isAuditRunCancelled,
+  throwIfAuditRunCancelled,
+  watchAuditRunCancellation
+} from "../audit-cancellation";
 import { db } from "../db";
 import { recordJobEvent } from "../job-events";
 import { workerLogger } from "../logger";
 import { loadRevisionFilesWithContent } from "../revision-files";
 import { putObject } from "../s3";
+import { dispatchWebhookEvent } from "../webhooks";
 import { planSandboxVerification } from "../sandbox/adapters";
 import { executeSandboxPlan, summarizeSandboxResults } from "../sandbox/client";
 import type { EnqueueJob } from "./types";
@@ -252,6 +259,26 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
       runStatus: auditRun.status
     });
 
+    const recordCancelled = async () => {
+      await recordJobEvent({
+        projectId: job.data.projectId,
+        queue: "verify",
+        jobId: String(job.id),
+        event: "cancelled",
+        payload: {
+          auditRunId: auditRun.id
+        }
+      });
+
+      workerLogger.info("verify.stage.cancelled", context);
+
+      return { auditRunId: auditRun.id, cancelled: true };
+    };
+
+    if (auditRun.status === "cancelled") {
+      return recordCancelled();
+    }
+
     await db
       .update(auditRuns)
       .set({
@@ -259,10 +286,11 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         startedAt: auditRun.startedAt ?? new Date(),
         updatedAt: new Date()
       })
-      .where(eq(auditRuns.id, auditRun.id));
+      .where(and(eq(auditRuns.id, auditRun.id), inArray(auditRuns.status, ["queued", "running"])));
 
     workerLogger.info("verify.stage.audit-run-marked-running", context);
     const verifyStartedAt = Date.now();
+    const cancellation = watchAuditRunCancellation(auditRun.id);
 
     try {
       const files = await loadRevisionFilesWithContent(job.data.revisionId);
@@ -313,6 +341,8 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         }
       });
 
+      await throwIfAuditRunCancelled(auditRun.id, cancellation.signal);
+
       let sandboxExecutionSummary = "Sandbox execution skipped";
       let sandboxResults: Awaited<ReturnType<typeof executeSandboxPlan>>["results"] = [];
       let securityScanArtifacts: SecurityScanArtifact[] = [];
@@ -392,6 +422,7 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
             plan,
             projectId: job.data.projectId,
             revisionId: job.data.revisionId,
+            signal: cancellation.signal,
             onProgress: async (event) => {
               if (event.type === "started") {
                 if (event.steps.length) {
@@ -533,6 +564,10 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
             }
           });
         } catch (sandboxError) {
+          if (sandboxError instanceof AuditRunCancelledError || cancellation.signal.aborted) {
+            throw new AuditRunCancelledError(auditRun.id);
+          }
+
           sandboxExecutionFailed = true;
           sandboxExecutionSummary = `Sandbox execution unavailable: ${
             sandboxError instanceof Error ? sandboxError.message : "Unknown error"
@@ -575,6 +610,8 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         });
       }
 
+      await throwIfAuditRunCancelled(auditRun.id, cancellation.signal);
+
       const executedSecurityScanResults = sandboxResults.filter((result) =>
         securityScanActions.has(result.action as SecurityScanAction)
       );
@@ -770,6 +807,8 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         sandboxResultCount: sandboxResults.length
       });
 
+      await throwIfAuditRunCancelled(auditRun.id, cancellation.signal);
+
       await deps.enqueueJob(
         "audit",
         {
@@ -777,6 +816,7 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
           revisionId: job.data.revisionId,
           auditRunId: auditRun.id,
           profile: job.data.profile,
+          mode: job.data.mode,
           includeDocsFallbackFetch: job.data.includeDocsFallbackFetch
         },
         `audit:${job.data.projectId}:${auditRun.id}`
@@ -806,6 +846,10 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
 
       return { auditRunId: auditRun.id, diagnosticsCount: diagnostics.length };
     } catch (error) {
+      if (error instanceof AuditRunCancelledError || (await isAuditRunCancelled(auditRun.id))) {
+        return recordCancelled();
+      }
+
       await db
         .update(auditRuns)
         .set({
@@ -815,6 +859,8 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         })
         .where(eq(auditRuns.id, auditRun.id));
 
+      // Earlier attempts are retried by BullMQ, so only the last one is reported as final.
+      const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
       await recordJobEvent({
         projectId: job.data.projectId,
         queue: "verify",
@@ -822,16 +868,32 @@ export function createVerifyProcessor(deps: { enqueueJob: EnqueueJob }) {
         event: "failed",
         payload: {
           auditRunId: auditRun.id,
+          willRetry: !isFinalAttempt,
           message: error instanceof Error ? error.message : "Unknown verify failure"
         }
       });
 
+      if (isFinalAttempt) {
+        await dispatchWebhookEvent(deps.enqueueJob, {
+          projectId: auditRun.projectId,
+          type: "audit.failed",
+          dedupeKey: `audit.failed:${auditRun.id}`,
+          data: {
+            auditRunId: auditRun.id,
+            revisionId: auditRun.revisionId,
+            message: error instanceof Error ? error.message : "Unknown verify failure"
+          }
+        });
+      }
+
       workerLogger.error("verify.stage.failed", {
         ...context,
         error
       });
 
       throw error;
+    } finally {
+      cancellation.stop();
     }
   };
 }
@@ -0,0 +1,174 @@
+import { lookup as dnsLookup } from "node:dns";
+import type { LookupFunction } from "node:net";
+
+import { Job } from "bullmq";
+import { eq } from "drizzle-orm";
+import { Agent, fetch } from "undici";
+
+import {
+  isInternalHostname,
+  isPrivateNetworkAddress,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  webhookSubscriptions,
+  type JobPayloadMap,
+  type WebhookEventEnvelope
+} from "@ton-audit/shared";
+
+import { db } from "../db";
+
+const RESPONSE_BODY_LIMIT = 2_000;
+
+/**
+ * `dns.lookup` that refuses private, loopback and link-local answers. It runs for every connection,
+ * so a hostname that re-resolves to an internal address after the URL was accepted (DNS rebinding)
+ * still cannot reach internal services.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    const blocked = addresses.find((entry) => isPrivateNetworkAddress(entry));
+    if (blocked) {
+      callback(
+        Object.assign(new Error(`Webhook host ${hostname} resolves to private address ${blocked}`), {
+          code: "EPRIVATEADDRESS"
+        }),
+        address,
+        family
+      );
+      return;
+    }
+
+    callback(null, address, family);
+  });
+};
+
+const webhookDispatcher = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+async function readResponseBody(response: { text: () => Promise<string> }) {
+  try {
+    const text = await response.text();
+    return text.slice(0, RESPONSE_BODY_LIMIT);
+  } catch {
+    return null;
+  }
+}
+
+export function createWebhookDeliveryProcessor() {
+  return async function webhookDelivery(job: Job<JobPayloadMap["webhook-delivery"]>) {
+    const delivery = await db.query.webhookDeliveries.findFirst({
+      where: eq(webhookDeliveries.id, job.data.deliveryId)
+    });
+
+    // Deleting a subscription cascades to its deliveries; there is nothing left to send.
+    if (!delivery) {
+      return { deliveryId: job.data.deliveryId, skipped: "delivery-not-found" };
+    }
+
+    if (delivery.status === "succeeded") {
+      return { deliveryId: delivery.id, skipped: "already-delivered" };
+    }
+
+    const subscription = await db.query.webhookSubscriptions.findFirst({
+      where: eq(webhookSubscriptions.id, delivery.subscriptionId)
+    });
+
+    if (!subscription) {
+      return { deliveryId: delivery.id, skipped: "subscription-not-found" };
+    }
+
+    const envelope: WebhookEventEnvelope = {
+      id: delivery.id,
+      type: delivery.eventType,
+      projectId: delivery.projectId,
+      createdAt: delivery.createdAt.toISOString(),
+      data: delivery.payloadJson
+    };
+    const body = JSON.stringify(envelope);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const attemptNumber = delivery.attemptCount + 1;
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      // IP literals never go through DNS, so they are checked here; names are checked on connect.
+      if (isInternalHostname(new URL(subscription.url).hostname)) {
+        throw new Error("Webhook URL points to a private, loopback or internal address");
+      }
+
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ton-audit-webhooks/1",
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload({
+            secret: subscription.secret,
+            timestamp,
+            body
+          })
+        },
+        body,
+        // Redirects are never followed: a public endpoint could bounce the request inward.
+        redirect: "manual",
+        dispatcher: webhookDispatcher,
+        signal: AbortSignal.timeout(WEBHOOK_DELIVERY_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      responseBody = await readResponseBody(response);
+      if (!response.ok) {
+        errorMessage = `Webhook endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : "Unknown webhook delivery error";
+    }
+
+    const succeeded = errorMessage === null;
+
+    await db.insert(webhookDeliveryAttempts).values({
+      deliveryId: delivery.id,
+      attemptNumber,
+      responseStatus,
+      responseBody,
+      error: errorMessage,
+      durationMs: Date.now() - startedAt
+    });
+
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: succeeded ? "succeeded" : isFinalAttempt ? "failed" : "pending",
+        attemptCount: attemptNumber,
+        lastResponseStatus: responseStatus,
+        lastError: errorMessage,
+        deliveredAt: succeeded ? new Date() : null,
+        updatedAt: new Date()
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+
+    if (!succeeded) {
+      // Throwing hands the retry schedule to BullMQ's exponential backoff.
+      throw new Error(errorMessage ?? "Webhook delivery failed");
+    }
+
+    return { deliveryId: delivery.id, responseStatus, attemptNumber };
+  };
+}
@@ -19,6 +19,12 @@ export type RevisionFileContent = {
   content: string;
 };
 
+export type RevisionFileHash = {
+  path: string;
+  sha256: string;
+  s3Key: string;
+};
+
 function getErrorCode(error: unknown): string | null {
   if (!error || typeof error !== "object") {
     return null;
@@ -73,6 +79,18 @@ export async function loadRevisionFilesWithContent(
   );
 }
 
+export async function loadRevisionFileHashes(revisionId: string): Promise<RevisionFileHash[]> {
+  return db
+    .select({
+      path: revisionFiles.path,
+      sha256: fileBlobs.sha256,
+      s3Key: fileBlobs.s3Key
+    })
+    .from(revisionFiles)
+    .innerJoin(fileBlobs, eq(revisionFiles.blobId, fileBlobs.id))
+    .where(eq(revisionFiles.revisionId, revisionId));
+}
+
 async function ensureBlobFromContent(content: string) {
   const sha = createContentFingerprint(content);
   const existing = await db.query.fileBlobs.findFirst({
@@ -132,7 +132,7 @@ function pickSeedTemplate(files: SandboxFile[], languages: string[]): "tact-empt
 }
 
 function blueprintPlan(languages: string[], profile: AuditProfile): SandboxPlan {
-  const isDeep = profile === "deep";
+  const isDeep = profile !== "fast";
   return {
     adapter: "blueprint",
     languages,
@@ -155,7 +155,7 @@ function singleLanguagePlan(
   profile: AuditProfile
 ): SandboxPlan {
   const seedTemplate = pickSeedTemplate(files, [language]);
-  const isDeep = profile === "deep";
+  const isDeep = profile !== "fast";
   const scanSteps = [
     createStep("security-surface-scan", "security-surface-scan", false),
     createStep("security-rules-scan", "security-rules-scan", !isDeep)
@@ -221,7 +221,7 @@ function singleLanguagePlan(
 }
 
 function mixedPlan(files: SandboxFile[], languages: string[], profile: AuditProfile): SandboxPlan {
-  const isDeep = profile === "deep";
+  const isDeep = profile !== "fast";
   const steps: SandboxStep[] = [];
   const unsupportedReasons: string[] = [
     "Mixed-language execution runs with pinned toolchain only; project-specific dependencies are skipped."
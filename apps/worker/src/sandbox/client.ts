@@ -243,6 +243,7 @@ export async function executeSandboxPlan(params: {
   projectId: string;
   revisionId: string;
   onProgress?: (event: SandboxExecutionProgressEvent) => void | Promise<void>;
+  signal?: AbortSignal;
 }): Promise<SandboxExecutionResponse> {
   if (!params.plan.steps.length) {
     return {
@@ -257,11 +258,12 @@ export async function executeSandboxPlan(params: {
 
   while (activePlan.steps.length > 0) {
     const timeoutMs = resolveSandboxRequestTimeoutMs(activePlan);
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
     let response: Response;
     try {
       response = await fetch(`${env.SANDBOX_RUNNER_URL}/execute`, {
         method: "POST",
-        signal: AbortSignal.timeout(timeoutMs),
+        signal: params.signal ? AbortSignal.any([params.signal, timeoutSignal]) : timeoutSignal,
         headers: {
           "Content-Type": "application/json",
           Accept: "application/x-ndjson, application/json",
@@ -280,6 +282,9 @@ export async function executeSandboxPlan(params: {
         })
       });
     } catch (error) {
+      if (params.signal?.aborted) {
+        throw params.signal.reason ?? error;
+      }
       if (error instanceof DOMException && error.name === "TimeoutError") {
         throw new Error(`Sandbox runner request timed out after ${timeoutMs}ms`);
       }
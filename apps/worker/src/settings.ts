@@ -0,0 +1,38 @@
+import { and, eq } from "drizzle-orm";
+
+import { organizationSettings, projects, systemSettings } from "@ton-audit/shared";
+
+import { db } from "./db";
+
+/**
+ * Reads a setting for the project's organization, falling back to the system-wide value. Mirrors
+ * the web app so exports and automatic audits honour the same overrides.
+ */
+export async function loadProjectSettingValue(projectId: string, key: string) {
+  const project = await db.query.projects.findFirst({
+    where: eq(projects.id, projectId),
+    columns: { organizationId: true }
+  });
+
+  if (project?.organizationId) {
+    const override = await db.query.organizationSettings.findFirst({
+      where: and(
+        eq(organizationSettings.organizationId, project.organizationId),
+        eq(organizationSettings.key, key)
+      )
+    });
+    if (override) {
+      return override.value;
+    }
+  }
+
+  return loadSystemSettingValue(key);
+}
+
+/** Reads a system-wide setting that organizations cannot override. */
+export async function loadSystemSettingValue(key: string) {
+  const setting = await db.query.systemSettings.findFirst({
+    where: eq(systemSettings.key, key)
+  });
+  return setting?.value ?? null;
+}
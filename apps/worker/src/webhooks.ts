@@ -0,0 +1,73 @@
+import { and, arrayContains, eq } from "drizzle-orm";
+
+import {
+  type WebhookEventType,
+  webhookDeliveries,
+  webhookSubscriptions
+} from "@ton-audit/shared";
+
+import { db } from "./db";
+import { workerLogger } from "./logger";
+import type { EnqueueJob } from "./processors/types";
+
+/**
+ * Records one delivery per enabled subscription that listens for `type` and queues it. Failures
+ * are logged rather than thrown so a broken webhook setup never fails the job that raised the event.
+ */
+export async function dispatchWebhookEvent(
+  enqueueJob: EnqueueJob,
+  params: {
+    projectId: string;
+    type: WebhookEventType;
+    dedupeKey: string;
+    data: Record<string, unknown>;
+  }
+) {
+  try {
+    const subscriptions = await db.query.webhookSubscriptions.findMany({
+      where: and(
+        eq(webhookSubscriptions.projectId, params.projectId),
+        eq(webhookSubscriptions.enabled, true),
+        arrayContains(webhookSubscriptions.events, [params.type])
+      )
+    });
+
+    let queued = 0;
+    for (const subscription of subscriptions) {
+      const [delivery] = await db
+        .insert(webhookDeliveries)
+        .values({
+          subscriptionId: subscription.id,
+          projectId: params.projectId,
+          eventType: params.type,
+          dedupeKey: params.dedupeKey,
+          payloadJson: params.data
+        })
+        .onConflictDoNothing({
+          target: [webhookDeliveries.subscriptionId, webhookDeliveries.dedupeKey]
+        })
+        .returning({ id: webhookDeliveries.id });
+
+      if (!delivery) {
+        continue;
+      }
+
+      await enqueueJob(
+        "webhook-delivery",
+        { projectId: params.projectId, deliveryId: delivery.id },
+        `webhook-delivery:${delivery.id}`
+      );
+      queued += 1;
+    }
+
+    return queued;
+  } catch (error) {
+    workerLogger.error("webhook.dispatch.failed", {
+      projectId: params.projectId,
+      type: params.type,
+      dedupeKey: params.dedupeKey,
+      error
+    });
+    return 0;
+  }
+}
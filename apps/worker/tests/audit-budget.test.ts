@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { createAuditBudgetTracker } from "../src/processors/audit-budget";
+
+function usage(inputTokens: number, outputTokens: number, cachedInputTokens = 0) {
+  return {
+    inputTokens,
+    outputTokens,
+    reasoningTokens: 0,
+    cachedInputTokens,
+    totalTokens: inputTokens + outputTokens
+  };
+}
+
+const prices = {
+  "model-a": { inputPerMillionUsd: 2, outputPerMillionUsd: 10, cachedInputPerMillionUsd: 0.5 }
+};
+
+describe("createAuditBudgetTracker", () => {
+  it("accumulates usage and priced cost across passes", () => {
+    const tracker = createAuditBudgetTracker({ budget: null, prices });
+
+    tracker.record("discovery", "model-a", usage(100_000, 10_000, 40_000));
+    tracker.record("synthesis", "model-a", usage(50_000, 5_000));
+
+    const snapshot = tracker.snapshot();
+    expect(snapshot.tokenUsage).toMatchObject({
+      inputTokens: 150_000,
+      outputTokens: 15_000,
+      cachedInputTokens: 40_000,
+      totalTokens: 165_000
+    });
+    // 60k uncached + 40k cached + 10k out, then 50k in + 5k out.
+    expect(snapshot.costUsd).toBeCloseTo(0.12 + 0.02 + 0.1 + 0.1 + 0.05);
+    expect(snapshot.exhaustedDuring).toBeNull();
+    expect(tracker.isExhausted()).toBe(false);
+  });
+
+  it("records the pass that first crosses the budget", () => {
+    const tracker = createAuditBudgetTracker({
+      budget: { maxTokens: 200_000, maxCostUsd: 0.1 },
+      prices
+    });
+
+    tracker.record("discovery", "model-a", usage(20_000, 2_000));
+    expect(tracker.isExhausted()).toBe(false);
+
+    tracker.record("validation", "model-a", usage(20_000, 5_000));
+    tracker.record("synthesis", "model-a", usage(1_000, 100));
+
+    expect(tracker.isExhausted()).toBe(true);
+    expect(tracker.snapshot().exhaustedDuring).toBe("validation");
+  });
+
+  it("keeps enforcing token limits when a model has no price", () => {
+    const tracker = createAuditBudgetTracker({
+      budget: { maxTokens: 10_000 },
+      prices
+    });
+
+    tracker.record("discovery", "model-a", usage(1_000, 100));
+    tracker.record("discovery", "model-b", usage(9_000, 500));
+
+    const snapshot = tracker.snapshot();
+    expect(snapshot.costUsd).toBeNull();
+    expect(snapshot.unpricedModels).toEqual(["model-b"]);
+    expect(snapshot.exhaustedDuring).toBe("discovery");
+  });
+
+  it("treats spend on an unpriced model as exhausting a cost budget", () => {
+    const tracker = createAuditBudgetTracker({
+      budget: { maxCostUsd: 100 },
+      prices
+    });
+
+    tracker.record("discovery", "model-a", usage(1_000, 100));
+    expect(tracker.isExhausted()).toBe(false);
+
+    tracker.record("validation", "model-b", usage(1_000, 100));
+    expect(tracker.snapshot()).toMatchObject({
+      costUsd: null,
+      unpricedModels: ["model-b"],
+      exhaustedDuring: "validation"
+    });
+  });
+
+  it("resumes from the spend an earlier attempt recorded on the run", () => {
+    const tracker = createAuditBudgetTracker({
+      budget: { maxTokens: 30_000 },
+      prices,
+      recorded: { tokenUsage: usage(20_000, 2_000), costUsd: 0.06 }
+    });
+    expect(tracker.isExhausted()).toBe(false);
+
+    tracker.record("validation", "model-a", usage(10_000, 1_000));
+    expect(tracker.snapshot()).toMatchObject({
+      tokenUsage: { inputTokens: 30_000, totalTokens: 33_000 },
+      exhaustedDuring: "validation"
+    });
+    expect(tracker.snapshot().costUsd).toBeCloseTo(0.06 + 0.02 + 0.01);
+  });
+
+  it("starts exhausted when the recorded spend already reached the budget", () => {
+    const overTokens = createAuditBudgetTracker({
+      budget: { maxTokens: 10_000 },
+      prices,
+      recorded: { tokenUsage: usage(10_000, 500), costUsd: 0.025 }
+    });
+    expect(overTokens.snapshot().exhaustedDuring).toBe("an earlier attempt");
+
+    const unpricedSpend = createAuditBudgetTracker({
+      budget: { maxCostUsd: 100 },
+      prices,
+      recorded: { tokenUsage: usage(1_000, 100), costUsd: null }
+    });
+    expect(unpricedSpend.isExhausted()).toBe(true);
+    expect(unpricedSpend.snapshot().costUsd).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  clusterConsensusCandidates,
+  resolveConsensusDiscoverers
+} from "../src/processors/discovery-consensus";
+import type { DiscoveryCandidate } from "../src/processors/discovery-shards";
+
+function candidate(overrides: Partial<DiscoveryCandidate>): DiscoveryCandidate {
+  return {
+    candidateId: "C1",
+    title: "Missing sender check",
+    severity: "medium",
+    hypothesis: "Anyone can call the admin handler.",
+    filePath: "contracts/minter.tolk",
+    startLine: 10,
+    endLine: 14,
+    preconditions: [],
+    attackScenario: "",
+    references: [],
+    ...overrides
+  };
+}
+
+describe("clusterConsensusCandidates", () => {
+  it("clusters candidates with overlapping lines and similar titles and counts agreeing models", () => {
+    const clusters = clusterConsensusCandidates([
+      {
+        modelId: "model-a",
+        candidates: [
+          candidate({ candidateId: "C1" }),
+          candidate({ candidateId: "C2", title: "Unbounded loop", startLine: 40, endLine: 48 })
+        ]
+      },
+      {
+        modelId: "model-b",
+        candidates: [
+          candidate({
+            candidateId: "C1",
+            title: "Sender check missing in admin handler",
+            severity: "high",
+            startLine: 12
+          }),
+          candidate({ candidateId: "C2", title: "Unbounded loop!", startLine: 46, endLine: 60 })
+        ]
+      },
+      {
+        modelId: "model-c",
+        candidates: [candidate({ candidateId: "C7", filePath: "contracts/wallet.tolk" })]
+      }
+    ]);
+
+    expect(clusters.map((cluster) => [cluster.candidateId, cluster.foundBy])).toEqual([
+      ["M2-C1", ["model-a", "model-b"]],
+      ["M1-C2", ["model-a", "model-b"]],
+      ["M3-C7", ["model-c"]]
+    ]);
+    expect(clusters[0]).toMatchObject({ severity: "high", startLine: 10, endLine: 14 });
+    expect(clusters[1]).toMatchObject({ startLine: 40, endLine: 60 });
+  });
+
+  it("keeps different issues apart even when their lines overlap", () => {
+    const clusters = clusterConsensusCandidates([
+      { modelId: "model-a", candidates: [candidate({})] },
+      {
+        modelId: "model-b",
+        candidates: [candidate({ title: "Bounced message ignored", startLine: 12 })]
+      },
+      {
+        modelId: "model-c",
+        candidates: [candidate({ title: "Missing sender check", startLine: 40, endLine: 44 })]
+      }
+    ]);
+
+    expect(clusters.map((cluster) => cluster.foundBy)).toEqual([
+      ["model-a"],
+      ["model-b"],
+      ["model-c"]
+    ]);
+  });
+
+  it("matches each model's own report rather than the merged title and range", () => {
+    const clusters = clusterConsensusCandidates([
+      { modelId: "model-a", candidates: [candidate({ severity: "high" })] },
+      {
+        modelId: "model-b",
+        candidates: [candidate({ title: "Admin handler lacks sender check", endLine: 40 })]
+      },
+      {
+        modelId: "model-c",
+        candidates: [
+          candidate({ title: "Missing sender check in wallet transfer", startLine: 30, endLine: 35 })
+        ]
+      }
+    ]);
+
+    // The merged cluster is titled "Missing sender check" and spans lines 10-40, but no single
+    // report shares both a similar title and overlapping lines with model-c's candidate.
+    expect(clusters[0]).toMatchObject({ title: "Missing sender check", startLine: 10, endLine: 40 });
+    expect(clusters.map((cluster) => cluster.foundBy)).toEqual([["model-a", "model-b"], ["model-c"]]);
+    expect(
+      resolveConsensusDiscoverers(
+        {
+          filePath: "contracts/minter.tolk",
+          startLine: 31,
+          endLine: 32,
+          title: "Missing sender check in wallet transfer"
+        },
+        clusters,
+        ["model-a", "model-b", "model-c"]
+      )
+    ).toEqual(["model-c"]);
+  });
+
+  it("never merges two candidates reported by the same model", () => {
+    const clusters = clusterConsensusCandidates([
+      {
+        modelId: "model-a",
+        candidates: [
+          candidate({ candidateId: "C1" }),
+          candidate({ candidateId: "C2", title: "Missing sender check", startLine: 12 })
+        ]
+      }
+    ]);
+
+    expect(clusters.map((cluster) => cluster.foundBy)).toEqual([["model-a"], ["model-a"]]);
+  });
+});
+
+describe("resolveConsensusDiscoverers", () => {
+  it("attributes a synthesized finding to the models whose reports match it", () => {
+    const clusters = clusterConsensusCandidates([
+      { modelId: "model-a", candidates: [candidate({})] },
+      { modelId: "model-b", candidates: [candidate({ startLine: 13, endLine: 20 })] }
+    ]);
+
+    expect(
+      resolveConsensusDiscoverers(
+        { filePath: "contracts/minter.tolk", startLine: 12, endLine: 13, title: "Sender check missing" },
+        clusters,
+        ["model-b", "model-a"]
+      )
+    ).toEqual(["model-b", "model-a"]);
+    expect(
+      resolveConsensusDiscoverers(
+        { filePath: "contracts/minter.tolk", startLine: 12, endLine: 13, title: "Unbounded loop" },
+        clusters,
+        ["model-a", "model-b"]
+      )
+    ).toEqual([]);
+    expect(
+      resolveConsensusDiscoverers(
+        { filePath: "contracts/wallet.tolk", startLine: 1, endLine: 2, title: "Missing sender check" },
+        clusters,
+        ["model-a", "model-b"]
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  dedupeDiscoveryCandidates,
+  type DiscoveryCandidate,
+  mapWithConcurrency,
+  planDiscoveryShards
+} from "../src/processors/discovery-shards";
+
+function candidate(overrides: Partial<DiscoveryCandidate>): DiscoveryCandidate {
+  return {
+    candidateId: "C1",
+    title: "Missing sender check",
+    severity: "medium",
+    hypothesis: "Anyone can call the admin handler.",
+    filePath: "contracts/minter.tolk",
+    startLine: 10,
+    endLine: 14,
+    preconditions: [],
+    attackScenario: "",
+    references: [],
+    ...overrides
+  };
+}
+
+describe("planDiscoveryShards", () => {
+  it("keeps import-graph components in the same shard", () => {
+    const files = [
+      { path: "contracts/minter.tolk", content: 'import "./jetton-utils"\n' },
+      { path: "contracts/jetton-utils.tolk", content: "fun pack() {}\n" },
+      { path: "contracts/wallet.fc", content: '#include "imports/stdlib.fc";\n' },
+      { path: "contracts/imports/stdlib.fc", content: "() recv_internal() {}\n" },
+      { path: "contracts/vesting.tact", content: "contract Vesting {}\n" }
+    ];
+
+    const plan = planDiscoveryShards(files, 2);
+
+    expect(plan.shards).toEqual([
+      { index: 0, paths: ["contracts/imports/stdlib.fc", "contracts/wallet.fc"] },
+      { index: 1, paths: ["contracts/jetton-utils.tolk", "contracts/minter.tolk"] },
+      { index: 2, paths: ["contracts/vesting.tact"] }
+    ]);
+    expect(plan.crossShardImports).toEqual([]);
+  });
+
+  it("splits oversized components and reports the imports that cross shards", () => {
+    const files = [
+      { path: "a.tolk", content: 'import "./b"\nimport "./c"\n' },
+      { path: "b.tolk", content: "" },
+      { path: "c.tolk", content: "" }
+    ];
+
+    const plan = planDiscoveryShards(files, 2);
+
+    expect(plan.shards.map((shard) => shard.paths)).toEqual([["a.tolk", "b.tolk"], ["c.tolk"]]);
+    expect(plan.crossShardImports).toEqual([{ fromPath: "a.tolk", toPath: "c.tolk" }]);
+  });
+
+  it("returns a single shard when every file fits", () => {
+    const plan = planDiscoveryShards([{ path: "main.tolk", content: "" }]);
+
+    expect(plan.shards).toHaveLength(1);
+  });
+});
+
+describe("dedupeDiscoveryCandidates", () => {
+  it("merges same-title candidates with overlapping lines and keeps the highest severity", () => {
+    const merged = dedupeDiscoveryCandidates([
+      candidate({ candidateId: "S1-C1", references: ["https://docs.ton.org/a"] }),
+      candidate({
+        candidateId: "S2-C4",
+        title: "Missing sender check!",
+        severity: "high",
+        startLine: 12,
+        endLine: 20,
+        references: ["https://docs.ton.org/b"]
+      }),
+      candidate({ candidateId: "S2-C5", startLine: 40, endLine: 42 })
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      candidateId: "S2-C4",
+      severity: "high",
+      startLine: 10,
+      endLine: 20,
+      references: ["https://docs.ton.org/a", "https://docs.ton.org/b"]
+    });
+    expect(merged[1]?.candidateId).toBe("S2-C5");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("bounds in-flight tasks and preserves result order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (delay, index) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight -= 1;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+});
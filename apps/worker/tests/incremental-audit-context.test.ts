@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  revisionFindFirst: vi.fn(),
+  baselineAudits: vi.fn(),
+  getObjectText: vi.fn()
+}));
+
+vi.mock("../src/env", () => ({
+  env: {
+    OPENROUTER_API_KEY: "test-openrouter-key",
+    OPENROUTER_EMBEDDINGS_MODEL: "openai/text-embedding-3-small"
+  }
+}));
+
+vi.mock("../src/db", () => {
+  const chain = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: () => mocks.baselineAudits()
+  };
+
+  return {
+    db: {
+      query: {
+        revisions: {
+          findFirst: mocks.revisionFindFirst
+        }
+      },
+      select: vi.fn(() => chain)
+    }
+  };
+});
+
+vi.mock("../src/s3", () => ({
+  getObjectText: mocks.getObjectText,
+  putObject: vi.fn()
+}));
+
+import { loadIncrementalAuditContext } from "../src/processors/audit";
+
+describe("loadIncrementalAuditContext", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.revisionFindFirst.mockResolvedValue({ parentRevisionId: "revision-1" });
+  });
+
+  it("falls back to a full audit when the parent revision was never audited", async () => {
+    mocks.baselineAudits.mockResolvedValue([]);
+
+    const context = await loadIncrementalAuditContext({
+      projectId: "project-1",
+      revisionId: "revision-2",
+      createdAt: new Date("2026-01-02T00:00:00.000Z"),
+      files: [
+        { path: "contracts/main.tolk", language: "tolk", isTestFile: false, content: "fun main() {}" }
+      ]
+    });
+
+    expect(context).toEqual({
+      kind: "full",
+      reason: "Parent revision has no completed audit to build on."
+    });
+    expect(mocks.getObjectText).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a full audit for revisions without a parent", async () => {
+    mocks.revisionFindFirst.mockResolvedValue({ parentRevisionId: null });
+
+    const context = await loadIncrementalAuditContext({
+      projectId: "project-1",
+      revisionId: "revision-1",
+      createdAt: new Date("2026-01-01T00:00:00.000Z"),
+      files: []
+    });
+
+    expect(context.kind).toBe("full");
+    expect(mocks.baselineAudits).not.toHaveBeenCalled();
+  });
+});
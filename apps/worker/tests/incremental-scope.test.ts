@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeIncrementalScope,
+  diffChangedLineRanges,
+  findImportNeighbours,
+  selectCarriedForwardFindings
+} from "../src/processors/incremental-scope";
+
+describe("diffChangedLineRanges", () => {
+  it("returns no ranges for identical content", () => {
+    expect(diffChangedLineRanges("a\nb\nc", "a\nb\nc")).toEqual([]);
+  });
+
+  it("reports inserted and modified lines in the current file", () => {
+    const previous = ["fun a() {", "  x = 1;", "}", "fun b() {", "  y = 2;", "}"].join("\n");
+    const current = ["fun a() {", "  x = 10;", "}", "fun b() {", "  y = 2;", "  z = 3;", "}"].join("\n");
+
+    expect(diffChangedLineRanges(previous, current)).toEqual([
+      { startLine: 2, endLine: 2 },
+      { startLine: 6, endLine: 6 }
+    ]);
+  });
+
+  it("anchors pure deletions to the preceding surviving line", () => {
+    expect(diffChangedLineRanges("a\nb\nc\nd", "a\nd")).toEqual([{ startLine: 1, endLine: 1 }]);
+  });
+
+  it("reports the whole file when it changed too much to diff", () => {
+    const previous = Array.from({ length: 1_100 }, (_, index) => `old ${index}`).join("\n");
+    const current = Array.from({ length: 1_100 }, (_, index) => `new ${index}`).join("\n");
+
+    expect(diffChangedLineRanges(previous, current)).toEqual([{ startLine: 1, endLine: 1_100 }]);
+  });
+});
+
+describe("findImportNeighbours", () => {
+  const files = [
+    { path: "contracts/main.tolk", content: 'import "./utils"\nimport "@stdlib/tvm-dicts"\n' },
+    { path: "contracts/utils.tolk", content: "fun helper() {}\n" },
+    { path: "contracts/wallet.fc", content: '#include "imports/stdlib.fc";\n' },
+    { path: "contracts/imports/stdlib.fc", content: "() recv_internal() {}\n" }
+  ];
+
+  it("collects both importers and imported files of the seeds", () => {
+    expect(findImportNeighbours(files, ["contracts/utils.tolk"])).toEqual(["contracts/main.tolk"]);
+    expect(findImportNeighbours(files, ["contracts/main.tolk"])).toEqual(["contracts/utils.tolk"]);
+    expect(findImportNeighbours(files, ["contracts/wallet.fc"])).toEqual([
+      "contracts/imports/stdlib.fc"
+    ]);
+  });
+
+  it("keeps importers of removed seed files", () => {
+    const remaining = files.filter((file) => file.path !== "contracts/utils.tolk");
+
+    expect(findImportNeighbours(remaining, ["contracts/utils.tolk"])).toEqual(["contracts/main.tolk"]);
+  });
+});
+
+describe("computeIncrementalScope", () => {
+  it("classifies added, modified, removed, neighbour and unchanged files", () => {
+    const scope = computeIncrementalScope({
+      currentFiles: [
+        { path: "contracts/main.tolk", sha256: "main-v1", content: 'import "./utils"\n' },
+        { path: "contracts/utils.tolk", sha256: "utils-v2", content: "fun a() {}\nfun b() {}\n" },
+        { path: "contracts/jetton.tolk", sha256: "jetton-v1", content: "fun mint() {}\n" },
+        { path: "contracts/new.tolk", sha256: "new-v1", content: "fun n() {}\n" }
+      ],
+      parentFiles: [
+        { path: "contracts/main.tolk", sha256: "main-v1" },
+        { path: "contracts/utils.tolk", sha256: "utils-v1", content: "fun a() {}\n" },
+        { path: "contracts/jetton.tolk", sha256: "jetton-v1" },
+        { path: "contracts/legacy.tolk", sha256: "legacy-v1" }
+      ]
+    });
+
+    expect(scope).toEqual({
+      changedFiles: [
+        {
+          path: "contracts/new.tolk",
+          status: "added",
+          changedLineRanges: [{ startLine: 1, endLine: 1 }]
+        },
+        {
+          path: "contracts/utils.tolk",
+          status: "modified",
+          changedLineRanges: [{ startLine: 2, endLine: 2 }]
+        }
+      ],
+      removedPaths: ["contracts/legacy.tolk"],
+      neighbourPaths: ["contracts/main.tolk"],
+      unchangedPaths: ["contracts/jetton.tolk", "contracts/main.tolk"]
+    });
+  });
+});
+
+describe("selectCarriedForwardFindings", () => {
+  it("only carries findings from unchanged files outside the import neighbourhood", () => {
+    const scope = {
+      changedFiles: [
+        { path: "contracts/utils.tolk", status: "modified" as const, changedLineRanges: [] }
+      ],
+      removedPaths: ["contracts/legacy.tolk"],
+      neighbourPaths: ["contracts/main.tolk"],
+      unchangedPaths: ["contracts/jetton.tolk", "contracts/main.tolk"]
+    };
+
+    const selected = selectCarriedForwardFindings(
+      [
+        { id: "jetton", filePath: "contracts/jetton.tolk" },
+        { id: "main", filePath: "contracts/main.tolk" },
+        { id: "utils", filePath: "contracts/utils.tolk" },
+        { id: "legacy", filePath: "contracts/legacy.tolk" }
+      ],
+      scope
+    );
+
+    expect(selected.map((item) => item.id)).toEqual(["jetton"]);
+  });
+});
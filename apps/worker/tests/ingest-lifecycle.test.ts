@@ -36,6 +36,12 @@ vi.mock("../src/db", async () => {
         },
         systemSettings: {
           findFirst: vi.fn()
+        },
+        projects: {
+          findFirst: vi.fn()
+        },
+        organizationSettings: {
+          findFirst: vi.fn()
         }
       },
       update: vi.fn((table: unknown) => ({
@@ -106,6 +112,8 @@ describe("ingest lifecycle failure handling", () => {
     await expect(
       ingest({
         id: "ingest-job-1",
+        attemptsMade: 0,
+        opts: { attempts: 3 },
         data: {
           projectId: "project-1",
           uploadId: "upload-1",
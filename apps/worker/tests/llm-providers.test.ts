@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { llmProviderRegistrySchema } from "@ton-audit/shared";
+
+vi.mock("../src/env", () => ({
+  env: {
+    OPENROUTER_API_KEY: "test-openrouter-key",
+    OPENROUTER_EMBEDDINGS_MODEL: "openai/text-embedding-3-small"
+  }
+}));
+
+vi.mock("../src/settings", () => ({
+  loadSystemSettingValue: vi.fn()
+}));
+
+import { createLlmProviders } from "../src/llm-providers";
+
+const registry = llmProviderRegistrySchema.parse({
+  providers: [
+    { id: "local", type: "openai-compatible", baseUrl: "http://vllm.internal:8000/v1" },
+    { id: "claude", type: "anthropic", apiKeyEnv: "LLM_PROVIDER_ANTHROPIC_KEY" }
+  ],
+  embeddings: { providerId: "local", modelId: "bge-large" }
+});
+
+describe("createLlmProviders", () => {
+  it("routes allowlisted models to their provider and everything else to OpenRouter", () => {
+    const llm = createLlmProviders({
+      registry,
+      routes: { "qwen2.5-coder-32b": "local", "claude-sonnet-4-5": "claude" },
+      readEnv: (name) => (name === "LLM_PROVIDER_ANTHROPIC_KEY" ? "sk-ant-test" : undefined)
+    });
+
+    expect(llm.languageModel("qwen2.5-coder-32b")).toMatchObject({
+      provider: "local.chat",
+      modelId: "qwen2.5-coder-32b"
+    });
+    expect(llm.languageModel("claude-sonnet-4-5").provider).toMatch(/^anthropic/);
+    expect(llm.languageModel("google/gemini-2.5-flash").provider).toBe("openrouter");
+    expect(llm.embeddingModel()).toMatchObject({
+      provider: "local.embedding",
+      modelId: "bge-large"
+    });
+  });
+
+  it("refuses to fall back when a route or API key is misconfigured", () => {
+    const llm = createLlmProviders({
+      registry,
+      routes: { "claude-sonnet-4-5": "claude", "gpt-oss-120b": "missing" },
+      readEnv: () => undefined
+    });
+
+    expect(() => llm.languageModel("claude-sonnet-4-5")).toThrow(
+      "LLM provider claude expects an API key in LLM_PROVIDER_ANTHROPIC_KEY"
+    );
+    expect(() => llm.languageModel("gpt-oss-120b")).toThrow("Unknown LLM provider: missing");
+  });
+
+  it("refuses OpenRouter embeddings when models are routed to another provider", () => {
+    const withoutEmbeddings = llmProviderRegistrySchema.parse({
+      providers: registry.providers
+    });
+
+    expect(() =>
+      createLlmProviders({
+        registry: withoutEmbeddings,
+        routes: { "qwen2.5-coder-32b": "local" }
+      }).embeddingModel()
+    ).toThrow("Models are routed away from OpenRouter but no embeddings provider is configured");
+    expect(
+      createLlmProviders({
+        registry: withoutEmbeddings,
+        routes: { "google/gemini-2.5-flash": "openrouter" }
+      }).embeddingModel()
+    ).toMatchObject({ modelId: "openai/text-embedding-3-small" });
+  });
+
+  it("rejects registries that reference unknown or duplicate providers", () => {
+    expect(
+      llmProviderRegistrySchema.safeParse({
+        providers: [
+          { id: "local", type: "openai-compatible", baseUrl: "http://ollama:11434/v1" },
+          { id: "local", type: "openai", apiKeyEnv: "LLM_PROVIDER_OPENAI_KEY" }
+        ],
+        embeddings: { providerId: "elsewhere", modelId: "nomic-embed-text" }
+      }).error?.issues.map((issue) => issue.message)
+    ).toEqual(["Duplicate provider id: local", "Unknown provider: elsewhere"]);
+    expect(
+      llmProviderRegistrySchema.safeParse({
+        providers: [{ id: "local", type: "openai-compatible" }]
+      }).success
+    ).toBe(false);
+  });
+
+  it("only reads API keys from dedicated provider variables", () => {
+    for (const apiKeyEnv of ["DATABASE_URL", "OPENROUTER_API_KEY", "LLM_PROVIDER_KEY"]) {
+      expect(
+        llmProviderRegistrySchema.safeParse({
+          providers: [{ id: "claude", type: "anthropic", apiKeyEnv }]
+        }).success
+      ).toBe(false);
+    }
+  });
+});
@@ -4,11 +4,16 @@ const mocks = vi.hoisted(() => ({
   auditRunFindFirst: vi.fn(),
   findingInstancesFindMany: vi.fn(),
   findingTransitionsFindMany: vi.fn(),
+  findingTriagesFindMany: vi.fn(),
   systemSettingsFindFirst: vi.fn(),
+  projectFindFirst: vi.fn(),
+  organizationSettingsFindFirst: vi.fn(),
   insertValues: vi.fn(),
   updateSet: vi.fn(),
   recordJobEvent: vi.fn(),
   putObject: vi.fn(),
+  dispatchWebhookEvent: vi.fn(),
+  enqueueJob: vi.fn(),
   launch: vi.fn(),
   capturedHtml: "",
   browserClose: vi.fn()
@@ -26,8 +31,17 @@ vi.mock("../src/db", () => ({
       findingTransitions: {
         findMany: mocks.findingTransitionsFindMany
       },
+      findingTriages: {
+        findMany: mocks.findingTriagesFindMany
+      },
       systemSettings: {
         findFirst: mocks.systemSettingsFindFirst
+      },
+      projects: {
+        findFirst: mocks.projectFindFirst
+      },
+      organizationSettings: {
+        findFirst: mocks.organizationSettingsFindFirst
       }
     },
     insert: vi.fn(() => ({
@@ -47,12 +61,18 @@ vi.mock("../src/s3", () => ({
   putObject: mocks.putObject
 }));
 
+vi.mock("../src/webhooks", () => ({
+  dispatchWebhookEvent: mocks.dispatchWebhookEvent
+}));
+
 vi.mock("playwright", () => ({
   chromium: {
     launch: mocks.launch
   }
 }));
 
+import { selectReportFindings } from "@ton-audit/shared";
+
 import { createPdfProcessor } from "../src/processors/pdf";
 
 function buildReportModel(params?: {
@@ -141,7 +161,10 @@ describe("pdf processor", () => {
 
     mocks.findingInstancesFindMany.mockResolvedValue([]);
     mocks.findingTransitionsFindMany.mockResolvedValue([]);
+    mocks.findingTriagesFindMany.mockResolvedValue([]);
     mocks.systemSettingsFindFirst.mockResolvedValue(null);
+    mocks.projectFindFirst.mockResolvedValue({ organizationId: null });
+    mocks.organizationSettingsFindFirst.mockResolvedValue(undefined);
 
     mocks.insertValues.mockImplementation(() => ({
       onConflictDoUpdate: vi.fn().mockResolvedValue(undefined)
@@ -167,7 +190,7 @@ describe("pdf processor", () => {
   });
 
   it("renders publication-grade sections in generated PDF HTML", async () => {
-    const pdfProcessor = createPdfProcessor();
+    const pdfProcessor = createPdfProcessor({ enqueueJob: mocks.enqueueJob });
 
     const result = await pdfProcessor({
       id: "pdf-job-1",
@@ -188,6 +211,41 @@ describe("pdf processor", () => {
     expect(mocks.capturedHtml).toContain("Technical Appendix");
     expect(mocks.capturedHtml).toContain("Primary Model");
     expect(mocks.capturedHtml).toContain("Fallback Model");
+    expect(mocks.dispatchWebhookEvent).toHaveBeenCalledWith(mocks.enqueueJob, {
+      projectId: "project-1",
+      type: "pdf.ready",
+      dedupeKey: expect.stringMatching(/^pdf\.ready:pdf\/audit-1\/final\//),
+      data: {
+        auditRunId: "audit-1",
+        variant: "internal",
+        downloadPath: "/api/projects/project-1/audits/audit-1/pdf?variant=internal"
+      }
+    });
+  });
+
+  it("prefers the project organization's branding over the system setting", async () => {
+    mocks.projectFindFirst.mockResolvedValueOnce({ organizationId: "org-1" });
+    mocks.organizationSettingsFindFirst.mockResolvedValueOnce({
+      value: { reportTitle: "Acme Internal Review", issuerName: "Acme Security" }
+    });
+    mocks.systemSettingsFindFirst.mockResolvedValue({
+      value: { reportTitle: "System Wide Title" }
+    });
+
+    const pdfProcessor = createPdfProcessor({ enqueueJob: mocks.enqueueJob });
+
+    await pdfProcessor({
+      id: "pdf-job-org",
+      data: {
+        projectId: "project-1",
+        auditRunId: "audit-1",
+        variant: "internal"
+      }
+    } as never);
+
+    expect(mocks.capturedHtml).toContain("Acme Internal Review");
+    expect(mocks.capturedHtml).not.toContain("System Wide Title");
+    expect(mocks.systemSettingsFindFirst).not.toHaveBeenCalled();
   });
 
   it("uses the report model.used value in engagement metadata", async () => {
@@ -204,7 +262,7 @@ describe("pdf processor", () => {
       fallbackModelId: "openai/gpt-4.1-mini"
     });
 
-    const pdfProcessor = createPdfProcessor();
+    const pdfProcessor = createPdfProcessor({ enqueueJob: mocks.enqueueJob });
 
     await pdfProcessor({
       id: "pdf-job-2",
@@ -220,4 +278,177 @@ describe("pdf processor", () => {
     expect(mocks.capturedHtml).toContain("google/gemini-2.5-flash");
     expect(mocks.capturedHtml).toContain("openai/gpt-4.1-mini");
   });
-});
\ No newline at end of file
+
+  it("never renders internal-only fields in the client variant", async () => {
+    const reportJson = buildReportModel({
+      used: "openai/gpt-4.1-mini",
+      primary: "google/gemini-2.5-flash",
+      fallback: "openai/gpt-4.1-mini"
+    });
+    mocks.auditRunFindFirst.mockResolvedValueOnce({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "completed",
+      reportJson: {
+        ...reportJson,
+        verificationMatrix: [
+          {
+            stepType: "compile",
+            status: "completed",
+            summary: "Compiled contracts",
+            artifactKeys: ["audits/audit-1/verify/compile-artifact.json"]
+          }
+        ],
+        modelTraceSummary: {
+          steps: 42,
+          totalToolCalls: 17,
+          totalTokens: 123456,
+          usedFallback: true
+        },
+        appendix: {
+          references: [],
+          verificationNotes: [],
+          internalNotes: ["Internal note: escalate to the lead reviewer"]
+        }
+      },
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "openai/gpt-4.1-mini"
+    });
+    mocks.findingInstancesFindMany.mockResolvedValueOnce([
+      { findingId: "finding-1", payloadJson: { title: "Client visible finding" } },
+      { findingId: "finding-2", payloadJson: { title: "Reviewer hidden finding" } }
+    ]);
+    mocks.findingTriagesFindMany.mockResolvedValueOnce([
+      { findingId: "finding-2", status: "internal_only" }
+    ]);
+
+    const pdfProcessor = createPdfProcessor({ enqueueJob: mocks.enqueueJob });
+    const result = await pdfProcessor({
+      id: "pdf-job-3",
+      data: {
+        projectId: "project-1",
+        auditRunId: "audit-1",
+        variant: "client"
+      }
+    } as never);
+
+    expect(result).toMatchObject({
+      variant: "client",
+      s3Key: expect.stringMatching(/^pdf\/audit-1\/client\//)
+    });
+    expect(mocks.insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ auditRunId: "audit-1", variant: "client" })
+    );
+    expect(mocks.capturedHtml).toContain("Client Audit PDF");
+    expect(mocks.capturedHtml).toContain("Client visible finding");
+    expect(mocks.capturedHtml).not.toContain("Reviewer hidden finding");
+    expect(mocks.capturedHtml).not.toContain("Internal Notes");
+    expect(mocks.capturedHtml).not.toContain("escalate to the lead reviewer");
+    expect(mocks.capturedHtml).not.toContain("Model Trace Summary");
+    expect(mocks.capturedHtml).not.toContain("Fallback Used");
+    expect(mocks.capturedHtml).not.toContain("123456");
+    expect(mocks.capturedHtml).not.toContain("Primary Model");
+    expect(mocks.capturedHtml).not.toContain("google/gemini-2.5-flash");
+    expect(mocks.capturedHtml).not.toContain("compile-artifact.json");
+  });
+
+  it("computes client KPIs and key risks from the visible findings only", async () => {
+    const buildFinding = (findingId: string, title: string, severity: string, baseScore: number) => ({
+      findingId,
+      severity,
+      title,
+      summary: `${title} summary`,
+      impact: "Funds at risk",
+      likelihood: "Likely",
+      evidence: {
+        filePath: "contracts/main.tolk",
+        startLine: 10,
+        endLine: 12,
+        snippet: "fun withdraw() {}"
+      },
+      exploitPath: "Call withdraw",
+      remediation: "Check the sender",
+      confidence: 0.9,
+      cvssV31: { vector: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H", baseScore }
+    });
+    const visibleRecordId = "3f1c2b4a-5d6e-4f70-8a91-b2c3d4e5f601";
+    const hiddenRecordId = "7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c02";
+    const visible = buildFinding(
+      "5d41402abc4b2a76b9719d911017c592a7f3e1c4b2d5e6f708192a3b4c5d6e7f",
+      "Unchecked bounce handler",
+      "medium",
+      5.3
+    );
+    const hidden = buildFinding(
+      "9e107d9d372bb6826bd81d3542a419d6e0f1a2b3c4d5e6f708192a3b4c5d6e7f",
+      "Owner takeover via init",
+      "critical",
+      9.8
+    );
+    const reportJson = buildReportModel();
+    mocks.auditRunFindFirst.mockResolvedValueOnce({
+      id: "audit-1",
+      projectId: "project-1",
+      status: "completed",
+      reportJson: {
+        ...reportJson,
+        executiveSummary: {
+          ...reportJson.executiveSummary,
+          keyRisks: ["Unchecked bounce handler loses refunds", "Owner takeover via init message"]
+        },
+        riskPosture: {
+          severityTotals: { critical: 1, medium: 1 },
+          cvssAverage: 7.55,
+          maxCvssScore: 9.8
+        },
+        findings: [visible, hidden]
+      },
+      primaryModelId: "google/gemini-2.5-flash",
+      fallbackModelId: "openai/gpt-4.1-mini"
+    });
+    mocks.findingInstancesFindMany.mockResolvedValueOnce([
+      { findingId: visibleRecordId, severity: "medium", payloadJson: visible },
+      { findingId: hiddenRecordId, severity: "critical", payloadJson: hidden }
+    ]);
+    mocks.findingTriagesFindMany.mockResolvedValueOnce([
+      { findingId: hiddenRecordId, status: "false_positive" }
+    ]);
+
+    const pdfProcessor = createPdfProcessor({ enqueueJob: mocks.enqueueJob });
+    await pdfProcessor({
+      id: "pdf-job-4",
+      data: {
+        projectId: "project-1",
+        auditRunId: "audit-1",
+        variant: "client"
+      }
+    } as never);
+
+    const html = mocks.capturedHtml.replace(/\s+/g, " ");
+    expect(html).toContain("<span>Critical</span><strong>0</strong>");
+    expect(html).toContain("<span>Medium</span><strong>1</strong>");
+    expect(html).toContain("<th>CVSS Average</th> <td>5.3</td>");
+    expect(html).toContain("<th>CVSS Maximum</th> <td>5.3</td>");
+    expect(html).not.toContain("9.8");
+    expect(html).not.toContain("7.55");
+    expect(html).toContain("Unchecked bounce handler loses refunds");
+    expect(html).not.toContain("Owner takeover");
+  });
+});
+
+describe("selectReportFindings", () => {
+  const findings = [{ findingId: "finding-1" }, { findingId: "finding-2" }];
+  const hiddenFindingIds = new Set(["finding-2"]);
+
+  it("drops reviewer-confirmed false positives from the client variant", () => {
+    expect(selectReportFindings({ findings, hiddenFindingIds, variant: "client" })).toEqual([
+      { findingId: "finding-1" }
+    ]);
+  });
+
+  it("keeps every finding in the internal variant", () => {
+    expect(selectReportFindings({ findings, hiddenFindingIds, variant: "internal" })).toEqual(
+      findings
+    );
+  });
+});
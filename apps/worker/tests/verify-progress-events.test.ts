@@ -10,6 +10,7 @@ const mocks = vi.hoisted(() => ({
   executeSandboxPlan: vi.fn(),
   summarizeSandboxResults: vi.fn(),
   putObject: vi.fn(),
+  dispatchWebhookEvent: vi.fn(),
   workerLogger: {
     info: vi.fn(),
     warn: vi.fn(),
@@ -58,6 +59,10 @@ vi.mock("../src/s3", () => ({
   putObject: mocks.putObject
 }));
 
+vi.mock("../src/webhooks", () => ({
+  dispatchWebhookEvent: mocks.dispatchWebhookEvent
+}));
+
 import { createVerifyProcessor } from "../src/processors/verify";
 
 describe("verify processor progress events", () => {
@@ -210,4 +215,93 @@ describe("verify processor progress events", () => {
       "audit:project-1:audit-1"
     );
   });
-});
\ No newline at end of file
+
+  it("stops without enqueueing the audit stage once the run is cancelled", async () => {
+    mocks.executeSandboxPlan.mockImplementationOnce(async () => {
+      mocks.auditRunFindFirst.mockResolvedValue({
+        id: "audit-1",
+        projectId: "project-1",
+        status: "cancelled",
+        startedAt: null
+      });
+
+      return {
+        mode: "sandbox-runner",
+        results: []
+      };
+    });
+
+    const enqueueJob = vi.fn().mockResolvedValue({ id: "audit-job-1" });
+    const verify = createVerifyProcessor({ enqueueJob });
+
+    const result = await verify({
+      id: "verify-job-1",
+      data: {
+        projectId: "project-1",
+        revisionId: "revision-1",
+        auditRunId: "audit-1",
+        profile: "deep",
+        includeDocsFallbackFetch: true
+      }
+    } as never);
+
+    expect(result).toEqual({ auditRunId: "audit-1", cancelled: true });
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(mocks.putObject).not.toHaveBeenCalled();
+    expect(mocks.dbUpdateSet).not.toHaveBeenCalledWith(expect.objectContaining({ status: "failed" }));
+    expect(mocks.recordJobEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: "cancelled",
+        payload: { auditRunId: "audit-1" }
+      })
+    );
+  });
+
+  it("marks retried failures and sends audit.failed only on the last attempt", async () => {
+    mocks.auditRunFindFirst.mockResolvedValue({
+      id: "audit-1",
+      projectId: "project-1",
+      revisionId: "revision-1",
+      status: "running",
+      startedAt: new Date()
+    });
+    mocks.loadRevisionFilesWithContent.mockRejectedValue(new Error("revision files unavailable"));
+
+    const enqueueJob = vi.fn().mockResolvedValue({ id: "audit-job-1" });
+    const verify = createVerifyProcessor({ enqueueJob });
+    const buildJob = (attemptsMade: number) =>
+      ({
+        id: "verify-job-1",
+        attemptsMade,
+        opts: { attempts: 3 },
+        data: {
+          projectId: "project-1",
+          revisionId: "revision-1",
+          auditRunId: "audit-1",
+          profile: "deep",
+          includeDocsFallbackFetch: true
+        }
+      }) as never;
+
+    await expect(verify(buildJob(0))).rejects.toThrow("revision files unavailable");
+    expect(mocks.dispatchWebhookEvent).not.toHaveBeenCalled();
+
+    await expect(verify(buildJob(2))).rejects.toThrow("revision files unavailable");
+    expect(
+      mocks.recordJobEvent.mock.calls
+        .map(([event]) => event)
+        .filter((event) => event.event === "failed")
+        .map((event) => event.payload.willRetry)
+    ).toEqual([true, false]);
+    expect(mocks.dispatchWebhookEvent).toHaveBeenCalledWith(enqueueJob, {
+      projectId: "project-1",
+      type: "audit.failed",
+      dedupeKey: "audit.failed:audit-1",
+      data: {
+        auditRunId: "audit-1",
+        revisionId: "revision-1",
+        message: "revision files unavailable"
+      }
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { verifyWebhookSignature } from "@ton-audit/shared";
+
+const mocks = vi.hoisted(() => ({
+  deliveryFindFirst: vi.fn(),
+  subscriptionFindFirst: vi.fn(),
+  insertValues: vi.fn(),
+  updateSet: vi.fn(),
+  fetch: vi.fn(),
+  dnsLookup: vi.fn()
+}));
+
+vi.mock("undici", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("undici")>()),
+  fetch: mocks.fetch
+}));
+
+vi.mock("node:dns", () => ({
+  lookup: mocks.dnsLookup
+}));
+
+vi.mock("../src/db", () => ({
+  db: {
+    query: {
+      webhookDeliveries: {
+        findFirst: mocks.deliveryFindFirst
+      },
+      webhookSubscriptions: {
+        findFirst: mocks.subscriptionFindFirst
+      }
+    },
+    insert: vi.fn(() => ({
+      values: mocks.insertValues
+    })),
+    update: vi.fn(() => ({
+      set: mocks.updateSet
+    }))
+  }
+}));
+
+import {
+  createWebhookDeliveryProcessor,
+  publicOnlyLookup
+} from "../src/processors/webhook-delivery";
+
+const secret = "whsec_0123456789abcdef";
+
+function buildJob(attemptsMade = 0) {
+  return {
+    id: "webhook-job-1",
+    data: {
+      projectId: "22222222-2222-4222-8222-222222222222",
+      deliveryId: "44444444-4444-4444-8444-444444444444"
+    },
+    attemptsMade,
+    opts: { attempts: 3 }
+  } as never;
+}
+
+describe("webhook delivery processor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mocks.deliveryFindFirst.mockResolvedValue({
+      id: "44444444-4444-4444-8444-444444444444",
+      subscriptionId: "subscription-1",
+      projectId: "22222222-2222-4222-8222-222222222222",
+      eventType: "finding.regressed",
+      payloadJson: { auditRunId: "audit-2", findings: [{ findingId: "finding-1" }] },
+      status: "pending",
+      attemptCount: 0,
+      createdAt: new Date("2026-01-01T00:00:00.000Z")
+    });
+    mocks.subscriptionFindFirst.mockResolvedValue({
+      id: "subscription-1",
+      url: "https://ci.example.com/hooks/ton-audit",
+      secret
+    });
+    mocks.insertValues.mockResolvedValue(undefined);
+    mocks.updateSet.mockImplementation(() => ({
+      where: vi.fn().mockResolvedValue(undefined)
+    }));
+  });
+
+  it("posts an HMAC-signed envelope and records the successful attempt", async () => {
+    mocks.fetch.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+    const result = await createWebhookDeliveryProcessor()(buildJob());
+
+    expect(result).toMatchObject({ responseStatus: 200, attemptNumber: 1 });
+    const [url, init] = mocks.fetch.mock.calls[0]!;
+    expect(url).toBe("https://ci.example.com/hooks/ton-audit");
+    expect(init).toMatchObject({ redirect: "manual", dispatcher: expect.anything() });
+    const headers = init.headers as Record<string, string>;
+    expect(headers["X-Ton-Audit-Event"]).toBe("finding.regressed");
+    expect(
+      verifyWebhookSignature({
+        secret,
+        timestamp: headers["X-Ton-Audit-Timestamp"]!,
+        body: init.body as string,
+        signature: headers["X-Ton-Audit-Signature"]!
+      })
+    ).toBe(true);
+    expect(JSON.parse(init.body as string)).toEqual({
+      id: "44444444-4444-4444-8444-444444444444",
+      type: "finding.regressed",
+      projectId: "22222222-2222-4222-8222-222222222222",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      data: { auditRunId: "audit-2", findings: [{ findingId: "finding-1" }] }
+    });
+    expect(mocks.insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ attemptNumber: 1, responseStatus: 200, error: null })
+    );
+    expect(mocks.updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "succeeded", attemptCount: 1 })
+    );
+  });
+
+  it("keeps the delivery pending and throws so BullMQ retries", async () => {
+    mocks.fetch.mockResolvedValueOnce(new Response("unavailable", { status: 503 }));
+
+    await expect(createWebhookDeliveryProcessor()(buildJob(0))).rejects.toThrow(
+      "Webhook endpoint responded with HTTP 503"
+    );
+    expect(mocks.insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ responseStatus: 503, responseBody: "unavailable" })
+    );
+    expect(mocks.updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "pending", lastResponseStatus: 503 })
+    );
+  });
+
+  it("marks the delivery failed after the final attempt", async () => {
+    mocks.fetch.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    await expect(createWebhookDeliveryProcessor()(buildJob(2))).rejects.toThrow(
+      "connect ECONNREFUSED"
+    );
+    expect(mocks.updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "failed", lastError: "connect ECONNREFUSED" })
+    );
+  });
+
+  it("refuses to send to internal IP literals", async () => {
+    mocks.subscriptionFindFirst.mockResolvedValueOnce({
+      id: "subscription-1",
+      url: "http://169.254.169.254/latest/meta-data",
+      secret
+    });
+
+    await expect(createWebhookDeliveryProcessor()(buildJob(2))).rejects.toThrow(
+      "Webhook URL points to a private, loopback or internal address"
+    );
+    expect(mocks.fetch).not.toHaveBeenCalled();
+    expect(mocks.updateSet).toHaveBeenCalledWith(expect.objectContaining({ status: "failed" }));
+  });
+
+  it("rejects hostnames that resolve to private addresses at connect time", () => {
+    const resolveTo = (addresses: Array<{ address: string; family: number }>) => {
+      mocks.dnsLookup.mockImplementationOnce((_hostname, _options, callback) =>
+        callback(null, addresses)
+      );
+      const callback = vi.fn();
+      publicOnlyLookup("hooks.example.com", { all: true }, callback);
+      return callback.mock.calls[0]![0] as Error | null;
+    };
+
+    expect(resolveTo([{ address: "93.184.216.34", family: 4 }])).toBeNull();
+    expect(
+      resolveTo([
+        { address: "93.184.216.34", family: 4 },
+        { address: "10.0.0.7", family: 4 }
+      ])?.message
+    ).toBe("Webhook host hooks.example.com resolves to private address 10.0.0.7");
+    expect(resolveTo([{ address: "::ffff:127.0.0.1", family: 6 }])).toBeInstanceOf(Error);
+  });
+});
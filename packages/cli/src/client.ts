@@ -0,0 +1,172 @@
+import type { PdfExportStatus, PdfExportVariant } from "@ton-audit/shared";
+
+import { CliError } from "./errors";
+
+type FetchLike = typeof fetch;
+
+export type AuditFindingSummary = {
+  findingId: string;
+  severity: string;
+  payloadJson: Record<string, unknown>;
+  triage: { status: string } | null;
+};
+
+export type AuditResponse = {
+  audit: {
+    id: string;
+    status: string;
+    revisionId: string;
+  };
+  findings: AuditFindingSummary[];
+  report: unknown;
+};
+
+export class ApiRequestError extends CliError {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+  }
+}
+
+async function readErrorMessage(response: Response) {
+  try {
+    const payload = (await response.json()) as { error?: unknown };
+    return typeof payload.error === "string" ? payload.error : response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+/**
+ * Thin wrapper over the web app's REST endpoints. Requests to the app carry
+ * the API token; presigned storage URLs are called without it.
+ */
+export function createApiClient(options: { baseUrl: string; token: string; fetch?: FetchLike }) {
+  const fetchImpl = options.fetch ?? fetch;
+
+  async function send(method: string, pathname: string, body?: unknown, signal?: AbortSignal) {
+    const response = await fetchImpl(`${options.baseUrl}${pathname}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+        ...(body === undefined ? {} : { "Content-Type": "application/json" })
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new ApiRequestError(
+        `${method} ${pathname} failed with HTTP ${response.status}: ${await readErrorMessage(response)}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  async function sendJson<T>(method: string, pathname: string, body?: unknown) {
+    const response = await send(method, pathname, body);
+    return (await response.json()) as T;
+  }
+
+  const projectPath = (projectId: string) => `/api/projects/${encodeURIComponent(projectId)}`;
+  const auditPath = (projectId: string, auditId: string) =>
+    `${projectPath(projectId)}/audits/${encodeURIComponent(auditId)}`;
+
+  return {
+    initZipUpload(projectId: string, params: { filename: string; sizeBytes: number; parts: number }) {
+      return sendJson<{
+        uploadId: string;
+        singleUrl: string | null;
+        partUrls: Array<{ partNumber: number; url: string }>;
+      }>("POST", `${projectPath(projectId)}/uploads/init`, {
+        type: "zip",
+        filename: params.filename,
+        contentType: "application/zip",
+        sizeBytes: params.sizeBytes,
+        parts: params.parts
+      });
+    },
+
+    /** PUTs bytes to a presigned URL and returns the storage ETag. */
+    async putPresigned(url: string, body: Buffer, contentType?: string) {
+      const response = await fetchImpl(url, {
+        method: "PUT",
+        headers: contentType ? { "Content-Type": contentType } : {},
+        body: new Uint8Array(body)
+      });
+
+      if (!response.ok) {
+        throw new ApiRequestError(`Upload to storage failed with HTTP ${response.status}`, response.status);
+      }
+
+      return response.headers.get("etag") ?? "";
+    },
+
+    completeUpload(
+      projectId: string,
+      params: { uploadId: string; eTags: Array<{ partNumber: number; eTag: string }> }
+    ) {
+      return sendJson<{ upload: { id: string; status: string } }>(
+        "POST",
+        `${projectPath(projectId)}/uploads/complete`,
+        params
+      );
+    },
+
+    createRevisionFromUpload(projectId: string, uploadId: string) {
+      return sendJson<{ revision: { id: string }; jobId: string }>(
+        "POST",
+        `${projectPath(projectId)}/revisions/from-upload`,
+        { uploadId }
+      );
+    },
+
+    openJobEvents(projectId: string, jobId: string, signal?: AbortSignal) {
+      return send(
+        "GET",
+        `/api/jobs/${encodeURIComponent(jobId)}/events?projectId=${encodeURIComponent(projectId)}`,
+        undefined,
+        signal
+      );
+    },
+
+    getAudit(projectId: string, auditId: string) {
+      return sendJson<AuditResponse>("GET", auditPath(projectId, auditId));
+    },
+
+    async getSarif(projectId: string, auditId: string) {
+      const response = await send("GET", `${auditPath(projectId, auditId)}/sarif`);
+      return response.text();
+    },
+
+    requestPdf(projectId: string, auditId: string, variant: PdfExportVariant) {
+      return sendJson<{ status: PdfExportStatus; variant: PdfExportVariant }>(
+        "POST",
+        `${auditPath(projectId, auditId)}/pdf?variant=${variant}`
+      );
+    },
+
+    getPdf(projectId: string, auditId: string, variant: PdfExportVariant) {
+      return sendJson<{ status: PdfExportStatus; variant: PdfExportVariant; url: string | null }>(
+        "GET",
+        `${auditPath(projectId, auditId)}/pdf?variant=${variant}`
+      );
+    },
+
+    async downloadPresigned(url: string) {
+      const response = await fetchImpl(url);
+      if (!response.ok) {
+        throw new ApiRequestError(`Download failed with HTTP ${response.status}`, response.status);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    }
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,143 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { z } from "zod";
+
+import { pdfExportVariantSchema, severitySchema } from "@ton-audit/shared";
+
+import { CliError, exitCodes } from "./errors";
+
+export const CONFIG_FILENAME = ".tonauditrc";
+
+export const outputFormatSchema = z.enum(["json", "sarif", "pdf"]);
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+
+export const failOnSchema = z.union([severitySchema, z.literal("none")]);
+export type FailOn = z.infer<typeof failOnSchema>;
+
+const cliConfigSchema = z.object({
+  baseUrl: z.string().url("baseUrl must be an absolute URL"),
+  token: z.string().min(1, "An API token is required (set TON_AUDIT_TOKEN)"),
+  projectId: z.string().uuid("projectId must be a project UUID"),
+  failOn: failOnSchema.default("high"),
+  outputDir: z.string().min(1).default("ton-audit-results"),
+  formats: z.array(outputFormatSchema).min(1).default(["json", "sarif"]),
+  pdfVariant: pdfExportVariantSchema.default("client"),
+  timeoutMinutes: z.number().positive().default(60)
+});
+
+export type CliConfig = z.infer<typeof cliConfigSchema>;
+
+/** Config keys as they may appear before validation, from `.tonauditrc`, env or flags. */
+export type CliConfigInput = Partial<Record<keyof CliConfig, unknown>>;
+
+/** Walks up from `startDir` and returns the nearest `.tonauditrc`, if any. */
+export async function findConfigFile(startDir: string) {
+  let current = path.resolve(startDir);
+
+  while (true) {
+    const candidate = path.join(current, CONFIG_FILENAME);
+    try {
+      await readFile(candidate);
+      return candidate;
+    } catch {
+      // Keep walking up.
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+async function readConfigFile(filePath: string): Promise<CliConfigInput> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, "utf8"));
+  } catch (error) {
+    throw new CliError(
+      `Could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      exitCodes.usage
+    );
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new CliError(`${filePath} must contain a JSON object`, exitCodes.usage);
+  }
+
+  return parsed as CliConfigInput;
+}
+
+function readEnvConfig(env: NodeJS.ProcessEnv): CliConfigInput {
+  return {
+    ...(env.TON_AUDIT_URL ? { baseUrl: env.TON_AUDIT_URL } : {}),
+    ...(env.TON_AUDIT_TOKEN ? { token: env.TON_AUDIT_TOKEN } : {}),
+    ...(env.TON_AUDIT_PROJECT_ID ? { projectId: env.TON_AUDIT_PROJECT_ID } : {})
+  };
+}
+
+function withoutUndefined(input: CliConfigInput): CliConfigInput {
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Resolves the CLI configuration. Later sources win: `.tonauditrc`, then the
+ * `TON_AUDIT_*` environment variables, then command-line flags. Relative
+ * output directories resolve against the directory of the rc file (or cwd).
+ *
+ * An rc file found by walking up may belong to whatever repository is checked
+ * out, so it cannot carry the token, and a `baseUrl` taken from a file is
+ * reported before the token is sent there.
+ */
+export async function loadCliConfig(params: {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  overrides: CliConfigInput;
+  configPath?: string;
+  log?: (message: string) => void;
+}) {
+  const configPath = params.configPath
+    ? path.resolve(params.cwd, params.configPath)
+    : await findConfigFile(params.cwd);
+  const fileConfig = withoutUndefined(configPath ? await readConfigFile(configPath) : {});
+
+  if (configPath && !params.configPath && "token" in fileConfig) {
+    throw new CliError(
+      `${configPath} must not contain the API token; set TON_AUDIT_TOKEN or pass --config explicitly`,
+      exitCodes.usage
+    );
+  }
+
+  const envConfig = readEnvConfig(params.env);
+  const overrides = withoutUndefined(params.overrides);
+  const parsed = cliConfigSchema.safeParse({
+    ...fileConfig,
+    ...envConfig,
+    ...overrides
+  });
+
+  if (!parsed.success) {
+    throw new CliError(
+      `Invalid configuration: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`)
+        .join("; ")}`,
+      exitCodes.usage
+    );
+  }
+
+  const baseUrlFromFile =
+    "baseUrl" in fileConfig && !("baseUrl" in envConfig) && !("baseUrl" in overrides);
+  if (configPath && baseUrlFromFile) {
+    params.log?.(`Using baseUrl ${parsed.data.baseUrl} from ${configPath}`);
+  }
+
+  const baseDir = configPath ? path.dirname(configPath) : params.cwd;
+
+  return {
+    ...parsed.data,
+    baseUrl: parsed.data.baseUrl.replace(/\/+$/, ""),
+    outputDir: path.resolve(baseDir, parsed.data.outputDir)
+  } satisfies CliConfig;
+}
@@ -0,0 +1,20 @@
+/** Process exit codes, kept stable so CI pipelines can branch on them. */
+export const exitCodes = {
+  ok: 0,
+  thresholdExceeded: 1,
+  auditFailed: 2,
+  usage: 3,
+  requestFailed: 4
+} as const;
+
+export type ExitCode = (typeof exitCodes)[keyof typeof exitCodes];
+
+export class CliError extends Error {
+  exitCode: ExitCode;
+
+  constructor(message: string, exitCode: ExitCode = exitCodes.requestFailed) {
+    super(message);
+    this.name = "CliError";
+    this.exitCode = exitCode;
+  }
+}
@@ -0,0 +1,109 @@
+import type { ApiClient } from "./client";
+import { CliError, exitCodes } from "./errors";
+
+export type JobEvent = {
+  id: string;
+  queue: string;
+  jobId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  createdAt: string;
+};
+
+const TERMINAL_EVENTS = new Set(["completed", "failed", "cancelled"]);
+const RECONNECT_DELAY_MS = 1_000;
+
+/** A failed attempt that BullMQ will retry is reported with `willRetry`, so keep following it. */
+function isTerminalEvent(event: JobEvent) {
+  return TERMINAL_EVENTS.has(event.event) && event.payload?.willRetry !== true;
+}
+
+/** Yields the `data:` payload of each server-sent event; comment lines (heartbeats) are skipped. */
+export async function* readServerSentEvents(stream: ReadableStream<Uint8Array>) {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex !== -1) {
+        const block = buffer.slice(0, separatorIndex);
+        buffer = buffer.slice(separatorIndex + 2);
+
+        const data = block
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (data) {
+          yield data;
+        }
+
+        separatorIndex = buffer.indexOf("\n\n");
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Follows `/api/jobs/[jobId]/events` until the job reports completed, failed
+ * on its last attempt or cancelled, reconnecting whenever the server closes
+ * the stream early.
+ */
+export async function waitForJob(
+  client: ApiClient,
+  params: {
+    projectId: string;
+    jobId: string;
+    deadline: number;
+    onEvent?: (event: JobEvent) => void;
+  }
+): Promise<JobEvent> {
+  const seenEventIds = new Set<string>();
+
+  while (Date.now() < params.deadline) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), Math.max(0, params.deadline - Date.now()));
+
+    try {
+      const response = await client.openJobEvents(params.projectId, params.jobId, controller.signal);
+      if (!response.body) {
+        throw new CliError(`Job event stream for ${params.jobId} has no body`);
+      }
+
+      for await (const data of readServerSentEvents(response.body)) {
+        const event = JSON.parse(data) as JobEvent;
+        if (seenEventIds.has(event.id)) {
+          continue;
+        }
+        seenEventIds.add(event.id);
+        params.onEvent?.(event);
+
+        if (isTerminalEvent(event)) {
+          controller.abort();
+          return event;
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+  }
+
+  throw new CliError(`Timed out waiting for job ${params.jobId}`, exitCodes.auditFailed);
+}
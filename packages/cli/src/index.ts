@@ -0,0 +1,114 @@
+import { parseArgs } from "node:util";
+
+import { createApiClient } from "./client";
+import { loadCliConfig, type CliConfigInput } from "./config";
+import { CliError, exitCodes } from "./errors";
+import { collectAuditResults, runAudit } from "./run";
+
+const usage = `Usage:
+  ton-audit run [dir]          Upload dir (default .), audit it and download the results
+  ton-audit report <auditId>   Download the results of an existing audit
+
+Options:
+  --config <path>        Config file (default: nearest .tonauditrc)
+  --url <url>            Web app base URL (env TON_AUDIT_URL)
+  --project <id>         Project id (env TON_AUDIT_PROJECT_ID)
+  --fail-on <severity>   critical|high|medium|low|informational|none (default high)
+  --format <format>      json|sarif|pdf, repeatable (default json and sarif)
+  --pdf-variant <name>   client|internal (default client)
+  --output <dir>         Output directory (default ton-audit-results)
+  --timeout <minutes>    Give up after this many minutes (default 60)
+
+The API token is read from TON_AUDIT_TOKEN or a file passed with --config.
+
+Exit codes: 0 passed, 1 findings at or above --fail-on, 2 audit failed,
+3 usage or config error, 4 request failed.`;
+
+function log(message: string) {
+  process.stderr.write(`${message}\n`);
+}
+
+export async function main(argv: string[], env: NodeJS.ProcessEnv = process.env) {
+  try {
+    let parsed: ReturnType<typeof parseCliArgs>;
+    try {
+      parsed = parseCliArgs(argv);
+    } catch (error) {
+      throw new CliError(error instanceof Error ? error.message : String(error), exitCodes.usage);
+    }
+
+    const { values, positionals } = parsed;
+    const [command, target] = positionals;
+    if (values.help || !command) {
+      log(usage);
+      return values.help ? exitCodes.ok : exitCodes.usage;
+    }
+
+    const overrides: CliConfigInput = {
+      baseUrl: values.url,
+      projectId: values.project,
+      failOn: values["fail-on"],
+      formats: values.format,
+      pdfVariant: values["pdf-variant"],
+      outputDir: values.output,
+      timeoutMinutes: values.timeout === undefined ? undefined : Number(values.timeout)
+    };
+    const config = await loadCliConfig({
+      cwd: process.cwd(),
+      env,
+      overrides,
+      configPath: values.config,
+      log
+    });
+    const context = {
+      config,
+      client: createApiClient({ baseUrl: config.baseUrl, token: config.token }),
+      log
+    };
+
+    if (command === "run") {
+      const result = await runAudit(context, target ?? ".");
+      return result.exitCode;
+    }
+
+    if (command === "report") {
+      if (!target) {
+        throw new CliError("report requires an audit id", exitCodes.usage);
+      }
+      const result = await collectAuditResults(
+        context,
+        target,
+        Date.now() + config.timeoutMinutes * 60_000
+      );
+      return result.exitCode;
+    }
+
+    throw new CliError(`Unknown command: ${command}`, exitCodes.usage);
+  } catch (error) {
+    if (error instanceof CliError) {
+      log(`Error: ${error.message}`);
+      return error.exitCode;
+    }
+
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return exitCodes.requestFailed;
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      url: { type: "string" },
+      project: { type: "string" },
+      "fail-on": { type: "string" },
+      format: { type: "string", multiple: true },
+      "pdf-variant": { type: "string" },
+      output: { type: "string" },
+      timeout: { type: "string" },
+      help: { type: "boolean", short: "h" }
+    }
+  });
+}
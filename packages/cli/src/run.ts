@@ -0,0 +1,213 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { severitySchema, type Severity } from "@ton-audit/shared";
+
+import type { ApiClient, AuditFindingSummary } from "./client";
+import type { CliConfig, FailOn } from "./config";
+import { CliError, exitCodes, type ExitCode } from "./errors";
+import { waitForJob, type JobEvent } from "./events";
+import { zipDirectory } from "./zip";
+
+// Multipart parts must be at least 5 MiB for S3; 8 MiB keeps the part count low.
+const PART_SIZE_BYTES = 8 * 1024 * 1024;
+const PDF_POLL_INTERVAL_MS = 3_000;
+const ARCHIVE_FILENAME = "ton-audit-cli.zip";
+
+// Findings a reviewer has dismissed never fail the build.
+const DISMISSED_TRIAGE_STATUSES = new Set(["false_positive", "accepted_risk", "wont_fix"]);
+
+const severityRank: Record<Severity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  informational: 0
+};
+
+type Logger = (message: string) => void;
+
+type RunContext = {
+  config: CliConfig;
+  client: ApiClient;
+  log: Logger;
+};
+
+/** Mirrors the web app's BullMQ id encoding, which swaps the reserved `:` for `__`. */
+function toPipelineJobId(step: "verify" | "audit", projectId: string, auditRunId: string) {
+  return `${step}__${projectId}__${auditRunId}`;
+}
+
+export function countBlockingFindings(findings: AuditFindingSummary[], failOn: FailOn) {
+  if (failOn === "none") {
+    return 0;
+  }
+
+  return findings.filter((finding) => {
+    const severity = severitySchema.safeParse(finding.severity);
+    if (!severity.success) {
+      return false;
+    }
+
+    if (finding.triage && DISMISSED_TRIAGE_STATUSES.has(finding.triage.status)) {
+      return false;
+    }
+
+    return severityRank[severity.data] >= severityRank[failOn];
+  }).length;
+}
+
+async function uploadArchive(context: RunContext, archive: Buffer) {
+  const { client, config } = context;
+  const parts = Math.max(1, Math.ceil(archive.length / PART_SIZE_BYTES));
+  const init = await client.initZipUpload(config.projectId, {
+    filename: ARCHIVE_FILENAME,
+    sizeBytes: archive.length,
+    parts
+  });
+
+  const eTags: Array<{ partNumber: number; eTag: string }> = [];
+  if (init.singleUrl) {
+    await client.putPresigned(init.singleUrl, archive, "application/zip");
+  } else {
+    for (const part of init.partUrls) {
+      const start = (part.partNumber - 1) * PART_SIZE_BYTES;
+      const eTag = await client.putPresigned(
+        part.url,
+        archive.subarray(start, start + PART_SIZE_BYTES)
+      );
+      eTags.push({ partNumber: part.partNumber, eTag });
+    }
+  }
+
+  await client.completeUpload(config.projectId, { uploadId: init.uploadId, eTags });
+
+  return init.uploadId;
+}
+
+function describeEvent(event: JobEvent) {
+  const message = typeof event.payload.message === "string" ? `: ${event.payload.message}` : "";
+  return `[${event.queue}] ${event.event}${message}`;
+}
+
+async function waitForStep(context: RunContext, jobId: string, deadline: number) {
+  const event = await waitForJob(context.client, {
+    projectId: context.config.projectId,
+    jobId,
+    deadline,
+    onEvent: (jobEvent) => context.log(describeEvent(jobEvent))
+  });
+
+  if (event.event !== "completed") {
+    throw new CliError(`${describeEvent(event)}`, exitCodes.auditFailed);
+  }
+
+  return event;
+}
+
+async function downloadPdf(context: RunContext, auditRunId: string, deadline: number) {
+  const { client, config } = context;
+  await client.requestPdf(config.projectId, auditRunId, config.pdfVariant);
+
+  while (Date.now() < deadline) {
+    const pdf = await client.getPdf(config.projectId, auditRunId, config.pdfVariant);
+    if (pdf.status === "completed" && pdf.url) {
+      return client.downloadPresigned(pdf.url);
+    }
+    if (pdf.status === "failed") {
+      throw new CliError("PDF export failed", exitCodes.requestFailed);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, PDF_POLL_INTERVAL_MS));
+  }
+
+  throw new CliError("Timed out waiting for the PDF export", exitCodes.requestFailed);
+}
+
+/**
+ * Downloads the configured result formats for a finished audit and returns
+ * the exit code implied by the severity threshold.
+ */
+export async function collectAuditResults(
+  context: RunContext,
+  auditRunId: string,
+  deadline: number
+): Promise<{ exitCode: ExitCode; files: string[]; blockingFindings: number }> {
+  const { client, config, log } = context;
+  const result = await client.getAudit(config.projectId, auditRunId);
+
+  if (result.audit.status !== "completed") {
+    throw new CliError(`Audit ${auditRunId} is ${result.audit.status}`, exitCodes.auditFailed);
+  }
+
+  await mkdir(config.outputDir, { recursive: true });
+  const files: string[] = [];
+  const write = async (filename: string, content: string | Buffer) => {
+    const filePath = path.join(config.outputDir, filename);
+    await writeFile(filePath, content);
+    files.push(filePath);
+    log(`Wrote ${filePath}`);
+  };
+
+  if (config.formats.includes("json")) {
+    await write(`audit-${auditRunId}.json`, `${JSON.stringify(result, null, 2)}\n`);
+  }
+  if (config.formats.includes("sarif")) {
+    await write(`audit-${auditRunId}.sarif`, await client.getSarif(config.projectId, auditRunId));
+  }
+  if (config.formats.includes("pdf")) {
+    await write(
+      `audit-${auditRunId}-${config.pdfVariant}.pdf`,
+      await downloadPdf(context, auditRunId, deadline)
+    );
+  }
+
+  const blockingFindings = countBlockingFindings(result.findings, config.failOn);
+  log(
+    config.failOn === "none"
+      ? `${result.findings.length} findings (severity gate disabled)`
+      : `${result.findings.length} findings, ${blockingFindings} at or above ${config.failOn}`
+  );
+
+  return {
+    exitCode: blockingFindings > 0 ? exitCodes.thresholdExceeded : exitCodes.ok,
+    files,
+    blockingFindings
+  };
+}
+
+/**
+ * Uploads `sourceDir` as a new revision, follows ingest, verify and audit to
+ * completion, then collects the results.
+ */
+export async function runAudit(context: RunContext, sourceDir: string) {
+  const { client, config, log } = context;
+  const deadline = Date.now() + config.timeoutMinutes * 60_000;
+
+  const { archive, fileCount } = await zipDirectory(sourceDir, [config.outputDir]);
+  if (fileCount === 0) {
+    throw new CliError(`No auditable source files found in ${sourceDir}`, exitCodes.usage);
+  }
+  log(`Packed ${fileCount} files (${archive.length} bytes)`);
+
+  const uploadId = await uploadArchive(context, archive);
+  const { revision, jobId } = await client.createRevisionFromUpload(config.projectId, uploadId);
+  log(`Created revision ${revision.id}`);
+
+  const ingest = await waitForStep(context, jobId, deadline);
+  const auditRunId = ingest.payload.auditRunId;
+  if (typeof auditRunId !== "string" || ingest.payload.skippedDueToActiveAudit === true) {
+    throw new CliError(
+      "Ingest finished without starting an audit; another audit may already be running",
+      exitCodes.auditFailed
+    );
+  }
+
+  await waitForStep(context, toPipelineJobId("verify", config.projectId, auditRunId), deadline);
+  await waitForStep(context, toPipelineJobId("audit", config.projectId, auditRunId), deadline);
+
+  return {
+    auditRunId,
+    ...(await collectAuditResults(context, auditRunId, deadline))
+  };
+}
@@ -0,0 +1,65 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { acceptedUploadExtensions, createZipArchive, normalizePath } from "@ton-audit/shared";
+
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules", "dist", "build", "coverage"]);
+
+// Fixed timestamp (the earliest DOS date) so identical trees produce identical archives.
+const FIXED_MODIFIED_AT = new Date(1980, 0, 1);
+
+function isAcceptedSourcePath(filePath: string) {
+  const extension = path.extname(filePath).toLowerCase();
+  return acceptedUploadExtensions.includes(extension as (typeof acceptedUploadExtensions)[number]);
+}
+
+/**
+ * Lists the files under `rootDir` that the upload endpoint accepts, as
+ * archive-relative POSIX paths in a stable order. `excludeDirs` are absolute
+ * directories to skip, such as the CLI's own output directory.
+ */
+export async function collectSourceFiles(rootDir: string, excludeDirs: string[] = []) {
+  const root = path.resolve(rootDir);
+  const excluded = new Set(excludeDirs.map((dir) => path.resolve(dir)));
+  const files: Array<{ path: string; absolutePath: string }> = [];
+
+  async function walk(dir: string) {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const absolutePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name) && !excluded.has(absolutePath)) {
+          await walk(absolutePath);
+        }
+        continue;
+      }
+
+      if (entry.isFile() && isAcceptedSourcePath(entry.name)) {
+        files.push({
+          path: normalizePath(path.relative(root, absolutePath)),
+          absolutePath
+        });
+      }
+    }
+  }
+
+  await walk(root);
+
+  return files.sort((left, right) => left.path.localeCompare(right.path));
+}
+
+export async function zipDirectory(rootDir: string, excludeDirs: string[] = []) {
+  const files = await collectSourceFiles(rootDir, excludeDirs);
+  const entries = await Promise.all(
+    files.map(async (file) => ({
+      path: file.path,
+      content: await readFile(file.absolutePath),
+      modifiedAt: FIXED_MODIFIED_AT
+    }))
+  );
+
+  return {
+    fileCount: entries.length,
+    archive: await createZipArchive(entries)
+  };
+}
@@ -0,0 +1,97 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { loadCliConfig } from "../src/config";
+
+const projectId = "7a0d6a3e-5d1c-4a55-9b0f-2d0f4f5b8c11";
+const tempDirs: string[] = [];
+
+async function createTempDir() {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "ton-audit-cli-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe("cli config", () => {
+  it("finds the nearest .tonauditrc and lets env and flags override it", async () => {
+    const root = await createTempDir();
+    const nested = path.join(root, "contracts", "jetton");
+    await mkdir(nested, { recursive: true });
+    await writeFile(
+      path.join(root, ".tonauditrc"),
+      JSON.stringify({
+        baseUrl: "https://audit.example.com/",
+        projectId,
+        failOn: "medium",
+        outputDir: "reports"
+      })
+    );
+
+    const config = await loadCliConfig({
+      cwd: nested,
+      env: { TON_AUDIT_TOKEN: "tat_env-token", TON_AUDIT_URL: "https://env.example.com" },
+      overrides: { failOn: "critical", formats: undefined }
+    });
+
+    expect(config).toMatchObject({
+      baseUrl: "https://env.example.com",
+      token: "tat_env-token",
+      projectId,
+      failOn: "critical",
+      formats: ["json", "sarif"],
+      pdfVariant: "client",
+      outputDir: path.join(root, "reports")
+    });
+  });
+
+  it("refuses a discovered .tonauditrc that carries the token and reports a file baseUrl", async () => {
+    const root = await createTempDir();
+    await writeFile(
+      path.join(root, ".tonauditrc"),
+      JSON.stringify({ baseUrl: "https://audit.example.com", projectId, token: "tat_file-token" })
+    );
+
+    await expect(
+      loadCliConfig({ cwd: root, env: { TON_AUDIT_TOKEN: "tat_env-token" }, overrides: {} })
+    ).rejects.toMatchObject({
+      exitCode: 3,
+      message: expect.stringContaining("must not contain the API token")
+    });
+
+    const log = vi.fn();
+    const config = await loadCliConfig({
+      cwd: root,
+      env: {},
+      overrides: {},
+      configPath: ".tonauditrc",
+      log
+    });
+
+    expect(config.token).toBe("tat_file-token");
+    expect(log).toHaveBeenCalledWith(
+      `Using baseUrl https://audit.example.com from ${path.join(root, ".tonauditrc")}`
+    );
+  });
+
+  it("reports every invalid field at once", async () => {
+    const root = await createTempDir();
+
+    await expect(
+      loadCliConfig({
+        cwd: root,
+        env: {},
+        overrides: { baseUrl: "not-a-url", projectId: "p1", failOn: "severe" }
+      })
+    ).rejects.toMatchObject({
+      exitCode: 3,
+      message: expect.stringMatching(/baseUrl.*token.*projectId.*failOn/)
+    });
+  });
+});
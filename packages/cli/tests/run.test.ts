@@ -0,0 +1,201 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import unzipper from "unzipper";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { main } from "../src/index";
+import { countBlockingFindings } from "../src/run";
+
+const projectId = "7a0d6a3e-5d1c-4a55-9b0f-2d0f4f5b8c11";
+const auditRunId = "0f8c2b7e-3b4f-4d8e-9a51-6c2d1e0b9f22";
+const token = "tat_test-token";
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: Buffer;
+};
+
+async function readBody(request: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sseEvent(jobId: string, queue: string, event: string, payload: Record<string, unknown>) {
+  return `data: ${JSON.stringify({
+    id: `${jobId}:${event}`,
+    queue,
+    jobId,
+    event,
+    payload,
+    createdAt: new Date().toISOString()
+  })}\n\n`;
+}
+
+describe("ton-audit run", () => {
+  let server: Server;
+  let baseUrl: string;
+  let workDir: string;
+  let requests: RecordedRequest[];
+  let auditStreamConnections: number;
+  let findings: Array<Record<string, unknown>>;
+
+  beforeEach(async () => {
+    requests = [];
+    auditStreamConnections = 0;
+    findings = [
+      { findingId: "f1", severity: "high", payloadJson: {}, triage: null },
+      { findingId: "f2", severity: "low", payloadJson: {}, triage: null }
+    ];
+    workDir = await mkdtemp(path.join(os.tmpdir(), "ton-audit-cli-run-"));
+    await writeFile(path.join(workDir, "wallet.tolk"), "fun main() {}\n");
+    vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    server = createServer(async (request, response) => {
+      const body = await readBody(request);
+      const url = request.url ?? "";
+      requests.push({
+        method: request.method ?? "GET",
+        url,
+        authorization: request.headers.authorization,
+        body
+      });
+
+      const json = (payload: unknown, status = 200) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(payload));
+      };
+
+      if (url === `/api/projects/${projectId}/uploads/init`) {
+        return json({
+          uploadId: "5b9e4a0c-1d2e-4f3a-8b7c-9d0e1f2a3b4c",
+          singleUrl: `${baseUrl}/storage/upload.zip?X-Amz-Signature=abc`,
+          partUrls: []
+        });
+      }
+      if (url.startsWith("/storage/")) {
+        response.writeHead(200, { ETag: '"etag-1"' });
+        return response.end();
+      }
+      if (url === `/api/projects/${projectId}/uploads/complete`) {
+        return json({ upload: { id: "upload-1", status: "uploaded" } });
+      }
+      if (url === `/api/projects/${projectId}/revisions/from-upload`) {
+        return json({ revision: { id: "revision-1" }, jobId: "ingest__job" });
+      }
+      if (url.startsWith("/api/jobs/")) {
+        const jobId = decodeURIComponent(url.split("/")[3] ?? "");
+        response.writeHead(200, { "Content-Type": "text/event-stream" });
+        response.write(": heartbeat\n\n");
+        if (jobId === "ingest__job") {
+          response.write(sseEvent(jobId, "ingest", "completed", { auditRunId }));
+        } else if (jobId === `verify__${projectId}__${auditRunId}`) {
+          // BullMQ retries the first attempt, so this failure is not final.
+          response.write(
+            sseEvent(jobId, "verify", "failed", { auditRunId, willRetry: true, message: "flaky" })
+          );
+          response.write(sseEvent(jobId, "verify", "completed", { auditRunId }));
+        } else if (jobId === `audit__${projectId}__${auditRunId}`) {
+          auditStreamConnections += 1;
+          response.write(sseEvent(jobId, "audit", "started", { auditRunId }));
+          // The first connection ends early, as the server does after its lifetime cap.
+          if (auditStreamConnections > 1) {
+            response.write(sseEvent(jobId, "audit", "completed", { auditRunId }));
+          }
+        }
+        return response.end();
+      }
+      if (url === `/api/projects/${projectId}/audits/${auditRunId}`) {
+        return json({ audit: { id: auditRunId, status: "completed" }, findings, report: null });
+      }
+      if (url === `/api/projects/${projectId}/audits/${auditRunId}/sarif`) {
+        response.writeHead(200, { "Content-Type": "application/sarif+json" });
+        return response.end('{"version":"2.1.0"}');
+      }
+
+      return json({ error: "Not found" }, 404);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  async function runCli(extraArgs: string[] = []) {
+    return main(
+      [
+        "run",
+        workDir,
+        "--url",
+        baseUrl,
+        "--project",
+        projectId,
+        "--output",
+        path.join(workDir, "out"),
+        ...extraArgs
+      ],
+      { TON_AUDIT_TOKEN: token }
+    );
+  }
+
+  it("uploads, follows the pipeline and fails the gate on high findings", async () => {
+    const exitCode = await runCli();
+
+    expect(exitCode).toBe(1);
+    expect(auditStreamConnections).toBe(2);
+
+    const upload = requests.find((request) => request.url.startsWith("/storage/"));
+    expect(upload?.method).toBe("PUT");
+    expect(upload?.authorization).toBeUndefined();
+    const archive = await unzipper.Open.buffer(upload!.body);
+    expect(archive.files.map((file) => file.path)).toEqual(["wallet.tolk"]);
+
+    const apiRequests = requests.filter((request) => request.url.startsWith("/api/"));
+    expect(apiRequests.every((request) => request.authorization === `Bearer ${token}`)).toBe(true);
+    expect(JSON.parse(requests.find((request) => request.url.endsWith("/from-upload"))!.body.toString()))
+      .toEqual({ uploadId: "5b9e4a0c-1d2e-4f3a-8b7c-9d0e1f2a3b4c" });
+
+    const outputs = (await readdir(path.join(workDir, "out"))).sort();
+    expect(outputs).toEqual([`audit-${auditRunId}.json`, `audit-${auditRunId}.sarif`]);
+    await expect(
+      readFile(path.join(workDir, "out", `audit-${auditRunId}.sarif`), "utf8")
+    ).resolves.toBe('{"version":"2.1.0"}');
+  });
+
+  it("passes when no finding reaches the threshold", async () => {
+    await expect(runCli(["--fail-on", "critical"])).resolves.toBe(0);
+  });
+
+  it("returns the usage exit code for invalid flags", async () => {
+    await expect(runCli(["--fail-on", "severe"])).resolves.toBe(3);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe("countBlockingFindings", () => {
+  it("ignores dismissed findings and honours the none threshold", () => {
+    const findings = [
+      { findingId: "f1", severity: "critical", payloadJson: {}, triage: { status: "false_positive" } },
+      { findingId: "f2", severity: "medium", payloadJson: {}, triage: { status: "internal_only" } },
+      { findingId: "f3", severity: "low", payloadJson: {}, triage: null }
+    ];
+
+    expect(countBlockingFindings(findings, "critical")).toBe(0);
+    expect(countBlockingFindings(findings, "medium")).toBe(1);
+    expect(countBlockingFindings(findings, "informational")).toBe(2);
+    expect(countBlockingFindings(findings, "none")).toBe(0);
+  });
+});
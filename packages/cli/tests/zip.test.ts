@@ -0,0 +1,63 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { createZipArchive } from "@ton-audit/shared";
+import unzipper from "unzipper";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { collectSourceFiles, zipDirectory } from "../src/zip";
+
+const tempDirs: string[] = [];
+
+async function createTempDir() {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "ton-audit-cli-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe("zip archive", () => {
+  it("writes archives that a standard reader can extract", async () => {
+    const archive = await createZipArchive([
+      { path: "contracts/wallet.tolk", content: Buffer.from("fun main() {}\n") },
+      { path: "README.md", content: Buffer.from("# Wallet\n".repeat(50)) }
+    ]);
+
+    const directory = await unzipper.Open.buffer(archive);
+    const extracted = await Promise.all(
+      directory.files.map(async (file) => [file.path, (await file.buffer()).toString("utf8")])
+    );
+
+    expect(Object.fromEntries(extracted)).toEqual({
+      "contracts/wallet.tolk": "fun main() {}\n",
+      "README.md": "# Wallet\n".repeat(50)
+    });
+  });
+
+  it("packs only accepted source files and skips dependency and output folders", async () => {
+    const root = await createTempDir();
+    await mkdir(path.join(root, "contracts"), { recursive: true });
+    await mkdir(path.join(root, "node_modules", "dep"), { recursive: true });
+    await mkdir(path.join(root, "ton-audit-results"), { recursive: true });
+    await writeFile(path.join(root, "contracts", "jetton.fc"), "() recv_internal() {}");
+    await writeFile(path.join(root, "contracts", "logo.png"), "binary");
+    await writeFile(path.join(root, "node_modules", "dep", "index.js"), "module.exports = {}");
+    await writeFile(path.join(root, "ton-audit-results", "audit.json"), "{}");
+    await writeFile(path.join(root, "package.json"), "{}");
+
+    const files = await collectSourceFiles(root, [path.join(root, "ton-audit-results")]);
+    expect(files.map((file) => file.path)).toEqual(["contracts/jetton.fc", "package.json"]);
+
+    const { fileCount, archive } = await zipDirectory(root, [path.join(root, "ton-audit-results")]);
+    expect(fileCount).toBe(2);
+    expect(archive.readUInt32LE(0)).toBe(0x0403_4b50);
+    // Fixed timestamps keep archives of an unchanged tree byte-identical.
+    await expect(
+      zipDirectory(root, [path.join(root, "ton-audit-results")])
+    ).resolves.toMatchObject({ archive });
+  });
+});
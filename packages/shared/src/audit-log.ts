@@ -0,0 +1,103 @@
+export type LineChangeSummary = {
+  created: boolean;
+  linesAdded: number;
+  linesRemoved: number;
+};
+
+function countLines(content: string) {
+  const counts = new Map<string, number>();
+  for (const line of content.split("\n")) {
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Summarises a text edit as added/removed line counts for the audit log. Lines are compared as a
+ * multiset, so moved lines count as unchanged; it is a size indicator, not a patch.
+ */
+export function summarizeLineChanges(before: string | null, after: string): LineChangeSummary {
+  if (before === null) {
+    return { created: true, linesAdded: after.split("\n").length, linesRemoved: 0 };
+  }
+
+  const remaining = countLines(before);
+  let linesAdded = 0;
+  for (const line of after.split("\n")) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      linesAdded += 1;
+    }
+  }
+
+  let linesRemoved = 0;
+  for (const count of remaining.values()) {
+    linesRemoved += count;
+  }
+
+  return { created: false, linesAdded, linesRemoved };
+}
+
+export type FieldChange = { from: unknown; to: unknown };
+
+/** Lists the top-level keys whose values differ between two settings objects. */
+export function summarizeFieldChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+export const AUDIT_LOG_CSV_COLUMNS = [
+  "createdAt",
+  "action",
+  "actorUserId",
+  "actorEmail",
+  "actorApiTokenId",
+  "ipAddress",
+  "userAgent",
+  "projectId",
+  "targetType",
+  "targetId",
+  "summary"
+] as const;
+
+export type AuditLogCsvEntry = Record<(typeof AUDIT_LOG_CSV_COLUMNS)[number], unknown>;
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas.
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  if (CSV_FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function formatAuditLogCsv(entries: AuditLogCsvEntry[]) {
+  const lines = [AUDIT_LOG_CSV_COLUMNS.join(",")];
+  for (const entry of entries) {
+    lines.push(AUDIT_LOG_CSV_COLUMNS.map((column) => toCsvCell(entry[column])).join(","));
+  }
+
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -1,12 +1,23 @@
 import { z } from "zod";
 
 import {
+  apiTokenScopeSchema,
+  auditLogActionSchema,
+  auditModeSchema,
+  type AuditPass,
+  auditPassSchema,
+  type AuditProfile,
   auditProfileSchema,
+  findingTriageStatusSchema,
   languageSchema,
+  organizationRoleSchema,
   pdfExportVariantSchema,
+  projectMemberRoleSchema,
   severitySchema,
-  uploadTypeSchema
+  uploadTypeSchema,
+  webhookEventTypeSchema
 } from "./enums";
+import { isInternalHostname } from "./network-address";
 
 export const DEFAULT_UPLOAD_MAX_BYTES = 25 * 1024 * 1024;
 export const DEFAULT_UPLOAD_MAX_FILES = 300;
@@ -22,6 +33,7 @@ export const queueNames = {
   docsCrawl: "docs-crawl",
   docsIndex: "docs-index",
   cleanup: "cleanup",
+  webhookDelivery: "webhook-delivery",
 } as const;
 
 export const queueConcurrency = {
@@ -33,6 +45,18 @@ export const queueConcurrency = {
   docsCrawl: 2,
   docsIndex: 2,
   cleanup: 1,
+  webhookDelivery: 4,
+} as const;
+
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10_000;
+
+// Six attempts with exponential backoff spread retries over roughly 30 minutes.
+export const webhookDeliveryJobOptions = {
+  attempts: 6,
+  backoff: {
+    type: "exponential",
+    delay: 30_000,
+  },
 } as const;
 
 export const acceptedUploadExtensions = [
@@ -69,6 +93,7 @@ export const findingEvidenceSchema = z.object({
   startLine: z.number().int().positive(),
   endLine: z.number().int().positive(),
   snippet: z.string().min(1),
+  enclosingScope: z.string().min(1).nullable().optional(),
 });
 
 export const findingTaxonomyReferenceSchema = z.object({
@@ -110,7 +135,9 @@ export const auditFindingSchema = z.object({
   businessImpact: z.string().default(""),
   technicalImpact: z.string().default(""),
   fixPriority: fixPrioritySchema.default("p2"),
-  verificationPlan: z.array(z.string().min(1)).default([])
+  verificationPlan: z.array(z.string().min(1)).default([]),
+  /** Consensus audits only: models whose independent discovery pass reported this finding. */
+  discoveredBy: z.array(z.string().min(1)).default([])
 });
 
 export type AuditFinding = z.infer<typeof auditFindingSchema>;
@@ -118,6 +145,7 @@ export type AuditFinding = z.infer<typeof auditFindingSchema>;
 export const createProjectSchema = z.object({
   name: z.string().min(1).max(120),
   slug: z.string().regex(/^[a-z0-9-]+$/),
+  organizationId: z.string().uuid().optional(),
   initialization: z.discriminatedUnion("mode", [
     z.object({
       mode: z.literal("scaffold"),
@@ -189,11 +217,242 @@ export const workingCopyPatchFileSchema = z.object({
   isTestFile: z.boolean().optional(),
 });
 
+export const workingCopyMovePathSchema = z.object({
+  fromPath: z.string().min(1),
+  toPath: z.string().min(1),
+});
+
+export const auditBudgetSchema = z
+  .object({
+    maxTokens: z.number().int().positive().optional(),
+    maxCostUsd: z.number().positive().optional(),
+  })
+  .refine((value) => value.maxTokens !== undefined || value.maxCostUsd !== undefined, {
+    message: "Set maxTokens, maxCostUsd or both",
+  });
+
+export type AuditBudget = z.infer<typeof auditBudgetSchema>;
+
+/** Project default budget for audit runs; `null` removes it. */
+export const projectAuditBudgetUpdateSchema = z.object({
+  budget: auditBudgetSchema.nullable(),
+});
+
+const auditPassModelSchema = z.object({
+  modelId: z.string().min(1),
+  fallbackModelId: z.string().min(1).optional(),
+});
+
 export const runAuditSchema = z.object({
   primaryModelId: z.string().min(1),
   fallbackModelId: z.string().min(1),
+  /** Per-pass overrides; passes left out run on the primary and fallback models. */
+  passModels: z
+    .object({
+      discovery: auditPassModelSchema.optional(),
+      validation: auditPassModelSchema.optional(),
+      synthesis: auditPassModelSchema.optional(),
+    })
+    .default({}),
+  /** Consensus profile only; defaults to the discovery pass's primary and fallback models. */
+  consensusModelIds: z.array(z.string().min(1)).min(2).max(3).optional(),
+  /** Overrides the project budget for this run. */
+  budget: auditBudgetSchema.optional(),
   profile: auditProfileSchema.default("deep"),
+  mode: auditModeSchema.default("full"),
   includeDocsFallbackFetch: z.boolean().default(true),
+}).superRefine((value, ctx) => {
+  if (value.profile !== "consensus") {
+    return;
+  }
+
+  const modelIds = resolveConsensusModelIds({
+    profile: value.profile,
+    consensusModelIds: value.consensusModelIds,
+    passModels: resolveAuditPassModels(value),
+  });
+  if (modelIds.length < 2) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["consensusModelIds"],
+      message: "Consensus audits need at least two distinct discovery models",
+    });
+  }
+});
+
+export type AuditPassModelRoute = {
+  primary: string;
+  fallback: string;
+  /** Model that produced the pass output; null until the pass ran, or when it was skipped. */
+  used: string | null;
+};
+export type AuditPassModels = Record<AuditPass, AuditPassModelRoute>;
+type RunAuditPassModelOverrides = Partial<
+  Record<AuditPass, z.infer<typeof auditPassModelSchema>>
+>;
+
+export function resolveAuditPassModels(params: {
+  primaryModelId: string;
+  fallbackModelId: string;
+  passModels?: RunAuditPassModelOverrides | null;
+}): AuditPassModels {
+  return Object.fromEntries(
+    auditPassSchema.options.map((pass) => {
+      const override = params.passModels?.[pass];
+      return [
+        pass,
+        {
+          primary: override?.modelId ?? params.primaryModelId,
+          fallback: override?.fallbackModelId ?? params.fallbackModelId,
+          used: null,
+        },
+      ];
+    }),
+  ) as AuditPassModels;
+}
+
+/** Models that run independent discovery passes in a consensus audit; empty for other profiles. */
+export function resolveConsensusModelIds(params: {
+  profile: AuditProfile;
+  consensusModelIds?: string[] | null;
+  passModels: AuditPassModels;
+}) {
+  if (params.profile !== "consensus") {
+    return [];
+  }
+
+  return [
+    ...new Set(
+      params.consensusModelIds ?? [
+        params.passModels.discovery.primary,
+        params.passModels.discovery.fallback,
+      ],
+    ),
+  ];
+}
+
+export const findingTriageSchema = z.object({
+  status: findingTriageStatusSchema,
+  justification: z.string().trim().min(1).max(4_000),
+});
+
+export const findingCommentSchema = z.object({
+  body: z.string().trim().min(1).max(20_000),
+});
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2_048)
+  .refine((value) => /^https?:\/\//i.test(value), "Webhook URL must use http or https")
+  // The worker re-checks resolved addresses at delivery time; this catches the obvious cases early.
+  .refine(
+    (value) => !isInternalHostname(new URL(value).hostname),
+    "Webhook URL must not point to a private, loopback or internal address",
+  );
+
+export const webhookSubscriptionCreateSchema = z.object({
+  url: webhookUrlSchema,
+  secret: z.string().min(16).max(256),
+  events: z.array(webhookEventTypeSchema).min(1),
+  enabled: z.boolean().default(true),
+});
+
+export const webhookSubscriptionUpdateSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    secret: z.string().min(16).max(256).optional(),
+    events: z.array(webhookEventTypeSchema).min(1).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((value) => Object.values(value).some((entry) => entry !== undefined), {
+    message: "Provide at least one field to update",
+  });
+
+export const API_TOKEN_MAX_LIFETIME_DAYS = 365;
+
+export const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scopes: z.array(apiTokenScopeSchema).min(1),
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_LIFETIME_DAYS).default(90),
+});
+
+export const PROJECT_INVITATION_TTL_DAYS = 14;
+
+// Owner is reserved for `projects.owner_user_id`; invitations can only grant the other roles.
+export const projectInvitationRoleSchema = projectMemberRoleSchema.exclude(["owner"]);
+
+export const projectInvitationCreateSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email().max(320).optional(),
+    githubLogin: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/, "Invalid GitHub login")
+      .optional(),
+    role: projectInvitationRoleSchema
+  })
+  .refine((value) => Boolean(value.email) !== Boolean(value.githubLogin), {
+    message: "Provide either an email address or a GitHub login"
+  });
+
+export const projectMemberUpdateSchema = z.object({
+  role: projectInvitationRoleSchema
+});
+
+export const projectInvitationResponseSchema = z.object({
+  action: z.enum(["accept", "decline"])
+});
+
+export const organizationCreateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  slug: z.string().regex(/^[a-z0-9-]+$/).max(140)
+});
+
+export const organizationMemberAddSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(320),
+  role: organizationRoleSchema.default("member")
+});
+
+export const organizationMemberUpdateSchema = z.object({
+  role: organizationRoleSchema
+});
+
+export const projectTransferSchema = z.object({
+  organizationId: z.string().uuid()
+});
+
+export const AUDIT_LOG_CSV_MAX_ROWS = 10_000;
+
+/** Files larger than this on either side are listed as changed without a line diff. */
+export const FILE_DIFF_MAX_CHARACTERS = 512 * 1024;
+export const FILE_DIFF_MAX_EDIT_DISTANCE = 2_000;
+
+/** A page of audit comparison diffs stops early once its hunks reach this many lines. */
+export const AUDIT_COMPARE_DIFF_PAGE_MAX_FILES = 50;
+export const AUDIT_COMPARE_DIFF_PAGE_MAX_LINES = 5_000;
+
+export const auditCompareDiffQuerySchema = z.object({
+  diffOffset: z.coerce.number().int().min(0).default(0),
+  diffLimit: z.coerce.number().int().min(1).max(AUDIT_COMPARE_DIFF_PAGE_MAX_FILES).default(20)
+});
+
+/** Downloads of a revision or working copy are refused above these totals. */
+export const SOURCE_ARCHIVE_MAX_BYTES = 100 * 1024 * 1024;
+export const SOURCE_ARCHIVE_MAX_FILES = 5_000;
+/** ZIP entry comment that marks files flagged as tests in a downloaded archive. */
+export const SOURCE_ARCHIVE_TEST_FILE_COMMENT = "ton-audit:test-file";
+
+export const auditLogQuerySchema = z.object({
+  action: auditLogActionSchema.optional(),
+  actorUserId: z.string().min(1).optional(),
+  projectId: z.string().uuid().optional(),
+  targetId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  format: z.enum(["json", "csv"]).default("json")
 });
 
 export const pdfExportRequestSchema = z.object({
@@ -216,13 +475,148 @@ export const reportBrandingSchema = z.object({
   signerName: z.string().default("Security Team")
 });
 
+export type ReportBranding = z.infer<typeof reportBrandingSchema>;
+
 export const docsCrawlSeedSchema = z.object({
   seedSitemapUrl: z.string().url(),
   allowPrefixes: z.array(z.string()).default([...topLevelDocsPrefixes]),
 });
 
+/** USD per million tokens. Reasoning tokens are billed as output tokens. */
+export const modelPriceSchema = z.object({
+  inputPerMillionUsd: z.number().nonnegative(),
+  outputPerMillionUsd: z.number().nonnegative(),
+  /** Price of cached prompt tokens; the input price applies when omitted. */
+  cachedInputPerMillionUsd: z.number().nonnegative().optional(),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+/** Built-in provider backed by `OPENROUTER_API_KEY`; models without a provider route use it. */
+export const DEFAULT_LLM_PROVIDER_ID = "openrouter";
+
+export const llmProviderTypeSchema = z.enum([
+  "openrouter",
+  "openai-compatible",
+  "openai",
+  "anthropic",
+]);
+
+export type LlmProviderType = z.infer<typeof llmProviderTypeSchema>;
+
+export const llmProviderSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9-]{0,39}$/, "Use lowercase letters, digits and dashes"),
+    type: llmProviderTypeSchema,
+    /** Required for OpenAI-compatible servers (vLLM, Ollama, llama.cpp); optional elsewhere. */
+    baseUrl: z.string().url().optional(),
+    /**
+     * Worker environment variable holding the API key; keys are never stored in settings. The
+     * prefix keeps admins from pointing a provider at other worker secrets such as `DATABASE_URL`.
+     */
+    apiKeyEnv: z
+      .string()
+      .regex(/^LLM_PROVIDER_[A-Z0-9_]+_KEY$/, "Use an LLM_PROVIDER_<NAME>_KEY environment variable")
+      .optional(),
+  })
+  .refine((value) => value.type !== "openai-compatible" || value.baseUrl !== undefined, {
+    message: "OpenAI-compatible providers need a baseUrl",
+    path: ["baseUrl"],
+  });
+
+export type LlmProvider = z.infer<typeof llmProviderSchema>;
+
+/**
+ * System-wide provider registry, editable by admins only: organizations route their allowlisted
+ * models to these providers but cannot add endpoints of their own.
+ */
+export const llmProviderRegistrySchema = z
+  .object({
+    providers: z.array(llmProviderSchema).max(20).default([]),
+    /**
+     * Embeddings used for docs retrieval; OpenRouter with `OPENROUTER_EMBEDDINGS_MODEL` when unset.
+     * The model must produce vectors of the docs index dimension.
+     */
+    embeddings: z
+      .object({
+        providerId: z.string().min(1),
+        modelId: z.string().min(1),
+      })
+      .optional(),
+  })
+  .superRefine((value, ctx) => {
+    const providerIds = new Set<string>([DEFAULT_LLM_PROVIDER_ID]);
+    value.providers.forEach((provider, index) => {
+      if (provider.id !== DEFAULT_LLM_PROVIDER_ID && providerIds.has(provider.id)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate provider id: ${provider.id}`,
+          path: ["providers", index, "id"],
+        });
+      }
+      providerIds.add(provider.id);
+    });
+
+    if (value.embeddings && !providerIds.has(value.embeddings.providerId)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Unknown provider: ${value.embeddings.providerId}`,
+        path: ["embeddings", "providerId"],
+      });
+    }
+  });
+
+export type LlmProviderRegistry = z.infer<typeof llmProviderRegistrySchema>;
+
 export const modelAllowlistSchema = z.object({
   models: z.array(z.string().min(1)).min(1),
+  /** Keyed by model id. Cost budgets are rejected for runs that may use an unpriced model. */
+  prices: z.record(z.string(), modelPriceSchema).optional(),
+  /** Keyed by model id: the registry provider that serves it, OpenRouter when unset. */
+  providers: z.record(z.string(), z.string().min(1)).optional(),
+});
+
+export type AuditTokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+};
+
+export function calculateModelCostUsd(
+  usage: Pick<AuditTokenUsage, "inputTokens" | "outputTokens" | "cachedInputTokens">,
+  price: ModelPrice,
+) {
+  const cachedInputTokens = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  return (
+    ((usage.inputTokens - cachedInputTokens) * price.inputPerMillionUsd +
+      cachedInputTokens * (price.cachedInputPerMillionUsd ?? price.inputPerMillionUsd) +
+      usage.outputTokens * price.outputPerMillionUsd) /
+    1_000_000
+  );
+}
+
+export const REPORT_BRANDING_SETTING_KEY = "pdf_report_branding";
+export const AUDIT_MODEL_ALLOWLIST_SETTING_KEY = "audit_model_allowlist";
+export const LLM_PROVIDER_REGISTRY_SETTING_KEY = "llm_provider_registry";
+
+/**
+ * Organization allowlist override: a subset of the system models. Prices and provider routes stay
+ * with the system allowlist, so organization admins cannot change what budgets and routing rely on.
+ */
+export const organizationModelAllowlistSchema = modelAllowlistSchema
+  .pick({ models: true })
+  .strict();
+
+export type OrganizationModelAllowlist = z.infer<typeof organizationModelAllowlistSchema>;
+
+/** Organization overrides of system settings; `null` removes the override and inherits again. */
+export const organizationSettingsUpdateSchema = z.object({
+  reportBranding: reportBrandingSchema.nullable().optional(),
+  modelAllowlist: organizationModelAllowlistSchema.nullable().optional(),
 });
 
 export const envConfigSchema = z.object({
@@ -281,6 +675,16 @@ export function parseModelAllowlist(value: string): string[] {
     });
 }
 
+/**
+ * Applies an organization override to the system allowlist. Overrides only narrow it: models the
+ * system list lacks are dropped, and an override left empty inherits the system list.
+ */
+export function narrowModelAllowlist(systemModels: string[], organizationModels: string[]) {
+  const allowed = new Set(systemModels);
+  const narrowed = organizationModels.filter((model) => allowed.has(model));
+  return narrowed.length ? narrowed : systemModels;
+}
+
 export function parseAdminEmails(value: string): string[] {
   return value
     .split(",")
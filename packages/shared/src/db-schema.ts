@@ -1,6 +1,7 @@
 import {
   boolean,
   customType,
+  doublePrecision,
   index,
   integer,
   jsonb,
@@ -17,19 +18,29 @@ import {
 import { relations, sql } from "drizzle-orm";
 
 import {
+  apiTokenScopeSchema,
+  auditLogActionSchema,
+  auditModeSchema,
   auditProfileSchema,
   auditRunStatusSchema,
   findingTransitionSchema,
+  findingTriageStatusSchema,
   languageSchema,
+  organizationRoleSchema,
   pdfExportVariantSchema,
   pdfExportStatusSchema,
+  projectInvitationStatusSchema,
   projectLifecycleStateSchema,
   revisionSourceSchema,
   uploadStatusSchema,
   uploadTypeSchema,
   verificationStepStatusSchema,
-  workingCopyStatusSchema
+  webhookDeliveryStatusSchema,
+  webhookEventTypeSchema,
+  workingCopyStatusSchema,
+  type ProjectMemberRole
 } from "./enums";
+import type { AuditBudget, AuditPassModels, AuditTokenUsage } from "./constants";
 
 const vectorType = customType<{
   data: number[];
@@ -95,6 +106,10 @@ export const findingTransitionEnum = pgEnum(
   "finding_transition",
   toPgEnumValues(findingTransitionSchema.options)
 );
+export const findingTriageStatusEnum = pgEnum(
+  "finding_triage_status",
+  toPgEnumValues(findingTriageStatusSchema.options)
+);
 export const pdfExportStatusEnum = pgEnum(
   "pdf_export_status",
   toPgEnumValues(pdfExportStatusSchema.options)
@@ -107,7 +122,29 @@ export const auditProfileEnum = pgEnum(
   "audit_profile",
   toPgEnumValues(auditProfileSchema.options)
 );
+export const auditModeEnum = pgEnum("audit_mode", toPgEnumValues(auditModeSchema.options));
 export const languageEnum = pgEnum("language", toPgEnumValues(languageSchema.options));
+export const webhookEventTypeEnum = pgEnum(
+  "webhook_event_type",
+  toPgEnumValues(webhookEventTypeSchema.options)
+);
+export const webhookDeliveryStatusEnum = pgEnum(
+  "webhook_delivery_status",
+  toPgEnumValues(webhookDeliveryStatusSchema.options)
+);
+export const apiTokenScopeEnum = pgEnum("api_token_scope", toPgEnumValues(apiTokenScopeSchema.options));
+export const organizationRoleEnum = pgEnum(
+  "organization_role",
+  toPgEnumValues(organizationRoleSchema.options)
+);
+export const projectInvitationStatusEnum = pgEnum(
+  "project_invitation_status",
+  toPgEnumValues(projectInvitationStatusSchema.options)
+);
+export const auditLogActionEnum = pgEnum(
+  "audit_log_action",
+  toPgEnumValues(auditLogActionSchema.options)
+);
 
 export const users = pgTable(
   "users",
@@ -209,6 +246,57 @@ export const accountsRelations = relations(accounts, ({ one }) => ({
   })
 }));
 
+export const organizations = pgTable(
+  "organizations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: varchar("name", { length: 120 }).notNull(),
+    slug: varchar("slug", { length: 140 }).notNull(),
+    createdByUserId: text("created_by_user_id").references(() => users.id, {
+      onDelete: "set null"
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    slugUnique: unique("organizations_slug_unique").on(table.slug)
+  })
+);
+
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: organizationRoleEnum("role").notNull().default("member"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.organizationId, table.userId] }),
+    userIdx: index("organization_members_user_idx").on(table.userId)
+  })
+);
+
+/** Per-organization overrides of `system_settings` entries, keyed the same way. */
+export const organizationSettings = pgTable(
+  "organization_settings",
+  {
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    value: jsonb("value").$type<Record<string, unknown>>().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.organizationId, table.key] })
+  })
+);
+
 export const projects = pgTable(
   "projects",
   {
@@ -216,19 +304,29 @@ export const projects = pgTable(
     ownerUserId: text("owner_user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    // Org-owned projects keep `owner_user_id` as the creator; access flows from the organization.
+    organizationId: uuid("organization_id").references(() => organizations.id, {
+      onDelete: "restrict"
+    }),
     name: varchar("name", { length: 120 }).notNull(),
     slug: varchar("slug", { length: 140 }).notNull(),
     lifecycleState: projectLifecycleStateEnum("lifecycle_state").notNull().default("ready"),
+    /** Default token/USD budget for audit runs that do not set their own. */
+    auditBudget: jsonb("audit_budget").$type<AuditBudget>(),
     deletedAt: timestamp("deleted_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
   },
   (table) => ({
     ownerIdx: index("projects_owner_idx").on(table.ownerUserId),
+    organizationIdx: index("projects_organization_idx").on(table.organizationId),
     lifecycleIdx: index("projects_lifecycle_idx").on(table.lifecycleState),
     slugUnique: uniqueIndex("projects_owner_slug_active_unique")
       .on(table.ownerUserId, table.slug)
-      .where(sql`${table.deletedAt} is null`)
+      .where(sql`${table.deletedAt} is null and ${table.organizationId} is null`),
+    organizationSlugUnique: uniqueIndex("projects_organization_slug_active_unique")
+      .on(table.organizationId, table.slug)
+      .where(sql`${table.deletedAt} is null and ${table.organizationId} is not null`)
   })
 );
 
@@ -241,7 +339,7 @@ export const projectMembers = pgTable(
     userId: text("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
-    role: varchar("role", { length: 32 }).notNull().default("owner"),
+    role: varchar("role", { length: 32 }).$type<ProjectMemberRole>().notNull().default("owner"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
   },
   (table) => ({
@@ -250,6 +348,44 @@ export const projectMembers = pgTable(
   })
 );
 
+export const projectInvitations = pgTable(
+  "project_invitations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    role: varchar("role", { length: 32 }).$type<ProjectMemberRole>().notNull(),
+    inviteeEmail: text("invitee_email"),
+    inviteeGithubLogin: text("invitee_github_login"),
+    inviteeGithubId: text("invitee_github_id"),
+    status: projectInvitationStatusEnum("status").notNull().default("pending"),
+    invitedByUserId: text("invited_by_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    respondedByUserId: text("responded_by_user_id").references(() => users.id, {
+      onDelete: "set null"
+    }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    respondedAt: timestamp("responded_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    projectStatusIdx: index("project_invitations_project_status_idx").on(
+      table.projectId,
+      table.status
+    ),
+    inviteeEmailIdx: index("project_invitations_invitee_email_idx").on(table.inviteeEmail),
+    inviteeGithubIdx: index("project_invitations_invitee_github_idx").on(table.inviteeGithubId),
+    pendingEmailUnique: uniqueIndex("project_invitations_pending_email_unique")
+      .on(table.projectId, table.inviteeEmail)
+      .where(sql`${table.status} = 'pending' and ${table.inviteeEmail} is not null`),
+    pendingGithubUnique: uniqueIndex("project_invitations_pending_github_unique")
+      .on(table.projectId, table.inviteeGithubId)
+      .where(sql`${table.status} = 'pending' and ${table.inviteeGithubId} is not null`)
+  })
+);
+
 export const uploads = pgTable(
   "uploads",
   {
@@ -392,8 +528,15 @@ export const auditRuns = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     profile: auditProfileEnum("profile").notNull().default("deep"),
+    mode: auditModeEnum("mode").notNull().default("full"),
     primaryModelId: text("primary_model_id").notNull(),
     fallbackModelId: text("fallback_model_id").notNull(),
+    passModels: jsonb("pass_models").$type<AuditPassModels>(),
+    consensusModelIds: jsonb("consensus_model_ids").$type<string[]>(),
+    budget: jsonb("budget").$type<AuditBudget>(),
+    tokenUsage: jsonb("token_usage").$type<AuditTokenUsage>(),
+    /** Null when any model that ran has no price configured. */
+    costUsd: doublePrecision("cost_usd"),
     engineVersion: text("engine_version").notNull().default("ton-audit-pro-v2"),
     reportSchemaVersion: integer("report_schema_version").notNull().default(2),
     reportJson: jsonb("report_json").$type<Record<string, unknown>>(),
@@ -511,6 +654,56 @@ export const findingTransitions = pgTable(
   })
 );
 
+export const findingTriages = pgTable(
+  "finding_triages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    findingId: uuid("finding_id")
+      .notNull()
+      .references(() => findings.id, { onDelete: "cascade" }),
+    status: findingTriageStatusEnum("status").notNull(),
+    justification: text("justification").notNull(),
+    authorUserId: text("author_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    findingUnique: unique("finding_triages_finding_unique").on(table.findingId),
+    statusIdx: index("finding_triages_status_idx").on(table.status)
+  })
+);
+
+export type FindingCommentEdit = {
+  body: string;
+  editedAt: string;
+};
+
+export const findingComments = pgTable(
+  "finding_comments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    findingId: uuid("finding_id")
+      .notNull()
+      .references(() => findings.id, { onDelete: "cascade" }),
+    authorUserId: text("author_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    body: text("body").notNull(),
+    editHistory: jsonb("edit_history").$type<FindingCommentEdit[]>().notNull().default([]),
+    editedAt: timestamp("edited_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    findingCreatedIdx: index("finding_comments_finding_created_idx").on(
+      table.findingId,
+      table.createdAt
+    )
+  })
+);
+
 export const docsSources = pgTable(
   "docs_sources",
   {
@@ -597,6 +790,139 @@ export const jobEvents = pgTable(
   })
 );
 
+/**
+ * Append-only record of user and admin actions for compliance. Ids are stored without foreign keys
+ * so entries survive deletion of the user, token or project they reference.
+ */
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    action: auditLogActionEnum("action").notNull(),
+    actorUserId: text("actor_user_id").notNull(),
+    actorApiTokenId: uuid("actor_api_token_id"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    projectId: uuid("project_id"),
+    targetType: varchar("target_type", { length: 64 }).notNull(),
+    targetId: text("target_id"),
+    summary: jsonb("summary").$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    createdAtIdx: index("audit_log_created_at_idx").on(table.createdAt),
+    actorCreatedAtIdx: index("audit_log_actor_created_at_idx").on(
+      table.actorUserId,
+      table.createdAt
+    ),
+    projectCreatedAtIdx: index("audit_log_project_created_at_idx").on(
+      table.projectId,
+      table.createdAt
+    ),
+    actionCreatedAtIdx: index("audit_log_action_created_at_idx").on(table.action, table.createdAt)
+  })
+);
+
+export const webhookSubscriptions = pgTable(
+  "webhook_subscriptions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(),
+    events: webhookEventTypeEnum("events").array().notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    createdByUserId: text("created_by_user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    projectIdx: index("webhook_subscriptions_project_idx").on(table.projectId)
+  })
+);
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    subscriptionId: uuid("subscription_id")
+      .notNull()
+      .references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+    projectId: uuid("project_id")
+      .notNull()
+      .references(() => projects.id, { onDelete: "cascade" }),
+    eventType: webhookEventTypeEnum("event_type").notNull(),
+    // Identifies the source event so a retried job never notifies the same subscription twice.
+    dedupeKey: text("dedupe_key").notNull(),
+    payloadJson: jsonb("payload_json").$type<Record<string, unknown>>().notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attemptCount: integer("attempt_count").notNull().default(0),
+    lastResponseStatus: integer("last_response_status"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    subscriptionDedupeUnique: unique("webhook_deliveries_subscription_dedupe_unique").on(
+      table.subscriptionId,
+      table.dedupeKey
+    ),
+    statusCreatedIdx: index("webhook_deliveries_status_created_idx").on(
+      table.status,
+      table.createdAt
+    )
+  })
+);
+
+export const webhookDeliveryAttempts = pgTable(
+  "webhook_delivery_attempts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    deliveryId: uuid("delivery_id")
+      .notNull()
+      .references(() => webhookDeliveries.id, { onDelete: "cascade" }),
+    attemptNumber: integer("attempt_number").notNull(),
+    responseStatus: integer("response_status"),
+    responseBody: text("response_body"),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    deliveryIdx: index("webhook_delivery_attempts_delivery_idx").on(
+      table.deliveryId,
+      table.createdAt
+    )
+  })
+);
+
+export const apiTokens = pgTable(
+  "api_tokens",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    tokenPrefix: text("token_prefix").notNull(),
+    tokenHash: text("token_hash").notNull(),
+    scopes: apiTokenScopeEnum("scopes").array().notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+  },
+  (table) => ({
+    tokenHashUnique: unique("api_tokens_token_hash_unique").on(table.tokenHash),
+    userIdx: index("api_tokens_user_idx").on(table.userId, table.createdAt)
+  })
+);
+
 export type User = typeof users.$inferSelect;
 export type Session = typeof sessions.$inferSelect;
 export type Project = typeof projects.$inferSelect;
@@ -608,8 +934,12 @@ export const dbSchema = {
   sessions,
   accounts,
   verifications,
+  organizations,
+  organizationMembers,
+  organizationSettings,
   projects,
   projectMembers,
+  projectInvitations,
   uploads,
   revisions,
   fileBlobs,
@@ -621,9 +951,16 @@ export const dbSchema = {
   findings,
   findingInstances,
   findingTransitions,
+  findingTriages,
+  findingComments,
   docsSources,
   docsChunks,
   pdfExports,
   systemSettings,
-  jobEvents
+  jobEvents,
+  auditLog,
+  webhookSubscriptions,
+  webhookDeliveries,
+  webhookDeliveryAttempts,
+  apiTokens
 };
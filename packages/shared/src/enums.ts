@@ -54,15 +54,80 @@ export type WorkingCopyStatus = z.infer<typeof workingCopyStatusSchema>;
 export const findingTransitionSchema = z.enum(["opened", "resolved", "regressed", "unchanged"]);
 export type FindingTransition = z.infer<typeof findingTransitionSchema>;
 
+export const findingTriageStatusSchema = z.enum([
+  "false_positive",
+  "accepted_risk",
+  "wont_fix",
+  "confirmed",
+  "internal_only"
+]);
+export type FindingTriageStatus = z.infer<typeof findingTriageStatusSchema>;
+
 export const pdfExportStatusSchema = z.enum(["queued", "running", "completed", "failed"]);
 export type PdfExportStatus = z.infer<typeof pdfExportStatusSchema>;
 
 export const pdfExportVariantSchema = z.enum(["client", "internal"]);
 export type PdfExportVariant = z.infer<typeof pdfExportVariantSchema>;
 
-export const auditProfileSchema = z.enum(["fast", "deep"]);
+export const auditProfileSchema = z.enum(["fast", "deep", "consensus"]);
 export type AuditProfile = z.infer<typeof auditProfileSchema>;
 
+export const auditModeSchema = z.enum(["full", "incremental"]);
+export type AuditMode = z.infer<typeof auditModeSchema>;
+
+export const auditPassSchema = z.enum(["discovery", "validation", "synthesis"]);
+export type AuditPass = z.infer<typeof auditPassSchema>;
+
+export const webhookEventTypeSchema = z.enum([
+  "audit.completed",
+  "audit.failed",
+  "pdf.ready",
+  "finding.opened",
+  "finding.resolved",
+  "finding.regressed"
+]);
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+export const webhookDeliveryStatusSchema = z.enum(["pending", "succeeded", "failed"]);
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+export const apiTokenScopeSchema = z.enum([
+  "projects:read",
+  "projects:write",
+  "audits:run",
+  "reports:read",
+  "admin"
+]);
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
+export const projectMemberRoleSchema = z.enum(["owner", "auditor", "developer", "viewer"]);
+export type ProjectMemberRole = z.infer<typeof projectMemberRoleSchema>;
+
+export const organizationRoleSchema = z.enum(["owner", "admin", "member"]);
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+
+export const projectInvitationStatusSchema = z.enum(["pending", "accepted", "declined", "revoked"]);
+export type ProjectInvitationStatus = z.infer<typeof projectInvitationStatusSchema>;
+
+export const auditLogActionSchema = z.enum([
+  "project.created",
+  "project.deleted",
+  "upload.completed",
+  "working_copy.file_saved",
+  "working_copy.path_deleted",
+  "working_copy.path_moved",
+  "audit.requested",
+  "audit.cancelled",
+  "pdf.export_requested",
+  "report_branding.updated",
+  "llm_providers.updated",
+  "organization_settings.updated",
+  "project.budget_updated",
+  "project.transferred",
+  "dead_letter.replayed"
+]);
+export type AuditLogAction = z.infer<typeof auditLogActionSchema>;
+
 export const jobStepSchema = z.enum([
   "ingest",
   "verify",
@@ -71,6 +136,7 @@ export const jobStepSchema = z.enum([
   "pdf",
   "docs-crawl",
   "docs-index",
-  "cleanup"
+  "cleanup",
+  "webhook-delivery"
 ]);
 export type JobStep = z.infer<typeof jobStepSchema>;
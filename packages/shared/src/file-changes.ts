@@ -0,0 +1,71 @@
+export type FileChangeStatus = "added" | "removed" | "modified";
+
+export type FileChangeSet = {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  unchanged: string[];
+};
+
+type FingerprintedFile = {
+  path: string;
+  sha256: string;
+};
+
+/** Classifies paths between two file sets by comparing content hashes. */
+export function classifyFileChanges(
+  baseFiles: FingerprintedFile[],
+  currentFiles: FingerprintedFile[]
+): FileChangeSet {
+  const baseByPath = new Map(baseFiles.map((file) => [file.path, file.sha256]));
+  const currentPaths = new Set(currentFiles.map((file) => file.path));
+  const changes: FileChangeSet = { added: [], removed: [], modified: [], unchanged: [] };
+
+  for (const file of currentFiles) {
+    const baseSha = baseByPath.get(file.path);
+    if (baseSha === undefined) {
+      changes.added.push(file.path);
+    } else if (baseSha === file.sha256) {
+      changes.unchanged.push(file.path);
+    } else {
+      changes.modified.push(file.path);
+    }
+  }
+
+  for (const file of baseFiles) {
+    if (!currentPaths.has(file.path)) {
+      changes.removed.push(file.path);
+    }
+  }
+
+  changes.added.sort();
+  changes.removed.sort();
+  changes.modified.sort();
+  changes.unchanged.sort();
+  return changes;
+}
+
+const DESCRIBED_PATH_LIMIT = 5;
+
+/**
+ * One-line summary such as "2 modified, 1 added: a.tolk, b.tolk, c.tolk", used as the snapshot
+ * revision description and in the run-audit confirmation.
+ */
+export function describeFileChanges(changes: Omit<FileChangeSet, "unchanged">) {
+  const counts = [
+    changes.modified.length ? `${changes.modified.length} modified` : null,
+    changes.added.length ? `${changes.added.length} added` : null,
+    changes.removed.length ? `${changes.removed.length} removed` : null
+  ].filter((entry): entry is string => entry !== null);
+
+  if (!counts.length) {
+    return "No file changes";
+  }
+
+  const paths = [...changes.modified, ...changes.added, ...changes.removed];
+  const listed = paths.slice(0, DESCRIBED_PATH_LIMIT).join(", ");
+  const more =
+    paths.length > DESCRIBED_PATH_LIMIT ? ` (+${paths.length - DESCRIBED_PATH_LIMIT} more)` : "";
+
+  return `${counts.join(", ")}: ${listed}${more}`;
+}
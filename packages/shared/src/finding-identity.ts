@@ -0,0 +1,265 @@
+import { createHash } from "node:crypto";
+
+import { normalizePath } from "./utils";
+
+export type FindingIdentity = {
+  filePath: string;
+  title: string;
+  snippet: string;
+  enclosingScope?: string | null;
+};
+
+export type FindingIdentityMatch = {
+  previousIndex: number;
+  currentIndex: number;
+  score: number;
+};
+
+// Findings whose titles share less than this are never treated as the same issue.
+const MIN_TITLE_SIMILARITY = 0.3;
+const MIN_MATCH_SCORE = 0.6;
+
+const titleStopWords = new Set([
+  "a",
+  "an",
+  "and",
+  "be",
+  "can",
+  "for",
+  "in",
+  "is",
+  "may",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "via",
+  "with"
+]);
+
+const controlFlowKeywords = new Set([
+  "do",
+  "else",
+  "elseif",
+  "if",
+  "ifnot",
+  "repeat",
+  "return",
+  "throw",
+  "throw_if",
+  "throw_unless",
+  "until",
+  "while"
+]);
+
+const handlerDeclarationPattern =
+  /^\s*(receive|bounced|external)\s*\(\s*(?:"([^"]*)"|\w+\s*:\s*(\w+))?\s*\)/;
+const initDeclarationPattern = /^\s*init\s*\(/;
+const funDeclarationPattern = /^\s*(?:(?:get|inline|virtual|override|abstract|mutates|extends)\s+)*fun\s+([A-Za-z_][\w.]*)\s*[<(]/;
+const funcDeclarationPattern = /^\s*(?:\([^)]*\)|[A-Za-z_]\w*)\s+([A-Za-z_][\w'?!~.]*)\s*\(/;
+
+function tokenize(value: string) {
+  return value.toLowerCase().match(/[a-z0-9_]+/g) ?? [];
+}
+
+function diceCoefficient(left: Set<string>, right: Set<string>) {
+  if (!left.size && !right.size) {
+    return 1;
+  }
+  if (!left.size || !right.size) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      shared += 1;
+    }
+  }
+
+  return (2 * shared) / (left.size + right.size);
+}
+
+function titleTokens(title: string) {
+  return tokenize(title).filter((token) => !titleStopWords.has(token));
+}
+
+function normalizeIdentityPath(filePath: string) {
+  return normalizePath(filePath).toLowerCase();
+}
+
+export function normalizeFindingTitle(title: string) {
+  return titleTokens(title).join(" ");
+}
+
+/** Share of title words two findings have in common, from 0 (none) to 1 (same words). */
+export function scoreFindingTitleSimilarity(left: string, right: string) {
+  return diceCoefficient(new Set(titleTokens(left)), new Set(titleTokens(right)));
+}
+
+/**
+ * Strips comments, line-number prefixes and whitespace differences so the same code excerpt
+ * compares equal regardless of where it sits in the file or how the model quoted it.
+ */
+export function normalizeFindingSnippet(snippet: string) {
+  return snippet
+    .replace(/\/\*[\s\S]*?\*\//g, " ")
+    .replace(/\{-[\s\S]*?-\}/g, " ")
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/^\s*\d+\s*[:|]\s?/, "")
+        .replace(/(?:\/\/|;;).*$/, "")
+        .trim()
+    )
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+function describeDeclaration(line: string) {
+  const handler = line.match(handlerDeclarationPattern);
+  if (handler) {
+    const argument = handler[2] ?? handler[3];
+    return argument !== undefined ? `${handler[1]}(${argument})` : `${handler[1]}()`;
+  }
+
+  if (initDeclarationPattern.test(line)) {
+    return "init()";
+  }
+
+  const fun = line.match(funDeclarationPattern);
+  if (fun) {
+    return fun[1]!;
+  }
+
+  if (line.trimEnd().endsWith(";")) {
+    return null;
+  }
+
+  const funcDeclaration = line.match(funcDeclarationPattern);
+  if (funcDeclaration) {
+    const leading = line.trim().split(/[\s(]/, 1)[0]!;
+    if (!controlFlowKeywords.has(leading) && !controlFlowKeywords.has(funcDeclaration[1]!)) {
+      return funcDeclaration[1]!;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the name of the function or message handler that contains `line` (1-based), or null
+ * when the line sits at top level. Works on Tolk, FunC and Tact declaration shapes.
+ */
+export function findEnclosingScope(content: string, line: number) {
+  const lines = content.split(/\r?\n/);
+
+  for (let index = Math.min(line, lines.length) - 1; index >= 0; index -= 1) {
+    const current = lines[index]!;
+    const declaration = describeDeclaration(current);
+    if (declaration) {
+      return declaration;
+    }
+
+    if (index < line - 1 && /^}/.test(current)) {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fingerprints a finding without line numbers or severity, so code that only moved, or a
+ * severity that was re-rated, keeps the same identity.
+ */
+export function createFindingFingerprint(params: {
+  title: string;
+  filePath: string;
+  snippet: string;
+  enclosingScope?: string | null;
+}): string {
+  const canonical = [
+    "v2",
+    normalizeIdentityPath(params.filePath),
+    params.enclosingScope?.trim() ?? "",
+    normalizeFindingSnippet(params.snippet),
+    normalizeFindingTitle(params.title)
+  ].join("::");
+
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+export function scoreFindingIdentityMatch(previous: FindingIdentity, current: FindingIdentity) {
+  if (normalizeIdentityPath(previous.filePath) !== normalizeIdentityPath(current.filePath)) {
+    return 0;
+  }
+
+  const titleScore = scoreFindingTitleSimilarity(previous.title, current.title);
+  if (titleScore < MIN_TITLE_SIMILARITY) {
+    return 0;
+  }
+
+  const previousSnippet = normalizeFindingSnippet(previous.snippet);
+  const currentSnippet = normalizeFindingSnippet(current.snippet);
+  const snippetScore =
+    previousSnippet === currentSnippet
+      ? 1
+      : diceCoefficient(new Set(tokenize(previousSnippet)), new Set(tokenize(currentSnippet)));
+
+  // Unknown scopes (legacy payloads, top-level code) neither confirm nor rule out a match.
+  const scopeScore =
+    previous.enclosingScope && current.enclosingScope
+      ? previous.enclosingScope === current.enclosingScope
+        ? 1
+        : 0
+      : 0.5;
+
+  return Number((snippetScore * 0.4 + scopeScore * 0.25 + titleScore * 0.35).toFixed(4));
+}
+
+/**
+ * Pairs current findings with previous ones one-to-one, best score first. Findings without a
+ * pair scoring at least the match threshold are left unmatched.
+ */
+export function matchFindingIdentities(
+  previous: FindingIdentity[],
+  current: FindingIdentity[]
+): FindingIdentityMatch[] {
+  const candidates: FindingIdentityMatch[] = [];
+
+  for (let currentIndex = 0; currentIndex < current.length; currentIndex += 1) {
+    for (let previousIndex = 0; previousIndex < previous.length; previousIndex += 1) {
+      const score = scoreFindingIdentityMatch(previous[previousIndex]!, current[currentIndex]!);
+      if (score >= MIN_MATCH_SCORE) {
+        candidates.push({ previousIndex, currentIndex, score });
+      }
+    }
+  }
+
+  candidates.sort(
+    (left, right) =>
+      right.score - left.score ||
+      left.currentIndex - right.currentIndex ||
+      left.previousIndex - right.previousIndex
+  );
+
+  const usedPrevious = new Set<number>();
+  const usedCurrent = new Set<number>();
+  const matches: FindingIdentityMatch[] = [];
+
+  for (const candidate of candidates) {
+    if (usedPrevious.has(candidate.previousIndex) || usedCurrent.has(candidate.currentIndex)) {
+      continue;
+    }
+
+    usedPrevious.add(candidate.previousIndex);
+    usedCurrent.add(candidate.currentIndex);
+    matches.push(candidate);
+  }
+
+  return matches.sort((left, right) => left.currentIndex - right.currentIndex);
+}
@@ -1,6 +1,17 @@
+export * from "./audit-log";
 export * from "./constants";
 export * from "./db-schema";
 export * from "./enums";
+export * from "./file-changes";
+export * from "./finding-identity";
 export * from "./jobs";
+export * from "./network-address";
+export * from "./organization-access";
+export * from "./project-access";
 export * from "./report";
+export * from "./report-render";
+export * from "./sarif";
+export * from "./text-diff";
 export * from "./utils";
+export * from "./webhooks";
+export * from "./zip";
@@ -1,6 +1,6 @@
 import { z } from "zod";
 
-import { auditProfileSchema, pdfExportVariantSchema } from "./enums";
+import { auditModeSchema, auditProfileSchema, pdfExportVariantSchema } from "./enums";
 
 export const ingestJobPayloadSchema = z.object({
   projectId: z.string().uuid(),
@@ -14,6 +14,7 @@ export const verifyJobPayloadSchema = z.object({
   revisionId: z.string().uuid(),
   auditRunId: z.string().uuid(),
   profile: auditProfileSchema.default("deep"),
+  mode: auditModeSchema.default("full"),
   includeDocsFallbackFetch: z.boolean().default(true)
 });
 
@@ -22,6 +23,7 @@ export const auditJobPayloadSchema = z.object({
   revisionId: z.string().uuid(),
   auditRunId: z.string().uuid(),
   profile: auditProfileSchema.default("deep"),
+  mode: auditModeSchema.default("full"),
   includeDocsFallbackFetch: z.boolean().default(true)
 });
 
@@ -50,6 +52,11 @@ export const cleanupJobPayloadSchema = z.object({
   dryRun: z.boolean().optional()
 });
 
+export const webhookDeliveryJobPayloadSchema = z.object({
+  projectId: z.string().uuid(),
+  deliveryId: z.string().uuid()
+});
+
 export const jobPayloadSchemas = {
   ingest: ingestJobPayloadSchema,
   verify: verifyJobPayloadSchema,
@@ -58,7 +65,8 @@ export const jobPayloadSchemas = {
   pdf: pdfJobPayloadSchema,
   "docs-crawl": docsCrawlJobPayloadSchema,
   "docs-index": docsIndexJobPayloadSchema,
-  cleanup: cleanupJobPayloadSchema
+  cleanup: cleanupJobPayloadSchema,
+  "webhook-delivery": webhookDeliveryJobPayloadSchema
 } as const;
 
 export type JobPayloadMap = {
@@ -70,4 +78,5 @@ export type JobPayloadMap = {
   "docs-crawl": z.infer<typeof docsCrawlJobPayloadSchema>;
   "docs-index": z.infer<typeof docsIndexJobPayloadSchema>;
   cleanup: z.infer<typeof cleanupJobPayloadSchema>;
+  "webhook-delivery": z.infer<typeof webhookDeliveryJobPayloadSchema>;
 };
@@ -0,0 +1,132 @@
+function parseIpv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+/** Expands an IPv6 address (optionally with a dotted IPv4 tail) into its eight 16-bit groups. */
+function parseIpv6(value: string): number[] | null {
+  let address = value.toLowerCase().split("%")[0] ?? "";
+  const tailStart = address.lastIndexOf(":") + 1;
+  const tail = address.slice(tailStart);
+  if (tail.includes(".")) {
+    const octets = parseIpv4(tail);
+    if (!octets || tailStart === 0) {
+      return null;
+    }
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    address = `${address.slice(0, tailStart)}${high}:${low}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  return groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))
+    ? groups.map((group) => parseInt(group, 16))
+    : null;
+}
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata), benchmarking, multicast and
+// reserved IPv4 ranges.
+const PRIVATE_IPV4_RANGES: Array<[number, number, number, number, number]> = [
+  [0, 0, 0, 0, 8],
+  [10, 0, 0, 0, 8],
+  [100, 64, 0, 0, 10],
+  [127, 0, 0, 0, 8],
+  [169, 254, 0, 0, 16],
+  [172, 16, 0, 0, 12],
+  [192, 0, 0, 0, 24],
+  [192, 168, 0, 0, 16],
+  [198, 18, 0, 0, 15],
+  [224, 0, 0, 0, 4],
+  [240, 0, 0, 0, 4]
+];
+
+function toIpv4Number(octets: number[]) {
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0;
+}
+
+function isPrivateIpv4(octets: number[]) {
+  const value = toIpv4Number(octets);
+  return PRIVATE_IPV4_RANGES.some(([a, b, c, d, prefix]) => {
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+    return ((value & mask) >>> 0) === ((toIpv4Number([a, b, c, d]) & mask) >>> 0);
+  });
+}
+
+function isPrivateIpv6(groups: number[]) {
+  const embeddedIpv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+
+  // Unspecified, loopback and deprecated IPv4-compatible addresses.
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return true;
+  }
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) reach the embedded IPv4 address.
+  if (
+    (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0xffff) ||
+    (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0)
+  ) {
+    return isPrivateIpv4(embeddedIpv4(g6, g7));
+  }
+  // 6to4 (2002::/16) embeds an IPv4 address in the next 32 bits.
+  if (g0 === 0x2002) {
+    return isPrivateIpv4(embeddedIpv4(g1, g2));
+  }
+
+  return (
+    (g0 & 0xfe00) === 0xfc00 || // unique local
+    (g0 & 0xffc0) === 0xfe80 || // link-local
+    (g0 & 0xff00) === 0xff00 // multicast
+  );
+}
+
+/** True for IP literals in loopback, private, link-local or otherwise non-public ranges. */
+export function isPrivateNetworkAddress(address: string) {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+
+  const ipv6 = address.includes(":") ? parseIpv6(address) : null;
+  return ipv6 ? isPrivateIpv6(ipv6) : false;
+}
+
+/**
+ * True when a URL hostname points inside the deployment: private IP literals, `localhost`, and
+ * single-label or `.internal`/`.local` names such as Docker service names or cloud metadata hosts.
+ */
+export function isInternalHostname(hostname: string) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  const ipv4 = parseIpv4(host);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+  if (host.includes(":")) {
+    // Unparseable IPv6 literals are rejected rather than guessed at.
+    const ipv6 = parseIpv6(host);
+    return ipv6 ? isPrivateIpv6(ipv6) : true;
+  }
+
+  return (
+    !host.includes(".") ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal") ||
+    host.endsWith(".local")
+  );
+}
@@ -0,0 +1,27 @@
+import type { OrganizationRole, ProjectMemberRole } from "./enums";
+
+export type OrganizationPermission = "read" | "create-project" | "manage";
+
+const organizationRolePermissions: Record<OrganizationRole, readonly OrganizationPermission[]> = {
+  owner: ["read", "create-project", "manage"],
+  admin: ["read", "create-project", "manage"],
+  member: ["read", "create-project"]
+};
+
+// Role an organization member gets on every project the organization owns.
+const organizationProjectRoles: Record<OrganizationRole, ProjectMemberRole> = {
+  owner: "owner",
+  admin: "owner",
+  member: "developer"
+};
+
+export function hasOrganizationPermission(
+  role: OrganizationRole,
+  permission: OrganizationPermission
+) {
+  return organizationRolePermissions[role].includes(permission);
+}
+
+export function toOrganizationProjectRole(role: OrganizationRole): ProjectMemberRole {
+  return organizationProjectRoles[role];
+}
@@ -0,0 +1,33 @@
+import type { ProjectMemberRole } from "./enums";
+
+export type ProjectPermission = "read" | "comment" | "write" | "run-audit" | "triage" | "manage";
+
+const projectRolePermissions: Record<ProjectMemberRole, readonly ProjectPermission[]> = {
+  owner: ["read", "comment", "write", "run-audit", "triage", "manage"],
+  auditor: ["read", "comment", "write", "run-audit", "triage"],
+  developer: ["read", "comment", "write", "run-audit"],
+  viewer: ["read"]
+};
+
+export function hasProjectPermission(role: ProjectMemberRole, permission: ProjectPermission) {
+  return projectRolePermissions[role].includes(permission);
+}
+
+const projectRoleRank: Record<ProjectMemberRole, number> = {
+  viewer: 0,
+  developer: 1,
+  auditor: 2,
+  owner: 3
+};
+
+/** Picks the most privileged of the roles a user holds on a project through different grants. */
+export function highestProjectRole(roles: Array<ProjectMemberRole | null | undefined>) {
+  let highest: ProjectMemberRole | null = null;
+  for (const role of roles) {
+    if (role && (!highest || projectRoleRank[role] > projectRoleRank[highest])) {
+      highest = role;
+    }
+  }
+
+  return highest;
+}
@@ -1,12 +1,27 @@
 import { z } from "zod";
 
 import { auditFindingSchema } from "./constants";
-import { auditProfileSchema } from "./enums";
+import { auditModeSchema, auditProfileSchema } from "./enums";
+
+const reportPassModelSchema = z.object({
+  used: z.string().min(1).nullable().default(null),
+  primary: z.string().min(1),
+  fallback: z.string().min(1)
+});
 
 const reportModelSchema = z.object({
   used: z.string().min(1).optional(),
   primary: z.string().min(1),
-  fallback: z.string().min(1)
+  fallback: z.string().min(1),
+  passes: z
+    .object({
+      discovery: reportPassModelSchema,
+      validation: reportPassModelSchema,
+      synthesis: reportPassModelSchema
+    })
+    .optional(),
+  /** Models that ran independent discovery passes in a consensus audit. */
+  consensusModels: z.array(z.string().min(1)).optional()
 });
 
 const reportSummarySchema = z.object({
@@ -22,6 +37,26 @@ const reportAppendixSchema = z.object({
   internalNotes: z.array(z.string()).default([])
 });
 
+const reportLineRangeSchema = z.object({
+  startLine: z.number().int().positive(),
+  endLine: z.number().int().positive()
+});
+
+const reportIncrementalScopeSchema = z.object({
+  parentRevisionId: z.string().uuid(),
+  baselineAuditId: z.string().uuid().nullable().default(null),
+  changedFiles: z.array(
+    z.object({
+      path: z.string().min(1),
+      status: z.enum(["added", "modified"]),
+      changedLineRanges: z.array(reportLineRangeSchema).default([])
+    })
+  ),
+  removedFiles: z.array(z.string().min(1)).default([]),
+  neighbourFiles: z.array(z.string().min(1)).default([]),
+  carriedForwardFindingIds: z.array(z.string().min(1)).default([])
+});
+
 export const auditReportV1Schema = z.object({
   auditId: z.string().uuid(),
   projectId: z.string().uuid(),
@@ -45,6 +80,8 @@ export const auditReportSchema = z.object({
   revisionId: z.string().uuid(),
   generatedAt: z.string(),
   profile: auditProfileSchema.default("deep"),
+  mode: auditModeSchema.default("full"),
+  incrementalScope: reportIncrementalScopeSchema.optional(),
   model: reportModelSchema,
   executiveSummary: z.object({
     overview: z.string().min(1),
@@ -88,7 +125,16 @@ export const auditReportSchema = z.object({
     steps: z.number().int().nonnegative(),
     totalToolCalls: z.number().int().nonnegative(),
     totalTokens: z.number().int().nonnegative().default(0),
-    usedFallback: z.boolean().default(false)
+    usedFallback: z.boolean().default(false),
+    costUsd: z.number().nonnegative().nullable().optional(),
+    budget: z
+      .object({
+        maxTokens: z.number().int().positive().optional(),
+        maxCostUsd: z.number().positive().optional(),
+        /** Pass that was running when the budget ran out; null when it never did. */
+        exhaustedDuring: z.string().min(1).nullable().default(null)
+      })
+      .optional()
   }),
   summary: reportSummarySchema,
   appendix: reportAppendixSchema
@@ -96,6 +142,7 @@ export const auditReportSchema = z.object({
 
 type AuditReportV1 = z.infer<typeof auditReportV1Schema>;
 export type AuditReport = z.infer<typeof auditReportSchema>;
+export type AuditReportIncrementalScope = z.infer<typeof reportIncrementalScopeSchema>;
 
 function toOverallRisk(severityTotals: Record<string, number>) {
   if ((severityTotals.critical ?? 0) > 0) {
@@ -188,6 +235,7 @@ function normalizeLegacyReport(legacy: AuditReportV1): AuditReport {
     revisionId: legacy.revisionId,
     generatedAt: legacy.generatedAt,
     profile: "deep",
+    mode: "full",
     model: legacy.model,
     executiveSummary: {
       overview: legacy.summary.overview,
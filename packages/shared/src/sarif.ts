@@ -0,0 +1,350 @@
+import type { AuditFinding } from "./constants";
+import type { FindingTransition, FindingTriageStatus, Severity } from "./enums";
+import { normalizePath } from "./utils";
+
+export const SARIF_VERSION = "2.1.0";
+export const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+export const SARIF_FINGERPRINT_KEY = "tonAuditStableFingerprint/v1";
+
+const SARIF_TOOL_NAME = "ton-audit";
+const UNCATEGORIZED_RULE_ID = "ton-audit/uncategorized";
+
+export type SarifBaselineState = "new" | "unchanged" | "updated" | "absent";
+export type SarifLevel = "none" | "note" | "warning" | "error";
+
+type SarifMessage = {
+  text: string;
+  markdown?: string;
+};
+
+export type SarifReportingDescriptor = {
+  id: string;
+  name?: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: {
+    level: SarifLevel;
+  };
+  properties: {
+    tags: string[];
+    "security-severity"?: string;
+  };
+};
+
+export type SarifResult = {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: {
+        uri: string;
+        uriBaseId: string;
+      };
+      region: {
+        startLine: number;
+        endLine: number;
+        snippet?: {
+          text: string;
+        };
+      };
+    };
+    logicalLocations?: Array<{
+      name: string;
+      kind: string;
+    }>;
+  }>;
+  partialFingerprints: Record<string, string>;
+  baselineState?: SarifBaselineState;
+  suppressions?: Array<{
+    kind: "external";
+    status: "accepted";
+    justification: string;
+  }>;
+  properties: Record<string, unknown>;
+};
+
+export type SarifLog = {
+  $schema: string;
+  version: typeof SARIF_VERSION;
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri?: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    automationDetails: {
+      id: string;
+    };
+    originalUriBaseIds: Record<string, { description: SarifMessage }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }>;
+};
+
+export type SarifFindingInput = {
+  finding: AuditFinding;
+  stableFingerprint: string;
+  /** Transition into this audit run; null when there was no earlier run to compare against. */
+  transition: FindingTransition | null;
+  triage?: {
+    status: FindingTriageStatus;
+    justification: string;
+  } | null;
+};
+
+// Taxonomy standards in the order their ids are preferred as SARIF rule ids.
+const ruleStandardPriority: Array<AuditFinding["taxonomy"][number]["standard"]> = [
+  "cwe",
+  "swc",
+  "owasp-sc"
+];
+
+const severityLevels: Record<Severity, SarifLevel> = {
+  critical: "error",
+  high: "error",
+  medium: "warning",
+  low: "note",
+  informational: "note"
+};
+
+const severityRank: Record<Severity, number> = {
+  critical: 4,
+  high: 3,
+  medium: 2,
+  low: 1,
+  informational: 0
+};
+
+// Fallback scores for the `security-severity` property when a finding has no CVSS vector.
+const severityScores: Record<Severity, number> = {
+  critical: 9.5,
+  high: 8,
+  medium: 5.5,
+  low: 2,
+  informational: 0
+};
+
+function toBaselineState(transition: FindingTransition | null): SarifBaselineState | undefined {
+  if (!transition) {
+    return undefined;
+  }
+
+  if (transition === "unchanged") {
+    return "unchanged";
+  }
+
+  if (transition === "resolved") {
+    return "absent";
+  }
+
+  return "new";
+}
+
+function selectRuleTaxonomy(finding: AuditFinding) {
+  for (const standard of ruleStandardPriority) {
+    const reference = finding.taxonomy.find((entry) => entry.standard === standard);
+    if (reference) {
+      return reference;
+    }
+  }
+
+  return null;
+}
+
+function toRuleId(reference: AuditFinding["taxonomy"][number]) {
+  return `${reference.standard}/${reference.id.trim()}`;
+}
+
+function toArtifactUri(filePath: string) {
+  return normalizePath(filePath)
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+}
+
+function buildResultMarkdown(finding: AuditFinding) {
+  return [
+    `**${finding.title}**`,
+    finding.summary,
+    `**Impact:** ${finding.impact}`,
+    `**Remediation:** ${finding.remediation}`
+  ].join("\n\n");
+}
+
+/**
+ * Builds a SARIF 2.1.0 log for one audit run. Rules come from each finding's taxonomy (CWE first,
+ * then SWC, then OWASP SC), and results carry the stable finding fingerprint so code-scanning tools
+ * keep alerts linked across audits.
+ */
+export function buildSarifLog(params: {
+  auditRunId: string;
+  projectId: string;
+  revisionId: string;
+  engineVersion: string;
+  findings: SarifFindingInput[];
+}): SarifLog {
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexById = new Map<string, number>();
+  const ruleSeverity = new Map<string, { severity: Severity; score: number }>();
+  const results: SarifResult[] = [];
+
+  for (const input of params.findings) {
+    const { finding } = input;
+    const ruleTaxonomy = selectRuleTaxonomy(finding);
+    const ruleId = ruleTaxonomy ? toRuleId(ruleTaxonomy) : UNCATEGORIZED_RULE_ID;
+
+    let ruleIndex = ruleIndexById.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexById.set(ruleId, ruleIndex);
+      rules.push({
+        id: ruleId,
+        ...(ruleTaxonomy ? { name: ruleTaxonomy.id } : {}),
+        shortDescription: {
+          text: ruleTaxonomy?.title ?? ruleTaxonomy?.id ?? "Uncategorized finding"
+        },
+        ...(ruleTaxonomy?.title
+          ? { fullDescription: { text: `${ruleTaxonomy.id}: ${ruleTaxonomy.title}` } }
+          : {}),
+        ...(ruleTaxonomy?.url ? { helpUri: ruleTaxonomy.url } : {}),
+        defaultConfiguration: {
+          level: severityLevels[finding.severity]
+        },
+        properties: {
+          tags: ["security"]
+        }
+      });
+    }
+
+    const rule = rules[ruleIndex]!;
+    for (const reference of finding.taxonomy) {
+      const tag = `${reference.standard}/${reference.id}`;
+      if (!rule.properties.tags.includes(tag)) {
+        rule.properties.tags.push(tag);
+      }
+    }
+
+    // Rules take the worst severity among their results, as code-scanning UIs rank by the rule.
+    const score = finding.cvssV31?.baseScore ?? severityScores[finding.severity];
+    const current = ruleSeverity.get(ruleId);
+    const severity =
+      current && severityRank[current.severity] >= severityRank[finding.severity]
+        ? current.severity
+        : finding.severity;
+    const ruleScore = Math.max(score, current?.score ?? 0);
+    ruleSeverity.set(ruleId, { severity, score: ruleScore });
+    rule.defaultConfiguration.level = severityLevels[severity];
+    rule.properties["security-severity"] = ruleScore.toFixed(1);
+
+    const baselineState = toBaselineState(input.transition);
+    // Reviewer-dismissed findings stay in the log as suppressed results instead of disappearing.
+    // Internal-only findings are still real issues, so they are reported unsuppressed.
+    const suppression =
+      input.triage && input.triage.status !== "confirmed" && input.triage.status !== "internal_only"
+        ? input.triage
+        : null;
+
+    results.push({
+      ruleId,
+      ruleIndex,
+      level: severityLevels[finding.severity],
+      message: {
+        text: `${finding.title}: ${finding.summary}`,
+        markdown: buildResultMarkdown(finding)
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: toArtifactUri(finding.evidence.filePath),
+              uriBaseId: "SRCROOT"
+            },
+            region: {
+              startLine: finding.evidence.startLine,
+              endLine: Math.max(finding.evidence.startLine, finding.evidence.endLine),
+              snippet: {
+                text: finding.evidence.snippet
+              }
+            }
+          },
+          ...(finding.evidence.enclosingScope
+            ? {
+                logicalLocations: [
+                  {
+                    name: finding.evidence.enclosingScope,
+                    kind: "function"
+                  }
+                ]
+              }
+            : {})
+        }
+      ],
+      partialFingerprints: {
+        [SARIF_FINGERPRINT_KEY]: input.stableFingerprint
+      },
+      ...(baselineState ? { baselineState } : {}),
+      ...(suppression
+        ? {
+            suppressions: [
+              {
+                kind: "external" as const,
+                status: "accepted" as const,
+                justification: `${suppression.status}: ${suppression.justification}`
+              }
+            ]
+          }
+        : {}),
+      properties: {
+        severity: finding.severity,
+        confidence: finding.confidence,
+        fixPriority: finding.fixPriority,
+        remediation: finding.remediation,
+        ...(finding.cvssV31
+          ? {
+              cvssV31Vector: finding.cvssV31.vector,
+              cvssV31BaseScore: finding.cvssV31.baseScore
+            }
+          : {}),
+        ...(finding.references.length ? { references: finding.references } : {})
+      }
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: SARIF_TOOL_NAME,
+            version: params.engineVersion,
+            rules
+          }
+        },
+        automationDetails: {
+          id: `${SARIF_TOOL_NAME}/${params.auditRunId}`
+        },
+        originalUriBaseIds: {
+          SRCROOT: {
+            description: {
+              text: "Root of the audited project revision."
+            }
+          }
+        },
+        results,
+        properties: {
+          projectId: params.projectId,
+          revisionId: params.revisionId,
+          auditRunId: params.auditRunId
+        }
+      }
+    ]
+  };
+}
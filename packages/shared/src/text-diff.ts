@@ -0,0 +1,254 @@
+import { FILE_DIFF_MAX_CHARACTERS, FILE_DIFF_MAX_EDIT_DISTANCE } from "./constants";
+
+export type LineDiffOp = {
+  type: "equal" | "insert" | "delete";
+  line: string;
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk body lines prefixed with " ", "+" or "-", as in a unified diff. */
+  lines: string[];
+};
+
+export type FilePatch = {
+  hunks: DiffHunk[];
+  linesAdded: number;
+  linesRemoved: number;
+  /** Unified diff text, or null when the file is too large or too different to diff. */
+  patch: string | null;
+  truncated: boolean;
+};
+
+/** Splits text into lines, ignoring the empty string after a trailing newline. */
+export function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Myers line diff. Returns null when more than `maxEditDistance` lines change, which keeps the
+ * quadratic backtracking state bounded for rewrites of large files.
+ */
+export function diffLines(
+  before: string[],
+  after: string[],
+  maxEditDistance = FILE_DIFF_MAX_EDIT_DISTANCE
+): LineDiffOp[] | null {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix += 1;
+  }
+
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > prefix && afterEnd > prefix && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd -= 1;
+    afterEnd -= 1;
+  }
+
+  const a = before.slice(prefix, beforeEnd);
+  const b = after.slice(prefix, afterEnd);
+  const maxDistance = Math.min(a.length + b.length, maxEditDistance);
+  const offset = maxDistance + 1;
+  const frontier = new Int32Array(2 * maxDistance + 3);
+  const trace: Int32Array[] = [];
+  let distance = -1;
+
+  search: for (let d = 0; d <= maxDistance; d += 1) {
+    trace.push(frontier.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && frontier[offset + k - 1]! < frontier[offset + k + 1]!)
+          ? frontier[offset + k + 1]!
+          : frontier[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      frontier[offset + k] = x;
+
+      if (x >= a.length && y >= b.length) {
+        distance = d;
+        break search;
+      }
+    }
+  }
+
+  if (distance < 0) {
+    return null;
+  }
+
+  const middle: LineDiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = distance; d > 0; d -= 1) {
+    const previous = trace[d]!;
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && previous[k - 1 + d]! < previous[k + 1 + d]!) ? k + 1 : k - 1;
+    const previousX = previous[previousK + d]!;
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      middle.push({ type: "equal", line: a[x - 1]! });
+      x -= 1;
+      y -= 1;
+    }
+
+    if (previousK === k + 1) {
+      middle.push({ type: "insert", line: b[y - 1]! });
+    } else {
+      middle.push({ type: "delete", line: a[x - 1]! });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    middle.push({ type: "equal", line: a[x - 1]! });
+    x -= 1;
+    y -= 1;
+  }
+  middle.reverse();
+
+  return [
+    ...before.slice(0, prefix).map((line) => ({ type: "equal" as const, line })),
+    ...middle,
+    ...before.slice(beforeEnd).map((line) => ({ type: "equal" as const, line }))
+  ];
+}
+
+/** Groups diff operations into unified-diff hunks with `context` unchanged lines around each change. */
+export function buildDiffHunks(ops: LineDiffOp[], context = 3): DiffHunk[] {
+  const changeIndexes: number[] = [];
+  ops.forEach((op, index) => {
+    if (op.type !== "equal") {
+      changeIndexes.push(index);
+    }
+  });
+  if (!changeIndexes.length) {
+    return [];
+  }
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const oldLinesBefore: number[] = [];
+  const newLinesBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops) {
+    oldLinesBefore.push(oldCount);
+    newLinesBefore.push(newCount);
+    if (op.type !== "insert") {
+      oldCount += 1;
+    }
+    if (op.type !== "delete") {
+      newCount += 1;
+    }
+  }
+
+  return ranges.map(({ start, end }) => {
+    const hunkOps = ops.slice(start, end);
+    const oldLines = hunkOps.filter((op) => op.type !== "insert").length;
+    const newLines = hunkOps.filter((op) => op.type !== "delete").length;
+    const oldBefore = oldLinesBefore[start]!;
+    const newBefore = newLinesBefore[start]!;
+
+    return {
+      oldStart: oldLines ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkOps.map(
+        (op) => `${op.type === "insert" ? "+" : op.type === "delete" ? "-" : " "}${op.line}`
+      )
+    };
+  });
+}
+
+/**
+ * Index of the first hunk whose new-side line range overlaps `startLine`..`endLine`, or -1. A
+ * deletion-only hunk covers the line it was removed after.
+ */
+export function findHunkTouchingLines(hunks: DiffHunk[], startLine: number, endLine = startLine) {
+  return hunks.findIndex((hunk) => {
+    const hunkEnd = hunk.newStart + Math.max(hunk.newLines, 1) - 1;
+    return hunk.newStart <= Math.max(startLine, endLine) && hunkEnd >= startLine;
+  });
+}
+
+export function formatUnifiedDiff(params: {
+  path: string;
+  hunks: DiffHunk[];
+  added?: boolean;
+  removed?: boolean;
+}) {
+  const header = [
+    params.added ? "--- /dev/null" : `--- a/${params.path}`,
+    params.removed ? "+++ /dev/null" : `+++ b/${params.path}`
+  ];
+  const body = params.hunks.flatMap((hunk) => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines
+  ]);
+
+  return `${[...header, ...body].join("\n")}\n`;
+}
+
+/**
+ * Builds a unified diff for one file. `before` is null for added files and `after` is null for
+ * removed ones; files over the size or edit-distance caps come back truncated without hunks.
+ */
+export function createFilePatch(params: {
+  path: string;
+  before: string | null;
+  after: string | null;
+  context?: number;
+}): FilePatch {
+  const before = params.before ?? "";
+  const after = params.after ?? "";
+  const tooLarge =
+    before.length > FILE_DIFF_MAX_CHARACTERS || after.length > FILE_DIFF_MAX_CHARACTERS;
+  const ops = tooLarge ? null : diffLines(splitLines(before), splitLines(after));
+
+  if (!ops) {
+    return { hunks: [], linesAdded: 0, linesRemoved: 0, patch: null, truncated: true };
+  }
+
+  const hunks = buildDiffHunks(ops, params.context);
+  return {
+    hunks,
+    linesAdded: ops.filter((op) => op.type === "insert").length,
+    linesRemoved: ops.filter((op) => op.type === "delete").length,
+    patch: hunks.length
+      ? formatUnifiedDiff({
+          path: params.path,
+          hunks,
+          added: params.before === null,
+          removed: params.after === null
+        })
+      : null,
+    truncated: false
+  };
+}
@@ -22,26 +22,24 @@ export function normalizePath(inputPath: string): string {
   return inputPath.replace(/\\/g, "/").replace(/^\.\//, "").trim();
 }
 
-export function createContentFingerprint(input: string): string {
-  return createHash("sha256").update(input).digest("hex");
+/**
+ * Maps `filePath` from under `fromPath` to the same position under `toPath`. `fromPath` may be
+ * a file or a directory; paths outside it return null.
+ */
+export function rebasePath(filePath: string, fromPath: string, toPath: string): string | null {
+  if (filePath === fromPath) {
+    return toPath;
+  }
+
+  if (!filePath.startsWith(`${fromPath}/`)) {
+    return null;
+  }
+
+  return `${toPath}${filePath.slice(fromPath.length)}`;
 }
 
-export function createFindingFingerprint(params: {
-  title: string;
-  filePath: string;
-  startLine: number;
-  endLine: number;
-  severity: string;
-}): string {
-  const canonical = [
-    params.title.toLowerCase().trim(),
-    normalizePath(params.filePath).toLowerCase(),
-    params.startLine,
-    params.endLine,
-    params.severity.toLowerCase().trim()
-  ].join("::");
-
-  return createHash("sha256").update(canonical).digest("hex");
+export function createContentFingerprint(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
 }
 
 export function safeRelativePath(baseDir: string, targetPath: string): string | null {
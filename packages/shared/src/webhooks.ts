@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import type { WebhookEventType } from "./enums";
+
+export const WEBHOOK_EVENT_HEADER = "X-Ton-Audit-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Ton-Audit-Delivery";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Ton-Audit-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Ton-Audit-Signature";
+
+export type WebhookEventEnvelope = {
+  id: string;
+  type: WebhookEventType;
+  projectId: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Receivers recompute the digest with their shared
+ * secret and should reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(params: { secret: string; timestamp: string; body: string }) {
+  const digest = createHmac("sha256", params.secret)
+    .update(`${params.timestamp}.${params.body}`)
+    .digest("hex");
+
+  return `sha256=${digest}`;
+}
+
+export function verifyWebhookSignature(params: {
+  secret: string;
+  timestamp: string;
+  body: string;
+  signature: string;
+}) {
+  const expected = Buffer.from(signWebhookPayload(params));
+  const received = Buffer.from(params.signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,144 @@
+import { crc32, deflateRawSync } from "node:zlib";
+
+export type ZipEntry = {
+  path: string;
+  content: Uint8Array;
+  modifiedAt?: Date;
+  /** Stored in the central directory, where extractors keep it out of the extracted tree. */
+  comment?: string;
+};
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20;
+// Upper byte 3 = UNIX, so the external attributes below carry file permissions.
+const VERSION_MADE_BY = (3 << 8) | VERSION_NEEDED;
+const REGULAR_FILE_ATTRIBUTES = (0o100644 << 16) >>> 0;
+// Without ZIP64 records, sizes, offsets and entry counts must fit the classic fields.
+const ZIP32_MAX_BYTES = 0xffffffff;
+const ZIP32_MAX_ENTRIES = 0xffff;
+const LOCAL_FILE_HEADER_SIZE = 30;
+
+function localHeaderSize(name: Buffer) {
+  return LOCAL_FILE_HEADER_SIZE + name.length;
+}
+
+function toDosDateTime(date: Date) {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+async function* zipChunks(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+  archiveComment: string
+): AsyncGenerator<Uint8Array> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+  let entryCount = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.path, "utf8");
+    const comment = Buffer.from(entry.comment ?? "", "utf8");
+    const deflated = deflateRawSync(entry.content);
+    const useDeflate = deflated.length < entry.content.length;
+    const data = useDeflate ? deflated : entry.content;
+    const checksum = crc32(entry.content);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    entryCount += 1;
+    if (
+      entryCount > ZIP32_MAX_ENTRIES ||
+      offset + localHeaderSize(name) + data.length > ZIP32_MAX_BYTES
+    ) {
+      throw new Error("Archive exceeds the ZIP size limits.");
+    }
+
+    const localHeader = Buffer.alloc(LOCAL_FILE_HEADER_SIZE);
+    localHeader.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    localHeader.writeUInt16LE(VERSION_NEEDED, 4);
+    localHeader.writeUInt16LE(UTF8_FLAG, 6);
+    localHeader.writeUInt16LE(useDeflate ? METHOD_DEFLATE : METHOD_STORE, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(data.length, 18);
+    localHeader.writeUInt32LE(entry.content.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    centralHeader.writeUInt16LE(VERSION_MADE_BY, 4);
+    localHeader.copy(centralHeader, 6, 4, 28);
+    centralHeader.writeUInt16LE(0, 30);
+    centralHeader.writeUInt16LE(comment.length, 32);
+    centralHeader.writeUInt16LE(0, 34);
+    centralHeader.writeUInt16LE(0, 36);
+    centralHeader.writeUInt32LE(REGULAR_FILE_ATTRIBUTES, 38);
+    centralHeader.writeUInt32LE(offset, 42);
+    centralDirectory.push(centralHeader, name, comment);
+
+    yield Buffer.concat([localHeader, name]);
+    yield data;
+    offset += localHeaderSize(name) + data.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const comment = Buffer.from(archiveComment, "utf8");
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(comment.length, 20);
+
+  yield Buffer.concat([directory, end, comment]);
+}
+
+/**
+ * Streams a ZIP archive. Each entry is compressed in memory on its own, so only one file is held
+ * at a time; entries are deflated unless that would make them larger.
+ */
+export function createZipStream(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+  options: { comment?: string } = {}
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries, options.comment ?? "");
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+/** Builds the whole archive in memory, for callers that upload it in a single request. */
+export async function createZipArchive(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+  options: { comment?: string } = {}
+) {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of zipChunks(entries, options.comment ?? "")) {
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}